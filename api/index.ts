@@ -134,9 +134,15 @@ app.get('/api', (_req: express.Request, res: express.Response) => {
           buyer: 'POST /api/auth/register/buyer',
         },
         login: 'POST /api/auth/login',
+        otpRequest: 'POST /api/auth/otp/request',
+        otpVerify: 'POST /api/auth/otp/verify',
         profile: 'GET /api/auth/me',
+        notificationPreferences: 'GET /api/auth/me/notification-preferences',
+        updateNotificationPreferences: 'PUT /api/auth/me/notification-preferences',
         refresh: 'POST /api/auth/refresh',
         logout: 'POST /api/auth/logout',
+        sessions: 'GET /api/auth/sessions',
+        revokeSession: 'DELETE /api/auth/sessions/:id',
         forgotPassword: 'POST /api/auth/forgot-password',
         resetPassword: 'POST /api/auth/reset-password',
         changePassword: 'POST /api/auth/change-password',
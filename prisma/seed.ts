@@ -103,6 +103,38 @@ async function main() {
   }
   console.log('✅ Produce categories seeded\n');
 
+  // Seed Ghana public holidays with a fixed date (recurring every year). Movable holidays
+  // (Good Friday, Easter Monday, Eid al-Fitr, Eid al-Adha, Farmers' Day) are added yearly by admins.
+  console.log('📅 Seeding public holidays...');
+  const fixedHolidays = [
+    { month: 1, day: 1, name: "New Year's Day" },
+    { month: 1, day: 7, name: 'Constitution Day' },
+    { month: 3, day: 6, name: 'Independence Day' },
+    { month: 5, day: 1, name: 'May Day' },
+    { month: 7, day: 1, name: 'Republic Day' },
+    { month: 8, day: 4, name: "Founders' Day" },
+    { month: 9, day: 21, name: 'Kwame Nkrumah Memorial Day' },
+    { month: 12, day: 25, name: 'Christmas Day' },
+    { month: 12, day: 26, name: 'Boxing Day' },
+  ];
+
+  for (const holiday of fixedHolidays) {
+    const date = new Date(Date.UTC(2000, holiday.month - 1, holiday.day));
+    const existing = await prisma.publicHoliday.findFirst({
+      where: { name: holiday.name, recurring: true },
+    });
+
+    if (!existing) {
+      await prisma.publicHoliday.create({
+        data: { date, name: holiday.name, recurring: true },
+      });
+      console.log(`   ✅ Created holiday: ${holiday.name}`);
+    } else {
+      console.log(`   ⏭️  Holiday already exists: ${holiday.name}`);
+    }
+  }
+  console.log('✅ Public holidays seeded\n');
+
   // Seed default performance rules if none exist (Milestone 3)
   console.log('📊 Seeding performance rules...');
   await seedDefaultPerformanceRulesIfEmpty();
@@ -0,0 +1,25 @@
+/**
+ * One-off migration: turn orders created before order lines into one-line orders and link their
+ * delivery assignments to that line. Safe to run more than once.
+ * Run from backend directory after `prisma db push`: npx tsx scripts/backfillOrderLines.ts
+ */
+import { prisma } from '../src/config/database.js'; // Prisma reads DATABASE_URL from backend/.env
+import { backfillOrderLines } from '../src/services/orderLine.service.js';
+
+async function main() {
+  console.log('Migrating orders without lines to one-line orders...');
+  try {
+    const { migratedOrders, unlinkedAssignments } = await backfillOrderLines();
+    console.log(`Done. Orders migrated: ${migratedOrders}.`);
+    if (unlinkedAssignments > 0) {
+      console.warn(`${unlinkedAssignments} delivery assignment(s) are still not linked to an order line.`);
+    }
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main();
@@ -1,50 +1,31 @@
 /**
- * One-off script to send a test SMS via Twilio.
- * Run from backend directory: npx tsx scripts/sendTestSms.ts
+ * One-off script to send a test SMS through the configured SMS provider (SMS_PROVIDER / Twilio).
+ * Run from backend directory: npx tsx scripts/sendTestSms.ts [toNumber]
+ * Use SMS_PROVIDER=console to check the flow without sending a real message.
  */
-import { config } from 'dotenv';
+import { getSmsProvider } from '../src/providers/sms.provider.js'; // env.ts loads .env from backend/
 
-config(); // load .env from backend/
-
-const TO_NUMBER = '+923105232553';
-const MESSAGE = 'Test from Sourceli – Twilio is working!';
+const TO_NUMBER = process.argv[2] ?? '+923105232553';
+const MESSAGE = 'Test from Sourceli – SMS is working!';
 
 async function main() {
-  const accountSid = process.env.TWILIO_ACCOUNT_SID;
-  const authToken = process.env.TWILIO_AUTH_TOKEN;
-  const from = process.env.TWILIO_FROM_NUMBER;
+  const provider = getSmsProvider();
 
-  if (!accountSid || !authToken || !from) {
-    console.error('Missing Twilio config. Set TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_FROM_NUMBER in backend/.env');
+  if (!provider) {
+    console.error(
+      'No SMS provider configured. Set SMS_PROVIDER, or TWILIO_ACCOUNT_SID, TWILIO_AUTH_TOKEN, TWILIO_FROM_NUMBER in backend/.env'
+    );
     process.exit(1);
   }
 
-  const params = new URLSearchParams();
-  params.set('To', TO_NUMBER);
-  params.set('From', from);
-  params.set('Body', MESSAGE);
-
-  console.log('Sending test SMS to', TO_NUMBER, '...');
-  const res = await fetch(
-    `https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`,
-    {
-      method: 'POST',
-      headers: {
-        Authorization: 'Basic ' + Buffer.from(`${accountSid}:${authToken}`).toString('base64'),
-        'Content-Type': 'application/x-www-form-urlencoded',
-      },
-      body: params.toString(),
-    }
-  );
-
-  if (!res.ok) {
-    const data = await res.json().catch(() => ({}));
-    console.error('Twilio error:', res.status, data);
+  console.log(`Sending test SMS to ${TO_NUMBER} via ${provider.name}...`);
+  try {
+    const result = await provider.send({ to: TO_NUMBER, body: MESSAGE });
+    console.log('Sent. Message ID:', result.messageId, `(${result.response})`);
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
     process.exit(1);
   }
-
-  const data = await res.json();
-  console.log('Sent. SID:', data.sid);
 }
 
 main();
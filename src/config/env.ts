@@ -3,6 +3,10 @@ import * as dotenv from 'dotenv';
 
 dotenv.config();
 
+// Treat `KEY=` (empty, as in .env.example) as unset
+const optionalEnum = <T extends [string, ...string[]]>(values: T) =>
+  z.preprocess((v) => (v === '' ? undefined : v), z.enum(values).optional());
+
 const envSchema = z.object({
   NODE_ENV: z.enum(['development', 'production', 'test']).default('development'),
   PORT: z.string().default('3001'),
@@ -18,14 +22,30 @@ const envSchema = z.object({
   CLOUDINARY_CLOUD_NAME: z.string().optional(),
   CLOUDINARY_API_KEY: z.string().optional(),
   CLOUDINARY_API_SECRET: z.string().optional(),
+  // Notifications: provider selection (see src/providers). If unset, SendGrid/Twilio are used when
+  // their credentials are set, otherwise that channel is disabled. file/console are for development.
+  EMAIL_PROVIDER: optionalEnum(['sendgrid', 'smtp', 'file', 'console', 'none']),
+  SMS_PROVIDER: optionalEnum(['twilio', 'file', 'console', 'none']),
+  // Directory the file transport appends messages to (email.log, sms.log)
+  NOTIFICATION_FILE_DIR: z.string().default('.notifications'),
   // Notifications: Email (SendGrid)
   SENDGRID_API_KEY: z.string().optional(),
   SENDGRID_FROM_EMAIL: z.string().optional(),
+  // Notifications: Email (SMTP)
+  SMTP_HOST: z.string().optional(),
+  SMTP_PORT: z.preprocess((v) => (v === '' ? undefined : v), z.coerce.number().int().positive().default(587)),
+  SMTP_SECURE: z.string().optional().transform((v) => v === 'true'),
+  SMTP_USER: z.string().optional(),
+  SMTP_PASS: z.string().optional(),
+  SMTP_FROM_EMAIL: z.string().optional(),
   // Notifications: SMS (Twilio)
   TWILIO_ACCOUNT_SID: z.string().optional(),
   TWILIO_AUTH_TOKEN: z.string().optional(),
   TWILIO_FROM_NUMBER: z.string().optional(),
-  // Pusher (real-time notifications). If not set, real-time push is disabled.
+  // Real-time notifications: pusher | sse | none. If unset, Pusher is used when configured,
+  // otherwise the built-in Server-Sent Events stream (GET /api/system/notifications/stream).
+  REALTIME_PROVIDER: optionalEnum(['pusher', 'sse', 'none']),
+  // Pusher (real-time notifications)
   PUSHER_APP_ID: z.string().optional(),
   PUSHER_KEY: z.string().optional(),
   PUSHER_SECRET: z.string().optional(),
@@ -52,6 +52,10 @@ import {
   requestOrderModificationSchema,
   createOrderByAdminSchema,
   updateOrderByAdminSchema,
+  createHolidaySchema,
+  updateHolidaySchema,
+  holidayFiltersSchema,
+  updateAutoApprovalPolicySchema,
 } from '../validators/admin.validator.js';
 import { buyerRegistrationSchema } from '../validators/auth.validator.js';
 import { createSupplierSchema } from '../validators/admin.validator.js';
@@ -68,16 +72,50 @@ import {
   respondToSupportTicket,
   updateSupportTicket,
   createSupportTicketByAdmin,
+  addTicketMessageByAdmin,
 } from '../services/supportTicket.service.js';
 import {
   respondToSupportTicketSchema,
   updateSupportTicketSchema,
   createSupportTicketByAdminSchema,
+  supportTicketQueueQuerySchema,
+  adminTicketMessageSchema,
 } from '../validators/supportTicket.validator.js';
 import { createAuditLog, getAuditLogs, getAuditLogsCount, getAuditLogById, updateAuditLog, createAuditLogEntry } from '../utils/auditLog.js';
-import { notifyUser } from '../services/notificationDelivery.service.js';
-import { wrapAsync } from '../middleware/errorHandler.js';
+import { notifyUserTemplate } from '../services/notificationDelivery.service.js';
+import {
+  listNotificationDeliveries,
+  getNotificationDeliveryById,
+  resendNotificationDelivery,
+} from '../services/notificationOutbox.service.js';
+import {
+  listNotificationTemplates,
+  renderNotification,
+  getTemplateSample,
+} from '../templates/notificationTemplates.js';
+import { notificationTemplatePreviewSchema } from '../validators/notification.validator.js';
+import {
+  createBroadcast,
+  listBroadcasts,
+  getBroadcastById,
+  listBroadcastRecipients,
+  cancelBroadcast,
+  countSegmentRecipients,
+} from '../services/broadcast.service.js';
+import {
+  createBroadcastSchema,
+  broadcastFiltersSchema,
+  broadcastSegmentSchema,
+} from '../validators/broadcast.validator.js';
+import { wrapAsync, createError } from '../middleware/errorHandler.js';
+import { DeliveryChannel, DeliveryStatus } from '@prisma/client';
 import { createProduceCategory } from '../services/system.service.js';
+import { listHolidays, createHoliday, updateHoliday, deleteHoliday } from '../services/holiday.service.js';
+import {
+  getAutoApprovalPolicy,
+  updateAutoApprovalPolicy,
+  evaluateAutoApproval,
+} from '../services/autoApproval.service.js';
 import {
   getAdminBuyerOrderPayments,
   confirmBuyerOrderPaymentByAdmin,
@@ -766,6 +804,7 @@ export const createOrderHandler = wrapAsync(
 
     const order = await createOrderByAdmin(adminId, {
       buyerId: validatedData.buyerId,
+      lines: validatedData.lines,
       productType: validatedData.productType,
       quantity: validatedData.quantity,
       orderType: validatedData.orderType as 'ONE_TIME' | 'STANDING',
@@ -784,6 +823,7 @@ export const createOrderHandler = wrapAsync(
         buyerId: order.buyerId,
         productType: order.productType,
         quantity: order.quantity,
+        lines: order.lines.map((l) => ({ productType: l.productType, quantity: l.quantity })),
       },
       ipAddress: req.ip,
     });
@@ -806,6 +846,7 @@ export const updateOrderHandler = wrapAsync(
     const adminId = req.user!.userId;
     const body = req.body as Record<string, unknown>;
     const updateData: Record<string, unknown> = {};
+    if (body.lines !== undefined) updateData.lines = body.lines;
     if (body.productType !== undefined) updateData.productType = body.productType;
     if (body.quantity !== undefined) updateData.quantity = body.quantity;
     if (body.deliveryDate !== undefined) updateData.deliveryDate = body.deliveryDate;
@@ -815,6 +856,7 @@ export const updateOrderHandler = wrapAsync(
     const validatedData = updateOrderByAdminSchema.parse(updateData);
 
     const order = await updateOrderByAdmin(id, adminId, {
+      lines: validatedData.lines,
       productType: validatedData.productType,
       quantity: validatedData.quantity,
       deliveryDate: validatedData.deliveryDate,
@@ -1123,6 +1165,166 @@ export const createProduceCategoryHandler = wrapAsync(
   }
 );
 
+// --- Holiday calendar (standing order generation) ---
+
+/**
+ * List public holidays
+ * GET /api/admin/holidays?year=2026
+ */
+export const getHolidaysHandler = wrapAsync(
+  async (req: AuthRequest, res: Response) => {
+    const filters = holidayFiltersSchema.parse(req.query);
+    const holidays = await listHolidays(filters);
+    res.json({
+      success: true,
+      data: holidays,
+      count: holidays.length,
+    });
+  }
+);
+
+/**
+ * Add a public holiday
+ * POST /api/admin/holidays
+ */
+export const createHolidayHandler = wrapAsync(
+  async (req: AuthRequest, res: Response) => {
+    const adminId = req.user!.userId;
+    const validatedData = createHolidaySchema.parse(req.body);
+    const holiday = await createHoliday(adminId, validatedData);
+
+    await createAuditLog({
+      userId: adminId,
+      actionType: 'HOLIDAY_CREATED',
+      entityType: 'PublicHoliday',
+      entityId: holiday.id,
+      details: { date: holiday.date, name: holiday.name, recurring: holiday.recurring },
+      ipAddress: req.ip,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Holiday added.',
+      data: holiday,
+    });
+  }
+);
+
+/**
+ * Update a public holiday
+ * PATCH /api/admin/holidays/:id
+ */
+export const updateHolidayHandler = wrapAsync(
+  async (req: AuthRequest, res: Response) => {
+    const adminId = req.user!.userId;
+    const { id } = req.params;
+    const validatedData = updateHolidaySchema.parse(req.body);
+    const holiday = await updateHoliday(id, validatedData);
+
+    await createAuditLog({
+      userId: adminId,
+      actionType: 'HOLIDAY_UPDATED',
+      entityType: 'PublicHoliday',
+      entityId: holiday.id,
+      details: { date: holiday.date, name: holiday.name, recurring: holiday.recurring },
+      ipAddress: req.ip,
+    });
+
+    res.json({
+      success: true,
+      message: 'Holiday updated.',
+      data: holiday,
+    });
+  }
+);
+
+/**
+ * Remove a public holiday
+ * DELETE /api/admin/holidays/:id
+ */
+export const deleteHolidayHandler = wrapAsync(
+  async (req: AuthRequest, res: Response) => {
+    const adminId = req.user!.userId;
+    const { id } = req.params;
+    const holiday = await deleteHoliday(id);
+
+    await createAuditLog({
+      userId: adminId,
+      actionType: 'HOLIDAY_DELETED',
+      entityType: 'PublicHoliday',
+      entityId: holiday.id,
+      details: { date: holiday.date, name: holiday.name },
+      ipAddress: req.ip,
+    });
+
+    res.json({
+      success: true,
+      message: 'Holiday removed.',
+    });
+  }
+);
+
+// --- Auto-approval policy ---
+
+/**
+ * Get the active auto-approval policy (id null until one is saved)
+ * GET /api/admin/auto-approval-policy
+ */
+export const getAutoApprovalPolicyHandler = wrapAsync(
+  async (_req: AuthRequest, res: Response) => {
+    const policy = await getAutoApprovalPolicy();
+    res.json({
+      success: true,
+      data: policy,
+    });
+  }
+);
+
+/**
+ * Update the auto-approval policy. Creates a new policy row (history preserved); applies to orders
+ * created from now on.
+ * PUT /api/admin/auto-approval-policy
+ */
+export const updateAutoApprovalPolicyHandler = wrapAsync(
+  async (req: AuthRequest, res: Response) => {
+    const adminId = req.user!.userId;
+    const validatedData = updateAutoApprovalPolicySchema.parse(req.body);
+    const policy = await updateAutoApprovalPolicy(adminId, validatedData);
+
+    await createAuditLog({
+      userId: adminId,
+      actionType: 'AUTO_APPROVAL_POLICY_UPDATED',
+      entityType: 'AutoApprovalPolicy',
+      entityId: policy.id,
+      details: { changes: validatedData },
+      ipAddress: req.ip,
+    });
+
+    res.json({
+      success: true,
+      message: policy.enabled
+        ? 'Auto-approval policy updated. New orders that pass every rule are approved automatically.'
+        : 'Auto-approval policy updated. Auto-approval is off.',
+      data: policy,
+    });
+  }
+);
+
+/**
+ * Check an order against the active auto-approval policy without approving it
+ * GET /api/admin/orders/:id/auto-approval
+ */
+export const evaluateAutoApprovalHandler = wrapAsync(
+  async (req: AuthRequest, res: Response) => {
+    const { id } = req.params;
+    const evaluation = await evaluateAutoApproval(id);
+    res.json({
+      success: true,
+      data: evaluation,
+    });
+  }
+);
+
 // --- Audit logs (reportable) ---
 
 /**
@@ -1266,16 +1468,17 @@ export const createAuditLogManualHandler = wrapAsync(
 // --- Support tickets ---
 
 /**
- * List all support tickets (admin). Optional ?status=OPEN|IN_PROGRESS|RESOLVED
+ * Support ticket queue (admin), each ticket with its SLA state
  * GET /api/admin/support-tickets
+ * Query: status, category, priority, assignedTo (me | unassigned | admin ID), sort (createdAt | breachRisk), limit
  */
 export const getSupportTicketsHandler = wrapAsync(
   async (req: AuthRequest, res: Response) => {
-    const status = req.query.status as string | undefined;
-    const limit = req.query.limit ? Number(req.query.limit) : undefined;
+    const { assignedTo, ...query } = supportTicketQueueQuerySchema.parse(req.query);
     const tickets = await listAllSupportTickets({
-      status: status as 'OPEN' | 'IN_PROGRESS' | 'RESOLVED' | undefined,
-      limit,
+      ...query,
+      assignedToId:
+        assignedTo === 'me' ? req.user!.userId : assignedTo === 'unassigned' ? null : assignedTo,
     });
 
     res.json({
@@ -1312,17 +1515,9 @@ export const respondToSupportTicketHandler = wrapAsync(
     const { id } = req.params;
     const validatedData = respondToSupportTicketSchema.parse(req.body);
 
+    // Adds the response to the conversation and notifies the ticket owner
     const ticket = await respondToSupportTicket(id, adminId, validatedData);
 
-    await notifyUser(
-      ticket.userId,
-      'SUPPORT_TICKET_RESPONSE',
-      'Support request updated',
-      'An admin has responded to your support request. Check "My support requests" on your Performance page (or Support page) for details.',
-      { ticketId: ticket.id, subject: ticket.subject },
-      { sendEmail: true, sendSms: false }
-    ).catch((err) => console.error('[Support ticket] Notify failed:', err));
-
     await createAuditLog({
       userId: adminId,
       actionType: 'SUPPORT_TICKET_RESPONDED',
@@ -1341,9 +1536,40 @@ export const respondToSupportTicketHandler = wrapAsync(
 );
 
 /**
- * Admin update support ticket (edit response, close, escalate)
+ * Admin reply or internal note on a support ticket
+ * POST /api/admin/support-tickets/:id/messages
+ * multipart/form-data: body, isInternal? ("true" for an admin-only note), status?, attachments (up to 5 images/PDFs)
+ */
+export const addSupportTicketMessageHandler = wrapAsync(
+  async (req: AuthRequest, res: Response) => {
+    const adminId = req.user!.userId;
+    const { id } = req.params;
+    const validatedData = adminTicketMessageSchema.parse(req.body);
+    const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+
+    const message = await addTicketMessageByAdmin(id, adminId, validatedData, files);
+
+    await createAuditLog({
+      userId: adminId,
+      actionType: message.isInternal ? 'SUPPORT_TICKET_NOTE_ADDED' : 'SUPPORT_TICKET_RESPONDED',
+      entityType: 'SupportTicket',
+      entityId: id,
+      details: { messageId: message.id, status: validatedData.status ?? null },
+      ipAddress: req.ip,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: message.isInternal ? 'Note added.' : 'Reply sent.',
+      data: message,
+    });
+  }
+);
+
+/**
+ * Admin update support ticket (edit response, close, escalate, triage, assign)
  * PATCH /api/admin/support-tickets/:id
- * Body: { status?, adminResponse? } — at least one required
+ * Body: { status?, adminResponse?, category?, priority?, assignedToId? (null unassigns) } — at least one required
  */
 export const updateSupportTicketHandler = wrapAsync(
   async (req: AuthRequest, res: Response) => {
@@ -1354,11 +1580,10 @@ export const updateSupportTicketHandler = wrapAsync(
     const ticket = await updateSupportTicket(id, adminId, validatedData);
 
     if (validatedData.adminResponse !== undefined && validatedData.adminResponse.trim() !== '') {
-      await notifyUser(
+      await notifyUserTemplate(
         ticket.userId,
         'SUPPORT_TICKET_RESPONSE',
-        'Support request updated',
-        'An admin has responded to your support request. Check "My support requests" on your Performance page (or Support page) for details.',
+        { subject: ticket.subject },
         { ticketId: ticket.id, subject: ticket.subject },
         { sendEmail: true, sendSms: false }
       ).catch((err) => console.error('[Support ticket] Notify failed:', err));
@@ -1369,7 +1594,12 @@ export const updateSupportTicketHandler = wrapAsync(
       actionType: 'SUPPORT_TICKET_UPDATED',
       entityType: 'SupportTicket',
       entityId: ticket.id,
-      details: { status: ticket.status },
+      details: {
+        status: ticket.status,
+        category: ticket.category,
+        priority: ticket.priority,
+        assignedToId: ticket.assignedToId,
+      },
       ipAddress: req.ip,
     });
 
@@ -1384,24 +1614,21 @@ export const updateSupportTicketHandler = wrapAsync(
 /**
  * Admin create support ticket on behalf of a user
  * POST /api/admin/support-tickets
- * Body: { userId, subject, message }
+ * Body: { userId, subject, message, category?, priority?, assignedToId? }
  */
 export const createSupportTicketByAdminHandler = wrapAsync(
   async (req: AuthRequest, res: Response) => {
     const adminId = req.user!.userId;
-    const validatedData = createSupportTicketByAdminSchema.parse(req.body);
+    const { userId, ...validatedData } = createSupportTicketByAdminSchema.parse(req.body);
 
-    const ticket = await createSupportTicketByAdmin(validatedData.userId, {
-      subject: validatedData.subject,
-      message: validatedData.message,
-    });
+    const ticket = await createSupportTicketByAdmin(userId, adminId, validatedData);
 
     await createAuditLog({
       userId: adminId,
       actionType: 'SUPPORT_TICKET_CREATED_BY_ADMIN',
       entityType: 'SupportTicket',
       entityId: ticket.id,
-      details: { userId: validatedData.userId },
+      details: { userId, category: ticket.category, priority: ticket.priority, assignedToId: ticket.assignedToId },
       ipAddress: req.ip,
     });
 
@@ -1412,3 +1639,266 @@ export const createSupportTicketByAdminHandler = wrapAsync(
     });
   }
 );
+
+/**
+ * Notification delivery log (email/SMS/push outbox)
+ * GET /api/admin/notification-deliveries
+ * Query: status, channel, userId, notificationId, startDate, endDate, limit, offset
+ */
+export const getNotificationDeliveriesHandler = wrapAsync(
+  async (req: AuthRequest, res: Response) => {
+    const status = req.query.status as string | undefined;
+    const channel = req.query.channel as string | undefined;
+    const startDate = req.query.startDate as string | undefined;
+    const endDate = req.query.endDate as string | undefined;
+    const limit = req.query.limit ? Math.min(500, Math.max(1, Number(req.query.limit))) : 100;
+    const offset = req.query.offset ? Math.max(0, Number(req.query.offset)) : 0;
+
+    if (status && !Object.values(DeliveryStatus).includes(status as DeliveryStatus)) {
+      throw createError(
+        `Invalid status. Expected one of: ${Object.values(DeliveryStatus).join(', ')}`,
+        400,
+        'INVALID_STATUS'
+      );
+    }
+    if (channel && !Object.values(DeliveryChannel).includes(channel as DeliveryChannel)) {
+      throw createError(
+        `Invalid channel. Expected one of: ${Object.values(DeliveryChannel).join(', ')}`,
+        400,
+        'INVALID_CHANNEL'
+      );
+    }
+
+    const result = await listNotificationDeliveries({
+      status: status as DeliveryStatus | undefined,
+      channel: channel as DeliveryChannel | undefined,
+      userId: (req.query.userId as string) || undefined,
+      notificationId: (req.query.notificationId as string) || undefined,
+      startDate: startDate ? new Date(startDate) : undefined,
+      endDate: endDate ? new Date(endDate) : undefined,
+      limit,
+      offset,
+    });
+
+    res.json({
+      success: true,
+      data: result.deliveries,
+      total: result.total,
+      statusCounts: result.statusCounts,
+      limit,
+      offset,
+    });
+  }
+);
+
+/**
+ * Notification delivery by ID (full content and provider response)
+ * GET /api/admin/notification-deliveries/:id
+ */
+export const getNotificationDeliveryByIdHandler = wrapAsync(
+  async (req: AuthRequest, res: Response) => {
+    const delivery = await getNotificationDeliveryById(req.params.id);
+
+    res.json({
+      success: true,
+      data: delivery,
+    });
+  }
+);
+
+/**
+ * Re-send a failed notification delivery
+ * POST /api/admin/notification-deliveries/:id/resend
+ */
+export const resendNotificationDeliveryHandler = wrapAsync(
+  async (req: AuthRequest, res: Response) => {
+    const adminId = req.user!.userId;
+    const delivery = await resendNotificationDelivery(req.params.id);
+
+    await createAuditLog({
+      userId: adminId,
+      actionType: 'NOTIFICATION_DELIVERY_RESENT',
+      entityType: 'NotificationDelivery',
+      entityId: delivery.id,
+      details: { channel: delivery.channel, recipient: delivery.recipient, status: delivery.status },
+      ipAddress: req.ip,
+    });
+
+    res.json({
+      success: true,
+      message:
+        delivery.status === 'SENT'
+          ? 'Message re-sent.'
+          : 'Re-send failed; the message will be retried automatically.',
+      data: delivery,
+    });
+  }
+);
+
+/**
+ * Notification template catalog (keys, variables, locales)
+ * GET /api/admin/notification-templates
+ */
+export const getNotificationTemplatesHandler = wrapAsync(
+  async (_req: AuthRequest, res: Response) => {
+    res.json({
+      success: true,
+      data: listNotificationTemplates(),
+    });
+  }
+);
+
+/**
+ * Preview a notification template as in-app, email and SMS text
+ * POST /api/admin/notification-templates/preview
+ * Body: { key, locale?, variables? } — missing variables use the template's sample values
+ */
+export const previewNotificationTemplateHandler = wrapAsync(
+  async (req: AuthRequest, res: Response) => {
+    const { key, locale, variables } = notificationTemplatePreviewSchema.parse(req.body);
+
+    res.json({
+      success: true,
+      data: renderNotification(key, { ...getTemplateSample(key), ...variables }, locale),
+    });
+  }
+);
+
+/**
+ * Create a broadcast to a segment of farmers/buyers (sent now, or at scheduledAt)
+ * POST /api/admin/broadcasts
+ * Body: { title, message, segment?: { roles?, statuses?, regions?, produceCategories?, tiers?, buyerTypes? },
+ *         channels?: { inApp?, email?, sms? }, scheduledAt? }
+ */
+export const createBroadcastHandler = wrapAsync(
+  async (req: AuthRequest, res: Response) => {
+    const adminId = req.user!.userId;
+    const validatedData = createBroadcastSchema.parse(req.body);
+
+    const broadcast = await createBroadcast(adminId, validatedData);
+
+    await createAuditLog({
+      userId: adminId,
+      actionType: 'BROADCAST_CREATED',
+      entityType: 'Broadcast',
+      entityId: broadcast.id,
+      details: {
+        title: broadcast.title,
+        segment: validatedData.segment,
+        channels: validatedData.channels,
+        scheduledAt: broadcast.scheduledAt,
+        recipientCount: broadcast.recipientCount,
+      },
+      ipAddress: req.ip,
+    });
+
+    res.status(201).json({
+      success: true,
+      message:
+        broadcast.scheduledAt > new Date()
+          ? 'Broadcast scheduled.'
+          : `Broadcast is being sent to ${broadcast.recipientCount} user(s).`,
+      data: broadcast,
+    });
+  }
+);
+
+/**
+ * Count the users a segment matches (compose screen)
+ * POST /api/admin/broadcasts/audience
+ * Body: { roles?, statuses?, regions?, produceCategories?, tiers?, buyerTypes? }
+ */
+export const getBroadcastAudienceHandler = wrapAsync(
+  async (req: AuthRequest, res: Response) => {
+    const segment = broadcastSegmentSchema.parse(req.body ?? {});
+    const recipientCount = await countSegmentRecipients(segment);
+
+    res.json({
+      success: true,
+      data: { recipientCount },
+    });
+  }
+);
+
+/**
+ * Broadcast history
+ * GET /api/admin/broadcasts
+ * Query: status, limit, offset
+ */
+export const getBroadcastsHandler = wrapAsync(
+  async (req: AuthRequest, res: Response) => {
+    const filters = broadcastFiltersSchema.parse(req.query);
+    const result = await listBroadcasts(filters);
+
+    res.json({
+      success: true,
+      data: result.broadcasts,
+      total: result.total,
+      limit: filters.limit,
+      offset: filters.offset,
+    });
+  }
+);
+
+/**
+ * Broadcast by ID with delivery statistics
+ * GET /api/admin/broadcasts/:id
+ */
+export const getBroadcastByIdHandler = wrapAsync(
+  async (req: AuthRequest, res: Response) => {
+    const broadcast = await getBroadcastById(req.params.id);
+
+    res.json({
+      success: true,
+      data: broadcast,
+    });
+  }
+);
+
+/**
+ * Per-recipient delivery record for a broadcast
+ * GET /api/admin/broadcasts/:id/recipients
+ * Query: limit, offset
+ */
+export const getBroadcastRecipientsHandler = wrapAsync(
+  async (req: AuthRequest, res: Response) => {
+    const limit = req.query.limit ? Math.min(500, Math.max(1, Number(req.query.limit))) : 100;
+    const offset = req.query.offset ? Math.max(0, Number(req.query.offset)) : 0;
+
+    const result = await listBroadcastRecipients(req.params.id, { limit, offset });
+
+    res.json({
+      success: true,
+      data: result.recipients,
+      total: result.total,
+      limit,
+      offset,
+    });
+  }
+);
+
+/**
+ * Cancel a scheduled (or still sending) broadcast
+ * POST /api/admin/broadcasts/:id/cancel
+ */
+export const cancelBroadcastHandler = wrapAsync(
+  async (req: AuthRequest, res: Response) => {
+    const adminId = req.user!.userId;
+    const broadcast = await cancelBroadcast(req.params.id);
+
+    await createAuditLog({
+      userId: adminId,
+      actionType: 'BROADCAST_CANCELLED',
+      entityType: 'Broadcast',
+      entityId: broadcast.id,
+      details: { title: broadcast.title, recipientsReached: broadcast.stats.recipients },
+      ipAddress: req.ip,
+    });
+
+    res.json({
+      success: true,
+      message: 'Broadcast cancelled.',
+      data: broadcast,
+    });
+  }
+);
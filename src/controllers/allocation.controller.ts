@@ -3,6 +3,7 @@ import { AuthRequest } from '../middleware/auth.js';
 import {
   getAllocationData,
   createDeliveryAssignments,
+  createBatchDeliveryAssignments,
   updateAssignment,
   deleteAssignment,
   confirmDelivery,
@@ -11,12 +12,21 @@ import {
   createDeliveryAssignmentByAdmin,
   type ConfirmDeliveryData,
 } from '../services/allocation.service.js';
+import { suggestAllocation } from '../services/autoAllocation.service.js';
+import {
+  listDeliveryAcknowledgements,
+  reviewDeliveryAcknowledgement,
+} from '../services/deliveryAcknowledgement.service.js';
 import {
   createAllocationSchema,
+  batchAllocationSchema,
   updateAssignmentSchema,
   createDeliveryByAdminSchema,
+  suggestAllocationSchema,
+  deliveryAcknowledgementFiltersSchema,
+  reviewDeliveryAcknowledgementSchema,
 } from '../validators/allocation.validator.js';
-import { wrapAsync } from '../middleware/errorHandler.js';
+import { wrapAsync, createError } from '../middleware/errorHandler.js';
 import { createAuditLog } from '../utils/auditLog.js';
 
 /**
@@ -64,6 +74,7 @@ export const createAssignmentsHandler = wrapAsync(
         entityId: assignment.id,
         details: {
           orderId: result.order.id,
+          orderLineId: assignment.orderLineId,
           farmerId: assignment.farmerId,
           assignedQuantity: assignment.assignedQuantity,
           deliveryDate: assignment.deliveryDate,
@@ -80,6 +91,112 @@ export const createAssignmentsHandler = wrapAsync(
   }
 );
 
+/**
+ * Create delivery assignments for many orders in one transaction
+ * POST /api/admin/allocations/batch
+ */
+export const createBatchAssignmentsHandler = wrapAsync(
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Authentication required',
+      });
+      return;
+    }
+
+    const validatedData = batchAllocationSchema.parse(req.body);
+    const result = await createBatchDeliveryAssignments(req.user.userId, validatedData.orders);
+
+    for (const order of result.orders) {
+      for (const assignment of order.assignments) {
+        await createAuditLog({
+          userId: req.user.userId,
+          actionType: 'DELIVERY_ASSIGNMENT_CREATED',
+          entityType: 'DeliveryAssignment',
+          entityId: assignment.id,
+          details: {
+            orderId: order.orderId,
+            orderLineId: assignment.orderLineId,
+            farmerId: assignment.farmerId,
+            assignedQuantity: assignment.assignedQuantity,
+            deliveryDate: assignment.deliveryDate,
+            source: 'BATCH_ALLOCATION',
+          },
+          ipAddress: req.ip,
+        });
+      }
+    }
+
+    res.status(201).json({
+      success: true,
+      message: `Delivery assignments created for ${result.totalOrders} orders`,
+      data: result,
+    });
+  }
+);
+
+/**
+ * Suggest an allocation split for an order; with { accept: true } the suggestion is created as-is
+ * POST /api/admin/allocations/:orderId/suggest
+ */
+export const suggestAllocationHandler = wrapAsync(
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Authentication required',
+      });
+      return;
+    }
+
+    const { orderId } = req.params;
+    const { accept } = suggestAllocationSchema.parse(req.body ?? {});
+    const suggestion = await suggestAllocation(orderId);
+
+    if (!accept) {
+      res.status(200).json({
+        success: true,
+        data: suggestion,
+      });
+      return;
+    }
+
+    if (suggestion.assignments.length === 0) {
+      throw createError('No farmer has remaining availability for this order', 400, 'NO_AVAILABLE_FARMERS');
+    }
+
+    const result = await createDeliveryAssignments(orderId, req.user.userId, {
+      orderId,
+      assignments: suggestion.assignments,
+    });
+
+    for (const assignment of result.assignments) {
+      await createAuditLog({
+        userId: req.user.userId,
+        actionType: 'DELIVERY_ASSIGNMENT_CREATED',
+        entityType: 'DeliveryAssignment',
+        entityId: assignment.id,
+        details: {
+          orderId: result.order.id,
+          orderLineId: assignment.orderLineId,
+          farmerId: assignment.farmerId,
+          assignedQuantity: assignment.assignedQuantity,
+          deliveryDate: assignment.deliveryDate,
+          source: 'AUTO_ALLOCATION_SUGGESTION',
+        },
+        ipAddress: req.ip,
+      });
+    }
+
+    res.status(201).json({
+      success: true,
+      message: 'Suggested delivery assignments created successfully',
+      data: { ...result, suggestion },
+    });
+  }
+);
+
 /**
  * Update an assignment
  * PUT /api/admin/allocations/:id
@@ -236,6 +353,7 @@ export const createDeliveryByAdminHandler = wrapAsync(
       entityId: assignment.id,
       details: {
         orderId: assignment.orderId,
+        orderLineId: assignment.orderLineId,
         farmerId: assignment.farmerId,
         assignedQuantity: assignment.assignedQuantity,
         deliveryDate: assignment.deliveryDate,
@@ -307,4 +425,65 @@ export const confirmDeliveryHandler = wrapAsync(
   }
 );
 
+/**
+ * Buyer delivery acknowledgements; ?needsReview=true lists those that disagree with the
+ * farmer or admin confirmation
+ * GET /api/admin/delivery-acknowledgements
+ * Query: needsReview, buyerId, farmerId, limit, offset
+ */
+export const getDeliveryAcknowledgementsHandler = wrapAsync(
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Authentication required',
+      });
+      return;
+    }
+
+    const filters = deliveryAcknowledgementFiltersSchema.parse(req.query);
+    const { acknowledgements, total } = await listDeliveryAcknowledgements(filters);
+
+    res.status(200).json({
+      success: true,
+      data: acknowledgements,
+      pagination: { total, limit: filters.limit, offset: filters.offset },
+    });
+  }
+);
+
+/**
+ * Mark a flagged buyer acknowledgement as reviewed
+ * POST /api/admin/delivery-acknowledgements/:id/review
+ * Body: { notes? }
+ */
+export const reviewDeliveryAcknowledgementHandler = wrapAsync(
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Authentication required',
+      });
+      return;
+    }
+
+    const { id } = req.params;
+    const { notes } = reviewDeliveryAcknowledgementSchema.parse(req.body);
+    const acknowledgement = await reviewDeliveryAcknowledgement(id, req.user.userId, notes);
 
+    await createAuditLog({
+      userId: req.user.userId,
+      actionType: 'DELIVERY_ACKNOWLEDGEMENT_REVIEWED',
+      entityType: 'DeliveryAssignment',
+      entityId: acknowledgement.deliveryAssignmentId,
+      details: { deliveryAcknowledgementId: id, discrepancies: acknowledgement.discrepancies },
+      ipAddress: req.ip,
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'Acknowledgement reviewed.',
+      data: acknowledgement,
+    });
+  }
+);
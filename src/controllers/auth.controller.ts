@@ -4,6 +4,7 @@ import {
   registerFarmer,
   registerBuyer,
   login,
+  loginWithPhoneOtp,
   getUserProfile,
   refreshAccessToken,
   FarmerRegistrationData,
@@ -12,17 +13,25 @@ import {
 import {
   generatePasswordResetToken,
   resetPassword,
+  resetPasswordWithCode,
   changePassword,
   verifyResetToken,
+  verifyResetCode,
 } from '../services/password.service.js';
+import { requestPhoneOtp, confirmPhoneVerification } from '../services/otp.service.js';
+import { logoutSession, getActiveSessions, revokeUserSession } from '../services/session.service.js';
 import { GHANA_CARD_FIELD_KEYS, ghanaCardPatchValue } from '../utils/ghanaCardFields.js';
 import {
   farmerRegistrationSchema,
   buyerRegistrationSchema,
   loginSchema,
   refreshTokenSchema,
+  logoutSchema,
   forgotPasswordSchema,
   resetPasswordSchema,
+  verifyResetCodeSchema,
+  otpRequestSchema,
+  otpVerifySchema,
   changePasswordSchema,
   updateProfileSchema,
 } from '../validators/auth.validator.js';
@@ -188,6 +197,7 @@ export const registerFarmerHandler = wrapAsync(
       photoUrls,
       certificateUrls: certificateUrls.length > 0 ? certificateUrls : undefined,
       avatarUrl: validatedData.avatarUrl?.trim() || undefined,
+      phoneVerificationToken: validatedData.phoneVerificationToken,
       ghanaCardId: validatedData.ghanaCardId,
       ghanaCardPersonalNumber: validatedData.ghanaCardPersonalNumber,
       ghanaCardDocumentNumber: validatedData.ghanaCardDocumentNumber,
@@ -240,6 +250,7 @@ export const registerBuyerHandler = wrapAsync(
         isDefault: addr.isDefault,
       })),
       avatarUrl: validatedData.avatarUrl?.trim() || undefined,
+      phoneVerificationToken: validatedData.phoneVerificationToken,
       ghanaCardId: validatedData.ghanaCardId,
       ghanaCardPersonalNumber: validatedData.ghanaCardPersonalNumber,
       ghanaCardDocumentNumber: validatedData.ghanaCardDocumentNumber,
@@ -272,10 +283,13 @@ export const loginHandler = wrapAsync(
     const validatedData = loginSchema.parse(req.body);
 
     // Login
-    const authResponse = await login({
-      emailOrPhone: validatedData.emailOrPhone.trim(),
-      password: validatedData.password,
-    });
+    const authResponse = await login(
+      {
+        emailOrPhone: validatedData.emailOrPhone.trim(),
+        password: validatedData.password,
+      },
+      { userAgent: req.get('user-agent'), ipAddress: req.ip }
+    );
 
     res.status(200).json({
       success: true,
@@ -307,6 +321,8 @@ export const getMeHandler = wrapAsync(
       id: user.id,
       email: user.email,
       phone: user.phone,
+      phoneVerified: user.phoneVerifiedAt != null,
+      locale: user.locale,
       role: user.role,
       status: user.status,
       avatarUrl: user.avatarUrl ?? null,
@@ -422,9 +438,14 @@ export const updateMeHandler = wrapAsync(
       }
     }
 
-    const userUpdate: { email?: string; phone?: string } = {};
+    const userUpdate: { email?: string; phone?: string; phoneVerifiedAt?: null; locale?: string } = {};
     if (validated.email !== undefined) userUpdate.email = validated.email.trim();
-    if (validated.phone !== undefined) userUpdate.phone = validated.phone.trim();
+    if (validated.locale !== undefined) userUpdate.locale = validated.locale;
+    if (validated.phone !== undefined && validated.phone.trim() !== user.phone) {
+      // A new number has to be verified again
+      userUpdate.phone = validated.phone.trim();
+      userUpdate.phoneVerifiedAt = null;
+    }
     if (Object.keys(userUpdate).length > 0) {
       await prisma.user.update({
         where: { id: userId },
@@ -567,7 +588,10 @@ export const refreshTokenHandler = wrapAsync(
     const validatedData = refreshTokenSchema.parse(req.body);
 
     // Refresh tokens
-    const tokens = await refreshAccessToken(validatedData.refreshToken);
+    const tokens = await refreshAccessToken(validatedData.refreshToken, {
+      userAgent: req.get('user-agent'),
+      ipAddress: req.ip,
+    });
 
     res.status(200).json({
       success: true,
@@ -578,16 +602,21 @@ export const refreshTokenHandler = wrapAsync(
 );
 
 /**
- * Logout user (client-side token removal, but we can invalidate refresh token here if needed)
+ * Logout user: revokes the current session so its refresh tokens stop working
  * POST /api/auth/logout
  */
 export const logoutHandler = wrapAsync(
   async (req: AuthRequest, res: Response): Promise<void> => {
-    // In MVP, logout is handled client-side by removing tokens
-    // In production, you might want to:
-    // 1. Store refresh tokens in database/Redis
-    // 2. Invalidate refresh token on logout
-    // 3. Add token to blacklist
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Authentication required',
+      });
+      return;
+    }
+
+    const { refreshToken } = logoutSchema.parse(req.body ?? {});
+    await logoutSession(req.user.userId, req.user.sessionId, refreshToken);
 
     res.status(200).json({
       success: true,
@@ -596,6 +625,54 @@ export const logoutHandler = wrapAsync(
   }
 );
 
+/**
+ * List the current user's active sessions (logged-in devices)
+ * GET /api/auth/sessions
+ */
+export const getSessionsHandler = wrapAsync(
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Authentication required',
+      });
+      return;
+    }
+
+    const sessions = await getActiveSessions(req.user.userId, req.user.sessionId);
+
+    res.status(200).json({
+      success: true,
+      data: sessions,
+    });
+  }
+);
+
+/**
+ * Revoke one of the current user's sessions (sign out a device)
+ * DELETE /api/auth/sessions/:id
+ */
+export const revokeSessionHandler = wrapAsync(
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Authentication required',
+      });
+      return;
+    }
+
+    const { id } = req.params;
+    const result = await revokeUserSession(req.user.userId, id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Session revoked successfully',
+      data: result,
+    });
+  }
+);
+
 /**
  * Request password reset
  * POST /api/auth/forgot-password
@@ -606,14 +683,20 @@ export const forgotPasswordHandler = wrapAsync(
     const validatedData = forgotPasswordSchema.parse(req.body);
 
     // Generate reset token
-    const token = await generatePasswordResetToken(validatedData.emailOrPhone.trim());
+    const token = await generatePasswordResetToken(
+      validatedData.emailOrPhone.trim(),
+      validatedData.channel,
+      req.ip
+    );
 
     // In production, send token via email/SMS
     // For MVP, we'll return it (in production, don't return token in response)
     res.status(200).json({
       success: true,
       message:
-        'If an account exists with this email/phone, a password reset link has been sent.',
+        validatedData.channel === 'EMAIL' || validatedData.emailOrPhone.includes('@')
+          ? 'If an account exists with this email/phone, a password reset link has been sent.'
+          : 'If an account exists with this email/phone, a password reset code has been sent by SMS.',
       // In production, remove this:
       ...(process.env.NODE_ENV === 'development' && { resetToken: token }),
     });
@@ -629,8 +712,16 @@ export const resetPasswordHandler = wrapAsync(
     // Validate input
     const validatedData = resetPasswordSchema.parse(req.body);
 
-    // Reset password
-    await resetPassword(validatedData.token, validatedData.newPassword);
+    // Reset password with the emailed link token or the SMS code
+    if (validatedData.token) {
+      await resetPassword(validatedData.token, validatedData.newPassword);
+    } else {
+      await resetPasswordWithCode(
+        validatedData.emailOrPhone!.trim(),
+        validatedData.code!,
+        validatedData.newPassword
+      );
+    }
 
     res.status(200).json({
       success: true,
@@ -655,7 +746,7 @@ export const verifyResetTokenHandler = wrapAsync(
       return;
     }
 
-    const isValid = verifyResetToken(token);
+    const isValid = await verifyResetToken(token);
 
     if (!isValid) {
       res.status(400).json({
@@ -672,6 +763,85 @@ export const verifyResetTokenHandler = wrapAsync(
   }
 );
 
+/**
+ * Verify SMS reset code (check before showing the new-password form). Wrong codes count as attempts.
+ * POST /api/auth/verify-reset-code
+ */
+export const verifyResetCodeHandler = wrapAsync(
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    const validatedData = verifyResetCodeSchema.parse(req.body);
+
+    await verifyResetCode(validatedData.emailOrPhone.trim(), validatedData.code);
+
+    res.status(200).json({
+      success: true,
+      message: 'Reset code is valid',
+    });
+  }
+);
+
+/**
+ * Request an SMS one-time code (passwordless farmer login or phone verification)
+ * POST /api/auth/otp/request
+ */
+export const requestOtpHandler = wrapAsync(
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    const validatedData = otpRequestSchema.parse(req.body);
+
+    const { code, expiresAt } = await requestPhoneOtp(
+      validatedData.phone.trim(),
+      validatedData.purpose,
+      req.ip
+    );
+
+    res.status(200).json({
+      success: true,
+      message:
+        validatedData.purpose === 'LOGIN'
+          ? 'If a farmer account exists with this phone number, a login code has been sent by SMS.'
+          : 'A verification code has been sent by SMS.',
+      data: { expiresAt },
+      // In production, remove this:
+      ...(process.env.NODE_ENV === 'development' && code && { code }),
+    });
+  }
+);
+
+/**
+ * Verify an SMS one-time code.
+ * LOGIN returns tokens like /login; VERIFY_PHONE marks the phone verified or returns a
+ * phoneVerificationToken to submit with registration.
+ * POST /api/auth/otp/verify
+ */
+export const verifyOtpHandler = wrapAsync(
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    const validatedData = otpVerifySchema.parse(req.body);
+
+    if (validatedData.purpose === 'LOGIN') {
+      const authResponse = await loginWithPhoneOtp(
+        validatedData.phone.trim(),
+        validatedData.code,
+        { userAgent: req.get('user-agent'), ipAddress: req.ip }
+      );
+
+      res.status(200).json({
+        success: true,
+        message: 'Login successful',
+        data: authResponse,
+      });
+      return;
+    }
+
+    const result = await confirmPhoneVerification(validatedData.phone.trim(), validatedData.code);
+
+    res.status(200).json({
+      success: true,
+      message: 'Phone number verified',
+      data: result,
+    });
+  }
+);
+
 /**
  * Change password (for authenticated users)
  * POST /api/auth/change-password
@@ -693,7 +863,8 @@ export const changePasswordHandler = wrapAsync(
     await changePassword(
       req.user.userId,
       validatedData.currentPassword,
-      validatedData.newPassword
+      validatedData.newPassword,
+      req.user.sessionId
     );
 
     res.status(200).json({
@@ -13,17 +13,37 @@ import {
   cancelOrderByBuyer,
   updateOrderByBuyer,
   createBuyerOrderPayment,
+  UpdateOrderByBuyerData,
 } from '../services/order.service.js';
 import {
   createStandingOrder,
   getStandingOrdersByBuyer,
   getStandingOrderById,
   updateStandingOrder,
+  addStandingOrderPause,
+  removeStandingOrderPause,
+  previewStandingOrderDates,
 } from '../services/standingOrder.service.js';
+import {
+  getOrderTemplatesByBuyer,
+  getOrderTemplateById,
+  createOrderTemplate,
+  updateOrderTemplate,
+  deleteOrderTemplate,
+  submitOrderTemplate,
+  getOrderDraftsByBuyer,
+  getOrderDraftById,
+  createOrderDraft,
+  updateOrderDraft,
+  deleteOrderDraft,
+  submitOrderDraft,
+} from '../services/orderTemplate.service.js';
+import { acknowledgeDelivery } from '../services/deliveryAcknowledgement.service.js';
 import {
   createSupportTicket,
   listSupportTicketsByBuyer,
   getSupportTicketByIdForBuyer,
+  addTicketMessageByOwner,
   updateSupportTicketByBuyer,
   deleteSupportTicketByBuyer,
 } from '../services/supportTicket.service.js';
@@ -33,19 +53,41 @@ import {
   createOrderSchema,
   updateOrderSchema,
   recordBuyerOrderPaymentSchema,
+  acknowledgeDeliverySchema,
   createStandingOrderSchema,
   updateStandingOrderSchema,
+  addStandingOrderPauseSchema,
+  standingOrderPreviewQuerySchema,
+  createOrderTemplateSchema,
+  updateOrderTemplateSchema,
+  submitOrderTemplateSchema,
+  createOrderDraftSchema,
+  updateOrderDraftSchema,
 } from '../validators/buyer.validator.js';
 import {
   createSupportTicketSchema,
   updateSupportTicketByBuyerSchema,
+  ticketMessageSchema,
 } from '../validators/supportTicket.validator.js';
 import { getBuyerDashboard } from '../services/dashboard.service.js';
+import { autoApproveOrder } from '../services/autoApproval.service.js';
 import { getBuyerPaymentsToSuppliers } from '../services/buyerOrderPayment.service.js';
 import { wrapAsync } from '../middleware/errorHandler.js';
 import { prisma } from '../config/database.js';
+import { TicketStatus } from '@prisma/client';
 import { createAuditLog } from '../utils/auditLog.js';
 
+/**
+ * Run the auto-approval policy on a newly created order. The order already exists, so a failure
+ * here leaves it PENDING for an admin instead of failing the request.
+ */
+async function applyAutoApproval(orderId: string) {
+  return autoApproveOrder(orderId).catch((err) => {
+    console.error('[AutoApproval]', err);
+    return null;
+  });
+}
+
 /**
  * Get buyer dashboard stats (active orders, standing orders, unread notifications)
  * GET /api/buyers/dashboard
@@ -281,22 +323,28 @@ export const createOrderHandler = wrapAsync(
       details: {
         productType: order.productType,
         quantity: order.quantity,
+        lines: order.lines.map((l) => ({ productType: l.productType, quantity: l.quantity })),
         orderType: order.orderType,
         deliveryDate: order.deliveryDate,
       },
       ipAddress: req.ip,
     });
 
+    const autoApproval = await applyAutoApproval(order.id);
+
     res.status(201).json({
       success: true,
-      message: 'Order created successfully. Waiting for admin approval.',
+      message: autoApproval?.approved
+        ? 'Order created and approved automatically.'
+        : 'Order created successfully. Waiting for admin approval.',
       data: {
         id: order.id,
         productType: order.productType,
         quantity: order.quantity,
+        lines: order.lines,
         orderType: order.orderType,
         deliveryDate: order.deliveryDate,
-        status: order.status,
+        status: autoApproval?.orderStatus ?? order.status,
         createdAt: order.createdAt,
       },
     });
@@ -409,13 +457,8 @@ export const updateOrderHandler = wrapAsync(
 
     const { id } = req.params;
     const validatedData = updateOrderSchema.parse(req.body);
-    const data: {
-      productType?: string;
-      quantity?: number;
-      deliveryDate?: Date;
-      deliveryAddressId?: string;
-      notes?: string;
-    } = {};
+    const data: UpdateOrderByBuyerData = {};
+    if (validatedData.lines !== undefined) data.lines = validatedData.lines;
     if (validatedData.productType !== undefined) data.productType = validatedData.productType;
     if (validatedData.quantity !== undefined) data.quantity = validatedData.quantity;
     if (validatedData.deliveryDate !== undefined) data.deliveryDate = validatedData.deliveryDate;
@@ -488,6 +531,50 @@ export const recordOrderPaymentHandler = wrapAsync(
   }
 );
 
+/**
+ * Acknowledge a delivery received on own order (quantity, 1-5 quality rating, comments, photos)
+ * POST /api/buyers/orders/:id/deliveries/:assignmentId/acknowledge
+ * multipart/form-data: quantityReceived, qualityRating, comments?, photos (up to 5 images)
+ */
+export const acknowledgeDeliveryHandler = wrapAsync(
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Authentication required',
+      });
+      return;
+    }
+
+    const { id, assignmentId } = req.params;
+    const validatedData = acknowledgeDeliverySchema.parse(req.body);
+    const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+    const acknowledgement = await acknowledgeDelivery(id, assignmentId, req.user.userId, validatedData, files);
+
+    await createAuditLog({
+      userId: req.user.userId,
+      actionType: 'DELIVERY_ACKNOWLEDGED',
+      entityType: 'DeliveryAssignment',
+      entityId: assignmentId,
+      details: {
+        orderId: id,
+        quantityReceived: acknowledgement.quantityReceived,
+        qualityRating: acknowledgement.qualityRating,
+        discrepancies: acknowledgement.discrepancies,
+      },
+      ipAddress: req.ip,
+    });
+
+    res.status(200).json({
+      success: true,
+      message: acknowledgement.needsReview
+        ? 'Delivery acknowledged. It does not match the delivery records, so an admin will review it.'
+        : 'Delivery acknowledged.',
+      data: acknowledgement,
+    });
+  }
+);
+
 /**
  * Get buyer's payments to suppliers (buyer pays supplier, with confirmation status)
  * GET /api/buyers/payments-to-suppliers
@@ -539,13 +626,15 @@ export const createStandingOrderHandler = wrapAsync(
         productType: standingOrder.productType,
         quantity: standingOrder.quantity,
         preferredDeliveryDayOfWeek: standingOrder.preferredDeliveryDayOfWeek,
+        recurrenceType: standingOrder.recurrenceType,
+        interval: standingOrder.interval,
       },
       ipAddress: req.ip,
     });
 
     res.status(201).json({
       success: true,
-      message: 'Standing order created successfully. Orders will be generated weekly.',
+      message: 'Standing order created successfully. Orders will be generated ahead of each delivery date.',
       data: standingOrder,
     });
   }
@@ -620,7 +709,11 @@ export const updateStandingOrderHandler = wrapAsync(
       actionType: 'STANDING_ORDER_UPDATED',
       entityType: 'StandingOrder',
       entityId: standingOrder.id,
-      details: { isActive: standingOrder.isActive },
+      details: {
+        isActive: standingOrder.isActive,
+        ...(validatedData.skipDates !== undefined && { skipDates: standingOrder.skipDates }),
+        cancelledOrders: standingOrder.cancelledOrders,
+      },
       ipAddress: req.ip,
     });
 
@@ -634,6 +727,457 @@ export const updateStandingOrderHandler = wrapAsync(
   }
 );
 
+/**
+ * Pause standing order for a date range (stays active; pending orders in the range are cancelled)
+ * POST /api/buyers/standing-orders/:id/pauses
+ */
+export const addStandingOrderPauseHandler = wrapAsync(
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Authentication required',
+      });
+      return;
+    }
+
+    const { id } = req.params;
+    const validatedData = addStandingOrderPauseSchema.parse(req.body);
+    const pause = await addStandingOrderPause(id, req.user.userId, validatedData);
+
+    await createAuditLog({
+      userId: req.user.userId,
+      actionType: 'STANDING_ORDER_PAUSE_ADDED',
+      entityType: 'StandingOrder',
+      entityId: id,
+      details: {
+        pauseId: pause.id,
+        startDate: pause.startDate,
+        endDate: pause.endDate,
+        cancelledOrders: pause.cancelledOrders,
+      },
+      ipAddress: req.ip,
+    });
+
+    res.status(201).json({
+      success: true,
+      message:
+        pause.cancelledOrders > 0
+          ? `Standing order paused. ${pause.cancelledOrders} pending order(s) in this period were cancelled.`
+          : 'Standing order paused.',
+      data: pause,
+    });
+  }
+);
+
+/**
+ * Remove a standing order pause
+ * DELETE /api/buyers/standing-orders/:id/pauses/:pauseId
+ */
+export const removeStandingOrderPauseHandler = wrapAsync(
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Authentication required',
+      });
+      return;
+    }
+
+    const { id, pauseId } = req.params;
+    const pause = await removeStandingOrderPause(id, pauseId, req.user.userId);
+
+    await createAuditLog({
+      userId: req.user.userId,
+      actionType: 'STANDING_ORDER_PAUSE_REMOVED',
+      entityType: 'StandingOrder',
+      entityId: id,
+      details: { pauseId: pause.id, startDate: pause.startDate, endDate: pause.endDate },
+      ipAddress: req.ip,
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'Pause removed.',
+    });
+  }
+);
+
+/**
+ * Preview the next dates orders will be generated for (after skip dates, pauses and holidays)
+ * GET /api/buyers/standing-orders/:id/preview?count=8
+ */
+export const previewStandingOrderHandler = wrapAsync(
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Authentication required',
+      });
+      return;
+    }
+
+    const { id } = req.params;
+    const { count } = standingOrderPreviewQuerySchema.parse(req.query);
+    const preview = await previewStandingOrderDates(id, req.user.userId, count);
+
+    res.status(200).json({
+      success: true,
+      data: preview,
+    });
+  }
+);
+
+// --- Order templates and drafts ---
+
+/**
+ * List saved order templates (with products/address removed since saving)
+ * GET /api/buyers/order-templates
+ */
+export const getOrderTemplatesHandler = wrapAsync(
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Authentication required',
+      });
+      return;
+    }
+
+    const templates = await getOrderTemplatesByBuyer(req.user.userId);
+    res.status(200).json({
+      success: true,
+      data: templates,
+      count: templates.length,
+    });
+  }
+);
+
+/**
+ * Get order template by ID
+ * GET /api/buyers/order-templates/:id
+ */
+export const getOrderTemplateByIdHandler = wrapAsync(
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Authentication required',
+      });
+      return;
+    }
+
+    const { id } = req.params;
+    const template = await getOrderTemplateById(id, req.user.userId);
+    res.status(200).json({
+      success: true,
+      data: template,
+    });
+  }
+);
+
+/**
+ * Save order template (lines, or fromOrderId to copy an existing order)
+ * POST /api/buyers/order-templates
+ */
+export const createOrderTemplateHandler = wrapAsync(
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Authentication required',
+      });
+      return;
+    }
+
+    const validatedData = createOrderTemplateSchema.parse(req.body);
+    const template = await createOrderTemplate(req.user.userId, validatedData);
+
+    res.status(201).json({
+      success: true,
+      message: 'Order template saved.',
+      data: template,
+    });
+  }
+);
+
+/**
+ * Update order template
+ * PUT /api/buyers/order-templates/:id
+ */
+export const updateOrderTemplateHandler = wrapAsync(
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Authentication required',
+      });
+      return;
+    }
+
+    const { id } = req.params;
+    const validatedData = updateOrderTemplateSchema.parse(req.body);
+    const template = await updateOrderTemplate(id, req.user.userId, validatedData);
+
+    res.status(200).json({
+      success: true,
+      message: 'Order template updated.',
+      data: template,
+    });
+  }
+);
+
+/**
+ * Delete order template
+ * DELETE /api/buyers/order-templates/:id
+ */
+export const deleteOrderTemplateHandler = wrapAsync(
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Authentication required',
+      });
+      return;
+    }
+
+    const { id } = req.params;
+    await deleteOrderTemplate(id, req.user.userId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Order template deleted.',
+    });
+  }
+);
+
+/**
+ * Place an order from a template
+ * POST /api/buyers/order-templates/:id/submit
+ */
+export const submitOrderTemplateHandler = wrapAsync(
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Authentication required',
+      });
+      return;
+    }
+
+    const { id } = req.params;
+    const validatedData = submitOrderTemplateSchema.parse(req.body);
+    const order = await submitOrderTemplate(id, req.user.userId, validatedData);
+
+    await createAuditLog({
+      userId: req.user.userId,
+      actionType: 'ORDER_CREATED',
+      entityType: 'Order',
+      entityId: order.id,
+      details: {
+        orderTemplateId: id,
+        lines: order.lines.map((l) => ({ productType: l.productType, quantity: l.quantity })),
+        orderType: order.orderType,
+        deliveryDate: order.deliveryDate,
+      },
+      ipAddress: req.ip,
+    });
+
+    const autoApproval = await applyAutoApproval(order.id);
+
+    res.status(201).json({
+      success: true,
+      message: autoApproval?.approved
+        ? 'Order created from template and approved automatically.'
+        : 'Order created from template. Waiting for admin approval.',
+      data: {
+        id: order.id,
+        productType: order.productType,
+        quantity: order.quantity,
+        lines: order.lines,
+        orderType: order.orderType,
+        deliveryDate: order.deliveryDate,
+        status: autoApproval?.orderStatus ?? order.status,
+        createdAt: order.createdAt,
+      },
+    });
+  }
+);
+
+/**
+ * List order drafts
+ * GET /api/buyers/order-drafts
+ */
+export const getOrderDraftsHandler = wrapAsync(
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Authentication required',
+      });
+      return;
+    }
+
+    const drafts = await getOrderDraftsByBuyer(req.user.userId);
+    res.status(200).json({
+      success: true,
+      data: drafts,
+      count: drafts.length,
+    });
+  }
+);
+
+/**
+ * Get order draft by ID
+ * GET /api/buyers/order-drafts/:id
+ */
+export const getOrderDraftByIdHandler = wrapAsync(
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Authentication required',
+      });
+      return;
+    }
+
+    const { id } = req.params;
+    const draft = await getOrderDraftById(id, req.user.userId);
+    res.status(200).json({
+      success: true,
+      data: draft,
+    });
+  }
+);
+
+/**
+ * Create order draft (empty, or from templateId)
+ * POST /api/buyers/order-drafts
+ */
+export const createOrderDraftHandler = wrapAsync(
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Authentication required',
+      });
+      return;
+    }
+
+    const validatedData = createOrderDraftSchema.parse(req.body);
+    const draft = await createOrderDraft(req.user.userId, validatedData);
+
+    res.status(201).json({
+      success: true,
+      message: 'Draft saved.',
+      data: draft,
+    });
+  }
+);
+
+/**
+ * Update order draft (lines replace the whole cart)
+ * PUT /api/buyers/order-drafts/:id
+ */
+export const updateOrderDraftHandler = wrapAsync(
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Authentication required',
+      });
+      return;
+    }
+
+    const { id } = req.params;
+    const validatedData = updateOrderDraftSchema.parse(req.body);
+    const draft = await updateOrderDraft(id, req.user.userId, validatedData);
+
+    res.status(200).json({
+      success: true,
+      message: 'Draft saved.',
+      data: draft,
+    });
+  }
+);
+
+/**
+ * Discard order draft
+ * DELETE /api/buyers/order-drafts/:id
+ */
+export const deleteOrderDraftHandler = wrapAsync(
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Authentication required',
+      });
+      return;
+    }
+
+    const { id } = req.params;
+    await deleteOrderDraft(id, req.user.userId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Draft discarded.',
+    });
+  }
+);
+
+/**
+ * Submit order draft; the body may carry last edits (same fields as update)
+ * POST /api/buyers/order-drafts/:id/submit
+ */
+export const submitOrderDraftHandler = wrapAsync(
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Authentication required',
+      });
+      return;
+    }
+
+    const { id } = req.params;
+    const validatedData = updateOrderDraftSchema.parse(req.body ?? {});
+    const order = await submitOrderDraft(id, req.user.userId, validatedData);
+
+    await createAuditLog({
+      userId: req.user.userId,
+      actionType: 'ORDER_CREATED',
+      entityType: 'Order',
+      entityId: order.id,
+      details: {
+        orderDraftId: id,
+        lines: order.lines.map((l) => ({ productType: l.productType, quantity: l.quantity })),
+        orderType: order.orderType,
+        deliveryDate: order.deliveryDate,
+      },
+      ipAddress: req.ip,
+    });
+
+    const autoApproval = await applyAutoApproval(order.id);
+
+    res.status(201).json({
+      success: true,
+      message: autoApproval?.approved
+        ? 'Order created and approved automatically.'
+        : 'Order created successfully. Waiting for admin approval.',
+      data: {
+        id: order.id,
+        productType: order.productType,
+        quantity: order.quantity,
+        lines: order.lines,
+        orderType: order.orderType,
+        deliveryDate: order.deliveryDate,
+        status: autoApproval?.orderStatus ?? order.status,
+        createdAt: order.createdAt,
+      },
+    });
+  }
+);
+
 // --- Support tickets (buyer only) ---
 
 /**
@@ -678,7 +1222,7 @@ export const getSupportTicketsHandler = wrapAsync(
     const status = req.query.status as string | undefined;
     const limit = req.query.limit ? Number(req.query.limit) : undefined;
     const tickets = await listSupportTicketsByBuyer(req.user.userId, {
-      status: status as 'OPEN' | 'IN_PROGRESS' | 'RESOLVED' | undefined,
+      status: status as TicketStatus | undefined,
       limit,
     });
 
@@ -689,6 +1233,34 @@ export const getSupportTicketsHandler = wrapAsync(
   }
 );
 
+/**
+ * Reply on own support ticket (reopens it for admins)
+ * POST /api/buyers/support-tickets/:id/messages
+ * multipart/form-data: body, attachments (up to 5 images/PDFs)
+ */
+export const addSupportTicketMessageHandler = wrapAsync(
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Authentication required',
+      });
+      return;
+    }
+
+    const { id } = req.params;
+    const validatedData = ticketMessageSchema.parse(req.body);
+    const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+    const message = await addTicketMessageByOwner(id, req.user.userId, validatedData, files);
+
+    res.status(201).json({
+      success: true,
+      message: 'Reply sent.',
+      data: message,
+    });
+  }
+);
+
 /**
  * Get support ticket by ID (own only)
  * GET /api/buyers/support-tickets/:id
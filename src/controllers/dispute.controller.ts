@@ -0,0 +1,201 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.js';
+import {
+  DisputeActor,
+  openDispute,
+  getDisputeById,
+  listDisputes,
+  addDisputeEvidence,
+  startDisputeReview,
+  resolveDispute,
+} from '../services/dispute.service.js';
+import {
+  openDisputeSchema,
+  disputeEvidenceSchema,
+  resolveDisputeSchema,
+  disputeFiltersSchema,
+} from '../validators/dispute.validator.js';
+import { createAuditLog } from '../utils/auditLog.js';
+import { wrapAsync } from '../middleware/errorHandler.js';
+
+// Buyer, farmer and admin routes share the read/evidence handlers; the service scopes
+// disputes to the authenticated user's side from their role.
+
+function getActor(req: AuthRequest): DisputeActor {
+  return { userId: req.user!.userId, role: req.user!.role };
+}
+
+/**
+ * Open a dispute on a confirmed delivery or a buyer-to-supplier payment
+ * POST /api/buyers/disputes, POST /api/farmers/disputes
+ * multipart/form-data: deliveryAssignmentId | buyerOrderPaymentId, reason, description,
+ * claimedQuantity?, claimedQualityResult?, evidence (up to 5 images/PDFs)
+ */
+export const openDisputeHandler = wrapAsync(
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Authentication required',
+      });
+      return;
+    }
+
+    const validatedData = openDisputeSchema.parse(req.body);
+    const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+    const dispute = await openDispute(getActor(req), validatedData, files);
+
+    await createAuditLog({
+      userId: req.user.userId,
+      actionType: 'DISPUTE_OPENED',
+      entityType: 'Dispute',
+      entityId: dispute.id,
+      details: {
+        reason: dispute.reason,
+        deliveryAssignmentId: dispute.deliveryAssignmentId,
+        buyerOrderPaymentId: dispute.buyerOrderPaymentId,
+      },
+      ipAddress: req.ip,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Dispute opened. An admin will review it.',
+      data: dispute,
+    });
+  }
+);
+
+/**
+ * List disputes (own for buyers/farmers, all for admins)
+ * GET /api/{buyers,farmers,admin}/disputes
+ * Query: status, reason, orderId, limit, offset; admin also buyerId, farmerId
+ */
+export const getDisputesHandler = wrapAsync(
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Authentication required',
+      });
+      return;
+    }
+
+    const filters = disputeFiltersSchema.parse(req.query);
+    const { disputes, total } = await listDisputes(getActor(req), filters);
+
+    res.status(200).json({
+      success: true,
+      data: disputes,
+      pagination: { total, limit: filters.limit, offset: filters.offset },
+    });
+  }
+);
+
+/**
+ * Get a dispute with its evidence
+ * GET /api/{buyers,farmers,admin}/disputes/:id
+ */
+export const getDisputeByIdHandler = wrapAsync(
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Authentication required',
+      });
+      return;
+    }
+
+    const dispute = await getDisputeById(req.params.id, getActor(req));
+
+    res.status(200).json({
+      success: true,
+      data: dispute,
+    });
+  }
+);
+
+/**
+ * Add evidence to an unresolved dispute
+ * POST /api/{buyers,farmers,admin}/disputes/:id/evidence
+ * multipart/form-data: evidence (up to 5 images/PDFs), note?
+ */
+export const addDisputeEvidenceHandler = wrapAsync(
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Authentication required',
+      });
+      return;
+    }
+
+    const { note } = disputeEvidenceSchema.parse(req.body);
+    const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+    const evidence = await addDisputeEvidence(req.params.id, getActor(req), files, note);
+
+    res.status(201).json({
+      success: true,
+      message: 'Evidence added.',
+      data: evidence,
+    });
+  }
+);
+
+/**
+ * Take a dispute under review (admin)
+ * POST /api/admin/disputes/:id/review
+ */
+export const startDisputeReviewHandler = wrapAsync(
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    const adminId = req.user!.userId;
+    const dispute = await startDisputeReview(req.params.id, adminId);
+
+    await createAuditLog({
+      userId: adminId,
+      actionType: 'DISPUTE_REVIEW_STARTED',
+      entityType: 'Dispute',
+      entityId: dispute.id,
+      details: { previousStatus: 'OPEN', status: dispute.status },
+      ipAddress: req.ip,
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'Dispute is under review.',
+      data: dispute,
+    });
+  }
+);
+
+/**
+ * Resolve a dispute for the buyer or the farmer (admin), optionally correcting the delivery
+ * POST /api/admin/disputes/:id/resolve
+ * Body: { outcome: BUYER | FARMER, notes, delivered?, quantityDelivered?, qualityResult? }
+ */
+export const resolveDisputeHandler = wrapAsync(
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    const adminId = req.user!.userId;
+    const validatedData = resolveDisputeSchema.parse(req.body);
+    const dispute = await resolveDispute(req.params.id, adminId, validatedData);
+
+    await createAuditLog({
+      userId: adminId,
+      actionType: 'DISPUTE_RESOLVED',
+      entityType: 'Dispute',
+      entityId: dispute.id,
+      details: {
+        status: dispute.status,
+        deliveryAssignmentId: dispute.deliveryAssignmentId,
+        adjustments: dispute.adjustments,
+      },
+      ipAddress: req.ip,
+    });
+
+    res.status(200).json({
+      success: true,
+      message: 'Dispute resolved.',
+      data: dispute,
+    });
+  }
+);
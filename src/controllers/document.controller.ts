@@ -0,0 +1,71 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.js';
+import {
+  DocumentViewer,
+  RenderedDocument,
+  renderInvoicePdf,
+  renderPaymentReceiptPdf,
+  renderBuyerPaymentReceiptPdf,
+  renderDeliveryNotePdf,
+  renderOrderSummaryPdf,
+} from '../services/document.service.js';
+import { wrapAsync } from '../middleware/errorHandler.js';
+
+/**
+ * Build a download handler for a PDF renderer. Ownership is checked in the service
+ * from the authenticated user's role, so the same handler serves buyer, farmer and admin routes.
+ */
+function pdfDownloadHandler(
+  render: (id: string, viewer: DocumentViewer) => Promise<RenderedDocument>
+) {
+  return wrapAsync(async (req: AuthRequest, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Authentication required',
+      });
+      return;
+    }
+
+    const { id } = req.params;
+    const { filename, buffer } = await render(id, {
+      userId: req.user.userId,
+      role: req.user.role,
+    });
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+    res.setHeader('Content-Length', buffer.length);
+    res.status(200).send(buffer);
+  });
+}
+
+/**
+ * Download invoice PDF
+ * GET /api/buyers/documents/invoices/:id, GET /api/admin/documents/invoices/:id
+ */
+export const downloadInvoicePdfHandler = pdfDownloadHandler(renderInvoicePdf);
+
+/**
+ * Download farmer payment receipt PDF
+ * GET /api/farmers/documents/payment-receipts/:id, GET /api/admin/documents/payment-receipts/:id
+ */
+export const downloadPaymentReceiptPdfHandler = pdfDownloadHandler(renderPaymentReceiptPdf);
+
+/**
+ * Download buyer-to-supplier payment receipt PDF
+ * GET /api/{buyers,farmers,admin}/documents/buyer-payment-receipts/:id
+ */
+export const downloadBuyerPaymentReceiptPdfHandler = pdfDownloadHandler(renderBuyerPaymentReceiptPdf);
+
+/**
+ * Download delivery note PDF for a delivery assignment
+ * GET /api/{buyers,farmers,admin}/documents/delivery-notes/:id
+ */
+export const downloadDeliveryNotePdfHandler = pdfDownloadHandler(renderDeliveryNotePdf);
+
+/**
+ * Download order summary PDF
+ * GET /api/buyers/documents/orders/:id, GET /api/admin/documents/orders/:id
+ */
+export const downloadOrderSummaryPdfHandler = pdfDownloadHandler(renderOrderSummaryPdf);
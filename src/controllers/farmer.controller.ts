@@ -43,13 +43,15 @@ import {
 } from '../utils/monthCalculation.js';
 import { createAuditLog } from '../utils/auditLog.js';
 import { prisma } from '../config/database.js';
+import { TicketStatus } from '@prisma/client';
 import { getFarmerDashboard } from '../services/dashboard.service.js';
 import {
   createSupportTicket,
   listSupportTicketsByBuyer,
   getSupportTicketByIdForBuyer,
+  addTicketMessageByOwner,
 } from '../services/supportTicket.service.js';
-import { createSupportTicketSchema } from '../validators/supportTicket.validator.js';
+import { createSupportTicketSchema, ticketMessageSchema } from '../validators/supportTicket.validator.js';
 
 /**
  * Get farmer dashboard stats (upcoming deliveries, score/tier, unread notifications)
@@ -976,7 +978,7 @@ export const getSupportTicketsHandler = wrapAsync(
     const status = req.query.status as string | undefined;
     const limit = req.query.limit ? Number(req.query.limit) : undefined;
     const tickets = await listSupportTicketsByBuyer(req.user.userId, {
-      status: status as 'OPEN' | 'IN_PROGRESS' | 'RESOLVED' | undefined,
+      status: status as TicketStatus | undefined,
       limit,
     });
 
@@ -987,6 +989,34 @@ export const getSupportTicketsHandler = wrapAsync(
   }
 );
 
+/**
+ * Reply on own support ticket (reopens it for admins)
+ * POST /api/farmers/support-tickets/:id/messages
+ * multipart/form-data: body, attachments (up to 5 images/PDFs)
+ */
+export const addSupportTicketMessageHandler = wrapAsync(
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Authentication required',
+      });
+      return;
+    }
+
+    const { id } = req.params;
+    const validatedData = ticketMessageSchema.parse(req.body);
+    const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+    const message = await addTicketMessageByOwner(id, req.user.userId, validatedData, files);
+
+    res.status(201).json({
+      success: true,
+      message: 'Reply sent.',
+      data: message,
+    });
+  }
+);
+
 /**
  * Get support ticket by ID (own only)
  * GET /api/farmers/support-tickets/:id
@@ -0,0 +1,118 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.js';
+import {
+  getBuyerInvoices,
+  getBuyerInvoiceById,
+  getAdminInvoices,
+  getInvoiceByIdForAdmin,
+  generateInvoiceForOrder,
+} from '../services/invoice.service.js';
+import { invoiceFiltersSchema } from '../validators/invoice.validator.js';
+import { wrapAsync } from '../middleware/errorHandler.js';
+import { createAuditLog } from '../utils/auditLog.js';
+
+/**
+ * Get buyer's invoices. Optional ?status=UNPAID|PARTIALLY_PAID|PAID|OVERDUE
+ * GET /api/buyers/invoices
+ */
+export const getBuyerInvoicesHandler = wrapAsync(
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Authentication required',
+      });
+      return;
+    }
+
+    const { status } = invoiceFiltersSchema.parse(req.query);
+    const data = await getBuyerInvoices(req.user.userId, { status });
+
+    res.status(200).json({
+      success: true,
+      data,
+    });
+  }
+);
+
+/**
+ * Get a single invoice (buyer)
+ * GET /api/buyers/invoices/:id
+ */
+export const getBuyerInvoiceByIdHandler = wrapAsync(
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Authentication required',
+      });
+      return;
+    }
+
+    const { id } = req.params;
+    const invoice = await getBuyerInvoiceById(id, req.user.userId);
+
+    res.status(200).json({
+      success: true,
+      data: invoice,
+    });
+  }
+);
+
+/**
+ * Get all invoices (admin). Optional ?status=...&buyerId=...
+ * GET /api/admin/invoices
+ */
+export const getAdminInvoicesHandler = wrapAsync(
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    const filters = invoiceFiltersSchema.parse(req.query);
+    const data = await getAdminInvoices(filters);
+
+    res.status(200).json({
+      success: true,
+      data,
+    });
+  }
+);
+
+/**
+ * Get a single invoice by ID (admin)
+ * GET /api/admin/invoices/:id
+ */
+export const getAdminInvoiceByIdHandler = wrapAsync(
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const invoice = await getInvoiceByIdForAdmin(id);
+
+    res.status(200).json({
+      success: true,
+      data: invoice,
+    });
+  }
+);
+
+/**
+ * Issue the invoice for a delivered order (admin), e.g. after a missing price was set.
+ * Returns the existing invoice if one was already issued.
+ * POST /api/admin/orders/:id/invoice
+ */
+export const issueInvoiceForOrderHandler = wrapAsync(
+  async (req: AuthRequest, res: Response): Promise<void> => {
+    const { id } = req.params;
+    const invoice = await generateInvoiceForOrder(id);
+
+    await createAuditLog({
+      userId: req.user!.userId,
+      actionType: 'INVOICE_ISSUED',
+      entityType: 'Invoice',
+      entityId: invoice.id,
+      details: { orderId: id, invoiceNumber: invoice.invoiceNumber, totalAmount: invoice.totalAmount },
+      ipAddress: req.ip,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: invoice,
+    });
+  }
+);
@@ -3,15 +3,34 @@ import { AuthRequest } from '../middleware/auth.js';
 import {
   listNotificationsByUser,
   getUnreadCount,
-  markNotificationRead,
+  markNotificationsRead,
   markAllNotificationsRead,
+  archiveNotifications,
+  deleteNotifications,
+  listNotificationsSince,
 } from '../services/notification.service.js';
+import {
+  getNotificationPreferences,
+  updateNotificationPreferences,
+} from '../services/notificationPreference.service.js';
+import {
+  updateNotificationPreferencesSchema,
+  listNotificationsQuerySchema,
+  notificationIdsSchema,
+} from '../validators/notification.validator.js';
 import { authorizeChannel } from '../utils/pusher.js';
-import { wrapAsync } from '../middleware/errorHandler.js';
+import { openSseStream, writeSseEvent } from '../utils/sse.js';
+import { getRealtimeProvider } from '../providers/realtime.provider.js';
+import { env } from '../config/env.js';
+import { wrapAsync, createError } from '../middleware/errorHandler.js';
+
+/** Most missed notifications sent on reconnect; beyond that the client reloads its inbox */
+const SSE_REPLAY_LIMIT = 100;
 
 /**
- * Get notifications for the current user (farmer or buyer).
- * GET /api/farmers/notifications or GET /api/buyers/notifications
+ * Get notifications for the current user (farmer, buyer or admin inbox).
+ * GET /api/farmers/notifications, GET /api/buyers/notifications or GET /api/admin/notifications
+ * Query: limit, cursor, type (comma-separated), isRead, archived, startDate, endDate
  */
 export const getNotificationsHandler = wrapAsync(
   async (req: AuthRequest, res: Response) => {
@@ -23,28 +42,49 @@ export const getNotificationsHandler = wrapAsync(
       return;
     }
 
-    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : 50;
-    const unreadOnly = req.query.unreadOnly === 'true';
-
-    const notifications = await listNotificationsByUser(req.user.userId, {
-      limit: Math.min(limit, 100),
-      unreadOnly,
-    });
-    const unreadCount = await getUnreadCount(req.user.userId);
+    const filters = listNotificationsQuerySchema.parse(req.query);
+    const [{ notifications, nextCursor }, unreadCount] = await Promise.all([
+      listNotificationsByUser(req.user.userId, filters),
+      getUnreadCount(req.user.userId),
+    ]);
 
     res.status(200).json({
       success: true,
       data: notifications,
       count: notifications.length,
+      nextCursor,
       unreadCount,
     });
   }
 );
 
+/**
+ * Unread notification count for the current user (badge polling).
+ * GET /api/farmers/notifications/unread-count (also /api/buyers/..., /api/admin/...)
+ */
+export const getUnreadCountHandler = wrapAsync(
+  async (req: AuthRequest, res: Response) => {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Authentication required',
+      });
+      return;
+    }
+
+    const unreadCount = await getUnreadCount(req.user.userId);
+
+    res.status(200).json({
+      success: true,
+      data: { unreadCount },
+    });
+  }
+);
+
 /**
  * Mark one or more notifications as read.
  * POST /api/system/notifications/mark-read
- * Body: { notificationId?: string, notificationIds?: string[] }
+ * Body: { notificationId?: string, notificationIds?: string[] } (404 if a single notificationId is not found)
  */
 export const markReadHandler = wrapAsync(
   async (req: AuthRequest, res: Response) => {
@@ -73,12 +113,10 @@ export const markReadHandler = wrapAsync(
       return;
     }
 
-    for (const id of ids) {
-      try {
-        await markNotificationRead(id, req.user.userId);
-      } catch {
-        // Skip if not found or not owned
-      }
+    // In a list, ids that are not found or not owned are skipped; a single id must exist
+    const { updated } = await markNotificationsRead(req.user.userId, ids);
+    if (!body.notificationIds && updated === 0) {
+      throw createError('Notification not found', 404, 'NOTIFICATION_NOT_FOUND');
     }
 
     res.status(200).json({
@@ -111,6 +149,180 @@ export const markAllReadHandler = wrapAsync(
   }
 );
 
+/**
+ * Archive notifications (hidden from the inbox, still listed with ?archived=true).
+ * POST /api/system/notifications/archive
+ * Body: { notificationIds: string[] }
+ */
+export const archiveNotificationsHandler = wrapAsync(
+  async (req: AuthRequest, res: Response) => {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Authentication required',
+      });
+      return;
+    }
+
+    const { notificationIds } = notificationIdsSchema.parse(req.body);
+    const result = await archiveNotifications(req.user.userId, notificationIds);
+
+    res.status(200).json({
+      success: true,
+      message: 'Notification(s) archived',
+      data: result,
+    });
+  }
+);
+
+/**
+ * Move archived notifications back to the inbox.
+ * POST /api/system/notifications/unarchive
+ * Body: { notificationIds: string[] }
+ */
+export const unarchiveNotificationsHandler = wrapAsync(
+  async (req: AuthRequest, res: Response) => {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Authentication required',
+      });
+      return;
+    }
+
+    const { notificationIds } = notificationIdsSchema.parse(req.body);
+    const result = await archiveNotifications(req.user.userId, notificationIds, false);
+
+    res.status(200).json({
+      success: true,
+      message: 'Notification(s) moved to inbox',
+      data: result,
+    });
+  }
+);
+
+/**
+ * Permanently delete notifications.
+ * POST /api/system/notifications/delete  Body: { notificationIds: string[] }
+ * DELETE /api/system/notifications/:id
+ */
+export const deleteNotificationsHandler = wrapAsync(
+  async (req: AuthRequest, res: Response) => {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Authentication required',
+      });
+      return;
+    }
+
+    const { notificationIds } = req.params.id
+      ? { notificationIds: [req.params.id] }
+      : notificationIdsSchema.parse(req.body);
+    const result = await deleteNotifications(req.user.userId, notificationIds);
+
+    if (req.params.id && result.deleted === 0) {
+      throw createError('Notification not found', 404, 'NOTIFICATION_NOT_FOUND');
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Notification(s) deleted',
+      data: result,
+    });
+  }
+);
+
+/**
+ * Which real-time transport the dashboard should connect to.
+ * GET /api/system/realtime
+ */
+export const getRealtimeConfigHandler = wrapAsync(
+  async (req: AuthRequest, res: Response) => {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Authentication required',
+      });
+      return;
+    }
+
+    const provider = getRealtimeProvider();
+
+    res.status(200).json({
+      success: true,
+      data: {
+        provider: provider?.name ?? null,
+        ...(provider?.name === 'pusher' && {
+          pusher: { key: env.PUSHER_KEY, cluster: env.PUSHER_CLUSTER || 'mt1', authEndpoint: '/api/system/pusher-auth' },
+        }),
+        ...(provider?.name === 'sse' && { streamUrl: '/api/system/notifications/stream' }),
+      },
+    });
+  }
+);
+
+/**
+ * Server-Sent Events stream of the current user's notifications (when REALTIME_PROVIDER=sse).
+ * GET /api/system/notifications/stream
+ * Auth: Authorization header, or ?access_token= for EventSource.
+ * Events: `notification` (id = notification id), `unread-count`, and `resync` (reload the inbox).
+ * On reconnect the browser sends Last-Event-ID (or pass ?lastEventId=) and missed notifications
+ * are replayed from the database.
+ */
+export const notificationStreamHandler = wrapAsync(
+  async (req: AuthRequest, res: Response) => {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Authentication required',
+      });
+      return;
+    }
+    if (getRealtimeProvider()?.name !== 'sse') {
+      throw createError('Notification stream is not enabled', 404, 'SSE_DISABLED');
+    }
+
+    const userId = req.user.userId;
+    const lastEventId =
+      req.header('Last-Event-ID') ??
+      (typeof req.query.lastEventId === 'string' ? req.query.lastEventId : undefined);
+
+    // Register before replaying so nothing created meanwhile is lost (clients dedupe by id)
+    openSseStream(userId, res);
+
+    // Headers are already sent, so failures are reported on the stream rather than thrown
+    try {
+      if (lastEventId) {
+        const missed = await listNotificationsSince(userId, lastEventId, SSE_REPLAY_LIMIT);
+        for (const notification of missed ?? []) {
+          writeSseEvent(
+            res,
+            'notification',
+            {
+              id: notification.id,
+              type: notification.type,
+              title: notification.title,
+              message: notification.message,
+              metadata: notification.metadata,
+              createdAt: notification.createdAt.toISOString(),
+            },
+            notification.id
+          );
+        }
+        // Unknown id (deleted) or more missed than we replay: client should reload its inbox
+        if (missed === null || missed.length === SSE_REPLAY_LIMIT) {
+          writeSseEvent(res, 'resync', {});
+        }
+      }
+      writeSseEvent(res, 'unread-count', { unreadCount: await getUnreadCount(userId) });
+    } catch (error) {
+      console.error('[Notification] Stream replay failed:', userId, error);
+      writeSseEvent(res, 'resync', {});
+    }
+  }
+);
+
 /**
  * Pusher channel auth for private user notifications.
  * POST /api/system/pusher-auth
@@ -150,3 +362,55 @@ export const pusherAuthHandler = wrapAsync(
     res.status(200).json(auth);
   }
 );
+
+/**
+ * Get the current user's notification preferences (per type, plus DEFAULT settings).
+ * GET /api/auth/me/notification-preferences
+ */
+export const getNotificationPreferencesHandler = wrapAsync(
+  async (req: AuthRequest, res: Response) => {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Authentication required',
+      });
+      return;
+    }
+
+    const preferences = await getNotificationPreferences(req.user.userId);
+
+    res.status(200).json({
+      success: true,
+      data: preferences,
+    });
+  }
+);
+
+/**
+ * Update the current user's notification preferences (channel toggles and quiet hours).
+ * PUT /api/auth/me/notification-preferences
+ * Body: { preferences: [{ type, inApp?, email?, sms?, quietHoursStart?, quietHoursEnd? }] }
+ */
+export const updateNotificationPreferencesHandler = wrapAsync(
+  async (req: AuthRequest, res: Response) => {
+    if (!req.user) {
+      res.status(401).json({
+        error: 'Unauthorized',
+        message: 'Authentication required',
+      });
+      return;
+    }
+
+    const validatedData = updateNotificationPreferencesSchema.parse(req.body);
+    const preferences = await updateNotificationPreferences(
+      req.user.userId,
+      validatedData.preferences
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Notification preferences updated',
+      data: preferences,
+    });
+  }
+);
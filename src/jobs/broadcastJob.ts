@@ -0,0 +1,27 @@
+import cron from 'node-cron';
+import { runDueBroadcasts } from '../services/broadcast.service.js';
+
+/**
+ * Send scheduled admin broadcasts whose time has come, and resume any that were cut off mid-send.
+ */
+export async function runBroadcastJob() {
+  const summary = await runDueBroadcasts();
+
+  if (summary.broadcasts > 0) {
+    console.log(
+      `[BroadcastJob] Sent ${summary.broadcasts} broadcast(s) to ${summary.recipients} recipient(s).`
+    );
+  }
+
+  return summary;
+}
+
+/**
+ * Schedule broadcast job - runs every minute.
+ */
+export function scheduleBroadcastJob(): void {
+  cron.schedule('* * * * *', () => {
+    runBroadcastJob().catch((err) => console.error('[BroadcastJob]', err));
+  });
+  console.log('[BroadcastJob] Scheduled: every minute');
+}
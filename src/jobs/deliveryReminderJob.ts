@@ -1,7 +1,8 @@
 import cron from 'node-cron';
 import { prisma } from '../config/database.js';
 import { AssignmentStatus } from '@prisma/client';
-import { notifyUser } from '../services/notificationDelivery.service.js';
+import { notifyUserTemplate } from '../services/notificationDelivery.service.js';
+import { assignmentProductType } from '../services/orderLine.service.js';
 
 /**
  * Notify farmers of deliveries due in ~24 hours.
@@ -22,15 +23,15 @@ export async function runDeliveryReminderJob(): Promise<void> {
     include: {
       farmer: { select: { userId: true } },
       order: { select: { productType: true } },
+      orderLine: { select: { productType: true } },
     },
   });
 
   for (const a of assignments) {
-    await notifyUser(
+    await notifyUserTemplate(
       a.farmer.userId,
       'DELIVERY_REMINDER',
-      'Delivery tomorrow',
-      `Reminder: You have a delivery of ${a.assignedQuantity} units of ${a.order.productType} scheduled for tomorrow.`,
+      { quantity: a.assignedQuantity, productType: assignmentProductType(a) },
       { deliveryAssignmentId: a.id }
     ).catch((err) => console.error('[DeliveryReminderJob]', err));
   }
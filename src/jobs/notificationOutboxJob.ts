@@ -0,0 +1,28 @@
+import cron from 'node-cron';
+import { drainNotificationOutbox } from '../services/notificationOutbox.service.js';
+
+/**
+ * Send due email/SMS/push messages from the notification outbox (first attempts that were
+ * cut off, and retries whose backoff has elapsed).
+ */
+export async function runNotificationOutboxJob() {
+  const summary = await drainNotificationOutbox();
+
+  if (summary.processed > 0) {
+    console.log(
+      `[NotificationOutboxJob] Processed ${summary.processed} message(s): ${summary.sent} sent, ${summary.retrying} retrying, ${summary.failed} failed.`
+    );
+  }
+
+  return summary;
+}
+
+/**
+ * Schedule notification outbox job - runs every minute.
+ */
+export function scheduleNotificationOutboxJob(): void {
+  cron.schedule('* * * * *', () => {
+    runNotificationOutboxJob().catch((err) => console.error('[NotificationOutboxJob]', err));
+  });
+  console.log('[NotificationOutboxJob] Scheduled: every minute');
+}
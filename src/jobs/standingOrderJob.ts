@@ -1,21 +1,34 @@
 import cron from 'node-cron';
 import { generateOrdersFromStandingOrders } from '../services/standingOrder.service.js';
+import { autoApproveOrder } from '../services/autoApproval.service.js';
 import { createAuditLog } from '../utils/auditLog.js';
 
 /**
  * Run the standing order generation job once.
- * Creates orders from active standing orders for the next delivery date.
+ * Creates orders from active standing orders for the next delivery date, then runs the
+ * auto-approval policy on each new order (one order failing does not stop the rest).
  */
 export async function runStandingOrderGenerationJob(): Promise<void> {
   try {
     const { created, orderIds } = await generateOrdersFromStandingOrders();
     if (created > 0) {
+      let autoApproved = 0;
+      for (const orderId of orderIds) {
+        const decision = await autoApproveOrder(orderId).catch((err) => {
+          console.error('[StandingOrderJob] Auto-approval failed for order', orderId, err);
+          return null;
+        });
+        if (decision?.approved) autoApproved++;
+      }
+
       await createAuditLog({
         actionType: 'STANDING_ORDERS_GENERATED',
         entityType: 'System',
-        details: { created, orderIds },
+        details: { created, orderIds, autoApproved },
       });
-      console.log(`[StandingOrderJob] Generated ${created} order(s) from standing orders.`);
+      console.log(
+        `[StandingOrderJob] Generated ${created} order(s) from standing orders, ${autoApproved} auto-approved.`
+      );
     }
   } catch (error) {
     console.error('[StandingOrderJob] Error generating orders from standing orders:', error);
@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import { verifyAccessToken, TokenPayload } from '../utils/jwt.js';
+import { isSessionActive } from '../services/session.service.js';
 
 // Extend Express Request to include user info
 export interface AuthRequest extends Request {
@@ -7,14 +8,24 @@ export interface AuthRequest extends Request {
 }
 
 /**
- * Authentication middleware - Verifies JWT access token
+ * Access token payload if the token is valid and its session has not been revoked, else null.
+ * Tokens without a session ID are rejected.
+ */
+async function verifyAuthenticatedToken(token: string): Promise<TokenPayload | null> {
+  const decoded = verifyAccessToken(token);
+  if (!decoded?.sessionId) return null;
+  return (await isSessionActive(decoded.sessionId, decoded.userId)) ? decoded : null;
+}
+
+/**
+ * Authentication middleware - Verifies JWT access token and that its session is still active
  * Attaches user info to request if token is valid
  */
-export function authenticate(
+export async function authenticate(
   req: AuthRequest,
   res: Response,
   next: NextFunction
-): void {
+): Promise<void> {
   try {
     console.log(`[AUTH] ${req.method} ${req.path} - Checking authentication`);
     
@@ -42,11 +53,11 @@ export function authenticate(
 
     const token = parts[1];
 
-    // Verify token
-    const decoded = verifyAccessToken(token);
+    // Verify token and session (revoked sessions end access tokens too)
+    const decoded = await verifyAuthenticatedToken(token);
 
     if (!decoded) {
-      console.log(`[AUTH] Invalid or expired token for ${req.path}`);
+      console.log(`[AUTH] Invalid, expired or revoked token for ${req.path}`);
       res.status(401).json({
         error: 'Unauthorized',
         message: 'Invalid or expired token',
@@ -71,11 +82,11 @@ export function authenticate(
  * Optional authentication - Doesn't fail if no token, but attaches user if token exists
  * Useful for endpoints that work with or without authentication
  */
-export function optionalAuthenticate(
+export async function optionalAuthenticate(
   req: AuthRequest,
   res: Response,
   next: NextFunction
-): void {
+): Promise<void> {
   try {
     const authHeader = req.headers.authorization;
 
@@ -83,7 +94,7 @@ export function optionalAuthenticate(
       const parts = authHeader.split(' ');
       if (parts.length === 2 && parts[0] === 'Bearer') {
         const token = parts[1];
-        const decoded = verifyAccessToken(token);
+        const decoded = await verifyAuthenticatedToken(token);
         if (decoded) {
           req.user = decoded;
         }
@@ -97,3 +108,19 @@ export function optionalAuthenticate(
   }
 }
 
+
+/**
+ * Authentication for EventSource streams. Browsers cannot set headers on EventSource, so the
+ * access token may also be passed as ?access_token=. Otherwise the same as authenticate.
+ */
+export async function authenticateEventStream(
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  const queryToken = req.query.access_token;
+  if (!req.headers.authorization && typeof queryToken === 'string' && queryToken) {
+    req.headers.authorization = `Bearer ${queryToken}`;
+  }
+  await authenticate(req, res, next);
+}
@@ -38,10 +38,11 @@ export const uploadSingleFarmPhoto = upload.single('photo');
 // Single avatar upload (profile picture)
 export const uploadSingleAvatar = upload.single('avatar');
 
+// Support ticket reply attachments (images/PDF, up to 5)
+export const uploadTicketAttachments = upload.array('attachments', 5);
 
+// Dispute evidence (images/PDF, up to 5)
+export const uploadDisputeEvidence = upload.array('evidence', 5);
 
-
-
-
-
-
+// Buyer delivery acknowledgement photos (images, up to 5)
+export const uploadAcknowledgementPhotos = upload.array('photos', 5);
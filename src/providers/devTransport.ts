@@ -0,0 +1,29 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import { env } from '../config/env.js';
+import type { ProviderResult } from './types.js';
+
+/**
+ * Development/test transport: append the message as one JSON line to
+ * NOTIFICATION_FILE_DIR/<channel>.log, or print it to the console.
+ */
+export async function writeDevMessage(
+  mode: 'file' | 'console',
+  channel: 'email' | 'sms',
+  message: object
+): Promise<ProviderResult> {
+  const messageId = `${mode}-${crypto.randomUUID()}`;
+  const record = { id: messageId, channel, sentAt: new Date().toISOString(), ...message };
+
+  if (mode === 'console') {
+    console.log(`[${channel.toUpperCase()}:console]`, JSON.stringify(record, null, 2));
+    return { messageId, response: 'logged to console' };
+  }
+
+  const dir = path.resolve(env.NOTIFICATION_FILE_DIR);
+  const file = path.join(dir, `${channel}.log`);
+  await fs.mkdir(dir, { recursive: true });
+  await fs.appendFile(file, JSON.stringify(record) + '\n', 'utf8');
+  return { messageId, response: `written to ${file}` };
+}
@@ -0,0 +1,113 @@
+import nodemailer from 'nodemailer';
+import { env } from '../config/env.js';
+import { writeDevMessage } from './devTransport.js';
+import type { EmailMessage, EmailProvider } from './types.js';
+
+const FROM_NAME = 'Sourceli';
+
+/**
+ * SendGrid v3 mail send API. Sends both plain text and HTML.
+ */
+function createSendGridProvider(apiKey: string, fromEmail: string): EmailProvider {
+  return {
+    name: 'sendgrid',
+    async send(message: EmailMessage) {
+      const content: { type: string; value: string }[] = [{ type: 'text/plain', value: message.text }];
+      if (message.html) {
+        content.push({ type: 'text/html', value: message.html });
+      }
+
+      const res = await fetch('https://api.sendgrid.com/v3/mail/send', {
+        method: 'POST',
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          personalizations: [{ to: [{ email: message.to }] }],
+          from: { email: fromEmail, name: FROM_NAME },
+          subject: message.subject,
+          content,
+        }),
+      });
+
+      if (!res.ok) {
+        const body = await res.text();
+        throw new Error(`SendGrid error ${res.status}: ${body}`);
+      }
+
+      return {
+        messageId: res.headers.get('x-message-id'),
+        response: `${res.status} ${res.statusText}`.trim(),
+      };
+    },
+  };
+}
+
+/**
+ * Any SMTP server (e.g. a local mail catcher, or a mail host without an HTTP API).
+ */
+function createSmtpProvider(host: string, fromEmail: string): EmailProvider {
+  const transporter = nodemailer.createTransport({
+    host,
+    port: env.SMTP_PORT,
+    secure: env.SMTP_SECURE,
+    ...(env.SMTP_USER && { auth: { user: env.SMTP_USER, pass: env.SMTP_PASS } }),
+  });
+
+  return {
+    name: 'smtp',
+    async send(message: EmailMessage) {
+      const info = await transporter.sendMail({
+        from: { name: FROM_NAME, address: fromEmail },
+        to: message.to,
+        subject: message.subject,
+        text: message.text,
+        html: message.html,
+      });
+      return { messageId: info.messageId ?? null, response: String(info.response ?? 'accepted') };
+    },
+  };
+}
+
+function createDevProvider(mode: 'file' | 'console'): EmailProvider {
+  return {
+    name: mode,
+    send: (message: EmailMessage) => writeDevMessage(mode, 'email', message),
+  };
+}
+
+let emailProvider: EmailProvider | null | undefined;
+
+/**
+ * Email provider selected by EMAIL_PROVIDER. When unset, SendGrid is used if configured.
+ * Returns null when email is disabled or the selected provider is missing its settings.
+ */
+export function getEmailProvider(): EmailProvider | null {
+  if (emailProvider !== undefined) return emailProvider;
+
+  const selected = env.EMAIL_PROVIDER ?? (env.SENDGRID_API_KEY ? 'sendgrid' : 'none');
+  switch (selected) {
+    case 'sendgrid':
+      emailProvider =
+        env.SENDGRID_API_KEY && env.SENDGRID_FROM_EMAIL
+          ? createSendGridProvider(env.SENDGRID_API_KEY, env.SENDGRID_FROM_EMAIL)
+          : null;
+      break;
+    case 'smtp':
+      emailProvider =
+        env.SMTP_HOST && env.SMTP_FROM_EMAIL ? createSmtpProvider(env.SMTP_HOST, env.SMTP_FROM_EMAIL) : null;
+      break;
+    case 'file':
+    case 'console':
+      emailProvider = createDevProvider(selected);
+      break;
+    default:
+      emailProvider = null;
+  }
+
+  if (!emailProvider && selected !== 'none') {
+    console.warn(`[Email] EMAIL_PROVIDER=${selected} is missing its settings; email is disabled`);
+  }
+  return emailProvider;
+}
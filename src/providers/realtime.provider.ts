@@ -0,0 +1,61 @@
+import type Pusher from 'pusher';
+import { env } from '../config/env.js';
+import { getPusher, userChannel } from '../utils/pusher.js';
+import { publishSseEvent } from '../utils/sse.js';
+import type { RealtimeEvent, RealtimeProvider } from './types.js';
+
+/**
+ * Pusher Channels: events go to the user's private channel (see pusher-auth).
+ */
+function createPusherProvider(pusher: Pusher): RealtimeProvider {
+  return {
+    name: 'pusher',
+    async publish(userId: string, event: RealtimeEvent, data: Record<string, unknown>) {
+      await pusher.trigger(userChannel(userId), event, data);
+    },
+  };
+}
+
+/**
+ * Built-in Server-Sent Events stream (GET /api/system/notifications/stream).
+ * Notification events carry the notification id as the SSE event id so reconnecting
+ * clients get what they missed from the Notification table.
+ */
+function createSseProvider(): RealtimeProvider {
+  return {
+    name: 'sse',
+    async publish(userId: string, event: RealtimeEvent, data: Record<string, unknown>) {
+      publishSseEvent(userId, event, data, event === 'notification' ? String(data.id) : undefined);
+    },
+  };
+}
+
+let realtimeProvider: RealtimeProvider | null | undefined;
+
+/**
+ * Real-time provider selected by REALTIME_PROVIDER. When unset, Pusher is used if configured,
+ * otherwise push is off. SSE must be chosen explicitly: its streams live in one process, so it
+ * does not work on serverless deployments (Vercel) or across several instances.
+ * Returns null when real-time push is disabled or Pusher is missing its settings.
+ */
+export function getRealtimeProvider(): RealtimeProvider | null {
+  if (realtimeProvider !== undefined) return realtimeProvider;
+
+  const pusher = getPusher();
+  const selected = env.REALTIME_PROVIDER ?? (pusher ? 'pusher' : 'none');
+  switch (selected) {
+    case 'pusher':
+      realtimeProvider = pusher ? createPusherProvider(pusher) : null;
+      break;
+    case 'sse':
+      realtimeProvider = createSseProvider();
+      break;
+    default:
+      realtimeProvider = null;
+  }
+
+  if (!realtimeProvider && selected !== 'none') {
+    console.warn(`[Realtime] REALTIME_PROVIDER=${selected} is missing its settings; real-time push is disabled`);
+  }
+  return realtimeProvider;
+}
@@ -0,0 +1,81 @@
+import { env } from '../config/env.js';
+import { writeDevMessage } from './devTransport.js';
+import type { SmsMessage, SmsProvider } from './types.js';
+
+/** Twilio rejects longer bodies */
+const TWILIO_MAX_BODY = 1600;
+
+/**
+ * Twilio Messages API.
+ */
+function createTwilioProvider(accountSid: string, authToken: string, from: string): SmsProvider {
+  return {
+    name: 'twilio',
+    async send(message: SmsMessage) {
+      const params = new URLSearchParams();
+      params.set('To', message.to);
+      params.set('From', from);
+      params.set('Body', message.body.slice(0, TWILIO_MAX_BODY));
+
+      const res = await fetch(
+        `https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`,
+        {
+          method: 'POST',
+          headers: {
+            Authorization: 'Basic ' + Buffer.from(`${accountSid}:${authToken}`).toString('base64'),
+            'Content-Type': 'application/x-www-form-urlencoded',
+          },
+          body: params.toString(),
+        }
+      );
+
+      const data = (await res.json().catch(() => ({}))) as { sid?: string; status?: string };
+      if (!res.ok) {
+        throw new Error(`Twilio error ${res.status}: ${JSON.stringify(data)}`);
+      }
+
+      return {
+        messageId: data.sid ?? null,
+        response: `${res.status} ${data.status ?? res.statusText}`.trim(),
+      };
+    },
+  };
+}
+
+function createDevProvider(mode: 'file' | 'console'): SmsProvider {
+  return {
+    name: mode,
+    send: (message: SmsMessage) => writeDevMessage(mode, 'sms', message),
+  };
+}
+
+let smsProvider: SmsProvider | null | undefined;
+
+/**
+ * SMS provider selected by SMS_PROVIDER. When unset, Twilio is used if configured.
+ * Returns null when SMS is disabled or the selected provider is missing its settings.
+ */
+export function getSmsProvider(): SmsProvider | null {
+  if (smsProvider !== undefined) return smsProvider;
+
+  const selected = env.SMS_PROVIDER ?? (env.TWILIO_ACCOUNT_SID ? 'twilio' : 'none');
+  switch (selected) {
+    case 'twilio':
+      smsProvider =
+        env.TWILIO_ACCOUNT_SID && env.TWILIO_AUTH_TOKEN && env.TWILIO_FROM_NUMBER
+          ? createTwilioProvider(env.TWILIO_ACCOUNT_SID, env.TWILIO_AUTH_TOKEN, env.TWILIO_FROM_NUMBER)
+          : null;
+      break;
+    case 'file':
+    case 'console':
+      smsProvider = createDevProvider(selected);
+      break;
+    default:
+      smsProvider = null;
+  }
+
+  if (!smsProvider && selected !== 'none') {
+    console.warn(`[SMS] SMS_PROVIDER=${selected} is missing its settings; SMS is disabled`);
+  }
+  return smsProvider;
+}
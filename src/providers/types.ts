@@ -0,0 +1,46 @@
+/** What a provider returned for an accepted message (stored on outbox rows) */
+export interface ProviderResult {
+  messageId: string | null;
+  response: string;
+}
+
+export interface EmailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface SmsMessage {
+  to: string; // E.164
+  body: string;
+}
+
+/**
+ * An email transport. `send` throws when the provider rejects the message.
+ */
+export interface EmailProvider {
+  name: string;
+  send(message: EmailMessage): Promise<ProviderResult>;
+}
+
+/**
+ * An SMS transport (Twilio today; a local Ghanaian gateway can be added as another adapter).
+ * `send` throws when the provider rejects the message.
+ */
+export interface SmsProvider {
+  name: string;
+  send(message: SmsMessage): Promise<ProviderResult>;
+}
+
+/** Events sent to a user's real-time channel */
+export type RealtimeEvent = 'notification' | 'unread-count';
+
+/**
+ * A real-time transport to a user's open dashboards (Pusher channel or SSE stream).
+ * `publish` throws when the transport rejects the event.
+ */
+export interface RealtimeProvider {
+  name: string;
+  publish(userId: string, event: RealtimeEvent, data: Record<string, unknown>): Promise<void>;
+}
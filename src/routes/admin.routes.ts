@@ -1,6 +1,7 @@
 import { Router } from 'express';
 import { authenticate } from '../middleware/auth.js';
 import { requireAdmin } from '../middleware/rbac.js';
+import { uploadTicketAttachments, uploadDisputeEvidence } from '../middleware/upload.js';
 import {
   getPendingFarmerApplicationsHandler,
   getFarmerApplicationByIdHandler,
@@ -36,12 +37,16 @@ import {
 import {
   getAllocationDataHandler,
   createAssignmentsHandler,
+  createBatchAssignmentsHandler,
+  suggestAllocationHandler,
   updateAssignmentHandler,
   deleteAssignmentHandler,
   getAllDeliveryAssignmentsHandler,
   getDeliveryAssignmentByIdHandler,
   createDeliveryByAdminHandler,
   confirmDeliveryHandler,
+  getDeliveryAcknowledgementsHandler,
+  reviewDeliveryAcknowledgementHandler,
 } from '../controllers/allocation.controller.js';
 import {
   recordPaymentHandler,
@@ -50,6 +55,26 @@ import {
   updatePaymentHandler,
   deletePaymentHandler,
 } from '../controllers/payment.controller.js';
+import {
+  getAdminInvoicesHandler,
+  getAdminInvoiceByIdHandler,
+  issueInvoiceForOrderHandler,
+} from '../controllers/invoice.controller.js';
+import {
+  downloadInvoicePdfHandler,
+  downloadPaymentReceiptPdfHandler,
+  downloadBuyerPaymentReceiptPdfHandler,
+  downloadDeliveryNotePdfHandler,
+  downloadOrderSummaryPdfHandler,
+} from '../controllers/document.controller.js';
+import {
+  getDisputesHandler,
+  getDisputeByIdHandler,
+  addDisputeEvidenceHandler,
+  startDisputeReviewHandler,
+  resolveDisputeHandler,
+} from '../controllers/dispute.controller.js';
+import { getNotificationsHandler, getUnreadCountHandler } from '../controllers/notification.controller.js';
 import {
   getPerformanceRulesHandler,
   updatePerformanceRulesHandler,
@@ -58,6 +83,13 @@ import {
   getPricingBandsHandler,
   updatePricingBandHandler,
   createProduceCategoryHandler,
+  getHolidaysHandler,
+  createHolidayHandler,
+  updateHolidayHandler,
+  deleteHolidayHandler,
+  getAutoApprovalPolicyHandler,
+  updateAutoApprovalPolicyHandler,
+  evaluateAutoApprovalHandler,
   getAuditLogsHandler,
   getAuditLogByIdHandler,
   updateAuditLogHandler,
@@ -67,6 +99,18 @@ import {
   respondToSupportTicketHandler,
   updateSupportTicketHandler,
   createSupportTicketByAdminHandler,
+  addSupportTicketMessageHandler,
+  getNotificationDeliveriesHandler,
+  getNotificationDeliveryByIdHandler,
+  resendNotificationDeliveryHandler,
+  getNotificationTemplatesHandler,
+  previewNotificationTemplateHandler,
+  createBroadcastHandler,
+  getBroadcastAudienceHandler,
+  getBroadcastsHandler,
+  getBroadcastByIdHandler,
+  getBroadcastRecipientsHandler,
+  cancelBroadcastHandler,
 } from '../controllers/admin.controller.js';
 
 const router = Router();
@@ -118,12 +162,15 @@ router.post('/orders', createOrderHandler);
 router.patch('/orders/:id', updateOrderHandler);
 router.delete('/orders/:id', deleteOrderHandler);
 router.post('/orders/:id/approve', approveOrderHandler);
+router.get('/orders/:id/auto-approval', evaluateAutoApprovalHandler);
 router.post('/orders/:id/reject', rejectOrderHandler);
 router.post('/orders/:id/request-modification', requestOrderModificationHandler);
 
 // Allocation Management
 router.get('/allocations', getAllocationDataHandler);
 router.post('/allocations', createAssignmentsHandler);
+router.post('/allocations/batch', createBatchAssignmentsHandler);
+router.post('/allocations/:orderId/suggest', suggestAllocationHandler);
 router.put('/allocations/:id', updateAssignmentHandler);
 router.delete('/allocations/:id', deleteAssignmentHandler);
 
@@ -135,6 +182,10 @@ router.patch('/deliveries/:id', updateAssignmentHandler);
 router.delete('/deliveries/:id', deleteAssignmentHandler);
 router.post('/deliveries/:id/confirm', confirmDeliveryHandler);
 
+// Buyer delivery acknowledgements (discrepancy review)
+router.get('/delivery-acknowledgements', getDeliveryAcknowledgementsHandler);
+router.post('/delivery-acknowledgements/:id/review', reviewDeliveryAcknowledgementHandler);
+
 // Payment Management
 router.get('/payments', getPaymentReportsHandler);
 router.get('/payments/:id', getPaymentByIdHandler);
@@ -146,6 +197,18 @@ router.delete('/payments/:id', deletePaymentHandler);
 router.get('/buyer-order-payments', getBuyerOrderPaymentsHandler);
 router.post('/buyer-order-payments/:id/confirm', confirmBuyerOrderPaymentHandler);
 
+// Buyer invoices
+router.get('/invoices', getAdminInvoicesHandler);
+router.get('/invoices/:id', getAdminInvoiceByIdHandler);
+router.post('/orders/:id/invoice', issueInvoiceForOrderHandler);
+
+// Downloadable PDFs
+router.get('/documents/invoices/:id', downloadInvoicePdfHandler);
+router.get('/documents/orders/:id', downloadOrderSummaryPdfHandler);
+router.get('/documents/delivery-notes/:id', downloadDeliveryNotePdfHandler);
+router.get('/documents/payment-receipts/:id', downloadPaymentReceiptPdfHandler);
+router.get('/documents/buyer-payment-receipts/:id', downloadBuyerPaymentReceiptPdfHandler);
+
 // Performance rules (US-ADMIN-006), review, and override (US-ADMIN-009)
 router.get('/performance-rules', getPerformanceRulesHandler);
 router.put('/performance-rules', updatePerformanceRulesHandler);
@@ -157,6 +220,16 @@ router.get('/pricing-bands', getPricingBandsHandler);
 router.put('/pricing-bands', updatePricingBandHandler);
 router.post('/produce-categories', createProduceCategoryHandler);
 
+// Holiday calendar (standing orders skip or move deliveries on these days)
+router.get('/holidays', getHolidaysHandler);
+router.post('/holidays', createHolidayHandler);
+router.patch('/holidays/:id', updateHolidayHandler);
+router.delete('/holidays/:id', deleteHolidayHandler);
+
+// Auto-approval policy
+router.get('/auto-approval-policy', getAutoApprovalPolicyHandler);
+router.put('/auto-approval-policy', updateAutoApprovalPolicyHandler);
+
 // Audit logs (reportable, US-SYS-003)
 router.get('/audit-logs', getAuditLogsHandler);
 router.get('/audit-logs/:id', getAuditLogByIdHandler);
@@ -169,6 +242,33 @@ router.post('/support-tickets', createSupportTicketByAdminHandler);
 router.get('/support-tickets/:id', getSupportTicketByIdHandler);
 router.patch('/support-tickets/:id', updateSupportTicketHandler);
 router.post('/support-tickets/:id/respond', respondToSupportTicketHandler);
+router.post('/support-tickets/:id/messages', uploadTicketAttachments, addSupportTicketMessageHandler);
+
+// Delivery and payment disputes
+router.get('/disputes', getDisputesHandler);
+router.get('/disputes/:id', getDisputeByIdHandler);
+router.post('/disputes/:id/evidence', uploadDisputeEvidence, addDisputeEvidenceHandler);
+router.post('/disputes/:id/review', startDisputeReviewHandler);
+router.post('/disputes/:id/resolve', resolveDisputeHandler);
+
+// Admin's own notifications inbox (mark-read/archive/delete via /api/system/notifications)
+router.get('/notifications', getNotificationsHandler);
+router.get('/notifications/unread-count', getUnreadCountHandler);
+
+// Notification delivery log (email/SMS/push outbox)
+router.get('/notification-deliveries', getNotificationDeliveriesHandler);
+router.get('/notification-deliveries/:id', getNotificationDeliveryByIdHandler);
+router.post('/notification-deliveries/:id/resend', resendNotificationDeliveryHandler);
+router.get('/notification-templates', getNotificationTemplatesHandler);
+router.post('/notification-templates/preview', previewNotificationTemplateHandler);
+
+// Broadcast messages to farmer/buyer segments
+router.post('/broadcasts', createBroadcastHandler);
+router.post('/broadcasts/audience', getBroadcastAudienceHandler);
+router.get('/broadcasts', getBroadcastsHandler);
+router.get('/broadcasts/:id', getBroadcastByIdHandler);
+router.get('/broadcasts/:id/recipients', getBroadcastRecipientsHandler);
+router.post('/broadcasts/:id/cancel', cancelBroadcastHandler);
 
 export default router;
 
@@ -7,14 +7,23 @@ import {
   updateMeHandler,
   refreshTokenHandler,
   logoutHandler,
+  getSessionsHandler,
+  revokeSessionHandler,
   forgotPasswordHandler,
   resetPasswordHandler,
   verifyResetTokenHandler,
+  verifyResetCodeHandler,
+  requestOtpHandler,
+  verifyOtpHandler,
   changePasswordHandler,
   uploadFarmPhotoHandler,
   uploadRegisterProfilePhotoHandler,
   uploadAvatarHandler,
 } from '../controllers/auth.controller.js';
+import {
+  getNotificationPreferencesHandler,
+  updateNotificationPreferencesHandler,
+} from '../controllers/notification.controller.js';
 import { authenticate } from '../middleware/auth.js';
 import { uploadFarmPhotos, uploadSingleFarmPhoto, uploadSingleAvatar } from '../middleware/upload.js';
 
@@ -54,6 +63,11 @@ router.post('/login', loginHandler);
 router.post('/forgot-password', forgotPasswordHandler);
 router.post('/reset-password', resetPasswordHandler);
 router.get('/verify-reset-token/:token', verifyResetTokenHandler);
+router.post('/verify-reset-code', verifyResetCodeHandler);
+
+// SMS one-time codes: passwordless farmer login and phone verification (rate limited per phone and IP)
+router.post('/otp/request', requestOtpHandler);
+router.post('/otp/verify', verifyOtpHandler);
 
 /**
  * Protected routes (authentication required)
@@ -65,6 +79,10 @@ router.get('/me', authenticate, getMeHandler);
 // Update current user profile
 router.patch('/me', authenticate, updateMeHandler);
 
+// Notification preferences (channel opt-outs and quiet hours)
+router.get('/me/notification-preferences', authenticate, getNotificationPreferencesHandler);
+router.put('/me/notification-preferences', authenticate, updateNotificationPreferencesHandler);
+
 // Upload profile picture (authenticated)
 router.put('/upload/avatar', authenticate, uploadSingleAvatar, uploadAvatarHandler);
 
@@ -74,6 +92,10 @@ router.post('/refresh', refreshTokenHandler);
 // Logout
 router.post('/logout', authenticate, logoutHandler);
 
+// Active sessions (logged-in devices)
+router.get('/sessions', authenticate, getSessionsHandler);
+router.delete('/sessions/:id', authenticate, revokeSessionHandler);
+
 // Change password (authenticated users)
 router.post('/change-password', authenticate, changePasswordHandler);
 
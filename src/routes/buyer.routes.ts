@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import { authenticate } from '../middleware/auth.js';
+import { uploadTicketAttachments, uploadDisputeEvidence, uploadAcknowledgementPhotos } from '../middleware/upload.js';
 import { requireBuyer } from '../middleware/rbac.js';
 import {
   getBuyerDashboardHandler,
@@ -13,18 +14,51 @@ import {
   cancelOrderHandler,
   updateOrderHandler,
   recordOrderPaymentHandler,
+  acknowledgeDeliveryHandler,
   getPaymentsToSuppliersHandler,
   createStandingOrderHandler,
   getStandingOrdersHandler,
   getStandingOrderByIdHandler,
   updateStandingOrderHandler,
+  addStandingOrderPauseHandler,
+  removeStandingOrderPauseHandler,
+  previewStandingOrderHandler,
+  getOrderTemplatesHandler,
+  getOrderTemplateByIdHandler,
+  createOrderTemplateHandler,
+  updateOrderTemplateHandler,
+  deleteOrderTemplateHandler,
+  submitOrderTemplateHandler,
+  getOrderDraftsHandler,
+  getOrderDraftByIdHandler,
+  createOrderDraftHandler,
+  updateOrderDraftHandler,
+  deleteOrderDraftHandler,
+  submitOrderDraftHandler,
   createSupportTicketHandler,
   getSupportTicketsHandler,
   getSupportTicketByIdHandler,
+  addSupportTicketMessageHandler,
   updateSupportTicketHandler,
   deleteSupportTicketHandler,
 } from '../controllers/buyer.controller.js';
-import { getNotificationsHandler } from '../controllers/notification.controller.js';
+import { getNotificationsHandler, getUnreadCountHandler } from '../controllers/notification.controller.js';
+import {
+  getBuyerInvoicesHandler,
+  getBuyerInvoiceByIdHandler,
+} from '../controllers/invoice.controller.js';
+import {
+  downloadInvoicePdfHandler,
+  downloadBuyerPaymentReceiptPdfHandler,
+  downloadDeliveryNotePdfHandler,
+  downloadOrderSummaryPdfHandler,
+} from '../controllers/document.controller.js';
+import {
+  openDisputeHandler,
+  getDisputesHandler,
+  getDisputeByIdHandler,
+  addDisputeEvidenceHandler,
+} from '../controllers/dispute.controller.js';
 
 const router = Router();
 
@@ -53,9 +87,24 @@ router.get('/orders', getOrdersHandler);
 router.post('/orders/:id/cancel', cancelOrderHandler);
 router.put('/orders/:id', updateOrderHandler);
 router.post('/orders/:id/record-payment', recordOrderPaymentHandler);
+router.post('/orders/:id/deliveries/:assignmentId/acknowledge', uploadAcknowledgementPhotos, acknowledgeDeliveryHandler);
 router.get('/orders/:id', getOrderByIdHandler);
 router.get('/payments-to-suppliers', getPaymentsToSuppliersHandler);
 
+/**
+ * Invoices (generated when an order is delivered)
+ */
+router.get('/invoices', getBuyerInvoicesHandler);
+router.get('/invoices/:id', getBuyerInvoiceByIdHandler);
+
+/**
+ * Downloadable PDFs (own orders only)
+ */
+router.get('/documents/invoices/:id', downloadInvoicePdfHandler);
+router.get('/documents/orders/:id', downloadOrderSummaryPdfHandler);
+router.get('/documents/delivery-notes/:id', downloadDeliveryNotePdfHandler);
+router.get('/documents/buyer-payment-receipts/:id', downloadBuyerPaymentReceiptPdfHandler);
+
 /**
  * Standing order routes
  */
@@ -63,11 +112,31 @@ router.post('/standing-orders', createStandingOrderHandler);
 router.get('/standing-orders', getStandingOrdersHandler);
 router.get('/standing-orders/:id', getStandingOrderByIdHandler);
 router.put('/standing-orders/:id', updateStandingOrderHandler);
+router.get('/standing-orders/:id/preview', previewStandingOrderHandler);
+router.post('/standing-orders/:id/pauses', addStandingOrderPauseHandler);
+router.delete('/standing-orders/:id/pauses/:pauseId', removeStandingOrderPauseHandler);
+
+/**
+ * Order templates (submitted on demand) and server-side drafts
+ */
+router.get('/order-templates', getOrderTemplatesHandler);
+router.post('/order-templates', createOrderTemplateHandler);
+router.get('/order-templates/:id', getOrderTemplateByIdHandler);
+router.put('/order-templates/:id', updateOrderTemplateHandler);
+router.delete('/order-templates/:id', deleteOrderTemplateHandler);
+router.post('/order-templates/:id/submit', submitOrderTemplateHandler);
+router.get('/order-drafts', getOrderDraftsHandler);
+router.post('/order-drafts', createOrderDraftHandler);
+router.get('/order-drafts/:id', getOrderDraftByIdHandler);
+router.put('/order-drafts/:id', updateOrderDraftHandler);
+router.delete('/order-drafts/:id', deleteOrderDraftHandler);
+router.post('/order-drafts/:id/submit', submitOrderDraftHandler);
 
 /**
  * Notifications
  */
 router.get('/notifications', getNotificationsHandler);
+router.get('/notifications/unread-count', getUnreadCountHandler);
 
 /**
  * Support tickets (buyer only)
@@ -75,9 +144,18 @@ router.get('/notifications', getNotificationsHandler);
 router.post('/support-tickets', createSupportTicketHandler);
 router.get('/support-tickets', getSupportTicketsHandler);
 router.get('/support-tickets/:id', getSupportTicketByIdHandler);
+router.post('/support-tickets/:id/messages', uploadTicketAttachments, addSupportTicketMessageHandler);
 router.patch('/support-tickets/:id', updateSupportTicketHandler);
 router.delete('/support-tickets/:id', deleteSupportTicketHandler);
 
+/**
+ * Disputes (deliveries or supplier payments)
+ */
+router.post('/disputes', uploadDisputeEvidence, openDisputeHandler);
+router.get('/disputes', getDisputesHandler);
+router.get('/disputes/:id', getDisputeByIdHandler);
+router.post('/disputes/:id/evidence', uploadDisputeEvidence, addDisputeEvidenceHandler);
+
 export default router;
 
 
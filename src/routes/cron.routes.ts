@@ -1,6 +1,8 @@
 import { Router, Request, Response } from 'express';
 import { runStandingOrderGenerationJob } from '../jobs/standingOrderJob.js';
 import { runDeliveryReminderJob } from '../jobs/deliveryReminderJob.js';
+import { runNotificationOutboxJob } from '../jobs/notificationOutboxJob.js';
+import { runBroadcastJob } from '../jobs/broadcastJob.js';
 
 const router = Router();
 const CRON_SECRET = process.env.CRON_SECRET;
@@ -38,6 +40,26 @@ async function runDeliveryReminders(_req: Request, res: Response) {
   }
 }
 
+async function runNotificationOutbox(_req: Request, res: Response) {
+  try {
+    const summary = await runNotificationOutboxJob();
+    res.status(200).json({ ok: true, message: 'Notification outbox job completed.', ...summary });
+  } catch (error) {
+    console.error('[Cron] notification-outbox:', error);
+    res.status(500).json({ ok: false, error: error instanceof Error ? error.message : 'Job failed.' });
+  }
+}
+
+async function runBroadcasts(_req: Request, res: Response) {
+  try {
+    const summary = await runBroadcastJob();
+    res.status(200).json({ ok: true, message: 'Broadcast job completed.', ...summary });
+  } catch (error) {
+    console.error('[Cron] broadcasts:', error);
+    res.status(500).json({ ok: false, error: error instanceof Error ? error.message : 'Job failed.' });
+  }
+}
+
 /**
  * /api/cron/standing-orders – generate orders from standing orders (weekly).
  * Public if CRON_SECRET is not set. GET or POST.
@@ -52,4 +74,18 @@ router.post('/standing-orders', cronAuth, runStandingOrders);
 router.get('/delivery-reminders', cronAuth, runDeliveryReminders);
 router.post('/delivery-reminders', cronAuth, runDeliveryReminders);
 
+/**
+ * /api/cron/notification-outbox – send due and retried email/SMS/push messages (every few minutes).
+ * Public if CRON_SECRET is not set. GET or POST.
+ */
+router.get('/notification-outbox', cronAuth, runNotificationOutbox);
+router.post('/notification-outbox', cronAuth, runNotificationOutbox);
+
+/**
+ * /api/cron/broadcasts – send scheduled admin broadcasts that are due (every few minutes).
+ * Public if CRON_SECRET is not set. GET or POST.
+ */
+router.get('/broadcasts', cronAuth, runBroadcasts);
+router.post('/broadcasts', cronAuth, runBroadcasts);
+
 export default router;
@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import { authenticate } from '../middleware/auth.js';
+import { uploadTicketAttachments, uploadDisputeEvidence } from '../middleware/upload.js';
 import { requireFarmer } from '../middleware/rbac.js';
 import {
   getFarmerDashboardHandler,
@@ -22,6 +23,7 @@ import {
   createSupportTicketHandler,
   getSupportTicketsHandler,
   getSupportTicketByIdHandler,
+  addSupportTicketMessageHandler,
 } from '../controllers/farmer.controller.js';
 import {
   getFarmerPaymentsHandler,
@@ -30,7 +32,18 @@ import {
   getFarmerBuyerPaymentsHandler,
   confirmBuyerPaymentReceiptHandler,
 } from '../controllers/payment.controller.js';
-import { getNotificationsHandler } from '../controllers/notification.controller.js';
+import { getNotificationsHandler, getUnreadCountHandler } from '../controllers/notification.controller.js';
+import {
+  downloadPaymentReceiptPdfHandler,
+  downloadBuyerPaymentReceiptPdfHandler,
+  downloadDeliveryNotePdfHandler,
+} from '../controllers/document.controller.js';
+import {
+  openDisputeHandler,
+  getDisputesHandler,
+  getDisputeByIdHandler,
+  addDisputeEvidenceHandler,
+} from '../controllers/dispute.controller.js';
 
 const router = Router();
 
@@ -98,6 +111,13 @@ router.patch('/deliveries/:id', updateDeliveryAssignmentHandler);
 // Cancel delivery assignment
 router.delete('/deliveries/:id', cancelDeliveryAssignmentHandler);
 
+/**
+ * Downloadable PDFs (own deliveries and payments only)
+ */
+router.get('/documents/delivery-notes/:id', downloadDeliveryNotePdfHandler);
+router.get('/documents/payment-receipts/:id', downloadPaymentReceiptPdfHandler);
+router.get('/documents/buyer-payment-receipts/:id', downloadBuyerPaymentReceiptPdfHandler);
+
 /**
  * Farmer Performance Routes
  * Note: More specific routes must come before less specific ones
@@ -117,11 +137,21 @@ router.get('/performance', getPerformanceHandler);
 router.post('/support-tickets', createSupportTicketHandler);
 router.get('/support-tickets', getSupportTicketsHandler);
 router.get('/support-tickets/:id', getSupportTicketByIdHandler);
+router.post('/support-tickets/:id/messages', uploadTicketAttachments, addSupportTicketMessageHandler);
+
+/**
+ * Disputes (delivery confirmations or buyer payments)
+ */
+router.post('/disputes', uploadDisputeEvidence, openDisputeHandler);
+router.get('/disputes', getDisputesHandler);
+router.get('/disputes/:id', getDisputeByIdHandler);
+router.post('/disputes/:id/evidence', uploadDisputeEvidence, addDisputeEvidenceHandler);
 
 /**
  * Notifications
  */
 router.get('/notifications', getNotificationsHandler);
+router.get('/notifications/unread-count', getUnreadCountHandler);
 
 export default router;
 
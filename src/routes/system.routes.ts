@@ -1,7 +1,16 @@
 import { Router } from 'express';
-import { authenticate } from '../middleware/auth.js';
+import { authenticate, authenticateEventStream } from '../middleware/auth.js';
 import { getProduceCategoriesHandler, getDeliveryCoverageHandler } from '../controllers/system.controller.js';
-import { markReadHandler, markAllReadHandler, pusherAuthHandler } from '../controllers/notification.controller.js';
+import {
+  markReadHandler,
+  markAllReadHandler,
+  archiveNotificationsHandler,
+  unarchiveNotificationsHandler,
+  deleteNotificationsHandler,
+  notificationStreamHandler,
+  getRealtimeConfigHandler,
+  pusherAuthHandler,
+} from '../controllers/notification.controller.js';
 
 const router = Router();
 
@@ -20,10 +29,16 @@ router.get('/delivery-coverage', getDeliveryCoverageHandler);
  */
 router.post('/notifications/mark-read', authenticate, markReadHandler);
 router.post('/notifications/mark-all-read', authenticate, markAllReadHandler);
+router.post('/notifications/archive', authenticate, archiveNotificationsHandler);
+router.post('/notifications/unarchive', authenticate, unarchiveNotificationsHandler);
+router.post('/notifications/delete', authenticate, deleteNotificationsHandler);
+router.delete('/notifications/:id', authenticate, deleteNotificationsHandler);
 
 /**
- * Pusher private channel auth (for real-time notification subscription)
+ * Real-time notifications: transport discovery, SSE stream, and Pusher private channel auth
  */
+router.get('/realtime', authenticate, getRealtimeConfigHandler);
+router.get('/notifications/stream', authenticateEventStream, notificationStreamHandler);
 router.post('/pusher-auth', authenticate, pusherAuthHandler);
 
 export default router;
@@ -12,6 +12,8 @@ import farmerRoutes from './routes/farmer.routes.js';
 import buyerRoutes from './routes/buyer.routes.js';
 import { scheduleStandingOrderJob } from './jobs/standingOrderJob.js';
 import { scheduleDeliveryReminderJob } from './jobs/deliveryReminderJob.js';
+import { scheduleNotificationOutboxJob } from './jobs/notificationOutboxJob.js';
+import { scheduleBroadcastJob } from './jobs/broadcastJob.js';
 
 const app = express();
 const PORT = env.PORT;
@@ -94,9 +96,15 @@ app.get('/api', (_req: express.Request, res: express.Response) => {
           buyer: 'POST /api/auth/register/buyer',
         },
         login: 'POST /api/auth/login',
+        otpRequest: 'POST /api/auth/otp/request',
+        otpVerify: 'POST /api/auth/otp/verify',
         profile: 'GET /api/auth/me',
+        notificationPreferences: 'GET /api/auth/me/notification-preferences',
+        updateNotificationPreferences: 'PUT /api/auth/me/notification-preferences',
         refresh: 'POST /api/auth/refresh',
         logout: 'POST /api/auth/logout',
+        sessions: 'GET /api/auth/sessions',
+        revokeSession: 'DELETE /api/auth/sessions/:id',
         forgotPassword: 'POST /api/auth/forgot-password',
         resetPassword: 'POST /api/auth/reset-password',
         changePassword: 'POST /api/auth/change-password',
@@ -150,6 +158,8 @@ app.listen(PORT, () => {
   if (env.NODE_ENV !== 'test') {
     scheduleStandingOrderJob();
     scheduleDeliveryReminderJob();
+    scheduleNotificationOutboxJob();
+    scheduleBroadcastJob();
   }
   console.log(`\n📡 API Endpoints:`);
   console.log(`   POST /api/auth/register/farmer - Register as farmer`);
@@ -1,11 +1,12 @@
 import { prisma } from '../config/database.js';
 import { UserStatus, UserRole, PerformanceTier, OrderStatus, AssignmentStatus, PaymentStatus, TicketStatus } from '@prisma/client';
-import { notifyUser } from './notificationDelivery.service.js';
+import { notifyUserTemplate } from './notificationDelivery.service.js';
 import { hashPassword } from '../utils/password.js';
 import { toE164 } from '../utils/validation.js';
 import { createError } from '../middleware/errorHandler.js';
 import { createAuditLog } from '../utils/auditLog.js';
 import { ghanaCardDataForCreateRequired, ghanaCardPatchValue } from '../utils/ghanaCardFields.js';
+import { calculateDeliveredValue } from './pricing.service.js';
 
 export interface ApproveFarmerData {
   adminNotes?: string;
@@ -179,11 +180,10 @@ export async function approveFarmerApplication(
     return updatedApplication;
   });
 
-  await notifyUser(
+  await notifyUserTemplate(
     application.farmer.userId,
     'APPLICATION_REVIEWED',
-    'Application approved',
-    'Your farmer application has been approved. You can now access your dashboard and submit weekly availability.',
+    {},
     { applicationId }
   ).catch((err) => console.error('[Notification]', err));
 
@@ -238,11 +238,10 @@ export async function rejectFarmerApplication(
     return updatedApplication;
   });
 
-  await notifyUser(
+  await notifyUserTemplate(
     application.farmer.userId,
-    'APPLICATION_REJECTED',
-    'Application not approved',
-    data.rejectionReason || 'Your farmer application was not approved. Please contact support for more information.',
+    data.rejectionReason ? 'APPLICATION_REJECTED' : 'APPLICATION_REJECTED.noReason',
+    { reason: data.rejectionReason },
     { applicationId, rejectionReason: data.rejectionReason }
   ).catch((err) => console.error('[Notification]', err));
 
@@ -407,11 +406,10 @@ export async function approveBuyerRegistration(
     return updatedRegistration;
   });
 
-  await notifyUser(
+  await notifyUserTemplate(
     registration.buyer.userId,
     'REGISTRATION_APPROVED',
-    'Registration approved',
-    'Your buyer registration has been approved. You can now place orders.',
+    {},
     { registrationId }
   ).catch((err) => console.error('[Notification]', err));
 
@@ -466,11 +464,10 @@ export async function rejectBuyerRegistration(
     return updatedRegistration;
   });
 
-  await notifyUser(
+  await notifyUserTemplate(
     registration.buyer.userId,
-    'REGISTRATION_REJECTED',
-    'Registration not approved',
-    data.rejectionReason || 'Your buyer registration was not approved. Please contact support.',
+    data.rejectionReason ? 'REGISTRATION_REJECTED' : 'REGISTRATION_REJECTED.noReason',
+    { reason: data.rejectionReason },
     { registrationId, rejectionReason: data.rejectionReason }
   ).catch((err) => console.error('[Notification]', err));
 
@@ -1343,8 +1340,7 @@ export async function getAdminStats() {
       // Payment stats
       totalPayments,
       totalPaid,
-      totalOwed,
-      outstandingBalance,
+      deliveredValue,
       // Chart data - registrations over time
       farmerRegistrationsData,
       buyerRegistrationsData,
@@ -1355,7 +1351,9 @@ export async function getAdminStats() {
       // Support ticket counts (M3)
       supportTicketsOpen,
       supportTicketsInProgress,
+      supportTicketsWaitingOnUser,
       supportTicketsResolved,
+      supportTicketsClosed,
       supportTicketsTotal,
     ] = await Promise.all([
       // Count pending farmer applications
@@ -1394,12 +1392,8 @@ export async function getAdminStats() {
       prisma.payment.aggregate({
         _sum: { amountPaid: true },
       }).then(r => r._sum.amountPaid || 0).catch(() => 0),
-      prisma.payment.aggregate({
-        _sum: { amountOwed: true },
-      }).then(r => r._sum.amountOwed || 0).catch(() => 0),
-      prisma.payment.aggregate({
-        _sum: { amountOwed: true, amountPaid: true },
-      }).then(r => (r._sum.amountOwed || 0) - (r._sum.amountPaid || 0)).catch(() => 0),
+      // Total owed = value of all delivered assignments (quantity delivered × agreed unit price)
+      calculateDeliveredValue().catch(() => ({ totalValue: 0, unpricedAssignmentIds: [] as string[] })),
       // Get farmer registrations over last 30 days (grouped by day)
       getRegistrationsChartData('farmer', thirtyDaysAgo, now),
       // Get buyer registrations over last 30 days (grouped by day)
@@ -1411,10 +1405,15 @@ export async function getAdminStats() {
       // Support ticket counts
       prisma.supportTicket.count({ where: { status: TicketStatus.OPEN } }).catch(() => 0),
       prisma.supportTicket.count({ where: { status: TicketStatus.IN_PROGRESS } }).catch(() => 0),
+      prisma.supportTicket.count({ where: { status: TicketStatus.WAITING_ON_USER } }).catch(() => 0),
       prisma.supportTicket.count({ where: { status: TicketStatus.RESOLVED } }).catch(() => 0),
+      prisma.supportTicket.count({ where: { status: TicketStatus.CLOSED } }).catch(() => 0),
       prisma.supportTicket.count().catch(() => 0),
     ]);
 
+    const totalOwed = deliveredValue.totalValue;
+    const outstandingBalance = totalOwed - totalPaid;
+
     const stats = {
       // User stats
       pendingFarmerApplications: pendingApplications,
@@ -1444,12 +1443,16 @@ export async function getAdminStats() {
         totalPaid,
         totalOwed,
         outstandingBalance,
+        // Delivered assignments with no agreed price (left out of totalOwed)
+        unpricedDeliveries: deliveredValue.unpricedAssignmentIds.length,
       },
       // Support ticket stats (M3)
       supportTickets: {
         open: supportTicketsOpen,
         inProgress: supportTicketsInProgress,
+        waitingOnUser: supportTicketsWaitingOnUser,
         resolved: supportTicketsResolved,
+        closed: supportTicketsClosed,
         total: supportTicketsTotal,
       },
       // Chart data
@@ -1,12 +1,36 @@
 import { prisma } from '../config/database.js';
-import { createError } from '../middleware/errorHandler.js';
-import { OrderStatus, AssignmentStatus, UserStatus, QualityResult } from '@prisma/client';
-import { notifyUser } from './notificationDelivery.service.js';
+import { createError, AppError } from '../middleware/errorHandler.js';
+import { OrderStatus, AssignmentStatus, UserStatus, QualityResult, OrderLine } from '@prisma/client';
+import { notifyUserTemplate } from './notificationDelivery.service.js';
 import { getWeekStartDate } from '../utils/weekCalculation.js';
+import { resolveUnitPrice } from './pricing.service.js';
+import {
+  generateInvoiceForOrder,
+  reconcileInvoiceForOrder,
+  repriceInvoiceLineForAssignment,
+} from './invoice.service.js';
+import { refreshAcknowledgementDiscrepancies } from './deliveryAcknowledgement.service.js';
+import {
+  ensureOrderLines,
+  resolveOrderLine,
+  assignedOnLine,
+  summarizeLineProgress,
+} from './orderLine.service.js';
+import {
+  reserveAvailability,
+  resizeReservation,
+  releaseReservation,
+  reinstateReservation,
+  getCommittedByAvailability,
+  getRemainingAvailability,
+  toAvailabilityBalance,
+} from './availabilityLedger.service.js';
 
 export interface AllocationAssignment {
   farmerId: string;
   assignedQuantity: number;
+  /** Order line to supply; may be omitted on one-line orders */
+  orderLineId?: string;
 }
 
 export interface CreateAllocationData {
@@ -14,6 +38,61 @@ export interface CreateAllocationData {
   assignments: AllocationAssignment[];
 }
 
+interface LineAssignment extends AllocationAssignment {
+  line: OrderLine;
+}
+
+interface AllocationProblem {
+  message: string;
+  status: number;
+  code: string;
+}
+
+/**
+ * Match requested assignments to the order's lines and check each line: not allocated yet and
+ * not over-allocated. Problems are returned rather than thrown so batch allocation can report
+ * every order at once.
+ */
+function planLineAllocation(
+  lines: OrderLine[],
+  existing: { orderLineId: string | null }[],
+  assignments: AllocationAssignment[]
+): { targets: LineAssignment[]; problems: AllocationProblem[] } {
+  const targets: LineAssignment[] = [];
+  const problems: AllocationProblem[] = [];
+
+  for (const assignment of assignments) {
+    try {
+      targets.push({ ...assignment, line: resolveOrderLine(lines, assignment.orderLineId) });
+    } catch (error) {
+      const { message, statusCode, code } = error as AppError;
+      problems.push({ message, status: statusCode ?? 400, code: code ?? 'INVALID_ORDER_LINE' });
+    }
+  }
+
+  for (const line of lines) {
+    const onLine = targets.filter((t) => t.line.id === line.id);
+    if (onLine.length === 0) continue;
+    if (existing.some((a) => a.orderLineId === line.id)) {
+      problems.push({
+        message: `${line.productType} already has assignments. Use update endpoint to modify.`,
+        status: 400,
+        code: 'ALREADY_ALLOCATED',
+      });
+    }
+    const lineTotal = onLine.reduce((sum, t) => sum + t.assignedQuantity, 0);
+    if (lineTotal > line.quantity) {
+      problems.push({
+        message: `Total assigned quantity for ${line.productType} (${lineTotal}) exceeds line quantity (${line.quantity})`,
+        status: 400,
+        code: 'OVER_ALLOCATION',
+      });
+    }
+  }
+
+  return { targets, problems };
+}
+
 /**
  * Get allocation screen data
  * Returns pending orders with available farmers and their availability
@@ -36,6 +115,7 @@ export async function getAllocationData() {
         },
       },
       deliveryAddress: true,
+      lines: { orderBy: { createdAt: 'asc' } },
       assignments: {
         include: {
           farmer: {
@@ -89,6 +169,12 @@ export async function getAllocationData() {
     },
   });
 
+  // Committed vs remaining stock per availability row (reservation ledger)
+  const committed = await getCommittedByAvailability({
+    weeklyIds: farmers.flatMap((f) => f.weeklyAvailability.map((av) => av.id)),
+    monthlyIds: farmers.flatMap((f) => f.monthlyAvailability.map((av) => av.id)),
+  });
+
   // Format farmers with both weekly and monthly availability (so farmers with only monthly show up for allocation)
   const farmersWithAvailability = farmers.map((farmer) => {
     const weekly = farmer.weeklyAvailability || [];
@@ -107,7 +193,7 @@ export async function getAllocationData() {
       weeklyAvailability: weekly.map((av) => ({
         id: av.id,
         productType: av.productType,
-        quantityAvailable: av.quantityAvailable,
+        ...toAvailabilityBalance(av.quantityAvailable, committed.weekly.get(av.id) ?? 0),
         avgWeight: av.avgWeight,
         readyDate: av.readyDate.toISOString(),
         isLate: av.isLate,
@@ -116,7 +202,7 @@ export async function getAllocationData() {
       monthlyAvailability: monthly.map((av) => ({
         id: av.id,
         productType: av.productType,
-        quantityAvailable: av.quantityAvailable,
+        ...toAvailabilityBalance(av.quantityAvailable, committed.monthly.get(av.id) ?? 0),
         avgWeight: av.avgWeight,
         readyDate: av.readyDate.toISOString(),
         isLate: av.isLate,
@@ -127,7 +213,10 @@ export async function getAllocationData() {
   });
 
   return {
-    pendingOrders: orders,
+    pendingOrders: orders.map((order) => ({
+      ...order,
+      lineProgress: summarizeLineProgress(order.lines, order.assignments),
+    })),
     availableFarmers: farmersWithAvailability,
     currentWeekStart,
   };
@@ -135,7 +224,8 @@ export async function getAllocationData() {
 
 /**
  * Create delivery assignments from allocation
- * Validates that total assigned quantity doesn't exceed order quantity
+ * Each assignment supplies one order line; validates that no line is over-allocated.
+ * Lines can be allocated in separate calls, but a line with assignments is changed via update.
  */
 export async function createDeliveryAssignments(
   orderId: string,
@@ -168,29 +258,23 @@ export async function createDeliveryAssignments(
     );
   }
 
-  // Check if order already has assignments
-  if (order.assignments.length > 0) {
-    throw createError(
-      'Order already has assignments. Use update endpoint to modify.',
-      400,
-      'ALREADY_ALLOCATED'
-    );
+  // Validate assignments line by line (assignments are re-read: migrating a legacy order links them to its line)
+  const lines = await ensureOrderLines(order.id);
+  const { targets, problems } = planLineAllocation(
+    lines,
+    await prisma.deliveryAssignment.findMany({ where: { orderId: order.id }, select: { orderLineId: true } }),
+    data.assignments
+  );
+  if (problems.length > 0) {
+    const [first] = problems;
+    throw createError(first.message, first.status, first.code);
   }
 
-  // Validate assignments
   const totalAssigned = data.assignments.reduce(
     (sum, assignment) => sum + assignment.assignedQuantity,
     0
   );
 
-  if (totalAssigned > order.quantity) {
-    throw createError(
-      `Total assigned quantity (${totalAssigned}) exceeds order quantity (${order.quantity})`,
-      400,
-      'OVER_ALLOCATION'
-    );
-  }
-
   if (totalAssigned <= 0) {
     throw createError(
       'Total assigned quantity must be greater than 0',
@@ -200,7 +284,7 @@ export async function createDeliveryAssignments(
   }
 
   // Verify all farmers exist and are active
-  const farmerIds = data.assignments.map((a) => a.farmerId);
+  const farmerIds = [...new Set(data.assignments.map((a) => a.farmerId))];
   const farmers = await prisma.farmer.findMany({
     where: {
       id: { in: farmerIds },
@@ -229,17 +313,28 @@ export async function createDeliveryAssignments(
     );
   }
 
-  // Create delivery assignments in a transaction
-  const assignments = await prisma.$transaction(
-    data.assignments.map((assignment) =>
-      prisma.deliveryAssignment.create({
+  // Freeze each farmer's agreed unit price at allocation time
+  const prices = await Promise.all(
+    targets.map((assignment) =>
+      resolveUnitPrice(assignment.farmerId, assignment.line.productType, order.deliveryDate)
+    )
+  );
+
+  // Create delivery assignments and reserve the farmers' stock in one transaction
+  const assignments = await prisma.$transaction(async (tx) => {
+    const created = [];
+    for (const [index, assignment] of targets.entries()) {
+      const a = await tx.deliveryAssignment.create({
         data: {
           orderId: order.id,
+          orderLineId: assignment.line.id,
           farmerId: assignment.farmerId,
           assignedQuantity: assignment.assignedQuantity,
           deliveryDate: order.deliveryDate,
           deliveryAddressId: order.deliveryAddressId,
           status: AssignmentStatus.PENDING,
+          unitPrice: prices[index].unitPrice,
+          priceSource: prices[index].priceSource,
         },
         include: {
           farmer: {
@@ -253,29 +348,270 @@ export async function createDeliveryAssignments(
             },
           },
           deliveryAddress: true,
+          orderLine: true,
         },
-      })
-    )
-  );
+      });
+      await reserveAvailability(tx, {
+        deliveryAssignmentId: a.id,
+        farmerId: a.farmerId,
+        productType: assignment.line.productType,
+        deliveryDate: a.deliveryDate,
+        quantity: a.assignedQuantity,
+      });
+      created.push(a);
+    }
+    return created;
+  });
 
   const farmerIdToUserId = new Map(farmers.map((f) => [f.id, f.userId]));
   for (const a of assignments) {
     const farmerUserId = farmerIdToUserId.get(a.farmerId);
     if (!farmerUserId) continue;
-    await notifyUser(
+    await notifyUserTemplate(
       farmerUserId,
       'NEW_ASSIGNMENT',
-      'New delivery assignment',
-      `You have a new delivery: ${a.assignedQuantity} units of ${order.productType} for ${new Date(order.deliveryDate).toLocaleDateString()}.`,
-      { deliveryAssignmentId: a.id, orderId: order.id }
+      { quantity: a.assignedQuantity, productType: a.orderLine!.productType, deliveryDate: order.deliveryDate },
+      { deliveryAssignmentId: a.id, orderId: order.id, orderLineId: a.orderLineId }
     ).catch((err) => console.error('[Notification]', err));
   }
 
+  const orderAssignments = await prisma.deliveryAssignment.findMany({ where: { orderId: order.id } });
+  const lineProgress = summarizeLineProgress(lines, orderAssignments);
+
   return {
     order,
     assignments,
     totalAssigned,
-    remainingQuantity: order.quantity - totalAssigned,
+    remainingQuantity: lineProgress.reduce((sum, l) => sum + l.unassignedQuantity, 0),
+    lines: lineProgress,
+  };
+}
+
+/** Interactive transaction timeout for batch allocation (many orders per call) */
+const BATCH_ALLOCATION_TIMEOUT_MS = 30000;
+
+/**
+ * Create delivery assignments for many orders at once (Monday allocation run).
+ * Every order and assignment is validated up front (order status, order lines, existing
+ * assignments, over-allocation per line, active farmers, per-farmer remaining availability across the
+ * whole batch); if anything fails nothing is created. Assignments and stock reservations are
+ * committed in a single transaction, then each farmer gets one consolidated NEW_ASSIGNMENT
+ * notification.
+ */
+export async function createBatchDeliveryAssignments(adminId: string, batch: CreateAllocationData[]) {
+  const orderIds = batch.map((b) => b.orderId);
+  const duplicateOrderIds = orderIds.filter((id, i) => orderIds.indexOf(id) !== i);
+  if (duplicateOrderIds.length > 0) {
+    throw createError(
+      `Each order may appear only once per batch: ${[...new Set(duplicateOrderIds)].join(', ')}`,
+      400,
+      'DUPLICATE_ORDER'
+    );
+  }
+
+  const orders = await prisma.order.findMany({
+    where: { id: { in: orderIds } },
+    include: { assignments: true, lines: { orderBy: { createdAt: 'asc' } } },
+  });
+  const orderById = new Map(orders.map((o) => [o.id, o]));
+
+  // Orders from before order lines are migrated to one line (which also links their assignments)
+  for (const order of orders) {
+    if (order.lines.length > 0) continue;
+    order.lines = await ensureOrderLines(order.id);
+    order.assignments = await prisma.deliveryAssignment.findMany({ where: { orderId: order.id } });
+  }
+
+  const farmerIds = [...new Set(batch.flatMap((b) => b.assignments.map((a) => a.farmerId)))];
+  const farmers = await prisma.farmer.findMany({
+    where: {
+      id: { in: farmerIds },
+      user: {
+        status: {
+          in: [UserStatus.ACTIVE, UserStatus.PROBATIONARY],
+        },
+      },
+    },
+    select: { id: true, userId: true, fullName: true },
+  });
+  const farmerById = new Map(farmers.map((f) => [f.id, f]));
+
+  const errors: string[] = [];
+  const targetsByOrder = new Map<string, LineAssignment[]>();
+
+  for (const item of batch) {
+    const order = orderById.get(item.orderId);
+    if (!order) {
+      errors.push(`Order ${item.orderId}: not found`);
+      continue;
+    }
+    if (order.status !== OrderStatus.ALLOCATION) {
+      errors.push(`Order ${order.id}: not in ALLOCATION status (current: ${order.status})`);
+    }
+    const { targets, problems } = planLineAllocation(order.lines, order.assignments, item.assignments);
+    targetsByOrder.set(order.id, targets);
+    for (const problem of problems) {
+      errors.push(`Order ${order.id}: ${problem.message}`);
+    }
+    const totalAssigned = item.assignments.reduce((sum, a) => sum + a.assignedQuantity, 0);
+    if (totalAssigned <= 0) {
+      errors.push(`Order ${order.id}: total assigned quantity must be greater than 0`);
+    }
+    const missing = item.assignments.filter((a) => !farmerById.has(a.farmerId)).map((a) => a.farmerId);
+    if (missing.length > 0) {
+      errors.push(`Order ${order.id}: farmers not found or not active: ${[...new Set(missing)].join(', ')}`);
+    }
+  }
+
+  // Per-farmer stock: total requested across the batch against each availability row's remaining quantity
+  const demand = new Map<
+    string,
+    { farmerId: string; productType: string; deliveryDate: Date; requested: number }
+  >();
+  for (const item of batch) {
+    const order = orderById.get(item.orderId);
+    if (!order) continue;
+    for (const a of targetsByOrder.get(order.id) ?? []) {
+      const key = `${a.farmerId}|${a.line.productType}|${order.deliveryDate.toISOString()}`;
+      const entry = demand.get(key) ?? {
+        farmerId: a.farmerId,
+        productType: a.line.productType,
+        deliveryDate: order.deliveryDate,
+        requested: 0,
+      };
+      entry.requested += a.assignedQuantity;
+      demand.set(key, entry);
+    }
+  }
+
+  const requestedByAvailability = new Map<
+    string,
+    { farmerName: string; productType: string; requested: number; remaining: number }
+  >();
+  for (const entry of demand.values()) {
+    const farmerName = farmerById.get(entry.farmerId)?.fullName ?? entry.farmerId;
+    const stock = await getRemainingAvailability(entry.farmerId, entry.productType, entry.deliveryDate);
+    if (!stock) {
+      errors.push(
+        `Farmer ${farmerName}: no declared availability for ${entry.productType} around ${entry.deliveryDate.toLocaleDateString()}`
+      );
+      continue;
+    }
+    // Several delivery dates can draw from the same weekly or monthly row
+    const totals = requestedByAvailability.get(stock.availabilityId) ?? {
+      farmerName,
+      productType: entry.productType,
+      requested: 0,
+      remaining: stock.quantityRemaining,
+    };
+    totals.requested += entry.requested;
+    requestedByAvailability.set(stock.availabilityId, totals);
+  }
+  for (const totals of requestedByAvailability.values()) {
+    if (totals.requested > totals.remaining) {
+      errors.push(
+        `Farmer ${totals.farmerName}: ${totals.requested} units of ${totals.productType} requested but only ${totals.remaining} remaining`
+      );
+    }
+  }
+
+  if (errors.length > 0) {
+    throw createError(`Batch allocation rejected: ${errors.join('; ')}`, 400, 'INVALID_BATCH');
+  }
+
+  // Freeze unit prices before opening the transaction
+  const priced = await Promise.all(
+    batch.map(async (item) => {
+      const order = orderById.get(item.orderId)!;
+      const assignments = targetsByOrder.get(order.id)!;
+      const prices = await Promise.all(
+        assignments.map((a) => resolveUnitPrice(a.farmerId, a.line.productType, order.deliveryDate))
+      );
+      return { order, assignments, prices };
+    })
+  );
+
+  const created = await prisma.$transaction(
+    async (tx) => {
+      const results = [];
+      for (const { order, assignments, prices } of priced) {
+        const orderAssignments = [];
+        for (const [index, assignment] of assignments.entries()) {
+          const a = await tx.deliveryAssignment.create({
+            data: {
+              orderId: order.id,
+              orderLineId: assignment.line.id,
+              farmerId: assignment.farmerId,
+              assignedQuantity: assignment.assignedQuantity,
+              deliveryDate: order.deliveryDate,
+              deliveryAddressId: order.deliveryAddressId,
+              status: AssignmentStatus.PENDING,
+              unitPrice: prices[index].unitPrice,
+              priceSource: prices[index].priceSource,
+            },
+          });
+          // Re-checked under row lock in case stock changed since validation
+          await reserveAvailability(tx, {
+            deliveryAssignmentId: a.id,
+            farmerId: a.farmerId,
+            productType: assignment.line.productType,
+            deliveryDate: a.deliveryDate,
+            quantity: a.assignedQuantity,
+          });
+          orderAssignments.push({ ...a, productType: assignment.line.productType });
+        }
+        const lineProgress = summarizeLineProgress(order.lines, [...order.assignments, ...orderAssignments]);
+        results.push({
+          orderId: order.id,
+          assignments: orderAssignments,
+          totalAssigned: orderAssignments.reduce((sum, a) => sum + a.assignedQuantity, 0),
+          remainingQuantity: lineProgress.reduce((sum, l) => sum + l.unassignedQuantity, 0),
+          lines: lineProgress,
+        });
+      }
+      return results;
+    },
+    { timeout: BATCH_ALLOCATION_TIMEOUT_MS }
+  );
+
+  // One consolidated notification per farmer
+  const linesByFarmer = new Map<
+    string,
+    {
+      lines: { quantity: number; productType: string; deliveryDate: Date }[];
+      assignmentIds: string[];
+      orderIds: string[];
+    }
+  >();
+  for (const result of created) {
+    for (const a of result.assignments) {
+      const entry = linesByFarmer.get(a.farmerId) ?? { lines: [], assignmentIds: [], orderIds: [] };
+      entry.lines.push({
+        quantity: a.assignedQuantity,
+        productType: a.productType,
+        deliveryDate: a.deliveryDate,
+      });
+      entry.assignmentIds.push(a.id);
+      entry.orderIds.push(result.orderId);
+      linesByFarmer.set(a.farmerId, entry);
+    }
+  }
+  for (const [farmerId, entry] of linesByFarmer) {
+    const farmerUserId = farmerById.get(farmerId)?.userId;
+    if (!farmerUserId) continue;
+    const count = entry.assignmentIds.length;
+    await notifyUserTemplate(
+      farmerUserId,
+      count === 1 ? 'NEW_ASSIGNMENT' : 'NEW_ASSIGNMENT.batch',
+      count === 1 ? entry.lines[0] : { count, deliveries: entry.lines },
+      { deliveryAssignmentIds: entry.assignmentIds, orderIds: [...new Set(entry.orderIds)] }
+    ).catch((err) => console.error('[Notification]', err));
+  }
+
+  return {
+    orders: created,
+    totalOrders: created.length,
+    totalAssignments: created.reduce((sum, r) => sum + r.assignments.length, 0),
   };
 }
 
@@ -317,48 +653,49 @@ export async function updateAssignment(
     );
   }
 
-  // Calculate total assigned quantity for the order
-  const allAssignments = await prisma.deliveryAssignment.findMany({
+  // Calculate total assigned quantity for the assignment's order line
+  const line = resolveOrderLine(await ensureOrderLines(assignment.orderId), assignment.orderLineId);
+  const otherAssignments = await prisma.deliveryAssignment.findMany({
     where: {
-      orderId: assignment.orderId,
+      orderLineId: line.id,
       id: { not: assignmentId },
     },
   });
 
-  const totalOtherAssignments = allAssignments.reduce(
-    (sum, a) => sum + a.assignedQuantity,
-    0
-  );
-  const newTotal = totalOtherAssignments + assignedQuantity;
+  const newTotal = assignedOnLine(otherAssignments, line.id) + assignedQuantity;
 
-  if (newTotal > assignment.order.quantity) {
+  if (newTotal > line.quantity) {
     throw createError(
-      `Total assigned quantity (${newTotal}) would exceed order quantity (${assignment.order.quantity})`,
+      `Total assigned quantity for ${line.productType} (${newTotal}) would exceed line quantity (${line.quantity})`,
       400,
       'OVER_ALLOCATION'
     );
   }
 
-  // Update assignment
-  const updated = await prisma.deliveryAssignment.update({
-    where: { id: assignmentId },
-    data: {
-      assignedQuantity,
-    },
-    include: {
-      order: true,
-      farmer: {
-        include: {
-          user: {
-            select: {
-              email: true,
-              phone: true,
+  // Update assignment and its stock reservation together
+  const updated = await prisma.$transaction(async (tx) => {
+    await resizeReservation(tx, assignmentId, assignedQuantity);
+    return tx.deliveryAssignment.update({
+      where: { id: assignmentId },
+      data: {
+        assignedQuantity,
+      },
+      include: {
+        order: true,
+        orderLine: true,
+        farmer: {
+          include: {
+            user: {
+              select: {
+                email: true,
+                phone: true,
+              },
             },
           },
         },
+        deliveryAddress: true,
       },
-      deliveryAddress: true,
-    },
+    });
   });
 
   return updated;
@@ -385,8 +722,12 @@ export async function deleteAssignment(assignmentId: string, adminId: string) {
     );
   }
 
-  await prisma.deliveryAssignment.delete({
-    where: { id: assignmentId },
+  // Release reserved stock first; the ledger entry outlives the assignment
+  await prisma.$transaction(async (tx) => {
+    await releaseReservation(tx, assignmentId, 'DELETED');
+    await tx.deliveryAssignment.delete({
+      where: { id: assignmentId },
+    });
   });
 
   return { success: true };
@@ -417,7 +758,9 @@ const deliveryAssignmentInclude = {
       },
     },
   },
+  orderLine: true,
   deliveryAddress: true,
+  acknowledgement: true,
 } as const;
 
 /**
@@ -436,6 +779,7 @@ export async function getDeliveryAssignmentById(assignmentId: string) {
 
 export interface CreateDeliveryByAdminData {
   orderId: string;
+  orderLineId?: string; // may be omitted on one-line orders
   farmerId: string;
   assignedQuantity: number;
   deliveryDate?: string; // ISO date; defaults to order.deliveryDate
@@ -469,14 +813,13 @@ export async function createDeliveryAssignmentByAdmin(
     );
   }
 
-  // Only count non-cancelled assignments so cancelled quantity can be re-assigned
-  const activeAssigned = order.assignments
-    .filter((a) => a.status !== AssignmentStatus.CANCELLED)
-    .reduce((sum, a) => sum + a.assignedQuantity, 0);
-  const totalAssigned = activeAssigned + data.assignedQuantity;
-  if (totalAssigned > order.quantity) {
+  // Only count non-cancelled assignments on the line so cancelled quantity can be re-assigned
+  const line = resolveOrderLine(await ensureOrderLines(order.id), data.orderLineId);
+  const lineAssignments = await prisma.deliveryAssignment.findMany({ where: { orderLineId: line.id } });
+  const totalAssigned = assignedOnLine(lineAssignments, line.id) + data.assignedQuantity;
+  if (totalAssigned > line.quantity) {
     throw createError(
-      `Total assigned quantity (${totalAssigned}) would exceed order quantity (${order.quantity})`,
+      `Total assigned quantity for ${line.productType} (${totalAssigned}) would exceed line quantity (${line.quantity})`,
       400,
       'OVER_ALLOCATION'
     );
@@ -502,16 +845,35 @@ export async function createDeliveryAssignmentByAdmin(
     ? new Date(data.deliveryDate)
     : new Date(order.deliveryDate);
 
-  const assignment = await prisma.deliveryAssignment.create({
-    data: {
-      orderId: order.id,
+  const { unitPrice, priceSource } = await resolveUnitPrice(
+    data.farmerId,
+    line.productType,
+    deliveryDate
+  );
+
+  const assignment = await prisma.$transaction(async (tx) => {
+    const created = await tx.deliveryAssignment.create({
+      data: {
+        orderId: order.id,
+        orderLineId: line.id,
+        farmerId: data.farmerId,
+        assignedQuantity: data.assignedQuantity,
+        deliveryDate,
+        deliveryAddressId: order.deliveryAddressId,
+        status: AssignmentStatus.PENDING,
+        unitPrice,
+        priceSource,
+      },
+      include: deliveryAssignmentInclude,
+    });
+    await reserveAvailability(tx, {
+      deliveryAssignmentId: created.id,
       farmerId: data.farmerId,
-      assignedQuantity: data.assignedQuantity,
+      productType: line.productType,
       deliveryDate,
-      deliveryAddressId: order.deliveryAddressId,
-      status: AssignmentStatus.PENDING,
-    },
-    include: deliveryAssignmentInclude,
+      quantity: data.assignedQuantity,
+    });
+    return created;
   });
 
   const farmer = await prisma.farmer.findUnique({
@@ -519,12 +881,11 @@ export async function createDeliveryAssignmentByAdmin(
     select: { userId: true },
   });
   if (farmer?.userId) {
-    await notifyUser(
+    await notifyUserTemplate(
       farmer.userId,
       'NEW_ASSIGNMENT',
-      'New delivery assignment',
-      `You have a new delivery: ${data.assignedQuantity} units of ${order.productType} for ${deliveryDate.toLocaleDateString()}.`,
-      { deliveryAssignmentId: assignment.id, orderId: order.id }
+      { quantity: data.assignedQuantity, productType: line.productType, deliveryDate },
+      { deliveryAssignmentId: assignment.id, orderId: order.id, orderLineId: line.id }
     ).catch((err) => console.error('[Notification]', err));
   }
 
@@ -591,45 +952,70 @@ export async function confirmDelivery(
     }
   }
 
+  // Orders from before order lines get their line first so completion can be checked per line
+  await ensureOrderLines(assignment.orderId);
+
   // Update assignment status and confirmation fields
   const status = data.delivered ? AssignmentStatus.DELIVERED : AssignmentStatus.FAILED;
-  
-  const updated = await prisma.deliveryAssignment.update({
-    where: { id: assignmentId },
-    data: {
-      status,
-      quantityDelivered: data.quantityDelivered ?? (data.delivered ? assignment.assignedQuantity : null),
-      qualityResult: data.qualityResult ?? null,
-      confirmationNotes: data.notes ?? null,
-      confirmedBy: adminId,
-      confirmedAt: new Date(),
-      estimatedTimeWindow: data.estimatedTimeWindow !== undefined ? (data.estimatedTimeWindow?.trim() || null) : undefined,
-    },
-    include: {
-      order: {
-        include: {
-          assignments: true,
-        },
+
+  // A failed delivery returns its reserved units to the farmer's remaining stock; re-confirming it
+  // as delivered takes them back. The ledger, the assignment status and the line of an invoice
+  // already issued for the order change together.
+  const updated = await prisma.$transaction(async (tx) => {
+    if (status === AssignmentStatus.FAILED) {
+      await releaseReservation(tx, assignmentId, 'FAILED');
+    } else if (assignment.status === AssignmentStatus.FAILED) {
+      await reinstateReservation(tx, assignmentId);
+    }
+
+    const confirmed = await tx.deliveryAssignment.update({
+      where: { id: assignmentId },
+      data: {
+        status,
+        quantityDelivered: data.quantityDelivered ?? (data.delivered ? assignment.assignedQuantity : null),
+        qualityResult: data.qualityResult ?? null,
+        confirmationNotes: data.notes ?? null,
+        confirmedBy: adminId,
+        confirmedAt: new Date(),
+        estimatedTimeWindow: data.estimatedTimeWindow !== undefined ? (data.estimatedTimeWindow?.trim() || null) : undefined,
       },
-      farmer: {
-        include: {
-          user: {
-            select: {
-              email: true,
-              phone: true,
+      include: {
+        order: {
+          include: {
+            lines: true,
+            assignments: true,
+          },
+        },
+        orderLine: true,
+        farmer: {
+          include: {
+            user: {
+              select: {
+                email: true,
+                phone: true,
+              },
             },
           },
         },
+        deliveryAddress: true,
       },
-      deliveryAddress: true,
-    },
+    });
+    await repriceInvoiceLineForAssignment(tx, assignmentId);
+    return confirmed;
   });
+  await reconcileInvoiceForOrder(updated.orderId);
 
-  // Check if all assignments for this order are delivered
+  // Check if all assignments for this order are delivered. Every line needs at least one
+  // assignment, so a multi-product order is not closed while a line is still unallocated.
   const allAssignments = updated.order.assignments;
-  const allDelivered = allAssignments.every(a => a.status === AssignmentStatus.DELIVERED);
-  const anyFailed = allAssignments.some(a => a.status === AssignmentStatus.FAILED);
+  const everyLineAllocated = updated.order.lines.every((line) =>
+    allAssignments.some((a) => a.orderLineId === line.id)
+  );
+  const allDelivered = everyLineAllocated && allAssignments.every(a => a.status === AssignmentStatus.DELIVERED);
+  const anyFailed = everyLineAllocated && allAssignments.some(a => a.status === AssignmentStatus.FAILED);
   
+  let orderDelivered = false;
+
   // Update order status if all deliveries are confirmed
   if (allDelivered && allAssignments.length > 0) {
     await prisma.order.update({
@@ -638,6 +1024,7 @@ export async function confirmDelivery(
         status: OrderStatus.DELIVERED,
       },
     });
+    orderDelivered = true;
   } else if (anyFailed && allAssignments.every(a => 
     a.status === AssignmentStatus.DELIVERED || a.status === AssignmentStatus.FAILED
   )) {
@@ -648,16 +1035,28 @@ export async function confirmDelivery(
         status: OrderStatus.DELIVERED,
       },
     });
+    orderDelivered = true;
   }
 
+  // Issue the buyer invoice once the order is DELIVERED
+  if (orderDelivered) {
+    await generateInvoiceForOrder(updated.orderId).catch((err) =>
+      console.error('[Invoice] Generation failed:', err)
+    );
+  }
+
+  // Compare with the buyer's acknowledgement, if they already sent one
+  await refreshAcknowledgementDiscrepancies(assignmentId).catch((err) =>
+    console.error('[Delivery acknowledgement] Discrepancy check failed:', err)
+  );
+
   const farmerUserId = updated.farmer.userId;
 
   if (!data.delivered) {
-    await notifyUser(
+    await notifyUserTemplate(
       farmerUserId,
       'MISSED_DELIVERY_WARNING',
-      'Delivery marked as failed',
-      'A delivery assignment was marked as failed. This may affect your performance score.',
+      {},
       { deliveryAssignmentId: assignmentId }
     ).catch((err) => console.error('[Notification]', err));
   }
@@ -680,11 +1079,10 @@ export async function confirmDelivery(
   }
 
   if (tierChanged) {
-    await notifyUser(
+    await notifyUserTemplate(
       farmerUserId,
       'TIER_CHANGED',
-      'Performance tier updated',
-      'Your performance tier has been updated based on recent delivery outcomes. Check your dashboard for details.',
+      {},
       { farmerId: updated.farmerId }
     ).catch((err) => console.error('[Notification]', err));
   }
@@ -695,11 +1093,10 @@ export async function confirmDelivery(
       include: { buyer: true },
     });
     if (orderWithBuyer?.buyer?.userId) {
-      await notifyUser(
+      await notifyUserTemplate(
         orderWithBuyer.buyer.userId,
-        'ORDER_STATUS_CHANGE',
-        'Order delivered',
-        `Your order has been delivered. Thank you for your business!`,
+        'ORDER_STATUS_CHANGE.delivered',
+        {},
         { orderId: updated.orderId }
       ).catch((err) => console.error('[Notification]', err));
     }
@@ -757,6 +1154,7 @@ export async function getAllDeliveryAssignments(filters?: {
           },
         },
       },
+      orderLine: true,
       deliveryAddress: true,
     },
     orderBy: {
@@ -1,15 +1,12 @@
 import { prisma } from '../config/database.js';
 import { hashPassword, verifyPassword } from '../utils/password.js';
-import {
-  generateAccessToken,
-  generateRefreshToken,
-  verifyRefreshToken,
-  TokenPayload,
-} from '../utils/jwt.js';
+import { createSession, rotateRefreshToken, SessionClientInfo } from './session.service.js';
 import { toE164, isValidPhone } from '../utils/validation.js';
-import { UserRole, UserStatus, BuyerType } from '@prisma/client';
+import { User, UserRole, UserStatus, BuyerType } from '@prisma/client';
 import { createError } from '../middleware/errorHandler.js';
 import { ghanaCardDataForCreateRequired } from '../utils/ghanaCardFields.js';
+import { verifyPhoneVerificationToken } from '../utils/jwt.js';
+import { verifyPhoneOtp } from './otp.service.js';
 
 // Registration DTOs
 export interface FarmerRegistrationData {
@@ -28,6 +25,7 @@ export interface FarmerRegistrationData {
   photoUrls?: string[]; // Cloudinary URLs for farm photos
   certificateUrls?: string[]; // Cloudinary URLs for farm certificates
   avatarUrl?: string | null;
+  phoneVerificationToken?: string; // Issued by /auth/otp/verify (VERIFY_PHONE)
   ghanaCardId: string;
   ghanaCardPersonalNumber: string;
   ghanaCardDocumentNumber: string;
@@ -55,6 +53,7 @@ export interface BuyerRegistrationData {
   companyRegistrationUrls?: string[];
   supportingDocUrls?: string[];
   avatarUrl?: string | null;
+  phoneVerificationToken?: string; // Issued by /auth/otp/verify (VERIFY_PHONE)
   ghanaCardId: string;
   ghanaCardPersonalNumber: string;
   ghanaCardDocumentNumber: string;
@@ -82,6 +81,22 @@ export interface AuthResponse {
   };
 }
 
+/**
+ * When a phone verification token is supplied at registration it must match the phone being
+ * registered; returns the verification time to store, or null when none was supplied.
+ */
+function resolvePhoneVerifiedAt(phoneE164: string, token?: string): Date | null {
+  if (!token) return null;
+  if (verifyPhoneVerificationToken(token) !== phoneE164) {
+    throw createError(
+      'Phone verification is invalid or has expired. Please verify your phone number again.',
+      400,
+      'INVALID_PHONE_VERIFICATION'
+    );
+  }
+  return new Date();
+}
+
 /**
  * Register a new farmer
  */
@@ -92,6 +107,7 @@ export async function registerFarmer(
   if (!phoneE164) {
     throw createError('Invalid phone number format', 400, 'INVALID_PHONE');
   }
+  const phoneVerifiedAt = resolvePhoneVerifiedAt(phoneE164, data.phoneVerificationToken);
 
   // Check if email or phone already exists
   const existingUser = await prisma.user.findFirst({
@@ -118,6 +134,7 @@ export async function registerFarmer(
       data: {
         email: data.email,
         phone: phoneE164,
+        phoneVerifiedAt,
         passwordHash,
         role: UserRole.FARMER,
         status: UserStatus.APPLIED, // Starts as APPLIED, needs admin approval
@@ -189,6 +206,7 @@ export async function registerBuyer(
   if (!phoneE164) {
     throw createError('Invalid phone number format', 400, 'INVALID_PHONE');
   }
+  const phoneVerifiedAt = resolvePhoneVerifiedAt(phoneE164, data.phoneVerificationToken);
 
   // Check if email or phone already exists
   const existingUser = await prisma.user.findFirst({
@@ -215,6 +233,7 @@ export async function registerBuyer(
       data: {
         email: data.email,
         phone: phoneE164,
+        phoneVerifiedAt,
         passwordHash,
         role: UserRole.BUYER,
         status: UserStatus.PENDING, // Starts as PENDING, needs admin approval
@@ -312,7 +331,10 @@ export async function registerBuyer(
 /**
  * Login user with email/phone and password
  */
-export async function login(credentials: LoginCredentials): Promise<AuthResponse> {
+export async function login(
+  credentials: LoginCredentials,
+  client: SessionClientInfo = {}
+): Promise<AuthResponse> {
   const { emailOrPhone, password } = credentials;
 
   // Find user by email or phone (normalize phone so 03... and +92... both work)
@@ -342,36 +364,69 @@ export async function login(credentials: LoginCredentials): Promise<AuthResponse
   }
 
   // Check if user is allowed to login (must be ACTIVE or PROBATIONARY)
-  if (
-    user.status !== UserStatus.ACTIVE &&
-    user.status !== UserStatus.PROBATIONARY
-  ) {
-    const statusMessages: Record<UserStatus, string> = {
-      PENDING: 'Your account is pending approval',
-      APPLIED: 'Your application is under review',
-      ACTIVE: '',
-      PROBATIONARY: '',
-      SUSPENDED: 'Your account has been suspended',
-      BLOCKED: 'Your account has been blocked',
-    };
+  assertCanLogin(user.status);
 
-    throw createError(
-      statusMessages[user.status] || 'Your account cannot access the platform',
-      403,
-      'ACCOUNT_NOT_ACTIVE'
-    );
+  return startSession(user, client);
+}
+
+/**
+ * Passwordless login for farmers with an SMS code from POST /auth/otp/request (purpose LOGIN).
+ * A successful login also marks the phone as verified.
+ */
+export async function loginWithPhoneOtp(
+  phone: string,
+  code: string,
+  client: SessionClientInfo = {}
+): Promise<AuthResponse> {
+  const phoneE164 = await verifyPhoneOtp(phone, code, 'LOGIN');
+
+  const user = await prisma.user.findFirst({
+    where: { phone: phoneE164, role: UserRole.FARMER },
+  });
+
+  if (!user) {
+    throw createError('Invalid or expired code', 400, 'INVALID_CODE');
   }
 
-  // Generate tokens
-  const tokenPayload: TokenPayload = {
-    userId: user.id,
-    role: user.role,
-    status: user.status,
-    email: user.email,
+  assertCanLogin(user.status);
+
+  const verified = user.phoneVerifiedAt
+    ? user
+    : await prisma.user.update({
+        where: { id: user.id },
+        data: { phoneVerifiedAt: new Date() },
+      });
+
+  return startSession(verified, client);
+}
+
+/**
+ * Only ACTIVE and PROBATIONARY accounts may log in
+ */
+function assertCanLogin(status: UserStatus): void {
+  if (status === UserStatus.ACTIVE || status === UserStatus.PROBATIONARY) return;
+
+  const statusMessages: Record<UserStatus, string> = {
+    PENDING: 'Your account is pending approval',
+    APPLIED: 'Your application is under review',
+    ACTIVE: '',
+    PROBATIONARY: '',
+    SUSPENDED: 'Your account has been suspended',
+    BLOCKED: 'Your account has been blocked',
   };
 
-  const accessToken = generateAccessToken(tokenPayload);
-  const refreshToken = generateRefreshToken(tokenPayload);
+  throw createError(
+    statusMessages[status] || 'Your account cannot access the platform',
+    403,
+    'ACCOUNT_NOT_ACTIVE'
+  );
+}
+
+/**
+ * Start a session (one per device) and issue its first token pair
+ */
+async function startSession(user: User, client: SessionClientInfo): Promise<AuthResponse> {
+  const { accessToken, refreshToken } = await createSession(user, client);
 
   return {
     accessToken,
@@ -416,52 +471,17 @@ export async function getUserProfile(userId: string) {
 }
 
 /**
- * Refresh access token using refresh token
+ * Refresh access token using refresh token.
+ * Rotates the refresh token: the presented one is spent and a new one is returned.
  */
 export async function refreshAccessToken(
-  refreshToken: string
+  refreshToken: string,
+  client: SessionClientInfo = {}
 ): Promise<{ accessToken: string; refreshToken: string }> {
-  // Verify refresh token
-  const decoded = verifyRefreshToken(refreshToken);
-  if (!decoded) {
-    throw createError('Invalid or expired refresh token', 401, 'INVALID_TOKEN');
-  }
-
-  // Get user to verify they still exist and are active
-  const user = await prisma.user.findUnique({
-    where: { id: decoded.userId },
-  });
-
-  if (!user) {
-    throw createError('User not found', 404, 'USER_NOT_FOUND');
-  }
-
-  // Check if user is still allowed to access
-  if (
-    user.status !== UserStatus.ACTIVE &&
-    user.status !== UserStatus.PROBATIONARY
-  ) {
-    throw createError(
-      'Account is not active',
-      403,
-      'ACCOUNT_NOT_ACTIVE'
-    );
-  }
-
-  // Generate new tokens
-  const tokenPayload: TokenPayload = {
-    userId: user.id,
-    role: user.role,
-    status: user.status,
-    email: user.email,
-  };
-
-  const newAccessToken = generateAccessToken(tokenPayload);
-  const newRefreshToken = generateRefreshToken(tokenPayload);
+  const tokens = await rotateRefreshToken(refreshToken, client);
 
   return {
-    accessToken: newAccessToken,
-    refreshToken: newRefreshToken,
+    accessToken: tokens.accessToken,
+    refreshToken: tokens.refreshToken,
   };
 }
-
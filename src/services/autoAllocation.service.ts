@@ -0,0 +1,332 @@
+import { prisma } from '../config/database.js';
+import { createError } from '../middleware/errorHandler.js';
+import { OrderStatus, AssignmentStatus, UserStatus, PerformanceTier, OrderLine } from '@prisma/client';
+import { getWeekStartDate, getWeekEndDate } from '../utils/weekCalculation.js';
+import { getMonthStartDate } from '../utils/monthCalculation.js';
+import { resolveUnitPrice, type PriceSource } from './pricing.service.js';
+import type { AllocationAssignment } from './allocation.service.js';
+import { getCommittedByAvailability } from './availabilityLedger.service.js';
+import { ensureOrderLines } from './orderLine.service.js';
+
+/** Maximum share of an order a PROBATIONARY-tier farmer may be suggested for */
+const PROBATIONARY_SHARE_CAP = 0.25;
+
+/** Lower rank is picked first */
+const TIER_RANK: Record<PerformanceTier, number> = {
+  PREFERRED: 0,
+  STANDARD: 1,
+  PROBATIONARY: 2,
+};
+
+/** Assignment statuses that use up a farmer's weekly capacity */
+const COMMITTED_STATUSES = [AssignmentStatus.PENDING, AssignmentStatus.DELIVERED];
+
+export interface SuggestedFarmer {
+  farmerId: string;
+  fullName: string;
+  farmName: string | null;
+  region: string;
+  tier: PerformanceTier;
+  orderLineId: string;
+  productType: string;
+  assignedQuantity: number;
+  remainingAvailability: number;
+  availabilitySource: 'weekly' | 'monthly';
+  unitPrice: number | null;
+  priceSource: PriceSource | null;
+  regionMatch: boolean;
+  reasons: string[];
+}
+
+export interface SkippedFarmer {
+  farmerId: string;
+  fullName: string;
+  productType: string;
+  reason: string;
+}
+
+export interface LineSuggestion {
+  orderLineId: string;
+  productType: string;
+  quantity: number;
+  suggestedQuantity: number;
+  shortfall: number;
+}
+
+export interface AllocationSuggestion {
+  orderId: string;
+  /** Units on the lines being suggested (lines that already have assignments are left out) */
+  orderQuantity: number;
+  suggestedQuantity: number;
+  shortfall: number;
+  lines: LineSuggestion[];
+  /** Same shape as POST /admin/allocations `assignments`; can be submitted as-is */
+  assignments: AllocationAssignment[];
+  farmers: SuggestedFarmer[];
+  skipped: SkippedFarmer[];
+}
+
+interface Candidate
+  extends Omit<SuggestedFarmer, 'assignedQuantity' | 'reasons' | 'orderLineId' | 'productType'> {
+  capacityRemaining: number;
+}
+
+interface LineContext {
+  deliveryDate: Date;
+  deliveryRegion: string | null;
+  weekStart: Date;
+  weekEnd: Date;
+  monthStart: Date;
+  /** Units suggested to each farmer for earlier lines of this order (shares weekly capacity) */
+  capacityUsed: Map<string, number>;
+}
+
+/**
+ * Suggest how to split an ALLOCATION order across farmers, line by line.
+ * Candidates need availability for the line's productType (weekly for the delivery week,
+ * otherwise monthly for the delivery month); quantity is limited by remaining stock in the
+ * reservation ledger and by weeklyCapacityMax (shared across the order's lines). Ranking:
+ * performance tier (PREFERRED first), farmer in the delivery region, lower unit price, larger
+ * remaining stock. PROBATIONARY-tier farmers are capped at PROBATIONARY_SHARE_CAP of a line.
+ * Lines that already have assignments are left out.
+ */
+export async function suggestAllocation(orderId: string): Promise<AllocationSuggestion> {
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    include: {
+      deliveryAddress: true,
+    },
+  });
+
+  if (!order) {
+    throw createError('Order not found', 404, 'ORDER_NOT_FOUND');
+  }
+
+  if (order.status !== OrderStatus.ALLOCATION) {
+    throw createError(
+      `Order is not in ALLOCATION status. Current status: ${order.status}`,
+      400,
+      'INVALID_ORDER_STATUS'
+    );
+  }
+
+  const lines = await ensureOrderLines(order.id);
+  const allocatedLineIds = new Set(
+    (
+      await prisma.deliveryAssignment.findMany({
+        where: { orderId: order.id },
+        select: { orderLineId: true },
+      })
+    ).map((a) => a.orderLineId)
+  );
+  const openLines = lines.filter((line) => !allocatedLineIds.has(line.id));
+
+  if (openLines.length === 0) {
+    throw createError(
+      'Order already has assignments. Use update endpoint to modify.',
+      400,
+      'ALREADY_ALLOCATED'
+    );
+  }
+
+  const context: LineContext = {
+    deliveryDate: order.deliveryDate,
+    deliveryRegion: order.deliveryAddress.region,
+    weekStart: getWeekStartDate(order.deliveryDate),
+    weekEnd: getWeekEndDate(order.deliveryDate),
+    monthStart: getMonthStartDate(order.deliveryDate),
+    capacityUsed: new Map(),
+  };
+
+  const lineSuggestions: LineSuggestion[] = [];
+  const farmers: SuggestedFarmer[] = [];
+  const skipped: SkippedFarmer[] = [];
+  for (const line of openLines) {
+    const result = await suggestLine(line, context);
+    const suggestedQuantity = result.suggested.reduce((sum, f) => sum + f.assignedQuantity, 0);
+    lineSuggestions.push({
+      orderLineId: line.id,
+      productType: line.productType,
+      quantity: line.quantity,
+      suggestedQuantity,
+      shortfall: line.quantity - suggestedQuantity,
+    });
+    farmers.push(...result.suggested);
+    skipped.push(...result.skipped);
+  }
+
+  const orderQuantity = lineSuggestions.reduce((sum, l) => sum + l.quantity, 0);
+  const suggestedQuantity = lineSuggestions.reduce((sum, l) => sum + l.suggestedQuantity, 0);
+
+  return {
+    orderId: order.id,
+    orderQuantity,
+    suggestedQuantity,
+    shortfall: orderQuantity - suggestedQuantity,
+    lines: lineSuggestions,
+    assignments: farmers.map((f) => ({
+      farmerId: f.farmerId,
+      orderLineId: f.orderLineId,
+      assignedQuantity: f.assignedQuantity,
+    })),
+    farmers,
+    skipped,
+  };
+}
+
+/**
+ * Rank candidate farmers for one order line and split its quantity between them.
+ */
+async function suggestLine(
+  line: OrderLine,
+  context: LineContext
+): Promise<{ suggested: SuggestedFarmer[]; skipped: SkippedFarmer[] }> {
+  const { weekStart, weekEnd, monthStart, deliveryRegion, capacityUsed } = context;
+
+  const farmers = await prisma.farmer.findMany({
+    where: {
+      user: {
+        status: {
+          in: [UserStatus.ACTIVE, UserStatus.PROBATIONARY],
+        },
+      },
+      OR: [
+        { weeklyAvailability: { some: { weekStartDate: weekStart, productType: line.productType } } },
+        { monthlyAvailability: { some: { monthStartDate: monthStart, productType: line.productType } } },
+      ],
+    },
+    include: {
+      weeklyAvailability: {
+        where: { weekStartDate: weekStart, productType: line.productType },
+      },
+      monthlyAvailability: {
+        where: { monthStartDate: monthStart, productType: line.productType },
+      },
+      performance: { select: { tier: true } },
+      deliveryAssignments: {
+        where: {
+          status: { in: COMMITTED_STATUSES },
+          deliveryDate: { gte: weekStart, lte: weekEnd },
+        },
+        select: { assignedQuantity: true },
+      },
+    },
+  });
+
+  // Stock already reserved against each availability row (reservation ledger)
+  const committed = await getCommittedByAvailability({
+    weeklyIds: farmers.flatMap((f) => f.weeklyAvailability.map((av) => av.id)),
+    monthlyIds: farmers.flatMap((f) => f.monthlyAvailability.map((av) => av.id)),
+  });
+
+  const candidates: Candidate[] = [];
+  const skipped: SkippedFarmer[] = [];
+
+  for (const farmer of farmers) {
+    const weekly = farmer.weeklyAvailability[0];
+    const availability = weekly ?? farmer.monthlyAvailability[0];
+    if (!availability) continue;
+    const availabilitySource = weekly ? 'weekly' : 'monthly';
+    const quantityAvailable = availability.quantityAvailable;
+
+    const committedStock = committed[availabilitySource].get(availability.id) ?? 0;
+    const committedThisWeek =
+      farmer.deliveryAssignments.reduce((sum, a) => sum + a.assignedQuantity, 0) +
+      (capacityUsed.get(farmer.id) ?? 0);
+
+    const remainingAvailability = Math.max(0, quantityAvailable - committedStock);
+    const capacityRemaining = Math.max(0, farmer.weeklyCapacityMax - committedThisWeek);
+
+    if (remainingAvailability === 0) {
+      skipped.push({
+        farmerId: farmer.id,
+        fullName: farmer.fullName,
+        productType: line.productType,
+        reason: `All ${quantityAvailable} units of ${availabilitySource} availability already committed`,
+      });
+      continue;
+    }
+    if (capacityRemaining === 0) {
+      skipped.push({
+        farmerId: farmer.id,
+        fullName: farmer.fullName,
+        productType: line.productType,
+        reason: `Weekly capacity (${farmer.weeklyCapacityMax}) already reached for the delivery week`,
+      });
+      continue;
+    }
+
+    const price = await resolveUnitPrice(farmer.id, line.productType, context.deliveryDate);
+
+    candidates.push({
+      farmerId: farmer.id,
+      fullName: farmer.fullName,
+      farmName: farmer.farmName,
+      region: farmer.region,
+      tier: farmer.performance?.tier ?? PerformanceTier.PROBATIONARY,
+      remainingAvailability,
+      availabilitySource,
+      unitPrice: price.unitPrice,
+      priceSource: price.priceSource,
+      regionMatch: deliveryRegion != null && farmer.region.toLowerCase() === deliveryRegion.toLowerCase(),
+      capacityRemaining,
+    });
+  }
+
+  candidates.sort(
+    (a, b) =>
+      TIER_RANK[a.tier] - TIER_RANK[b.tier] ||
+      Number(b.regionMatch) - Number(a.regionMatch) ||
+      (a.unitPrice ?? Infinity) - (b.unitPrice ?? Infinity) ||
+      b.remainingAvailability - a.remainingAvailability
+  );
+
+  const probationaryCap = Math.max(1, Math.floor(line.quantity * PROBATIONARY_SHARE_CAP));
+  const suggested: SuggestedFarmer[] = [];
+  let remaining = line.quantity;
+
+  for (const [index, candidate] of candidates.entries()) {
+    if (remaining <= 0) {
+      skipped.push({
+        farmerId: candidate.farmerId,
+        fullName: candidate.fullName,
+        productType: line.productType,
+        reason: 'Line already covered by higher-ranked farmers',
+      });
+      continue;
+    }
+
+    const limits = [remaining, candidate.remainingAvailability, candidate.capacityRemaining];
+    if (candidate.tier === PerformanceTier.PROBATIONARY) limits.push(probationaryCap);
+    const assignedQuantity = Math.min(...limits);
+    remaining -= assignedQuantity;
+    capacityUsed.set(candidate.farmerId, (capacityUsed.get(candidate.farmerId) ?? 0) + assignedQuantity);
+
+    const { capacityRemaining, ...farmer } = candidate;
+    const reasons = [
+      `Ranked #${index + 1} of ${candidates.length} candidates for ${line.productType}`,
+      `${candidate.tier} performance tier`,
+      candidate.regionMatch
+        ? `Located in the delivery region (${candidate.region})`
+        : `Outside the delivery region (${candidate.region} vs ${deliveryRegion ?? 'unspecified'})`,
+      candidate.unitPrice != null
+        ? `Unit price ${candidate.unitPrice.toFixed(2)} from ${candidate.priceSource}`
+        : 'No price on record',
+      `${candidate.remainingAvailability} units of ${candidate.availabilitySource} availability remaining`,
+      `${capacityRemaining} units of weekly capacity remaining`,
+    ];
+    if (candidate.tier === PerformanceTier.PROBATIONARY && assignedQuantity === probationaryCap) {
+      reasons.push(`Capped at ${probationaryCap} units (${PROBATIONARY_SHARE_CAP * 100}% of line) while on probation`);
+    }
+
+    suggested.push({
+      ...farmer,
+      orderLineId: line.id,
+      productType: line.productType,
+      assignedQuantity,
+      reasons,
+    });
+  }
+
+  return { suggested, skipped };
+}
@@ -0,0 +1,345 @@
+import { prisma } from '../config/database.js';
+import { createError } from '../middleware/errorHandler.js';
+import { AutoApprovalPolicy, InvoiceStatus, OrderStatus, OrderType, UserStatus } from '@prisma/client';
+import { getWeekStartDate } from '../utils/weekCalculation.js';
+import { getMonthStartDate } from '../utils/monthCalculation.js';
+import { createAuditLog } from '../utils/auditLog.js';
+import { approveOrder } from './order.service.js';
+import { createDeliveryAssignments } from './allocation.service.js';
+import { suggestAllocation } from './autoAllocation.service.js';
+import { getCommittedByAvailability } from './availabilityLedger.service.js';
+
+/** Actor passed to allocation when assignments are created by the policy rather than an admin */
+const AUTO_APPROVAL_ACTOR = 'SYSTEM';
+
+export interface AutoApprovalPolicyData {
+  enabled: boolean;
+  applyToOneTimeOrders: boolean;
+  applyToStandingOrders: boolean;
+  minVerifiedDays: number | null;
+  blockOnOverduePayments: boolean;
+  maxOrderQuantity: number | null;
+  requireAvailability: boolean;
+  autoAllocate: boolean;
+}
+
+export type AutoApprovalRule =
+  | 'ORDER_TYPE'
+  | 'BUYER_ACTIVE'
+  | 'BUYER_VERIFIED_DAYS'
+  | 'NO_OVERDUE_PAYMENTS'
+  | 'QUANTITY_THRESHOLD'
+  | 'PRODUCT_IN_STOCK';
+
+export interface AutoApprovalCheck {
+  rule: AutoApprovalRule;
+  passed: boolean;
+  detail: string;
+}
+
+export interface AutoApprovalEvaluation {
+  orderId: string;
+  policyId: string | null;
+  eligible: boolean;
+  /** First rule that failed, in check order */
+  failedRule: AutoApprovalRule | null;
+  checks: AutoApprovalCheck[];
+}
+
+export interface AutoApprovalDecision extends AutoApprovalEvaluation {
+  approved: boolean;
+  allocated: boolean;
+  /** Order status after the decision */
+  orderStatus: OrderStatus;
+}
+
+/** Auto-approval is off until an admin saves a policy */
+const DEFAULT_POLICY: AutoApprovalPolicyData = {
+  enabled: false,
+  applyToOneTimeOrders: true,
+  applyToStandingOrders: true,
+  minVerifiedDays: null,
+  blockOnOverduePayments: true,
+  maxOrderQuantity: null,
+  requireAvailability: true,
+  autoAllocate: false,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Active auto-approval policy (most recent by effectiveFrom), or the disabled default.
+ */
+export async function getAutoApprovalPolicy(): Promise<AutoApprovalPolicyData & { id: string | null }> {
+  const policy = await prisma.autoApprovalPolicy.findFirst({
+    orderBy: { effectiveFrom: 'desc' },
+  });
+  if (!policy) return { id: null, ...DEFAULT_POLICY };
+  return toPolicyData(policy);
+}
+
+function toPolicyData(policy: AutoApprovalPolicy): AutoApprovalPolicyData & { id: string } {
+  return {
+    id: policy.id,
+    enabled: policy.enabled,
+    applyToOneTimeOrders: policy.applyToOneTimeOrders,
+    applyToStandingOrders: policy.applyToStandingOrders,
+    minVerifiedDays: policy.minVerifiedDays,
+    blockOnOverduePayments: policy.blockOnOverduePayments,
+    maxOrderQuantity: policy.maxOrderQuantity,
+    requireAvailability: policy.requireAvailability,
+    autoAllocate: policy.autoAllocate,
+  };
+}
+
+/**
+ * Save a new version of the policy (admin). Omitted fields keep their current value.
+ */
+export async function updateAutoApprovalPolicy(adminId: string, data: Partial<AutoApprovalPolicyData>) {
+  const { id: _id, ...current } = await getAutoApprovalPolicy();
+  const created = await prisma.autoApprovalPolicy.create({
+    data: {
+      ...current,
+      ...data,
+      updatedBy: adminId,
+    },
+  });
+  return toPolicyData(created);
+}
+
+/**
+ * Unreserved farmer stock for a product on a delivery date: weekly availability for the delivery
+ * week, otherwise monthly availability for the month (the rows allocation would draw from).
+ */
+async function getUnreservedStock(productType: string, deliveryDate: Date): Promise<number> {
+  const farmerActive = { user: { status: { in: [UserStatus.ACTIVE, UserStatus.PROBATIONARY] } } };
+  const [weekly, monthly] = await Promise.all([
+    prisma.weeklyAvailability.findMany({
+      where: { weekStartDate: getWeekStartDate(deliveryDate), productType, farmer: farmerActive },
+      select: { id: true, farmerId: true, quantityAvailable: true },
+    }),
+    prisma.monthlyAvailability.findMany({
+      where: { monthStartDate: getMonthStartDate(deliveryDate), productType, farmer: farmerActive },
+      select: { id: true, farmerId: true, quantityAvailable: true },
+    }),
+  ]);
+  const weeklyFarmers = new Set(weekly.map((row) => row.farmerId));
+  const monthlyRows = monthly.filter((row) => !weeklyFarmers.has(row.farmerId));
+
+  const committed = await getCommittedByAvailability({
+    weeklyIds: weekly.map((row) => row.id),
+    monthlyIds: monthlyRows.map((row) => row.id),
+  });
+  return (
+    weekly.reduce((sum, row) => sum + Math.max(0, row.quantityAvailable - (committed.weekly.get(row.id) ?? 0)), 0) +
+    monthlyRows.reduce((sum, row) => sum + Math.max(0, row.quantityAvailable - (committed.monthly.get(row.id) ?? 0)), 0)
+  );
+}
+
+/**
+ * Run every enabled rule of the policy against a PENDING order (no changes are made).
+ */
+async function evaluateOrder(
+  orderId: string,
+  policy: AutoApprovalPolicyData & { id: string | null }
+): Promise<AutoApprovalEvaluation> {
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    include: {
+      buyer: { include: { user: { select: { status: true } } } },
+      lines: { select: { productType: true, quantity: true } },
+    },
+  });
+  if (!order) {
+    throw createError('Order not found', 404, 'ORDER_NOT_FOUND');
+  }
+
+  const checks: AutoApprovalCheck[] = [];
+  const applies =
+    order.orderType === OrderType.STANDING ? policy.applyToStandingOrders : policy.applyToOneTimeOrders;
+  checks.push({
+    rule: 'ORDER_TYPE',
+    passed: applies,
+    detail: applies
+      ? `Policy applies to ${order.orderType} orders`
+      : `Policy does not apply to ${order.orderType} orders`,
+  });
+
+  const buyerActive = order.buyer.user.status === UserStatus.ACTIVE;
+  checks.push({
+    rule: 'BUYER_ACTIVE',
+    passed: buyerActive,
+    detail: `Buyer account is ${order.buyer.user.status}`,
+  });
+
+  if (policy.minVerifiedDays != null) {
+    const verifiedAt = order.buyer.verificationDate;
+    const verifiedDays = verifiedAt ? Math.floor((Date.now() - verifiedAt.getTime()) / DAY_MS) : null;
+    checks.push({
+      rule: 'BUYER_VERIFIED_DAYS',
+      passed: verifiedDays != null && verifiedDays >= policy.minVerifiedDays,
+      detail:
+        verifiedDays == null
+          ? 'Buyer has not been verified'
+          : `Buyer verified ${verifiedDays} day(s) ago (minimum ${policy.minVerifiedDays})`,
+    });
+  }
+
+  if (policy.blockOnOverduePayments) {
+    const overdue = await prisma.invoice.count({
+      where: {
+        buyerId: order.buyerId,
+        status: { not: InvoiceStatus.PAID },
+        outstandingBalance: { gt: 0 },
+        OR: [{ status: InvoiceStatus.OVERDUE }, { dueDate: { lt: new Date() } }],
+      },
+    });
+    checks.push({
+      rule: 'NO_OVERDUE_PAYMENTS',
+      passed: overdue === 0,
+      detail: overdue === 0 ? 'No overdue invoices' : `${overdue} overdue invoice(s) with an outstanding balance`,
+    });
+  }
+
+  if (policy.maxOrderQuantity != null) {
+    checks.push({
+      rule: 'QUANTITY_THRESHOLD',
+      passed: order.quantity <= policy.maxOrderQuantity,
+      detail: `Order total ${order.quantity} units (limit ${policy.maxOrderQuantity})`,
+    });
+  }
+
+  if (policy.requireAvailability) {
+    // Orders from before order lines are checked as one line
+    const lines = order.lines.length > 0 ? order.lines : [{ productType: order.productType, quantity: order.quantity }];
+    const short: string[] = [];
+    for (const line of lines) {
+      const stock = await getUnreservedStock(line.productType, order.deliveryDate);
+      if (stock < line.quantity) short.push(`${line.productType} (${stock} of ${line.quantity} available)`);
+    }
+    checks.push({
+      rule: 'PRODUCT_IN_STOCK',
+      passed: short.length === 0,
+      detail:
+        short.length === 0
+          ? 'Submitted availability covers every line'
+          : `Not enough submitted availability: ${short.join(', ')}`,
+    });
+  }
+
+  const failed = checks.find((check) => !check.passed);
+  return {
+    orderId: order.id,
+    policyId: policy.id,
+    eligible: !failed,
+    failedRule: failed?.rule ?? null,
+    checks,
+  };
+}
+
+/**
+ * Dry run of the active policy for one order (admin), whether or not the policy is enabled.
+ */
+export async function evaluateAutoApproval(orderId: string): Promise<AutoApprovalEvaluation> {
+  return evaluateOrder(orderId, await getAutoApprovalPolicy());
+}
+
+/**
+ * Approve a new PENDING order automatically when the active policy is enabled and every rule passes;
+ * optionally apply the auto-allocation suggestion when it covers the whole order. Each decision is
+ * audit-logged with the rule that decided it. Returns null when the policy is disabled or the order
+ * is no longer PENDING.
+ */
+export async function autoApproveOrder(orderId: string): Promise<AutoApprovalDecision | null> {
+  const policy = await getAutoApprovalPolicy();
+  if (!policy.enabled) return null;
+
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    select: { status: true },
+  });
+  if (!order || order.status !== OrderStatus.PENDING) return null;
+
+  const evaluation = await evaluateOrder(orderId, policy);
+  if (!evaluation.eligible) {
+    await createAuditLog({
+      actionType: 'ORDER_AUTO_APPROVAL_DECLINED',
+      entityType: 'Order',
+      entityId: orderId,
+      details: {
+        policyId: policy.id,
+        rule: evaluation.failedRule,
+        checks: evaluation.checks,
+      },
+    });
+    return { ...evaluation, approved: false, allocated: false, orderStatus: order.status };
+  }
+
+  await approveOrder(orderId, null);
+  await createAuditLog({
+    actionType: 'ORDER_AUTO_APPROVED',
+    entityType: 'Order',
+    entityId: orderId,
+    details: {
+      policyId: policy.id,
+      rules: evaluation.checks.map((check) => check.rule),
+      checks: evaluation.checks,
+    },
+  });
+
+  const allocated = policy.autoAllocate ? await autoAllocateOrder(orderId, policy.id) : false;
+  return {
+    ...evaluation,
+    approved: true,
+    allocated,
+    orderStatus: OrderStatus.ALLOCATION,
+  };
+}
+
+/**
+ * Apply the allocation suggestion for an auto-approved order. Partial suggestions are left for an
+ * admin to complete, so an order is never half-allocated automatically.
+ */
+async function autoAllocateOrder(orderId: string, policyId: string | null): Promise<boolean> {
+  try {
+    const suggestion = await suggestAllocation(orderId);
+    if (suggestion.shortfall > 0 || suggestion.assignments.length === 0) {
+      await createAuditLog({
+        actionType: 'ORDER_AUTO_ALLOCATION_SKIPPED',
+        entityType: 'Order',
+        entityId: orderId,
+        details: {
+          policyId,
+          rule: 'FULL_ALLOCATION_SUGGESTED',
+          shortfall: suggestion.shortfall,
+          suggestedQuantity: suggestion.suggestedQuantity,
+        },
+      });
+      return false;
+    }
+
+    await createDeliveryAssignments(orderId, AUTO_APPROVAL_ACTOR, {
+      orderId,
+      assignments: suggestion.assignments,
+    });
+    await createAuditLog({
+      actionType: 'ORDER_AUTO_ALLOCATED',
+      entityType: 'Order',
+      entityId: orderId,
+      details: { policyId, assignments: suggestion.assignments },
+    });
+    return true;
+  } catch (error) {
+    await createAuditLog({
+      actionType: 'ORDER_AUTO_ALLOCATION_SKIPPED',
+      entityType: 'Order',
+      entityId: orderId,
+      details: {
+        policyId,
+        rule: 'ALLOCATION_FAILED',
+        error: error instanceof Error ? error.message : String(error),
+      },
+    });
+    return false;
+  }
+}
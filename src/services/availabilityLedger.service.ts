@@ -0,0 +1,304 @@
+import { prisma } from '../config/database.js';
+import { createError } from '../middleware/errorHandler.js';
+import { Prisma, ReservationStatus } from '@prisma/client';
+import { getWeekStartDate } from '../utils/weekCalculation.js';
+import { getMonthStartDate } from '../utils/monthCalculation.js';
+
+type Tx = Prisma.TransactionClient;
+
+export type ReleaseReason = 'DELETED' | 'CANCELLED' | 'FAILED';
+
+export interface AvailabilityBalance {
+  quantityAvailable: number;
+  quantityCommitted: number;
+  quantityRemaining: number;
+}
+
+interface AvailabilityRow {
+  id: string;
+  quantityAvailable: number;
+  source: 'weekly' | 'monthly';
+}
+
+/**
+ * Lock an availability row for the rest of the transaction so concurrent allocations
+ * against the same stock are serialized, and read its current quantity.
+ */
+async function lockRow(tx: Tx, source: 'weekly' | 'monthly', id: string): Promise<AvailabilityRow | null> {
+  const table = Prisma.raw(source === 'weekly' ? 'weekly_availability' : 'monthly_availability');
+  const [row] = await tx.$queryRaw<Array<{ quantity_available: number }>>`
+    SELECT quantity_available FROM ${table} WHERE id = ${id} FOR UPDATE`;
+  return row ? { id, quantityAvailable: row.quantity_available, source } : null;
+}
+
+/**
+ * Availability row an assignment draws from: weekly availability for the delivery week,
+ * otherwise monthly availability for the delivery month. Locked unless `lock` is false.
+ */
+async function findAvailabilityRow(
+  tx: Tx,
+  farmerId: string,
+  productType: string,
+  deliveryDate: Date,
+  lock = true
+): Promise<AvailabilityRow | null> {
+  const weekly = await tx.weeklyAvailability.findUnique({
+    where: {
+      farmerId_weekStartDate_productType: {
+        farmerId,
+        weekStartDate: getWeekStartDate(deliveryDate),
+        productType,
+      },
+    },
+    select: { id: true, quantityAvailable: true },
+  });
+  if (weekly) {
+    return lock ? lockRow(tx, 'weekly', weekly.id) : { ...weekly, source: 'weekly' };
+  }
+
+  const monthly = await tx.monthlyAvailability.findUnique({
+    where: {
+      farmerId_monthStartDate_productType: {
+        farmerId,
+        monthStartDate: getMonthStartDate(deliveryDate),
+        productType,
+      },
+    },
+    select: { id: true, quantityAvailable: true },
+  });
+  if (monthly) {
+    return lock ? lockRow(tx, 'monthly', monthly.id) : { ...monthly, source: 'monthly' };
+  }
+
+  return null;
+}
+
+function availabilityWhere(row: AvailabilityRow): Prisma.AvailabilityReservationWhereInput {
+  return row.source === 'weekly'
+    ? { weeklyAvailabilityId: row.id }
+    : { monthlyAvailabilityId: row.id };
+}
+
+async function getCommittedQuantity(
+  tx: Tx,
+  row: AvailabilityRow,
+  excludeAssignmentId?: string
+): Promise<number> {
+  const result = await tx.availabilityReservation.aggregate({
+    where: {
+      ...availabilityWhere(row),
+      status: ReservationStatus.ACTIVE,
+      ...(excludeAssignmentId && { deliveryAssignmentId: { not: excludeAssignmentId } }),
+    },
+    _sum: { quantity: true },
+  });
+  return result._sum.quantity ?? 0;
+}
+
+/**
+ * Reserve stock for a new delivery assignment.
+ * Throws if the farmer declared no availability for the product or the quantity exceeds what remains.
+ */
+export async function reserveAvailability(
+  tx: Tx,
+  data: {
+    deliveryAssignmentId: string;
+    farmerId: string;
+    productType: string;
+    deliveryDate: Date;
+    quantity: number;
+  }
+) {
+  const row = await findAvailabilityRow(tx, data.farmerId, data.productType, data.deliveryDate);
+  if (!row) {
+    throw createError(
+      `Farmer has no declared availability for ${data.productType} in the week or month of ${data.deliveryDate.toLocaleDateString()}`,
+      400,
+      'NO_AVAILABILITY'
+    );
+  }
+
+  const remaining = row.quantityAvailable - (await getCommittedQuantity(tx, row));
+  if (data.quantity > remaining) {
+    throw createError(
+      `Assigned quantity (${data.quantity}) exceeds farmer's remaining ${row.source} availability (${Math.max(0, remaining)}) for ${data.productType}`,
+      400,
+      'INSUFFICIENT_AVAILABILITY'
+    );
+  }
+
+  return tx.availabilityReservation.create({
+    data: {
+      deliveryAssignmentId: data.deliveryAssignmentId,
+      farmerId: data.farmerId,
+      quantity: data.quantity,
+      ...(row.source === 'weekly'
+        ? { weeklyAvailabilityId: row.id }
+        : { monthlyAvailabilityId: row.id }),
+    },
+  });
+}
+
+/**
+ * Remaining stock an assignment for this farmer, product and delivery date would draw from
+ * (no lock; for validation before a transaction). Null when no availability was declared.
+ */
+export async function getRemainingAvailability(
+  farmerId: string,
+  productType: string,
+  deliveryDate: Date
+): Promise<{ availabilityId: string; source: 'weekly' | 'monthly'; quantityRemaining: number } | null> {
+  const row = await findAvailabilityRow(prisma, farmerId, productType, deliveryDate, false);
+  if (!row) return null;
+  const committed = await getCommittedQuantity(prisma, row);
+  return {
+    availabilityId: row.id,
+    source: row.source,
+    quantityRemaining: Math.max(0, row.quantityAvailable - committed),
+  };
+}
+
+/**
+ * Change the reserved quantity when an assignment's quantity is edited.
+ * Assignments created before the ledger existed have no reservation and are left alone.
+ */
+export async function resizeReservation(tx: Tx, deliveryAssignmentId: string, quantity: number) {
+  const reservation = await tx.availabilityReservation.findFirst({
+    where: { deliveryAssignmentId, status: ReservationStatus.ACTIVE },
+  });
+  if (!reservation) return null;
+
+  const row = reservation.weeklyAvailabilityId
+    ? await lockRow(tx, 'weekly', reservation.weeklyAvailabilityId)
+    : await lockRow(tx, 'monthly', reservation.monthlyAvailabilityId!);
+  if (!row) return null;
+
+  const remaining =
+    row.quantityAvailable - (await getCommittedQuantity(tx, row, deliveryAssignmentId));
+  if (quantity > remaining) {
+    throw createError(
+      `Assigned quantity (${quantity}) exceeds farmer's remaining ${row.source} availability (${Math.max(0, remaining)})`,
+      400,
+      'INSUFFICIENT_AVAILABILITY'
+    );
+  }
+
+  return tx.availabilityReservation.update({
+    where: { id: reservation.id },
+    data: { quantity },
+  });
+}
+
+/**
+ * Return an assignment's reserved units to remaining stock.
+ */
+export async function releaseReservation(
+  tx: Tx,
+  deliveryAssignmentId: string,
+  reason: ReleaseReason
+) {
+  return tx.availabilityReservation.updateMany({
+    where: { deliveryAssignmentId, status: ReservationStatus.ACTIVE },
+    data: {
+      status: ReservationStatus.RELEASED,
+      releaseReason: reason,
+      releasedAt: new Date(),
+    },
+  });
+}
+
+/**
+ * Put a released reservation back into effect, e.g. when a FAILED delivery is re-confirmed as
+ * DELIVERED. Throws if the units have since been committed elsewhere. Assignments without a
+ * reservation (created before the ledger existed) are left alone.
+ */
+export async function reinstateReservation(tx: Tx, deliveryAssignmentId: string) {
+  const reservation = await tx.availabilityReservation.findUnique({
+    where: { deliveryAssignmentId },
+  });
+  if (!reservation || reservation.status === ReservationStatus.ACTIVE) return null;
+
+  const row = reservation.weeklyAvailabilityId
+    ? await lockRow(tx, 'weekly', reservation.weeklyAvailabilityId)
+    : await lockRow(tx, 'monthly', reservation.monthlyAvailabilityId!);
+  if (!row) return null;
+
+  const remaining = row.quantityAvailable - (await getCommittedQuantity(tx, row));
+  if (reservation.quantity > remaining) {
+    throw createError(
+      `Cannot reserve ${reservation.quantity} again: only ${Math.max(0, remaining)} remain in the farmer's ${row.source} availability`,
+      400,
+      'INSUFFICIENT_AVAILABILITY'
+    );
+  }
+
+  return tx.availabilityReservation.update({
+    where: { id: reservation.id },
+    data: {
+      status: ReservationStatus.ACTIVE,
+      releaseReason: null,
+      releasedAt: null,
+    },
+  });
+}
+
+/**
+ * Committed units per availability row (ACTIVE reservations), keyed by row ID.
+ */
+export async function getCommittedByAvailability(ids: {
+  weeklyIds?: string[];
+  monthlyIds?: string[];
+}): Promise<{ weekly: Map<string, number>; monthly: Map<string, number> }> {
+  const [weekly, monthly] = await Promise.all([
+    ids.weeklyIds?.length
+      ? prisma.availabilityReservation.groupBy({
+          by: ['weeklyAvailabilityId'],
+          where: { weeklyAvailabilityId: { in: ids.weeklyIds }, status: ReservationStatus.ACTIVE },
+          _sum: { quantity: true },
+        })
+      : [],
+    ids.monthlyIds?.length
+      ? prisma.availabilityReservation.groupBy({
+          by: ['monthlyAvailabilityId'],
+          where: { monthlyAvailabilityId: { in: ids.monthlyIds }, status: ReservationStatus.ACTIVE },
+          _sum: { quantity: true },
+        })
+      : [],
+  ]);
+
+  return {
+    weekly: new Map(weekly.map((g) => [g.weeklyAvailabilityId!, g._sum.quantity ?? 0])),
+    monthly: new Map(monthly.map((g) => [g.monthlyAvailabilityId!, g._sum.quantity ?? 0])),
+  };
+}
+
+/**
+ * Available / committed / remaining for one availability row.
+ */
+export function toAvailabilityBalance(quantityAvailable: number, committed: number): AvailabilityBalance {
+  return {
+    quantityAvailable,
+    quantityCommitted: committed,
+    quantityRemaining: Math.max(0, quantityAvailable - committed),
+  };
+}
+
+/**
+ * Units of a farmer's availability row currently reserved; used to stop farmers
+ * shrinking or deleting availability that is already allocated.
+ */
+export async function getCommittedForAvailabilityRow(
+  source: 'weekly' | 'monthly',
+  availabilityId: string
+): Promise<number> {
+  const result = await prisma.availabilityReservation.aggregate({
+    where: {
+      ...(source === 'weekly'
+        ? { weeklyAvailabilityId: availabilityId }
+        : { monthlyAvailabilityId: availabilityId }),
+      status: ReservationStatus.ACTIVE,
+    },
+    _sum: { quantity: true },
+  });
+  return result._sum.quantity ?? 0;
+}
@@ -0,0 +1,402 @@
+import {
+  BroadcastStatus,
+  BuyerType,
+  DeliveryChannel,
+  DeliveryStatus,
+  PerformanceTier,
+  Prisma,
+  UserRole,
+  UserStatus,
+} from '@prisma/client';
+import { prisma } from '../config/database.js';
+import { createError } from '../middleware/errorHandler.js';
+import { notifyUserTemplate, STALE_SENDING_MINUTES } from './notificationDelivery.service.js';
+
+/** Recipients fetched and notified per step while sending */
+const RECIPIENT_BATCH_SIZE = 100;
+
+/**
+ * Who a broadcast goes to. Every filter is optional; filters combine with AND.
+ * Farmer-only filters (regions, produceCategories, tiers) leave buyers out, and buyerTypes
+ * leaves farmers out, unless the other role is listed in `roles` explicitly.
+ * Buyers match `regions` through any of their delivery addresses.
+ */
+export interface BroadcastSegment {
+  roles?: UserRole[];
+  statuses?: UserStatus[];
+  regions?: string[];
+  produceCategories?: string[];
+  tiers?: PerformanceTier[];
+  buyerTypes?: BuyerType[];
+}
+
+export interface BroadcastChannels {
+  inApp: boolean;
+  email: boolean;
+  sms: boolean;
+}
+
+export interface CreateBroadcastData {
+  title: string;
+  message: string;
+  segment: BroadcastSegment;
+  channels: BroadcastChannels;
+  /** Omit to send now */
+  scheduledAt?: Date;
+}
+
+export interface BroadcastFilters {
+  status?: BroadcastStatus;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Users matching a segment. Blocked users never receive broadcasts unless BLOCKED is asked for.
+ */
+export function buildSegmentWhere(segment: BroadcastSegment): Prisma.UserWhereInput {
+  const farmerFilters = !!(segment.regions?.length || segment.produceCategories?.length || segment.tiers?.length);
+  const buyerFilters = !!segment.buyerTypes?.length;
+
+  let roles = segment.roles?.length ? segment.roles : [UserRole.FARMER, UserRole.BUYER];
+  if (!segment.roles?.length && (farmerFilters || buyerFilters)) {
+    roles = [
+      ...(farmerFilters || !buyerFilters ? [UserRole.FARMER] : []),
+      ...(buyerFilters || !farmerFilters ? [UserRole.BUYER] : []),
+    ];
+  }
+
+  const byRole: Prisma.UserWhereInput[] = roles.map((role) => {
+    if (role === UserRole.FARMER) {
+      return {
+        role,
+        ...(farmerFilters && {
+          farmer: {
+            ...(segment.regions?.length && { region: { in: segment.regions } }),
+            ...(segment.produceCategories?.length && { produceCategory: { in: segment.produceCategories } }),
+            ...(segment.tiers?.length && { performance: { tier: { in: segment.tiers } } }),
+          },
+        }),
+      };
+    }
+    if (role === UserRole.BUYER) {
+      return {
+        role,
+        ...((buyerFilters || segment.regions?.length) && {
+          buyer: {
+            ...(segment.buyerTypes?.length && { buyerType: { in: segment.buyerTypes } }),
+            ...(segment.regions?.length && {
+              deliveryAddresses: { some: { region: { in: segment.regions } } },
+            }),
+          },
+        }),
+      };
+    }
+    return { role };
+  });
+
+  return {
+    OR: byRole,
+    status: segment.statuses?.length ? { in: segment.statuses } : { not: UserStatus.BLOCKED },
+  };
+}
+
+/**
+ * Number of users a segment currently matches (for the compose screen).
+ */
+export async function countSegmentRecipients(segment: BroadcastSegment): Promise<number> {
+  return prisma.user.count({ where: buildSegmentWhere(segment) });
+}
+
+/**
+ * Create a broadcast. Without scheduledAt (or with a time in the past) sending starts straight away;
+ * otherwise the broadcast job sends it when due.
+ */
+export async function createBroadcast(adminId: string, data: CreateBroadcastData) {
+  const recipientCount = await countSegmentRecipients(data.segment);
+  if (recipientCount === 0) {
+    throw createError('No users match this segment', 400, 'EMPTY_SEGMENT');
+  }
+
+  const broadcast = await prisma.broadcast.create({
+    data: {
+      createdById: adminId,
+      title: data.title,
+      message: data.message,
+      segment: data.segment as Prisma.InputJsonObject,
+      inApp: data.channels.inApp,
+      email: data.channels.email,
+      sms: data.channels.sms,
+      scheduledAt: data.scheduledAt ?? new Date(),
+      recipientCount,
+    },
+  });
+
+  if (broadcast.scheduledAt <= new Date()) {
+    // Not awaited: large segments take a while. If cut off, the broadcast job resumes it.
+    sendBroadcast(broadcast.id).catch((err) =>
+      console.error('[Broadcast] Sending failed:', broadcast.id, err)
+    );
+  }
+
+  return broadcast;
+}
+
+/**
+ * Send a due broadcast to every matching user who has not received it yet.
+ * Safe to call repeatedly: the claim only succeeds for a due SCHEDULED broadcast or an abandoned
+ * SENDING one, and recipients already recorded are skipped. Returns null if not claimed.
+ */
+export async function sendBroadcast(broadcastId: string) {
+  const now = new Date();
+  const staleBefore = new Date(now.getTime() - STALE_SENDING_MINUTES * 60 * 1000);
+
+  const { count } = await prisma.broadcast.updateMany({
+    where: {
+      id: broadcastId,
+      OR: [
+        { status: BroadcastStatus.SCHEDULED, scheduledAt: { lte: now } },
+        { status: BroadcastStatus.SENDING, updatedAt: { lt: staleBefore } },
+      ],
+    },
+    data: { status: BroadcastStatus.SENDING, startedAt: now },
+  });
+  if (count === 0) return null;
+
+  const broadcast = await prisma.broadcast.findUniqueOrThrow({ where: { id: broadcastId } });
+  const where: Prisma.UserWhereInput = {
+    ...buildSegmentWhere(broadcast.segment as BroadcastSegment),
+    broadcastsReceived: { none: { broadcastId } },
+  };
+
+  let sent = 0;
+  for (;;) {
+    // Cancelled mid-way: stop before the next batch
+    const current = await prisma.broadcast.findUnique({
+      where: { id: broadcastId },
+      select: { status: true },
+    });
+    if (current?.status !== BroadcastStatus.SENDING) break;
+
+    const users = await prisma.user.findMany({
+      where,
+      select: { id: true },
+      orderBy: { id: 'asc' },
+      take: RECIPIENT_BATCH_SIZE,
+    });
+    if (users.length === 0) {
+      await prisma.broadcast.updateMany({
+        where: { id: broadcastId, status: BroadcastStatus.SENDING },
+        data: {
+          status: BroadcastStatus.SENT,
+          completedAt: new Date(),
+          recipientCount: await prisma.broadcastRecipient.count({ where: { broadcastId } }),
+        },
+      });
+      break;
+    }
+
+    for (const user of users) {
+      // Record first so a crash mid-send never messages the same user twice
+      const recipient = await prisma.broadcastRecipient.create({
+        data: { broadcastId, userId: user.id },
+      });
+      const { notificationId } = await notifyUserTemplate(
+        user.id,
+        'BROADCAST',
+        { title: broadcast.title, message: broadcast.message },
+        { broadcastId },
+        {
+          sendInApp: broadcast.inApp,
+          sendEmail: broadcast.email,
+          sendSms: broadcast.sms,
+          broadcastId,
+        }
+      ).catch((err) => {
+        console.error('[Broadcast] Notify failed:', broadcastId, user.id, err);
+        return { notificationId: null };
+      });
+      if (notificationId) {
+        await prisma.broadcastRecipient.update({
+          where: { id: recipient.id },
+          data: { notificationId },
+        });
+      }
+      sent++;
+    }
+
+    // Heartbeat so a running send is not mistaken for an abandoned one
+    await prisma.broadcast.update({ where: { id: broadcastId }, data: { updatedAt: new Date() } });
+  }
+
+  return { broadcastId, sent };
+}
+
+/**
+ * Send every due broadcast (scheduled time reached, or abandoned mid-send).
+ */
+export async function runDueBroadcasts() {
+  const now = new Date();
+  const due = await prisma.broadcast.findMany({
+    where: {
+      OR: [
+        { status: BroadcastStatus.SCHEDULED, scheduledAt: { lte: now } },
+        {
+          status: BroadcastStatus.SENDING,
+          updatedAt: { lt: new Date(now.getTime() - STALE_SENDING_MINUTES * 60 * 1000) },
+        },
+      ],
+    },
+    orderBy: { scheduledAt: 'asc' },
+    select: { id: true },
+  });
+
+  const summary = { broadcasts: 0, recipients: 0 };
+  for (const { id } of due) {
+    const result = await sendBroadcast(id).catch((err) => {
+      console.error('[Broadcast] Sending failed:', id, err);
+      return null;
+    });
+    if (!result) continue;
+    summary.broadcasts++;
+    summary.recipients += result.sent;
+  }
+
+  return summary;
+}
+
+/**
+ * Cancel a broadcast that has not finished. Users already messaged are not affected.
+ */
+export async function cancelBroadcast(broadcastId: string) {
+  const { count } = await prisma.broadcast.updateMany({
+    where: {
+      id: broadcastId,
+      status: { in: [BroadcastStatus.SCHEDULED, BroadcastStatus.SENDING] },
+    },
+    data: { status: BroadcastStatus.CANCELLED, cancelledAt: new Date() },
+  });
+
+  if (count === 0) {
+    const broadcast = await prisma.broadcast.findUnique({
+      where: { id: broadcastId },
+      select: { status: true },
+    });
+    if (!broadcast) {
+      throw createError('Broadcast not found', 404, 'BROADCAST_NOT_FOUND');
+    }
+    throw createError(
+      `Only scheduled or sending broadcasts can be cancelled. Current status: ${broadcast.status}`,
+      400,
+      'INVALID_BROADCAST_STATUS'
+    );
+  }
+
+  return getBroadcastById(broadcastId);
+}
+
+/**
+ * Broadcast history (newest first).
+ */
+export async function listBroadcasts(filters: BroadcastFilters) {
+  const where: Prisma.BroadcastWhereInput = filters.status ? { status: filters.status } : {};
+  const [broadcasts, total] = await Promise.all([
+    prisma.broadcast.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      take: filters.limit ?? 50,
+      skip: filters.offset ?? 0,
+      include: {
+        createdBy: { select: { id: true, email: true } },
+        _count: { select: { recipients: true } },
+      },
+    }),
+    prisma.broadcast.count({ where }),
+  ]);
+
+  return { broadcasts, total };
+}
+
+/**
+ * Broadcast with delivery statistics: recipients reached, in-app reads and
+ * email/SMS/push outcomes by channel and status.
+ */
+export async function getBroadcastById(broadcastId: string) {
+  const broadcast = await prisma.broadcast.findUnique({
+    where: { id: broadcastId },
+    include: { createdBy: { select: { id: true, email: true } } },
+  });
+  if (!broadcast) {
+    throw createError('Broadcast not found', 404, 'BROADCAST_NOT_FOUND');
+  }
+
+  const [recipients, read, byChannel] = await Promise.all([
+    prisma.broadcastRecipient.count({ where: { broadcastId } }),
+    prisma.broadcastRecipient.count({ where: { broadcastId, notification: { isRead: true } } }),
+    prisma.notificationDelivery.groupBy({
+      by: ['channel', 'status'],
+      where: { broadcastId },
+      _count: { _all: true },
+    }),
+  ]);
+
+  const deliveries: Partial<Record<DeliveryChannel, Partial<Record<DeliveryStatus, number>>>> = {};
+  for (const group of byChannel) {
+    deliveries[group.channel] = { ...deliveries[group.channel], [group.status]: group._count._all };
+  }
+
+  return { ...broadcast, stats: { recipients, read, deliveries } };
+}
+
+/**
+ * Per-recipient delivery record: the user, whether the in-app message was read, and each
+ * email/SMS/push attempt.
+ */
+export async function listBroadcastRecipients(
+  broadcastId: string,
+  options: { limit?: number; offset?: number } = {}
+) {
+  const exists = await prisma.broadcast.findUnique({ where: { id: broadcastId }, select: { id: true } });
+  if (!exists) {
+    throw createError('Broadcast not found', 404, 'BROADCAST_NOT_FOUND');
+  }
+
+  const where = { broadcastId };
+  const [recipients, total] = await Promise.all([
+    prisma.broadcastRecipient.findMany({
+      where,
+      orderBy: { createdAt: 'asc' },
+      take: options.limit ?? 100,
+      skip: options.offset ?? 0,
+      include: {
+        user: { select: { id: true, email: true, phone: true, role: true } },
+        notification: { select: { isRead: true } },
+      },
+    }),
+    prisma.broadcastRecipient.count({ where }),
+  ]);
+
+  const deliveries = await prisma.notificationDelivery.findMany({
+    where: { broadcastId, userId: { in: recipients.map((r) => r.userId) } },
+    select: {
+      id: true,
+      userId: true,
+      channel: true,
+      status: true,
+      attempts: true,
+      sentAt: true,
+      lastError: true,
+    },
+  });
+
+  return {
+    recipients: recipients.map(({ notification, ...r }) => ({
+      ...r,
+      read: notification ? notification.isRead : null,
+      deliveries: deliveries
+        .filter((d) => d.userId === r.userId)
+        .map(({ userId: _userId, ...delivery }) => delivery),
+    })),
+    total,
+  };
+}
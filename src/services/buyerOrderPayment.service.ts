@@ -32,6 +32,7 @@ export async function getBuyerPaymentsToSuppliers(buyerUserId: string) {
       deliveryAssignment: {
         select: {
           id: true,
+          orderLine: { select: { id: true, productType: true, quantity: true } },
           assignedQuantity: true,
           deliveryDate: true,
           status: true,
@@ -82,7 +83,7 @@ export async function getAdminBuyerOrderPayments(filters?: {
           deliveryAddress: true,
         },
       },
-      deliveryAssignment: true,
+      deliveryAssignment: { include: { orderLine: true } },
       farmer: {
         include: {
           user: { select: { email: true, phone: true } },
@@ -121,7 +122,7 @@ export async function confirmBuyerOrderPaymentByAdmin(paymentId: string, adminId
       where: { id: paymentId },
       include: {
         order: { include: { deliveryAddress: true } },
-        deliveryAssignment: true,
+        deliveryAssignment: { include: { orderLine: true } },
         farmer: { include: { user: { select: { email: true, phone: true } } } },
       },
     });
@@ -132,7 +133,7 @@ export async function confirmBuyerOrderPaymentByAdmin(paymentId: string, adminId
     data: { adminConfirmedAt: new Date() },
     include: {
       order: { include: { deliveryAddress: true } },
-      deliveryAssignment: true,
+      deliveryAssignment: { include: { orderLine: true } },
       farmer: { include: { user: { select: { email: true, phone: true } } } },
     },
   });
@@ -157,6 +158,7 @@ export async function getFarmerBuyerPayments(farmerId: string) {
       deliveryAssignment: {
         select: {
           id: true,
+          orderLine: { select: { id: true, productType: true, quantity: true } },
           assignedQuantity: true,
           deliveryDate: true,
           status: true,
@@ -177,7 +179,7 @@ export async function confirmBuyerPaymentReceiptByFarmer(paymentId: string, farm
     where: { id: paymentId, farmerId },
     include: {
       order: { select: { id: true, productType: true, quantity: true, deliveryDate: true } },
-      deliveryAssignment: true,
+      deliveryAssignment: { include: { orderLine: true } },
     },
   });
 
@@ -192,7 +194,7 @@ export async function confirmBuyerPaymentReceiptByFarmer(paymentId: string, farm
     data: { supplierConfirmedAt: wasAlreadyConfirmed ? payment.supplierConfirmedAt : new Date() },
     include: {
       order: { select: { id: true, productType: true, quantity: true, deliveryDate: true } },
-      deliveryAssignment: true,
+      deliveryAssignment: { include: { orderLine: true } },
     },
   });
 
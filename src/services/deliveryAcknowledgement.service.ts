@@ -0,0 +1,326 @@
+import { prisma } from '../config/database.js';
+import { createError } from '../middleware/errorHandler.js';
+import {
+  AssignmentStatus,
+  DeliveryAcknowledgement,
+  DeliveryAssignment,
+  DeliveryDiscrepancy,
+  Prisma,
+  QualityResult,
+} from '@prisma/client';
+import { uploadImageToCloudinary, validateImageFile } from '../utils/fileUpload.js';
+import { notifyAdminsTemplate } from './notificationDelivery.service.js';
+import { updatePerformanceScore } from './performance.service.js';
+import { assignmentProductType } from './orderLine.service.js';
+
+/** Photos kept per acknowledgement */
+export const MAX_ACKNOWLEDGEMENT_PHOTOS = 5;
+
+export interface AcknowledgeDeliveryData {
+  quantityReceived: number;
+  qualityRating: number;
+  comments?: string;
+}
+
+interface AcknowledgementPhoto {
+  url: string;
+  publicId: string;
+  format: string;
+  bytes: number;
+  fileName: string;
+}
+
+type DiscrepancyFields = Pick<
+  DeliveryAssignment,
+  'status' | 'confirmedAt' | 'quantityDelivered' | 'qualityResult' | 'farmerReportedQuantity'
+>;
+
+/**
+ * Compare a buyer acknowledgement with the farmer's report and the admin confirmation.
+ * Admin checks only apply once the delivery is confirmed.
+ */
+export function detectDiscrepancies(
+  acknowledgement: Pick<DeliveryAcknowledgement, 'quantityReceived' | 'qualityRating'>,
+  assignment: DiscrepancyFields
+): DeliveryDiscrepancy[] {
+  const found: DeliveryDiscrepancy[] = [];
+  const { quantityReceived, qualityRating } = acknowledgement;
+
+  if (assignment.farmerReportedQuantity != null && assignment.farmerReportedQuantity !== quantityReceived) {
+    found.push(DeliveryDiscrepancy.QUANTITY_VS_FARMER);
+  }
+  if (assignment.confirmedAt) {
+    if (assignment.status === AssignmentStatus.FAILED && quantityReceived > 0) {
+      found.push(DeliveryDiscrepancy.STATUS_VS_ADMIN);
+    }
+    if (
+      assignment.status === AssignmentStatus.DELIVERED &&
+      assignment.quantityDelivered != null &&
+      assignment.quantityDelivered !== quantityReceived
+    ) {
+      found.push(DeliveryDiscrepancy.QUANTITY_VS_ADMIN);
+    }
+    if (
+      (assignment.qualityResult === QualityResult.PASS && qualityRating <= 2) ||
+      (assignment.qualityResult === QualityResult.FAIL && qualityRating >= 4)
+    ) {
+      found.push(DeliveryDiscrepancy.QUALITY_VS_ADMIN);
+    }
+  }
+  return found;
+}
+
+function sameDiscrepancies(a: DeliveryDiscrepancy[], b: DeliveryDiscrepancy[]): boolean {
+  return a.length === b.length && a.every((d) => b.includes(d));
+}
+
+/**
+ * Re-run the discrepancy check for an assignment's acknowledgement (if any) after the farmer or an
+ * admin changes the delivery. A new set of discrepancies puts it back in the admin review queue
+ * and notifies admins; no discrepancies clears the flag.
+ */
+export async function refreshAcknowledgementDiscrepancies(deliveryAssignmentId: string) {
+  const acknowledgement = await prisma.deliveryAcknowledgement.findUnique({
+    where: { deliveryAssignmentId },
+    include: {
+      deliveryAssignment: {
+        include: {
+          order: { select: { productType: true } },
+          orderLine: { select: { productType: true } },
+        },
+      },
+    },
+  });
+  if (!acknowledgement) return null;
+
+  const { deliveryAssignment: assignment, ...current } = acknowledgement;
+  const discrepancies = detectDiscrepancies(current, assignment);
+  if (sameDiscrepancies(discrepancies, current.discrepancies)) return current;
+
+  const updated = await prisma.deliveryAcknowledgement.update({
+    where: { id: current.id },
+    data: {
+      discrepancies,
+      needsReview: discrepancies.length > 0,
+      reviewedBy: null,
+      reviewedAt: null,
+      reviewNotes: null,
+    },
+  });
+
+  if (discrepancies.length > 0) {
+    await notifyAdminsTemplate(
+      'DELIVERY_DISCREPANCY',
+      {
+        productType: assignmentProductType(assignment),
+        deliveryDate: assignment.deliveryDate,
+        discrepancies: discrepancies.join(', '),
+      },
+      { deliveryAssignmentId, deliveryAcknowledgementId: current.id, orderId: assignment.orderId },
+      { sendSms: false }
+    ).catch((err) => console.error('[Delivery acknowledgement] Notify failed:', err));
+  }
+
+  return updated;
+}
+
+async function uploadAcknowledgementPhotos(
+  deliveryAssignmentId: string,
+  files: Express.Multer.File[]
+): Promise<AcknowledgementPhoto[]> {
+  files.forEach(validateImageFile);
+
+  return Promise.all(
+    files.map(async (file) => {
+      const fileName = `ack-${Date.now()}-${Math.random().toString(36).substring(7)}`;
+      const result = await uploadImageToCloudinary(
+        file.buffer,
+        `delivery-acknowledgements/${deliveryAssignmentId}`,
+        fileName
+      );
+      return {
+        url: result.secureUrl,
+        publicId: result.publicId,
+        format: result.format,
+        bytes: result.bytes,
+        fileName: file.originalname,
+      };
+    })
+  );
+}
+
+/**
+ * Buyer acknowledges a delivery on their order: quantity received, 1-5 quality rating, comments and
+ * photos. Can be sent again to correct it until an admin has reviewed it; new photos are added to
+ * earlier ones. Discrepancies with the farmer/admin figures are flagged for review, and the rating
+ * counts towards the farmer's quality score once the delivery is confirmed.
+ */
+export async function acknowledgeDelivery(
+  orderId: string,
+  deliveryAssignmentId: string,
+  buyerUserId: string,
+  data: AcknowledgeDeliveryData,
+  files: Express.Multer.File[] = []
+) {
+  const buyer = await prisma.buyer.findUnique({
+    where: { userId: buyerUserId },
+    select: { id: true },
+  });
+  if (!buyer) {
+    throw createError('Buyer not found', 404, 'BUYER_NOT_FOUND');
+  }
+
+  const assignment = await prisma.deliveryAssignment.findFirst({
+    where: { id: deliveryAssignmentId, orderId, order: { buyerId: buyer.id } },
+    include: {
+      order: { select: { productType: true } },
+      orderLine: { select: { productType: true } },
+      acknowledgement: true,
+    },
+  });
+  if (!assignment) {
+    throw createError('Delivery not found on this order', 404, 'ASSIGNMENT_NOT_FOUND');
+  }
+  if (assignment.status === AssignmentStatus.CANCELLED) {
+    throw createError('Cancelled deliveries cannot be acknowledged', 400, 'ASSIGNMENT_CANCELLED');
+  }
+  if (assignment.deliveryDate > new Date()) {
+    throw createError('This delivery is not due yet', 400, 'DELIVERY_NOT_DUE');
+  }
+  if (data.quantityReceived > assignment.assignedQuantity) {
+    throw createError(
+      `Quantity received (${data.quantityReceived}) cannot exceed assigned quantity (${assignment.assignedQuantity})`,
+      400,
+      'INVALID_QUANTITY'
+    );
+  }
+
+  const existing = assignment.acknowledgement;
+  if (existing?.reviewedAt) {
+    throw createError(
+      'This acknowledgement has been reviewed by an admin. Open a dispute to contest the delivery.',
+      400,
+      'ACKNOWLEDGEMENT_REVIEWED'
+    );
+  }
+  const earlierPhotos = (existing?.photos as AcknowledgementPhoto[] | null) ?? [];
+  if (earlierPhotos.length + files.length > MAX_ACKNOWLEDGEMENT_PHOTOS) {
+    throw createError(
+      `At most ${MAX_ACKNOWLEDGEMENT_PHOTOS} photos per delivery`,
+      400,
+      'TOO_MANY_ATTACHMENTS'
+    );
+  }
+
+  const photos = [...earlierPhotos, ...(await uploadAcknowledgementPhotos(deliveryAssignmentId, files))];
+  const discrepancies = detectDiscrepancies(data, assignment);
+  const flagged = discrepancies.length > 0 && !sameDiscrepancies(discrepancies, existing?.discrepancies ?? []);
+  const fields = {
+    acknowledgedBy: buyerUserId,
+    quantityReceived: data.quantityReceived,
+    qualityRating: data.qualityRating,
+    comments: data.comments?.trim() || null,
+    photos: photos.length ? (photos as unknown as Prisma.InputJsonArray) : Prisma.JsonNull,
+    discrepancies,
+    needsReview: discrepancies.length > 0,
+  };
+
+  const acknowledgement = await prisma.deliveryAcknowledgement.upsert({
+    where: { deliveryAssignmentId },
+    create: { deliveryAssignmentId, buyerId: buyer.id, ...fields },
+    update: fields,
+  });
+
+  if (flagged) {
+    await notifyAdminsTemplate(
+      'DELIVERY_DISCREPANCY',
+      {
+        productType: assignmentProductType(assignment),
+        deliveryDate: assignment.deliveryDate,
+        discrepancies: discrepancies.join(', '),
+      },
+      { deliveryAssignmentId, deliveryAcknowledgementId: acknowledgement.id, orderId },
+      { sendSms: false }
+    ).catch((err) => console.error('[Delivery acknowledgement] Notify failed:', err));
+  }
+
+  if (assignment.status === AssignmentStatus.DELIVERED && assignment.confirmedAt) {
+    await updatePerformanceScore(
+      assignment.farmerId,
+      `Buyer rated delivery ${data.qualityRating}/5`,
+      deliveryAssignmentId
+    ).catch((err) => console.error('Error updating performance score:', err));
+  }
+
+  return acknowledgement;
+}
+
+/**
+ * List buyer acknowledgements (admin), newest first. needsReview=true gives the discrepancy queue.
+ */
+export async function listDeliveryAcknowledgements(filters: {
+  needsReview?: boolean;
+  buyerId?: string;
+  farmerId?: string;
+  limit: number;
+  offset: number;
+}) {
+  const where: Prisma.DeliveryAcknowledgementWhereInput = {
+    ...(filters.needsReview !== undefined && { needsReview: filters.needsReview }),
+    ...(filters.buyerId && { buyerId: filters.buyerId }),
+    ...(filters.farmerId && { deliveryAssignment: { farmerId: filters.farmerId } }),
+  };
+
+  const [acknowledgements, total] = await Promise.all([
+    prisma.deliveryAcknowledgement.findMany({
+      where,
+      include: {
+        deliveryAssignment: {
+          select: {
+            id: true,
+            orderId: true,
+            farmerId: true,
+            assignedQuantity: true,
+            deliveryDate: true,
+            status: true,
+            farmerReportedQuantity: true,
+            quantityDelivered: true,
+            qualityResult: true,
+            confirmedAt: true,
+            order: { select: { productType: true } },
+            orderLine: { select: { productType: true } },
+            farmer: { select: { fullName: true, farmName: true } },
+          },
+        },
+        buyer: { select: { id: true, fullName: true, businessName: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: filters.limit,
+      skip: filters.offset,
+    }),
+    prisma.deliveryAcknowledgement.count({ where }),
+  ]);
+
+  return { acknowledgements, total };
+}
+
+/**
+ * Admin marks a flagged acknowledgement as reviewed. Corrections to the delivery itself go through
+ * confirmDelivery or a dispute.
+ */
+export async function reviewDeliveryAcknowledgement(id: string, adminId: string, notes?: string) {
+  const acknowledgement = await prisma.deliveryAcknowledgement.findUnique({ where: { id } });
+  if (!acknowledgement) {
+    throw createError('Delivery acknowledgement not found', 404, 'ACKNOWLEDGEMENT_NOT_FOUND');
+  }
+
+  return prisma.deliveryAcknowledgement.update({
+    where: { id },
+    data: {
+      needsReview: false,
+      reviewedBy: adminId,
+      reviewedAt: new Date(),
+      reviewNotes: notes?.trim() || null,
+    },
+  });
+}
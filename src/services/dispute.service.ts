@@ -0,0 +1,460 @@
+import { prisma } from '../config/database.js';
+import { createError } from '../middleware/errorHandler.js';
+import { AssignmentStatus, DisputeStatus, Prisma, QualityResult, UserRole } from '@prisma/client';
+import { uploadImageOrPdfToCloudinary, validateImageOrPdfFile } from '../utils/fileUpload.js';
+import { reinstateReservation, releaseReservation } from './availabilityLedger.service.js';
+import { reconcileInvoiceForOrder, repriceInvoiceLineForAssignment } from './invoice.service.js';
+import { notifyAdminsTemplate, notifyUserTemplate } from './notificationDelivery.service.js';
+import { updatePerformanceScore } from './performance.service.js';
+import { refreshAcknowledgementDiscrepancies } from './deliveryAcknowledgement.service.js';
+import { assignmentProductType } from './orderLine.service.js';
+import type { DisputeFiltersInput, OpenDisputeInput, ResolveDisputeInput } from '../validators/dispute.validator.js';
+
+/** Evidence files accepted per upload */
+export const MAX_DISPUTE_EVIDENCE = 5;
+
+const ACTIVE_STATUSES: DisputeStatus[] = [DisputeStatus.OPEN, DisputeStatus.UNDER_REVIEW];
+
+/** The user acting on a dispute; ownership is checked from the role */
+export interface DisputeActor {
+  userId: string;
+  role: UserRole;
+}
+
+const disputeInclude = {
+  deliveryAssignment: {
+    select: {
+      id: true,
+      assignedQuantity: true,
+      deliveryDate: true,
+      status: true,
+      quantityDelivered: true,
+      qualityResult: true,
+      confirmedAt: true,
+      orderLine: { select: { id: true, productType: true, quantity: true } },
+    },
+  },
+  buyerOrderPayment: {
+    select: { id: true, amountPaid: true, paymentMethod: true, paymentDate: true, adminConfirmedAt: true, supplierConfirmedAt: true },
+  },
+  order: { select: { id: true, productType: true, deliveryDate: true } },
+  farmer: { select: { id: true, fullName: true, farmName: true } },
+  buyer: { select: { id: true, fullName: true, businessName: true } },
+  evidence: { orderBy: { createdAt: 'asc' as const } },
+} satisfies Prisma.DisputeInclude;
+
+/**
+ * Where clause limiting disputes to the actor's side: buyers see disputes on their orders,
+ * farmers on their deliveries and payments; admins see all.
+ */
+async function getActorScope(actor: DisputeActor): Promise<{ buyerId?: string; farmerId?: string }> {
+  if (actor.role === UserRole.BUYER) {
+    const buyer = await prisma.buyer.findUnique({ where: { userId: actor.userId }, select: { id: true } });
+    if (!buyer) throw createError('Buyer not found', 404, 'BUYER_NOT_FOUND');
+    return { buyerId: buyer.id };
+  }
+  if (actor.role === UserRole.FARMER) {
+    const farmer = await prisma.farmer.findUnique({ where: { userId: actor.userId }, select: { id: true } });
+    if (!farmer) throw createError('Farmer not found', 404, 'FARMER_NOT_FOUND');
+    return { farmerId: farmer.id };
+  }
+  return {};
+}
+
+async function uploadEvidence(
+  folderId: string,
+  files: Express.Multer.File[]
+): Promise<Array<{ url: string; publicId: string; format: string; bytes: number; fileName: string }>> {
+  if (files.length > MAX_DISPUTE_EVIDENCE) {
+    throw createError(
+      `At most ${MAX_DISPUTE_EVIDENCE} evidence files per upload`,
+      400,
+      'TOO_MANY_ATTACHMENTS'
+    );
+  }
+  files.forEach(validateImageOrPdfFile);
+
+  return Promise.all(
+    files.map(async (file) => {
+      const fileName = `dispute-${Date.now()}-${Math.random().toString(36).substring(7)}`;
+      const result = await uploadImageOrPdfToCloudinary(file.buffer, `disputes/${folderId}`, fileName, file.mimetype);
+      return {
+        url: result.secureUrl,
+        publicId: result.publicId,
+        format: result.format,
+        bytes: result.bytes,
+        fileName: file.originalname,
+      };
+    })
+  );
+}
+
+/** User IDs of the buyer and farmer on a dispute */
+async function getPartyUserIds(dispute: { buyerId: string; farmerId: string }) {
+  const [buyer, farmer] = await Promise.all([
+    prisma.buyer.findUnique({ where: { id: dispute.buyerId }, select: { userId: true } }),
+    prisma.farmer.findUnique({ where: { id: dispute.farmerId }, select: { userId: true } }),
+  ]);
+  return { buyerUserId: buyer?.userId ?? null, farmerUserId: farmer?.userId ?? null };
+}
+
+/**
+ * Buyer or farmer opens a dispute on a confirmed delivery (DELIVERED or FAILED) or on a
+ * buyer-to-supplier payment they are party to. One active dispute per delivery or payment.
+ * Admins and the other party are notified.
+ */
+export async function openDispute(actor: DisputeActor, data: OpenDisputeInput, files: Express.Multer.File[] = []) {
+  const scope = await getActorScope(actor);
+  if (!scope.buyerId && !scope.farmerId) {
+    throw createError('Only buyers and farmers can open disputes', 403, 'FORBIDDEN');
+  }
+
+  let target: { orderId: string; farmerId: string; buyerId: string };
+  let notification: Parameters<typeof notifyAdminsTemplate>;
+
+  if (data.deliveryAssignmentId) {
+    const assignment = await prisma.deliveryAssignment.findUnique({
+      where: { id: data.deliveryAssignmentId },
+      include: {
+        order: { select: { buyerId: true, productType: true } },
+        orderLine: { select: { productType: true } },
+      },
+    });
+    if (
+      !assignment ||
+      (scope.buyerId && assignment.order.buyerId !== scope.buyerId) ||
+      (scope.farmerId && assignment.farmerId !== scope.farmerId)
+    ) {
+      throw createError('Delivery assignment not found', 404, 'ASSIGNMENT_NOT_FOUND');
+    }
+    if (
+      !assignment.confirmedAt ||
+      (assignment.status !== AssignmentStatus.DELIVERED && assignment.status !== AssignmentStatus.FAILED)
+    ) {
+      throw createError('Only confirmed deliveries can be disputed', 400, 'DELIVERY_NOT_CONFIRMED');
+    }
+    if (data.claimedQuantity !== undefined && data.claimedQuantity > assignment.assignedQuantity) {
+      throw createError(
+        `Claimed quantity (${data.claimedQuantity}) cannot exceed assigned quantity (${assignment.assignedQuantity})`,
+        400,
+        'INVALID_QUANTITY'
+      );
+    }
+    target = { orderId: assignment.orderId, farmerId: assignment.farmerId, buyerId: assignment.order.buyerId };
+    notification = [
+      'DISPUTE_OPENED',
+      {
+        raisedByRole: actor.role.toLowerCase(),
+        reason: data.reason,
+        productType: assignmentProductType(assignment),
+        deliveryDate: assignment.deliveryDate,
+      },
+    ];
+  } else {
+    const payment = await prisma.buyerOrderPayment.findUnique({
+      where: { id: data.buyerOrderPaymentId! },
+      include: {
+        order: { select: { buyerId: true } },
+        deliveryAssignment: { select: { farmerId: true } },
+      },
+    });
+    const farmerId = payment?.farmerId ?? payment?.deliveryAssignment?.farmerId ?? null;
+    if (
+      !payment ||
+      (scope.buyerId && payment.order.buyerId !== scope.buyerId) ||
+      (scope.farmerId && farmerId !== scope.farmerId)
+    ) {
+      throw createError('Payment not found', 404, 'PAYMENT_NOT_FOUND');
+    }
+    if (!farmerId) {
+      throw createError('Payment is not linked to a supplier', 400, 'PAYMENT_HAS_NO_SUPPLIER');
+    }
+    target = { orderId: payment.orderId, farmerId, buyerId: payment.order.buyerId };
+    notification = [
+      'DISPUTE_OPENED.payment',
+      {
+        raisedByRole: actor.role.toLowerCase(),
+        reason: data.reason,
+        amount: payment.amountPaid.toFixed(2),
+        paymentDate: payment.paymentDate,
+      },
+    ];
+  }
+
+  const existing = await prisma.dispute.findFirst({
+    where: {
+      status: { in: ACTIVE_STATUSES },
+      ...(data.deliveryAssignmentId
+        ? { deliveryAssignmentId: data.deliveryAssignmentId }
+        : { buyerOrderPaymentId: data.buyerOrderPaymentId }),
+    },
+    select: { id: true },
+  });
+  if (existing) {
+    throw createError('There is already an open dispute for this item', 409, 'DISPUTE_ALREADY_OPEN');
+  }
+
+  const evidence = await uploadEvidence(target.orderId, files);
+
+  const dispute = await prisma.dispute.create({
+    data: {
+      ...target,
+      deliveryAssignmentId: data.deliveryAssignmentId ?? null,
+      buyerOrderPaymentId: data.buyerOrderPaymentId ?? null,
+      raisedById: actor.userId,
+      raisedByRole: actor.role,
+      reason: data.reason,
+      description: data.description.trim(),
+      claimedQuantity: data.claimedQuantity ?? null,
+      claimedQualityResult: data.claimedQualityResult ?? null,
+      evidence: {
+        create: evidence.map((file) => ({ ...file, uploadedBy: actor.userId, uploadedByRole: actor.role })),
+      },
+    },
+    include: disputeInclude,
+  });
+
+  const [key, variables] = notification;
+  const metadata = { disputeId: dispute.id, orderId: dispute.orderId };
+  const { buyerUserId, farmerUserId } = await getPartyUserIds(dispute);
+  const counterpartyUserId = actor.role === UserRole.BUYER ? farmerUserId : buyerUserId;
+  await notifyAdminsTemplate(key, variables, metadata, { sendSms: false }).catch((err) =>
+    console.error('[Dispute] Notify failed:', err)
+  );
+  if (counterpartyUserId) {
+    await notifyUserTemplate(counterpartyUserId, key, variables, metadata, { sendEmail: true, sendSms: false }).catch(
+      (err) => console.error('[Dispute] Notify failed:', err)
+    );
+  }
+
+  return dispute;
+}
+
+/**
+ * Get a dispute with its evidence. Buyers and farmers only see disputes they are party to.
+ */
+export async function getDisputeById(disputeId: string, actor: DisputeActor) {
+  const scope = await getActorScope(actor);
+  const dispute = await prisma.dispute.findFirst({
+    where: { id: disputeId, ...scope },
+    include: disputeInclude,
+  });
+  if (!dispute) {
+    throw createError('Dispute not found', 404, 'DISPUTE_NOT_FOUND');
+  }
+  return dispute;
+}
+
+/**
+ * List disputes, newest first. Buyers and farmers only see their own; buyerId/farmerId filters
+ * are ignored for them.
+ */
+export async function listDisputes(actor: DisputeActor, filters: DisputeFiltersInput) {
+  const scope = await getActorScope(actor);
+  const where: Prisma.DisputeWhereInput = {
+    ...(filters.status && { status: filters.status }),
+    ...(filters.reason && { reason: filters.reason }),
+    ...(filters.orderId && { orderId: filters.orderId }),
+    ...(filters.buyerId && { buyerId: filters.buyerId }),
+    ...(filters.farmerId && { farmerId: filters.farmerId }),
+    ...scope,
+  };
+
+  const [disputes, total] = await Promise.all([
+    prisma.dispute.findMany({
+      where,
+      include: disputeInclude,
+      orderBy: { createdAt: 'desc' },
+      take: filters.limit,
+      skip: filters.offset,
+    }),
+    prisma.dispute.count({ where }),
+  ]);
+
+  return { disputes, total };
+}
+
+/**
+ * Add evidence to an unresolved dispute (either party or an admin).
+ */
+export async function addDisputeEvidence(
+  disputeId: string,
+  actor: DisputeActor,
+  files: Express.Multer.File[],
+  note?: string
+) {
+  const dispute = await getDisputeById(disputeId, actor);
+  if (!ACTIVE_STATUSES.includes(dispute.status)) {
+    throw createError('Dispute is already resolved', 400, 'DISPUTE_RESOLVED');
+  }
+  if (files.length === 0) {
+    throw createError('At least one evidence file is required', 400, 'VALIDATION_ERROR');
+  }
+
+  const evidence = await uploadEvidence(dispute.orderId, files);
+  await prisma.disputeEvidence.createMany({
+    data: evidence.map((file) => ({
+      ...file,
+      disputeId,
+      uploadedBy: actor.userId,
+      uploadedByRole: actor.role,
+      note: note?.trim() || null,
+    })),
+  });
+
+  return prisma.disputeEvidence.findMany({
+    where: { disputeId },
+    orderBy: { createdAt: 'asc' },
+  });
+}
+
+/**
+ * Admin takes an OPEN dispute under review.
+ */
+export async function startDisputeReview(disputeId: string, adminId: string) {
+  const { count } = await prisma.dispute.updateMany({
+    where: { id: disputeId, status: DisputeStatus.OPEN },
+    data: { status: DisputeStatus.UNDER_REVIEW, reviewedBy: adminId, reviewStartedAt: new Date() },
+  });
+  if (count === 0) {
+    const exists = await prisma.dispute.findUnique({ where: { id: disputeId }, select: { status: true } });
+    if (!exists) throw createError('Dispute not found', 404, 'DISPUTE_NOT_FOUND');
+    throw createError(`Only OPEN disputes can be taken under review. Current status: ${exists.status}`, 400, 'INVALID_DISPUTE_STATUS');
+  }
+
+  return prisma.dispute.findUniqueOrThrow({ where: { id: disputeId }, include: disputeInclude });
+}
+
+/**
+ * Admin resolves a dispute for the buyer or the farmer. For delivery disputes the confirmation can
+ * be corrected (delivered, quantityDelivered, qualityResult); any change is recorded in
+ * `adjustments` and the farmer's performance score is recalculated. A delivery flipped to FAILED
+ * releases its stock reservation; one flipped back to DELIVERED re-reserves it (rejected if the farmer's
+ * availability no longer covers it). An invoice already issued for the order is re-priced for the
+ * adjusted delivery. Both parties are notified.
+ */
+export async function resolveDispute(disputeId: string, adminId: string, data: ResolveDisputeInput) {
+  const dispute = await prisma.dispute.findUnique({
+    where: { id: disputeId },
+    include: { deliveryAssignment: true },
+  });
+  if (!dispute) {
+    throw createError('Dispute not found', 404, 'DISPUTE_NOT_FOUND');
+  }
+  if (!ACTIVE_STATUSES.includes(dispute.status)) {
+    throw createError('Dispute is already resolved', 400, 'DISPUTE_RESOLVED');
+  }
+
+  const wantsAdjustment =
+    data.delivered !== undefined || data.quantityDelivered !== undefined || data.qualityResult !== undefined;
+  const assignment = dispute.deliveryAssignment;
+  if (wantsAdjustment && !assignment) {
+    throw createError('Delivery adjustments only apply to delivery disputes', 400, 'ADJUSTMENT_NOT_APPLICABLE');
+  }
+
+  const adjustments: Record<string, { from: unknown; to: unknown }> = {};
+  const assignmentUpdate: Prisma.DeliveryAssignmentUpdateInput = {};
+  if (assignment && wantsAdjustment) {
+    const delivered = data.delivered ?? assignment.status === AssignmentStatus.DELIVERED;
+    const status = delivered ? AssignmentStatus.DELIVERED : AssignmentStatus.FAILED;
+    let quantityDelivered: number | null;
+    let qualityResult: QualityResult | null;
+    if (delivered) {
+      quantityDelivered = data.quantityDelivered ?? assignment.quantityDelivered ?? assignment.assignedQuantity;
+      qualityResult = data.qualityResult !== undefined ? data.qualityResult : assignment.qualityResult;
+    } else {
+      if (data.quantityDelivered !== undefined || (data.qualityResult !== undefined && data.qualityResult !== null)) {
+        throw createError('A failed delivery has no quantity or quality result', 400, 'INVALID_ADJUSTMENT');
+      }
+      quantityDelivered = null;
+      qualityResult = null;
+    }
+    if (quantityDelivered !== null && quantityDelivered > assignment.assignedQuantity) {
+      throw createError(
+        `Quantity delivered (${quantityDelivered}) cannot exceed assigned quantity (${assignment.assignedQuantity})`,
+        400,
+        'INVALID_QUANTITY'
+      );
+    }
+
+    const changes = { status, quantityDelivered, qualityResult };
+    for (const [field, to] of Object.entries(changes)) {
+      const from = assignment[field as keyof typeof changes];
+      if (from !== to) {
+        adjustments[field] = { from, to };
+        Object.assign(assignmentUpdate, { [field]: to });
+      }
+    }
+  }
+
+  const status = data.outcome === 'BUYER' ? DisputeStatus.RESOLVED_FOR_BUYER : DisputeStatus.RESOLVED_FOR_FARMER;
+  const hasAdjustments = Object.keys(adjustments).length > 0;
+
+  const resolved = await prisma.$transaction(async (tx) => {
+    if (assignment && hasAdjustments) {
+      if (adjustments.status && assignmentUpdate.status === AssignmentStatus.FAILED) {
+        await releaseReservation(tx, assignment.id, 'FAILED');
+      } else if (adjustments.status && assignment.status === AssignmentStatus.FAILED) {
+        await reinstateReservation(tx, assignment.id);
+      }
+      await tx.deliveryAssignment.update({
+        where: { id: assignment.id },
+        data: assignmentUpdate,
+      });
+      await repriceInvoiceLineForAssignment(tx, assignment.id);
+    }
+    return tx.dispute.update({
+      where: { id: disputeId },
+      data: {
+        status,
+        resolvedBy: adminId,
+        resolvedAt: new Date(),
+        resolutionNotes: data.notes.trim(),
+        adjustments: hasAdjustments ? (adjustments as Prisma.InputJsonObject) : Prisma.JsonNull,
+      },
+      include: disputeInclude,
+    });
+  });
+
+  const { buyerUserId, farmerUserId } = await getPartyUserIds(dispute);
+
+  if (assignment && hasAdjustments) {
+    await reconcileInvoiceForOrder(dispute.orderId);
+    await refreshAcknowledgementDiscrepancies(assignment.id).catch((err) =>
+      console.error('[Delivery acknowledgement] Discrepancy check failed:', err)
+    );
+
+    let tierChanged = false;
+    try {
+      const { previousTier, newTier } = await updatePerformanceScore(
+        dispute.farmerId,
+        `Dispute resolved for ${data.outcome.toLowerCase()}: ${Object.keys(adjustments).join(', ')} adjusted`,
+        assignment.id,
+        adminId
+      );
+      tierChanged = previousTier !== newTier;
+    } catch (error) {
+      console.error('Error updating performance score:', error);
+    }
+
+    if (tierChanged && farmerUserId) {
+      await notifyUserTemplate(farmerUserId, 'TIER_CHANGED', {}, { farmerId: dispute.farmerId }).catch((err) =>
+        console.error('[Notification]', err)
+      );
+    }
+  }
+
+  const outcome = data.outcome === 'BUYER' ? 'in favour of the buyer' : 'in favour of the farmer';
+  for (const userId of [buyerUserId, farmerUserId]) {
+    if (!userId) continue;
+    await notifyUserTemplate(
+      userId,
+      'DISPUTE_RESOLVED',
+      { outcome, notes: data.notes.trim() },
+      { disputeId, orderId: dispute.orderId },
+      { sendEmail: true }
+    ).catch((err) => console.error('[Dispute] Notify failed:', err));
+  }
+
+  return resolved;
+}
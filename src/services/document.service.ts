@@ -0,0 +1,457 @@
+import { prisma } from '../config/database.js';
+import { createError } from '../middleware/errorHandler.js';
+import { UserRole } from '@prisma/client';
+import { renderPdf, formatDate, formatMoney } from '../templates/pdfTemplate.js';
+import { getAssignmentUnitPrice } from './pricing.service.js';
+import { assignmentProductType } from './orderLine.service.js';
+import { getBuyerInvoiceById, getInvoiceByIdForAdmin } from './invoice.service.js';
+
+/** Who is downloading the document; used for ownership checks */
+export interface DocumentViewer {
+  userId: string;
+  role: UserRole;
+}
+
+export interface RenderedDocument {
+  filename: string;
+  buffer: Buffer;
+}
+
+function notFound(label: string, code: string): never {
+  throw createError(`${label} not found`, 404, code);
+}
+
+async function getViewerBuyerId(viewer: DocumentViewer): Promise<string | null> {
+  if (viewer.role !== UserRole.BUYER) return null;
+  const buyer = await prisma.buyer.findUnique({ where: { userId: viewer.userId }, select: { id: true } });
+  if (!buyer) notFound('Buyer', 'BUYER_NOT_FOUND');
+  return buyer.id;
+}
+
+async function getViewerFarmerId(viewer: DocumentViewer): Promise<string | null> {
+  if (viewer.role !== UserRole.FARMER) return null;
+  const farmer = await prisma.farmer.findUnique({ where: { userId: viewer.userId }, select: { id: true } });
+  if (!farmer) notFound('Farmer', 'FARMER_NOT_FOUND');
+  return farmer.id;
+}
+
+function shortId(id: string): string {
+  return id.slice(-8).toUpperCase();
+}
+
+/**
+ * Invoice PDF. Buyers may only download their own invoices; admins any.
+ */
+export async function renderInvoicePdf(invoiceId: string, viewer: DocumentViewer): Promise<RenderedDocument> {
+  const invoice =
+    viewer.role === UserRole.ADMIN
+      ? await getInvoiceByIdForAdmin(invoiceId)
+      : await getBuyerInvoiceById(invoiceId, viewer.userId);
+
+  const buyer = await prisma.buyer.findUnique({
+    where: { id: invoice.buyerId },
+    include: { user: { select: { email: true, phone: true } } },
+  });
+
+  const products = [
+    ...new Set(
+      invoice.lineItems.map((line) => line.deliveryAssignment.orderLine?.productType ?? invoice.order.productType)
+    ),
+  ];
+
+  const buffer = await renderPdf({
+    title: 'Invoice',
+    reference: invoice.invoiceNumber,
+    issuedAt: invoice.issuedAt,
+    sections: [
+      {
+        heading: 'Billed to',
+        rows: [
+          ['Buyer', buyer?.businessName || buyer?.fullName || '-'],
+          ['Contact', buyer?.contactPerson ?? '-'],
+          ['Email', buyer?.user.email ?? '-'],
+          ['Phone', buyer?.user.phone ?? '-'],
+        ],
+      },
+      {
+        heading: 'Invoice details',
+        rows: [
+          ['Order', shortId(invoice.order.id)],
+          [products.length > 1 ? 'Products' : 'Product', products.join(', ') || invoice.order.productType],
+          ['Due date', formatDate(invoice.dueDate)],
+          ['Status', invoice.status],
+        ],
+      },
+    ],
+    table: {
+      columns: [
+        { header: 'Description', width: 0.4 },
+        { header: 'Unit price', width: 0.15, align: 'right' },
+        { header: 'Gross', width: 0.15, align: 'right' },
+        { header: 'Deduction', width: 0.15, align: 'right' },
+        { header: 'Net', width: 0.15, align: 'right' },
+      ],
+      rows: invoice.lineItems.map((line) => [
+        line.qualityResult ? `${line.description} (${line.qualityResult})` : line.description,
+        formatMoney(line.unitPrice),
+        formatMoney(line.grossAmount),
+        formatMoney(line.deductionAmount),
+        formatMoney(line.netAmount),
+      ]),
+    },
+    totals: [
+      ['Subtotal', formatMoney(invoice.subtotal)],
+      ['Quality deductions', formatMoney(invoice.totalDeductions)],
+      ['Total', formatMoney(invoice.totalAmount)],
+      ['Paid', formatMoney(invoice.amountPaid)],
+      ['Balance due', formatMoney(invoice.outstandingBalance)],
+    ],
+    note: `Payment is due by ${formatDate(invoice.dueDate)}. Please quote ${invoice.invoiceNumber} with your payment.`,
+  });
+
+  return { filename: `${invoice.invoiceNumber}.pdf`, buffer };
+}
+
+/**
+ * Receipt for a farmer payment (Payment). Farmers may only download their own; admins any.
+ */
+export async function renderPaymentReceiptPdf(paymentId: string, viewer: DocumentViewer): Promise<RenderedDocument> {
+  const farmerId = await getViewerFarmerId(viewer);
+  if (viewer.role === UserRole.BUYER) notFound('Payment', 'PAYMENT_NOT_FOUND');
+
+  const payment = await prisma.payment.findFirst({
+    where: { id: paymentId, ...(farmerId && { farmerId }) },
+    include: {
+      farmer: { select: { fullName: true, farmName: true, region: true, town: true } },
+      assignment: {
+        select: {
+          id: true,
+          deliveryDate: true,
+          quantityDelivered: true,
+          order: { select: { productType: true } },
+          orderLine: { select: { productType: true } },
+        },
+      },
+    },
+  });
+
+  if (!payment) notFound('Payment', 'PAYMENT_NOT_FOUND');
+
+  const buffer = await renderPdf({
+    title: 'Payment receipt',
+    reference: `RCPT-${shortId(payment.id)}`,
+    issuedAt: payment.paymentDate ?? payment.createdAt,
+    sections: [
+      {
+        heading: 'Paid to',
+        rows: [
+          ['Farmer', payment.farmer.fullName],
+          ['Farm', payment.farmer.farmName ?? '-'],
+          ['Location', `${payment.farmer.town}, ${payment.farmer.region}`],
+        ],
+      },
+      {
+        heading: 'Payment details',
+        rows: [
+          ['Status', payment.paymentStatus],
+          ['Method', payment.paymentMethod ?? '-'],
+          ['Payment date', payment.paymentDate ? formatDate(payment.paymentDate) : '-'],
+          [
+            'Delivery',
+            payment.assignment
+              ? `${assignmentProductType(payment.assignment)} delivered ${formatDate(payment.assignment.deliveryDate)}`
+              : '-',
+          ],
+          ['Notes', payment.notes ?? '-'],
+        ],
+      },
+    ],
+    totals: [
+      ['Amount owed', formatMoney(payment.amountOwed)],
+      ['Amount paid', formatMoney(payment.amountPaid)],
+    ],
+  });
+
+  return { filename: `receipt-${shortId(payment.id)}.pdf`, buffer };
+}
+
+/**
+ * Receipt for a buyer-to-supplier payment (BuyerOrderPayment).
+ * Buyers see payments on their orders, farmers payments made to them, admins all.
+ */
+export async function renderBuyerPaymentReceiptPdf(
+  paymentId: string,
+  viewer: DocumentViewer
+): Promise<RenderedDocument> {
+  const buyerId = await getViewerBuyerId(viewer);
+  const farmerId = await getViewerFarmerId(viewer);
+
+  const payment = await prisma.buyerOrderPayment.findFirst({
+    where: {
+      id: paymentId,
+      ...(buyerId && { order: { buyerId } }),
+      ...(farmerId && { farmerId }),
+    },
+    include: {
+      order: {
+        select: {
+          id: true,
+          productType: true,
+          buyer: { select: { fullName: true, businessName: true } },
+        },
+      },
+      farmer: { select: { fullName: true, farmName: true } },
+      deliveryAssignment: {
+        select: {
+          deliveryDate: true,
+          quantityDelivered: true,
+          orderLine: { select: { productType: true } },
+        },
+      },
+    },
+  });
+
+  if (!payment) notFound('Payment', 'PAYMENT_NOT_FOUND');
+
+  const buffer = await renderPdf({
+    title: 'Payment receipt',
+    reference: `RCPT-${shortId(payment.id)}`,
+    issuedAt: payment.paymentDate,
+    sections: [
+      {
+        heading: 'Parties',
+        rows: [
+          ['Paid by', payment.order.buyer.businessName || payment.order.buyer.fullName],
+          ['Paid to', payment.farmer ? payment.farmer.farmName || payment.farmer.fullName : '-'],
+        ],
+      },
+      {
+        heading: 'Payment details',
+        rows: [
+          [
+            'Order',
+            `${shortId(payment.order.id)} (${payment.deliveryAssignment?.orderLine?.productType ?? payment.order.productType})`,
+          ],
+          [
+            'Delivery',
+            payment.deliveryAssignment ? formatDate(payment.deliveryAssignment.deliveryDate) : '-',
+          ],
+          ['Method', payment.paymentMethod],
+          ['Payment date', formatDate(payment.paymentDate)],
+          ['Confirmed by admin', payment.adminConfirmedAt ? formatDate(payment.adminConfirmedAt) : 'Pending'],
+          [
+            'Confirmed by supplier',
+            payment.supplierConfirmedAt ? formatDate(payment.supplierConfirmedAt) : 'Pending',
+          ],
+          ['Notes', payment.notes ?? '-'],
+        ],
+      },
+    ],
+    totals: [['Amount paid', formatMoney(payment.amountPaid)]],
+  });
+
+  return { filename: `receipt-${shortId(payment.id)}.pdf`, buffer };
+}
+
+/**
+ * Delivery note for a single DeliveryAssignment.
+ * Farmers see their own assignments, buyers assignments on their orders, admins all.
+ */
+export async function renderDeliveryNotePdf(
+  assignmentId: string,
+  viewer: DocumentViewer
+): Promise<RenderedDocument> {
+  const buyerId = await getViewerBuyerId(viewer);
+  const farmerId = await getViewerFarmerId(viewer);
+
+  const assignment = await prisma.deliveryAssignment.findFirst({
+    where: {
+      id: assignmentId,
+      ...(buyerId && { order: { buyerId } }),
+      ...(farmerId && { farmerId }),
+    },
+    include: {
+      order: {
+        select: {
+          id: true,
+          productType: true,
+          buyer: { select: { fullName: true, businessName: true, contactPerson: true } },
+        },
+      },
+      orderLine: { select: { productType: true } },
+      farmer: {
+        select: {
+          fullName: true,
+          farmName: true,
+          town: true,
+          region: true,
+          user: { select: { phone: true } },
+        },
+      },
+      deliveryAddress: true,
+    },
+  });
+
+  if (!assignment) notFound('Delivery assignment', 'ASSIGNMENT_NOT_FOUND');
+
+  const buffer = await renderPdf({
+    title: 'Delivery note',
+    reference: `DN-${shortId(assignment.id)}`,
+    issuedAt: new Date(),
+    sections: [
+      {
+        heading: 'Supplier',
+        rows: [
+          ['Farmer', assignment.farmer.fullName],
+          ['Farm', assignment.farmer.farmName ?? '-'],
+          ['Location', `${assignment.farmer.town}, ${assignment.farmer.region}`],
+          ['Phone', assignment.farmer.user.phone],
+        ],
+      },
+      {
+        heading: 'Deliver to',
+        rows: [
+          ['Buyer', assignment.order.buyer.businessName || assignment.order.buyer.fullName],
+          ['Contact', assignment.order.buyer.contactPerson],
+          ['Address', assignment.deliveryAddress.address],
+          ['Landmark', assignment.deliveryAddress.landmark ?? '-'],
+          ['Region', assignment.deliveryAddress.region ?? '-'],
+        ],
+      },
+      {
+        heading: 'Delivery',
+        rows: [
+          ['Order', shortId(assignment.order.id)],
+          ['Delivery date', formatDate(assignment.deliveryDate)],
+          ['Time window', assignment.estimatedTimeWindow ?? 'To be confirmed'],
+          ['Status', assignment.status],
+        ],
+      },
+    ],
+    table: {
+      columns: [
+        { header: 'Product', width: 0.4 },
+        { header: 'Assigned', width: 0.2, align: 'right' },
+        { header: 'Delivered', width: 0.2, align: 'right' },
+        { header: 'Quality', width: 0.2, align: 'right' },
+      ],
+      rows: [
+        [
+          assignmentProductType(assignment),
+          String(assignment.assignedQuantity),
+          assignment.quantityDelivered != null ? String(assignment.quantityDelivered) : '-',
+          assignment.qualityResult ?? '-',
+        ],
+      ],
+    },
+    note: 'Receiver signature: ______________________    Date: ____________',
+  });
+
+  return { filename: `delivery-note-${shortId(assignment.id)}.pdf`, buffer };
+}
+
+/**
+ * Order summary for an Order: order details plus all delivery assignments with values.
+ * Buyers may only download their own orders; admins any.
+ */
+export async function renderOrderSummaryPdf(orderId: string, viewer: DocumentViewer): Promise<RenderedDocument> {
+  const buyerId = await getViewerBuyerId(viewer);
+  if (viewer.role === UserRole.FARMER) notFound('Order', 'ORDER_NOT_FOUND');
+
+  const order = await prisma.order.findFirst({
+    where: { id: orderId, ...(buyerId && { buyerId }) },
+    include: {
+      buyer: { select: { fullName: true, businessName: true, contactPerson: true } },
+      deliveryAddress: true,
+      lines: { orderBy: { createdAt: 'asc' } },
+      assignments: {
+        include: {
+          farmer: { select: { fullName: true, farmName: true } },
+          orderLine: { select: { productType: true } },
+        },
+        orderBy: { deliveryDate: 'asc' },
+      },
+      buyerOrderPayments: { select: { amountPaid: true } },
+    },
+  });
+
+  if (!order) notFound('Order', 'ORDER_NOT_FOUND');
+
+  const rows: string[][] = [];
+  let totalValue = 0;
+  let unpriced = 0;
+  for (const assignment of order.assignments) {
+    const unitPrice = await getAssignmentUnitPrice({
+      ...assignment,
+      order: { productType: order.productType },
+    });
+    const value = unitPrice != null ? (assignment.quantityDelivered ?? 0) * unitPrice : null;
+    if (value == null) unpriced++;
+    else totalValue += value;
+    rows.push([
+      assignment.farmer.farmName || assignment.farmer.fullName,
+      assignmentProductType({ ...assignment, order }),
+      formatDate(assignment.deliveryDate),
+      String(assignment.assignedQuantity),
+      assignment.quantityDelivered != null ? String(assignment.quantityDelivered) : '-',
+      assignment.status,
+      value != null ? formatMoney(value) : 'No price',
+    ]);
+  }
+  const totalPaid = order.buyerOrderPayments.reduce((sum, p) => sum + p.amountPaid, 0);
+
+  const buffer = await renderPdf({
+    title: 'Order summary',
+    reference: `ORD-${shortId(order.id)}`,
+    issuedAt: new Date(),
+    sections: [
+      {
+        heading: 'Buyer',
+        rows: [
+          ['Buyer', order.buyer.businessName || order.buyer.fullName],
+          ['Contact', order.buyer.contactPerson],
+          ['Address', order.deliveryAddress.address],
+          ['Landmark', order.deliveryAddress.landmark ?? '-'],
+        ],
+      },
+      {
+        heading: 'Order',
+        rows: [
+          [
+            order.lines.length > 1 ? 'Products' : 'Product',
+            order.lines.length > 0
+              ? order.lines.map((l) => `${l.productType} × ${l.quantity}`).join(', ')
+              : order.productType,
+          ],
+          ['Quantity', String(order.quantity)],
+          ['Order type', order.orderType],
+          ['Delivery date', formatDate(order.deliveryDate)],
+          ['Status', order.status],
+          ['Placed', formatDate(order.createdAt)],
+          ['Notes', order.notes ?? '-'],
+        ],
+      },
+    ],
+    ...(rows.length > 0 && {
+      table: {
+        columns: [
+          { header: 'Supplier', width: 0.2 },
+          { header: 'Product', width: 0.18 },
+          { header: 'Date', width: 0.14 },
+          { header: 'Assigned', width: 0.1, align: 'right' as const },
+          { header: 'Delivered', width: 0.1, align: 'right' as const },
+          { header: 'Status', width: 0.12 },
+          { header: 'Value', width: 0.16, align: 'right' as const },
+        ],
+        rows,
+      },
+    }),
+    totals: [
+      ['Delivered value', formatMoney(totalValue)],
+      ...(unpriced > 0 ? [['Not valued (no price)', `${unpriced} assignment(s)`] as [string, string]] : []),
+      ['Paid to suppliers', formatMoney(totalPaid)],
+    ],
+  });
+
+  return { filename: `order-${shortId(order.id)}.pdf`, buffer };
+}
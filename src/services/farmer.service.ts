@@ -7,7 +7,10 @@ import {
   isLateMonthlySubmission,
 } from '../utils/monthCalculation.js';
 import { createError } from '../middleware/errorHandler.js';
-import { notifyUser } from './notificationDelivery.service.js';
+import { notifyUserTemplate } from './notificationDelivery.service.js';
+import { releaseReservation, getCommittedForAvailabilityRow } from './availabilityLedger.service.js';
+import { refreshAcknowledgementDiscrepancies } from './deliveryAcknowledgement.service.js';
+import { assignmentProductType } from './orderLine.service.js';
 
 export interface SubmitAvailabilityData {
   productType: string;
@@ -139,11 +142,10 @@ export async function submitWeeklyAvailability(
       select: { userId: true },
     });
     if (farmer?.userId) {
-      await notifyUser(
+      await notifyUserTemplate(
         farmer.userId,
         'LATE_AVAILABILITY_WARNING',
-        'Late availability submission',
-        'Your availability was submitted after the Monday–Tuesday window. Late submissions may affect your performance score.',
+        {},
         { availabilityId: availability.id, weekStartDate: weekStartDate.toISOString() }
       ).catch((err) => console.error('[Notification]', err));
     }
@@ -307,11 +309,10 @@ export async function submitMonthlyAvailability(
       select: { userId: true },
     });
     if (farmer?.userId) {
-      await notifyUser(
+      await notifyUserTemplate(
         farmer.userId,
-        'LATE_AVAILABILITY_WARNING',
-        'Late monthly availability submission',
-        'Your monthly availability was submitted after the submission window. Late submissions may affect your performance score.',
+        'LATE_AVAILABILITY_WARNING.monthly',
+        {},
         { availabilityId: availability.id, monthStartDate: monthStartDate.toISOString() }
       ).catch((err) => console.error('[Notification]', err));
     }
@@ -387,6 +388,14 @@ export async function updateMonthlyAvailability(
         'INVALID_QUANTITY'
       );
     }
+    const committed = await getCommittedForAvailabilityRow('monthly', availabilityId);
+    if (data.quantityAvailable < committed) {
+      throw createError(
+        `Quantity available cannot be lower than the ${committed} units already allocated to deliveries`,
+        400,
+        'BELOW_COMMITTED'
+      );
+    }
     updateData.quantityAvailable = data.quantityAvailable;
   }
 
@@ -487,6 +496,15 @@ export async function deleteMonthlyAvailability(
     );
   }
 
+  const committed = await getCommittedForAvailabilityRow('monthly', availabilityId);
+  if (committed > 0) {
+    throw createError(
+      `This availability has ${committed} units allocated to deliveries and cannot be deleted`,
+      400,
+      'AVAILABILITY_RESERVED'
+    );
+  }
+
   await prisma.monthlyAvailability.delete({
     where: { id: availabilityId },
   });
@@ -541,6 +559,14 @@ export async function updateWeeklyAvailability(
         'INVALID_QUANTITY'
       );
     }
+    const committed = await getCommittedForAvailabilityRow('weekly', availabilityId);
+    if (data.quantityAvailable < committed) {
+      throw createError(
+        `Quantity available cannot be lower than the ${committed} units already allocated to deliveries`,
+        400,
+        'BELOW_COMMITTED'
+      );
+    }
     updateData.quantityAvailable = data.quantityAvailable;
   }
 
@@ -643,6 +669,15 @@ export async function deleteWeeklyAvailability(
     );
   }
 
+  const committed = await getCommittedForAvailabilityRow('weekly', availabilityId);
+  if (committed > 0) {
+    throw createError(
+      `This availability has ${committed} units allocated to deliveries and cannot be deleted`,
+      400,
+      'AVAILABILITY_RESERVED'
+    );
+  }
+
   await prisma.weeklyAvailability.delete({
     where: { id: availabilityId },
   });
@@ -711,6 +746,7 @@ export async function getDeliveryAssignments(
           },
         },
       },
+      orderLine: true,
       deliveryAddress: true,
     },
     orderBy: {
@@ -728,8 +764,9 @@ export async function getDeliveryAssignments(
     estimatedTimeWindow: assignment.estimatedTimeWindow,
     quantityDelivered: assignment.quantityDelivered,
     confirmationNotes: assignment.confirmationNotes,
-    orderProductType: assignment.order.productType,
-    orderQuantity: assignment.order.quantity,
+    orderLineId: assignment.orderLineId,
+    orderProductType: assignmentProductType(assignment),
+    orderQuantity: assignment.orderLine?.quantity ?? assignment.order.quantity,
     orderType: assignment.order.orderType,
     orderNotes: assignment.order.notes,
     deliveryAddressDetails: {
@@ -773,6 +810,7 @@ export async function getAssignmentById(
           },
         },
       },
+      orderLine: true,
       deliveryAddress: true,
     },
   });
@@ -795,8 +833,9 @@ export async function getAssignmentById(
     estimatedTimeWindow: assignment.estimatedTimeWindow,
     quantityDelivered: assignment.quantityDelivered,
     confirmationNotes: assignment.confirmationNotes,
-    orderProductType: assignment.order.productType,
-    orderQuantity: assignment.order.quantity,
+    orderLineId: assignment.orderLineId,
+    orderProductType: assignmentProductType(assignment),
+    orderQuantity: assignment.orderLine?.quantity ?? assignment.order.quantity,
     orderType: assignment.order.orderType,
     orderNotes: assignment.order.notes,
     deliveryAddressDetails: {
@@ -878,15 +917,20 @@ export async function cancelDeliveryAssignment(assignmentId: string, farmerId: s
     );
   }
 
-  return prisma.deliveryAssignment.update({
-    where: { id: assignmentId },
-    data: { status: 'CANCELLED' },
+  // Cancelling returns the reserved units to remaining stock
+  return prisma.$transaction(async (tx) => {
+    await releaseReservation(tx, assignmentId, 'CANCELLED');
+    return tx.deliveryAssignment.update({
+      where: { id: assignmentId },
+      data: { status: 'CANCELLED' },
+    });
   });
 }
 
 /**
  * Submit delivery confirmation (quantity delivered + notes).
- * Farmer submits for admin to confirm; status stays PENDING.
+ * Farmer submits for admin to confirm; status stays PENDING. The quantity is also kept as
+ * farmerReportedQuantity, which admin confirmation does not overwrite.
  * Only PENDING assignments; only the assigned farmer.
  */
 export async function submitDeliveryConfirmation(
@@ -922,12 +966,20 @@ export async function submitDeliveryConfirmation(
     );
   }
 
-  return prisma.deliveryAssignment.update({
+  const updated = await prisma.deliveryAssignment.update({
     where: { id: assignmentId },
     data: {
       quantityDelivered,
+      farmerReportedQuantity: quantityDelivered,
       confirmationNotes: notes === '' || notes === undefined ? null : String(notes).trim(),
     },
   });
+
+  // The buyer may already have acknowledged the delivery
+  await refreshAcknowledgementDiscrepancies(assignmentId).catch((err) =>
+    console.error('[Delivery acknowledgement] Discrepancy check failed:', err)
+  );
+
+  return updated;
 }
 
@@ -0,0 +1,144 @@
+import { prisma } from '../config/database.js';
+import { createError } from '../middleware/errorHandler.js';
+import { Prisma, PublicHoliday } from '@prisma/client';
+import { toUtcDay, formatUtcDay } from '../utils/recurrence.js';
+
+export interface CreateHolidayData {
+  date: Date;
+  name: string;
+  recurring?: boolean;
+}
+
+export interface UpdateHolidayData {
+  date?: Date;
+  name?: string;
+  recurring?: boolean;
+}
+
+/**
+ * Holiday lookup for standing order generation: holiday name on a UTC day, or null.
+ */
+export interface HolidayCalendar {
+  holidayOn(date: Date): string | null;
+}
+
+function monthDay(date: Date): string {
+  return formatUtcDay(date).slice(5);
+}
+
+/**
+ * Load the whole calendar once (a few dozen rows) for repeated lookups.
+ */
+export async function loadHolidayCalendar(): Promise<HolidayCalendar> {
+  const holidays = await prisma.publicHoliday.findMany();
+  const byDay = new Map<string, string>();
+  const byMonthDay = new Map<string, string>();
+  for (const holiday of holidays) {
+    if (holiday.recurring) {
+      byMonthDay.set(monthDay(holiday.date), holiday.name);
+    } else {
+      byDay.set(formatUtcDay(holiday.date), holiday.name);
+    }
+  }
+
+  return {
+    holidayOn(date: Date) {
+      return byDay.get(formatUtcDay(date)) ?? byMonthDay.get(monthDay(date)) ?? null;
+    },
+  };
+}
+
+/**
+ * List holidays by date. With a year: that year's one-off holidays plus all recurring ones.
+ */
+export async function listHolidays(filters: { year?: number } = {}) {
+  const where: Prisma.PublicHolidayWhereInput = filters.year
+    ? {
+        OR: [
+          { recurring: true },
+          {
+            date: {
+              gte: new Date(Date.UTC(filters.year, 0, 1)),
+              lt: new Date(Date.UTC(filters.year + 1, 0, 1)),
+            },
+          },
+        ],
+      }
+    : {};
+
+  const holidays = await prisma.publicHoliday.findMany({ where, orderBy: { date: 'asc' } });
+  if (!filters.year) return holidays;
+
+  // Recurring holidays are reported on their date in the requested year
+  const year = filters.year;
+  return holidays
+    .map((h): PublicHoliday =>
+      h.recurring
+        ? { ...h, date: new Date(Date.UTC(year, h.date.getUTCMonth(), h.date.getUTCDate())) }
+        : h
+    )
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+function isDuplicate(error: unknown) {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+}
+
+/**
+ * Add a holiday (admin). Orders already generated for that day are not changed.
+ */
+export async function createHoliday(adminId: string, data: CreateHolidayData) {
+  try {
+    return await prisma.publicHoliday.create({
+      data: {
+        date: toUtcDay(data.date),
+        name: data.name.trim(),
+        recurring: data.recurring ?? false,
+        createdBy: adminId,
+      },
+    });
+  } catch (error) {
+    if (isDuplicate(error)) {
+      throw createError('This holiday is already in the calendar', 409, 'DUPLICATE_HOLIDAY');
+    }
+    throw error;
+  }
+}
+
+/**
+ * Update a holiday (admin)
+ */
+export async function updateHoliday(id: string, data: UpdateHolidayData) {
+  const holiday = await prisma.publicHoliday.findUnique({ where: { id } });
+  if (!holiday) {
+    throw createError('Holiday not found', 404, 'HOLIDAY_NOT_FOUND');
+  }
+
+  try {
+    return await prisma.publicHoliday.update({
+      where: { id },
+      data: {
+        ...(data.date !== undefined && { date: toUtcDay(data.date) }),
+        ...(data.name !== undefined && { name: data.name.trim() }),
+        ...(data.recurring !== undefined && { recurring: data.recurring }),
+      },
+    });
+  } catch (error) {
+    if (isDuplicate(error)) {
+      throw createError('This holiday is already in the calendar', 409, 'DUPLICATE_HOLIDAY');
+    }
+    throw error;
+  }
+}
+
+/**
+ * Remove a holiday (admin)
+ */
+export async function deleteHoliday(id: string) {
+  const holiday = await prisma.publicHoliday.findUnique({ where: { id } });
+  if (!holiday) {
+    throw createError('Holiday not found', 404, 'HOLIDAY_NOT_FOUND');
+  }
+  await prisma.publicHoliday.delete({ where: { id } });
+  return holiday;
+}
@@ -0,0 +1,415 @@
+import { prisma } from '../config/database.js';
+import { createError } from '../middleware/errorHandler.js';
+import { AssignmentStatus, InvoiceStatus, OrderStatus, Prisma, QualityResult } from '@prisma/client';
+import { calculateAssignmentAmount } from './pricing.service.js';
+import { assignmentProductType, describeOrderLines } from './orderLine.service.js';
+import { notifyAdminsTemplate, notifyUserTemplate } from './notificationDelivery.service.js';
+
+/** Days between invoice issue and due date */
+const PAYMENT_TERMS_DAYS = 14;
+
+/** Share of the line amount deducted for each quality result */
+const QUALITY_DEDUCTION_RATES: Record<QualityResult, number> = {
+  PASS: 0,
+  PARTIAL: 0.25,
+  FAIL: 1,
+};
+
+const invoiceInclude = {
+  lineItems: {
+    include: {
+      deliveryAssignment: {
+        select: {
+          id: true,
+          farmerId: true,
+          deliveryDate: true,
+          assignedQuantity: true,
+          quantityDelivered: true,
+          status: true,
+          orderLine: { select: { productType: true } },
+        },
+      },
+    },
+  },
+  order: {
+    select: {
+      id: true,
+      productType: true,
+      quantity: true,
+      deliveryDate: true,
+      status: true,
+    },
+  },
+} as const;
+
+function roundMoney(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function buildInvoiceNumber(orderId: string, issuedAt: Date): string {
+  const datePart = issuedAt.toISOString().slice(0, 10).replace(/-/g, '');
+  return `INV-${datePart}-${orderId.slice(-6).toUpperCase()}`;
+}
+
+type InvoicedAssignment = Prisma.DeliveryAssignmentGetPayload<{
+  include: { orderLine: { select: { productType: true } } };
+}>;
+
+/**
+ * Invoice line for a delivered assignment, or null when it has no agreed unit price.
+ */
+async function buildLineItem(assignment: InvoicedAssignment, order: { productType: string }) {
+  const productType = assignmentProductType({ ...assignment, order });
+  const { unitPrice, quantity, amount } = await calculateAssignmentAmount({
+    ...assignment,
+    order: { productType: order.productType },
+  });
+  if (unitPrice == null || amount == null) return null;
+
+  const deductionRate = assignment.qualityResult
+    ? QUALITY_DEDUCTION_RATES[assignment.qualityResult]
+    : 0;
+  const grossAmount = roundMoney(amount);
+  const deductionAmount = roundMoney(grossAmount * deductionRate);
+  return {
+    deliveryAssignmentId: assignment.id,
+    description: `${quantity} × ${productType} delivered ${assignment.deliveryDate.toISOString().slice(0, 10)}`,
+    quantity,
+    unitPrice,
+    grossAmount,
+    qualityResult: assignment.qualityResult,
+    deductionRate,
+    deductionAmount,
+    netAmount: roundMoney(grossAmount - deductionAmount),
+  };
+}
+
+async function notifyPriceMissing(orderId: string, assignmentIds: string[]) {
+  await notifyAdminsTemplate(
+    'INVOICE_PRICE_MISSING',
+    { orderReference: `ORD-${orderId.slice(-8).toUpperCase()}`, count: assignmentIds.length },
+    { orderId, assignmentIds },
+    { sendSms: false }
+  ).catch((err) => console.error('[Notification]', err));
+}
+
+/**
+ * Status from balance and due date
+ */
+function deriveInvoiceStatus(totalAmount: number, amountPaid: number, dueDate: Date): InvoiceStatus {
+  if (amountPaid >= totalAmount) return InvoiceStatus.PAID;
+  if (dueDate < new Date()) return InvoiceStatus.OVERDUE;
+  if (amountPaid > 0) return InvoiceStatus.PARTIALLY_PAID;
+  return InvoiceStatus.UNPAID;
+}
+
+/**
+ * Generate the invoice for a DELIVERED order (one line per delivered assignment).
+ * Idempotent: returns the existing invoice if one was already issued.
+ * Not issued (PRICE_MISSING, admins notified) while a delivered assignment has no agreed price.
+ */
+export async function generateInvoiceForOrder(orderId: string) {
+  const existing = await prisma.invoice.findUnique({
+    where: { orderId },
+    include: invoiceInclude,
+  });
+  if (existing) return existing;
+
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    include: {
+      assignments: {
+        where: { status: AssignmentStatus.DELIVERED },
+        include: { orderLine: { select: { productType: true } } },
+        orderBy: { createdAt: 'asc' },
+      },
+      lines: { select: { productType: true }, orderBy: { createdAt: 'asc' } },
+      buyer: { select: { userId: true } },
+    },
+  });
+
+  if (!order) {
+    throw createError('Order not found', 404, 'ORDER_NOT_FOUND');
+  }
+
+  if (order.status !== OrderStatus.DELIVERED) {
+    throw createError(
+      `Invoices can only be generated for delivered orders. Current status: ${order.status}`,
+      400,
+      'INVALID_ORDER_STATUS'
+    );
+  }
+
+  const lineItems = [];
+  const unpricedAssignmentIds: string[] = [];
+  for (const assignment of order.assignments) {
+    const lineItem = await buildLineItem(assignment, order);
+    if (lineItem) {
+      lineItems.push(lineItem);
+    } else {
+      unpricedAssignmentIds.push(assignment.id);
+    }
+  }
+
+  if (unpricedAssignmentIds.length > 0) {
+    await notifyPriceMissing(order.id, unpricedAssignmentIds);
+    throw createError(
+      `No agreed unit price for delivered assignment(s): ${unpricedAssignmentIds.join(', ')}`,
+      409,
+      'PRICE_MISSING'
+    );
+  }
+
+  const subtotal = roundMoney(lineItems.reduce((sum, l) => sum + l.grossAmount, 0));
+  const totalDeductions = roundMoney(lineItems.reduce((sum, l) => sum + l.deductionAmount, 0));
+  const totalAmount = roundMoney(subtotal - totalDeductions);
+
+  const paid = await prisma.buyerOrderPayment.aggregate({
+    where: { orderId },
+    _sum: { amountPaid: true },
+  });
+  const amountPaid = roundMoney(paid._sum.amountPaid ?? 0);
+
+  const issuedAt = new Date();
+  const dueDate = new Date(issuedAt);
+  dueDate.setDate(dueDate.getDate() + PAYMENT_TERMS_DAYS);
+
+  const invoice = await prisma.invoice.create({
+    data: {
+      invoiceNumber: buildInvoiceNumber(order.id, issuedAt),
+      orderId: order.id,
+      buyerId: order.buyerId,
+      subtotal,
+      totalDeductions,
+      totalAmount,
+      amountPaid,
+      outstandingBalance: roundMoney(Math.max(0, totalAmount - amountPaid)),
+      status: deriveInvoiceStatus(totalAmount, amountPaid, dueDate),
+      issuedAt,
+      dueDate,
+      lineItems: { create: lineItems },
+    },
+    include: invoiceInclude,
+  });
+
+  await notifyUserTemplate(
+    order.buyer.userId,
+    'INVOICE_ISSUED',
+    {
+      invoiceNumber: invoice.invoiceNumber,
+      productType: order.lines.length > 0 ? describeOrderLines(order.lines) : order.productType,
+      amount: invoice.outstandingBalance.toFixed(2),
+      dueDate,
+    },
+    { invoiceId: invoice.id, orderId: order.id }
+  ).catch((err) => console.error('[Notification]', err));
+
+  return invoice;
+}
+
+/**
+ * Re-price the invoice line of an assignment whose delivery was corrected (e.g. by a dispute
+ * resolution) and recompute the invoice totals. A DELIVERED assignment gets a fresh line; any
+ * other status loses its line. Runs in the caller's transaction; follow with
+ * reconcileInvoiceForOrder to refresh the balance and status. No-op if the order has no invoice.
+ */
+export async function repriceInvoiceLineForAssignment(tx: Prisma.TransactionClient, deliveryAssignmentId: string) {
+  const assignment = await tx.deliveryAssignment.findUniqueOrThrow({
+    where: { id: deliveryAssignmentId },
+    include: {
+      orderLine: { select: { productType: true } },
+      order: { select: { productType: true, invoice: { select: { id: true } } } },
+    },
+  });
+  const invoice = assignment.order.invoice;
+  if (!invoice) return null;
+
+  await tx.invoiceLineItem.deleteMany({
+    where: { invoiceId: invoice.id, deliveryAssignmentId },
+  });
+  if (assignment.status === AssignmentStatus.DELIVERED) {
+    const lineItem = await buildLineItem(assignment, assignment.order);
+    if (!lineItem) {
+      await notifyPriceMissing(assignment.orderId, [assignment.id]);
+      throw createError(
+        `No agreed unit price for delivered assignment: ${assignment.id}`,
+        409,
+        'PRICE_MISSING'
+      );
+    }
+    await tx.invoiceLineItem.create({ data: { ...lineItem, invoiceId: invoice.id } });
+  }
+
+  const lineItems = await tx.invoiceLineItem.findMany({
+    where: { invoiceId: invoice.id },
+    select: { grossAmount: true, deductionAmount: true },
+  });
+  const subtotal = roundMoney(lineItems.reduce((sum, l) => sum + l.grossAmount, 0));
+  const totalDeductions = roundMoney(lineItems.reduce((sum, l) => sum + l.deductionAmount, 0));
+
+  return tx.invoice.update({
+    where: { id: invoice.id },
+    data: {
+      subtotal,
+      totalDeductions,
+      totalAmount: roundMoney(subtotal - totalDeductions),
+    },
+  });
+}
+
+/**
+ * Recompute paid/outstanding balance and status of an order's invoice from BuyerOrderPayment.
+ * No-op if the order has no invoice yet.
+ */
+export async function reconcileInvoiceForOrder(orderId: string) {
+  const invoice = await prisma.invoice.findUnique({
+    where: { orderId },
+  });
+  if (!invoice) return null;
+
+  const paid = await prisma.buyerOrderPayment.aggregate({
+    where: { orderId },
+    _sum: { amountPaid: true },
+  });
+  const amountPaid = roundMoney(paid._sum.amountPaid ?? 0);
+
+  return prisma.invoice.update({
+    where: { id: invoice.id },
+    data: {
+      amountPaid,
+      outstandingBalance: roundMoney(Math.max(0, invoice.totalAmount - amountPaid)),
+      status: deriveInvoiceStatus(invoice.totalAmount, amountPaid, invoice.dueDate),
+    },
+  });
+}
+
+/**
+ * Mark unpaid invoices past their due date as OVERDUE.
+ */
+async function refreshOverdueInvoices(where: { buyerId?: string } = {}) {
+  await prisma.invoice.updateMany({
+    where: {
+      ...where,
+      status: { in: [InvoiceStatus.UNPAID, InvoiceStatus.PARTIALLY_PAID] },
+      dueDate: { lt: new Date() },
+    },
+    data: { status: InvoiceStatus.OVERDUE },
+  });
+}
+
+/**
+ * List invoices for a buyer (buyer portal). Optional status filter.
+ */
+export async function getBuyerInvoices(buyerUserId: string, filters?: { status?: InvoiceStatus }) {
+  const buyer = await prisma.buyer.findUnique({
+    where: { userId: buyerUserId },
+  });
+
+  if (!buyer) {
+    throw createError('Buyer not found', 404, 'BUYER_NOT_FOUND');
+  }
+
+  await refreshOverdueInvoices({ buyerId: buyer.id });
+
+  const invoices = await prisma.invoice.findMany({
+    where: {
+      buyerId: buyer.id,
+      ...(filters?.status && { status: filters.status }),
+    },
+    include: invoiceInclude,
+    orderBy: { issuedAt: 'desc' },
+  });
+
+  const totalOutstanding = roundMoney(
+    invoices.reduce((sum, invoice) => sum + invoice.outstandingBalance, 0)
+  );
+
+  return { invoices, summary: { count: invoices.length, totalOutstanding } };
+}
+
+/**
+ * Get a single invoice belonging to a buyer
+ */
+export async function getBuyerInvoiceById(invoiceId: string, buyerUserId: string) {
+  const buyer = await prisma.buyer.findUnique({
+    where: { userId: buyerUserId },
+  });
+
+  if (!buyer) {
+    throw createError('Buyer not found', 404, 'BUYER_NOT_FOUND');
+  }
+
+  await refreshOverdueInvoices({ buyerId: buyer.id });
+
+  const invoice = await prisma.invoice.findFirst({
+    where: { id: invoiceId, buyerId: buyer.id },
+    include: invoiceInclude,
+  });
+
+  if (!invoice) {
+    throw createError('Invoice not found', 404, 'INVOICE_NOT_FOUND');
+  }
+
+  return invoice;
+}
+
+/**
+ * List all invoices (admin). Optional filters: status, buyerId.
+ */
+export async function getAdminInvoices(filters?: { status?: InvoiceStatus; buyerId?: string }) {
+  await refreshOverdueInvoices();
+
+  const invoices = await prisma.invoice.findMany({
+    where: {
+      ...(filters?.status && { status: filters.status }),
+      ...(filters?.buyerId && { buyerId: filters.buyerId }),
+    },
+    include: {
+      ...invoiceInclude,
+      buyer: {
+        include: {
+          user: { select: { email: true, phone: true } },
+        },
+      },
+    },
+    orderBy: { issuedAt: 'desc' },
+  });
+
+  const totalAmount = roundMoney(invoices.reduce((sum, i) => sum + i.totalAmount, 0));
+  const totalPaid = roundMoney(invoices.reduce((sum, i) => sum + i.amountPaid, 0));
+
+  return {
+    invoices,
+    summary: {
+      count: invoices.length,
+      totalAmount,
+      totalPaid,
+      totalOutstanding: roundMoney(invoices.reduce((sum, i) => sum + i.outstandingBalance, 0)),
+    },
+  };
+}
+
+/**
+ * Get a single invoice by ID (admin)
+ */
+export async function getInvoiceByIdForAdmin(invoiceId: string) {
+  await refreshOverdueInvoices();
+
+  const invoice = await prisma.invoice.findUnique({
+    where: { id: invoiceId },
+    include: {
+      ...invoiceInclude,
+      buyer: {
+        include: {
+          user: { select: { email: true, phone: true } },
+        },
+      },
+    },
+  });
+
+  if (!invoice) {
+    throw createError('Invoice not found', 404, 'INVOICE_NOT_FOUND');
+  }
+
+  return invoice;
+}
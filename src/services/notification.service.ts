@@ -1,23 +1,38 @@
+import { Prisma } from '@prisma/client';
 import { prisma } from '../config/database.js';
 import { createError } from '../middleware/errorHandler.js';
+import { getRealtimeProvider } from '../providers/realtime.provider.js';
+import { triggerUnreadCount } from '../utils/realtime.js';
 
-export type NotificationType =
-  | 'APPLICATION_REVIEWED'
-  | 'APPLICATION_REJECTED'
-  | 'REGISTRATION_APPROVED'
-  | 'REGISTRATION_REJECTED'
-  | 'NEW_ASSIGNMENT'
-  | 'ORDER_APPROVED'
-  | 'ORDER_REJECTED'
-  | 'ORDER_MODIFICATION_REQUESTED'
-  | 'BUYER_SUBMITTED_ORDER_CHANGES'
-  | 'ADMIN_UPDATED_ORDER'
-  | 'ORDER_STATUS_CHANGE'
-  | 'TIER_CHANGED'
-  | 'LATE_AVAILABILITY_WARNING'
-  | 'MISSED_DELIVERY_WARNING'
-  | 'DELIVERY_REMINDER'
-  | 'STANDING_ORDER_GENERATED';
+export const NOTIFICATION_TYPES = [
+  'APPLICATION_REVIEWED',
+  'APPLICATION_REJECTED',
+  'REGISTRATION_APPROVED',
+  'REGISTRATION_REJECTED',
+  'NEW_ASSIGNMENT',
+  'ORDER_APPROVED',
+  'ORDER_REJECTED',
+  'ORDER_MODIFICATION_REQUESTED',
+  'BUYER_SUBMITTED_ORDER_CHANGES',
+  'ADMIN_UPDATED_ORDER',
+  'ORDER_STATUS_CHANGE',
+  'TIER_CHANGED',
+  'LATE_AVAILABILITY_WARNING',
+  'MISSED_DELIVERY_WARNING',
+  'DELIVERY_REMINDER',
+  'STANDING_ORDER_GENERATED',
+  'INVOICE_ISSUED',
+  'INVOICE_PRICE_MISSING',
+  'SUPPORT_TICKET_RESPONSE',
+  'SUPPORT_TICKET_REPLY',
+  'SUPPORT_TICKET_ASSIGNED',
+  'DISPUTE_OPENED',
+  'DISPUTE_RESOLVED',
+  'DELIVERY_DISCREPANCY',
+  'BROADCAST',
+] as const;
+
+export type NotificationType = (typeof NOTIFICATION_TYPES)[number];
 
 export interface CreateNotificationData {
   userId: string;
@@ -42,50 +57,119 @@ export async function createNotification(data: CreateNotificationData) {
   });
 }
 
+export interface NotificationListOptions {
+  limit?: number;
+  /** Id of the last notification on the previous page */
+  cursor?: string;
+  types?: string[];
+  isRead?: boolean;
+  startDate?: Date;
+  endDate?: Date;
+  /** false (default): inbox only; true: archived only */
+  archived?: boolean;
+}
+
 /**
- * List notifications for a user (newest first).
+ * List notifications for a user (newest first), one page at a time.
+ * Pass the returned nextCursor back as `cursor` for the next page; it is null on the last page.
  */
-export async function listNotificationsByUser(
-  userId: string,
-  options?: { limit?: number; unreadOnly?: boolean }
-) {
-  const limit = options?.limit ?? 50;
-  const where: { userId: string; isRead?: boolean } = { userId };
-  if (options?.unreadOnly) where.isRead = false;
+export async function listNotificationsByUser(userId: string, options: NotificationListOptions = {}) {
+  const limit = options.limit ?? 50;
+  const where: Prisma.NotificationWhereInput = {
+    userId,
+    archivedAt: options.archived ? { not: null } : null,
+  };
+  if (options.types?.length) where.type = { in: options.types };
+  if (options.isRead !== undefined) where.isRead = options.isRead;
+  if (options.startDate || options.endDate) {
+    where.createdAt = {
+      ...(options.startDate && { gte: options.startDate }),
+      ...(options.endDate && { lte: options.endDate }),
+    };
+  }
 
-  return prisma.notification.findMany({
+  if (options.cursor) {
+    const cursor = await prisma.notification.findFirst({
+      where: { id: options.cursor, userId },
+      select: { id: true },
+    });
+    if (!cursor) {
+      throw createError('Invalid cursor', 400, 'INVALID_CURSOR');
+    }
+  }
+
+  const rows = await prisma.notification.findMany({
     where,
-    orderBy: { createdAt: 'desc' },
+    orderBy: [{ createdAt: 'desc' }, { id: 'desc' }],
+    take: limit + 1,
+    ...(options.cursor && { cursor: { id: options.cursor }, skip: 1 }),
+  });
+
+  const hasMore = rows.length > limit;
+  const notifications = hasMore ? rows.slice(0, limit) : rows;
+  return {
+    notifications,
+    nextCursor: hasMore ? notifications[notifications.length - 1].id : null,
+  };
+}
+
+/**
+ * Notifications created after the given one, oldest first (SSE Last-Event-ID replay).
+ * Returns null when the id is unknown (e.g. deleted) so the client reloads its inbox instead.
+ */
+export async function listNotificationsSince(userId: string, lastNotificationId: string, limit = 100) {
+  const last = await prisma.notification.findFirst({
+    where: { id: lastNotificationId, userId },
+    select: { id: true, createdAt: true },
+  });
+  if (!last) return null;
+
+  return prisma.notification.findMany({
+    where: {
+      userId,
+      archivedAt: null,
+      OR: [
+        { createdAt: { gt: last.createdAt } },
+        { createdAt: last.createdAt, id: { gt: last.id } },
+      ],
+    },
+    orderBy: [{ createdAt: 'asc' }, { id: 'asc' }],
     take: limit,
   });
 }
 
 /**
- * Count unread notifications for a user.
+ * Count unread notifications in a user's inbox (archived ones are not counted).
  */
 export async function getUnreadCount(userId: string): Promise<number> {
   return prisma.notification.count({
-    where: { userId, isRead: false },
+    where: { userId, isRead: false, archivedAt: null },
   });
 }
 
 /**
- * Mark a single notification as read (only if it belongs to the user).
+ * Push the user's current unread count so other open dashboards update their badge.
+ * Best effort: failures are logged, not thrown.
  */
-export async function markNotificationRead(
-  notificationId: string,
-  userId: string
-) {
+export async function publishUnreadCount(userId: string): Promise<void> {
+  if (!getRealtimeProvider()) return;
+  try {
+    await triggerUnreadCount(userId, await getUnreadCount(userId));
+  } catch (error) {
+    console.error('[Notification] Unread count push failed:', userId, error);
+  }
+}
+
+/**
+ * Mark notifications as read (ids not belonging to the user are skipped).
+ */
+export async function markNotificationsRead(userId: string, notificationIds: string[]) {
   const updated = await prisma.notification.updateMany({
-    where: { id: notificationId, userId },
+    where: { id: { in: notificationIds }, userId },
     data: { isRead: true },
   });
-  if (updated.count === 0) {
-    throw createError('Notification not found', 404, 'NOTIFICATION_NOT_FOUND');
-  }
-  return prisma.notification.findUnique({
-    where: { id: notificationId },
-  });
+  await publishUnreadCount(userId);
+  return { updated: updated.count };
 }
 
 /**
@@ -93,8 +177,32 @@ export async function markNotificationRead(
  */
 export async function markAllNotificationsRead(userId: string) {
   await prisma.notification.updateMany({
-    where: { userId },
+    where: { userId, isRead: false },
     data: { isRead: true },
   });
+  await publishUnreadCount(userId);
   return { success: true };
 }
+
+/**
+ * Move notifications to (or back from) the archive.
+ */
+export async function archiveNotifications(userId: string, notificationIds: string[], archived = true) {
+  const updated = await prisma.notification.updateMany({
+    where: { id: { in: notificationIds }, userId },
+    data: { archivedAt: archived ? new Date() : null },
+  });
+  await publishUnreadCount(userId);
+  return { updated: updated.count };
+}
+
+/**
+ * Permanently delete notifications. Delivery log rows are kept (their notification link is cleared).
+ */
+export async function deleteNotifications(userId: string, notificationIds: string[]) {
+  const deleted = await prisma.notification.deleteMany({
+    where: { id: { in: notificationIds }, userId },
+  });
+  await publishUnreadCount(userId);
+  return { deleted: deleted.count };
+}
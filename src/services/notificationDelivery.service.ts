@@ -1,19 +1,74 @@
-import { UserRole } from '@prisma/client';
+import { UserRole, DeliveryChannel, DeliveryStatus, Prisma, NotificationDelivery } from '@prisma/client';
 import { prisma } from '../config/database.js';
-import { createNotification, type CreateNotificationData, type NotificationType } from './notification.service.js';
-import { env } from '../config/env.js';
-import { triggerNotification } from '../utils/pusher.js';
+import {
+  createNotification,
+  getUnreadCount,
+  type CreateNotificationData,
+  type NotificationType,
+} from './notification.service.js';
+import { getEmailProvider } from '../providers/email.provider.js';
+import { getSmsProvider } from '../providers/sms.provider.js';
+import type { ProviderResult } from '../providers/types.js';
+import { getRealtimeProvider } from '../providers/realtime.provider.js';
+import { triggerNotification, type RealtimeNotificationPayload } from '../utils/realtime.js';
 import { toE164 } from '../utils/validation.js';
 import { getEmailHtml } from '../templates/emailTemplate.js';
+import {
+  DEFAULT_LOCALE,
+  renderNotification,
+  type TemplateKey,
+  type TemplateVariables,
+} from '../templates/notificationTemplates.js';
+import { resolveDeliveryChannels } from './notificationPreference.service.js';
 
 export interface NotifyUserOptions {
+  sendInApp?: boolean;
   sendEmail?: boolean;
   sendSms?: boolean;
+  /** Links the email/SMS/push rows to an admin broadcast */
+  broadcastId?: string;
+}
+
+/** First retry after 1 minute, doubling each attempt up to 1 hour */
+const RETRY_BASE_SECONDS = 60;
+const RETRY_MAX_SECONDS = 60 * 60;
+/** A SENDING row older than this was abandoned (e.g. serverless function cut off) and may be retried */
+export const STALE_SENDING_MINUTES = 5;
+/** Push events go stale quickly, so give up on them sooner */
+const PUSH_MAX_ATTEMPTS = 3;
+
+export interface QueueDeliveryData {
+  notificationId?: string | null;
+  userId?: string | null;
+  channel: DeliveryChannel;
+  recipient: string;
+  subject?: string;
+  body: string;
+  html?: string;
+  payload?: Record<string, unknown>;
+  maxAttempts?: number;
+  broadcastId?: string | null;
+  /** Hold the message until then (e.g. the end of the recipient's quiet hours) */
+  nextAttemptAt?: Date | null;
+  /** Carries a secret (one-time code, reset link): content is hidden from admins and cleared once sent or failed */
+  sensitive?: boolean;
+}
+
+/** What each channel says for one recipient */
+interface NotificationContent {
+  title: string;
+  message: string;
+  emailText?: string;
+  emailHtml?: string;
+  smsText?: string;
 }
 
 /**
  * Create in-app notification and optionally send email and SMS.
- * If SendGrid/Twilio are not configured, only in-app notification is created.
+ * The user's notification preferences for the type (channel opt-outs, quiet hours) apply on top
+ * of `options`; email and SMS during quiet hours are queued for the end of the window. If no email/SMS provider is configured, only in-app notification is created.
+ * Email, SMS and push messages go through the delivery outbox (see queueDelivery).
+ * Prefer notifyUserTemplate, which words the message in the user's language.
  */
 export async function notifyUser(
   userId: string,
@@ -22,56 +77,141 @@ export async function notifyUser(
   message: string,
   metadata?: Record<string, unknown>,
   options: NotifyUserOptions = {}
-): Promise<{ notificationId: string }> {
-  const notification = await createNotification({
+): Promise<{ notificationId: string | null }> {
+  return deliverToUser(userId, type, () => ({ title, message }), metadata, options);
+}
+
+/**
+ * notifyUser with content from the notification template catalog, rendered in the user's locale.
+ */
+export async function notifyUserTemplate(
+  userId: string,
+  key: TemplateKey,
+  variables: TemplateVariables = {},
+  metadata?: Record<string, unknown>,
+  options: NotifyUserOptions = {}
+): Promise<{ notificationId: string | null }> {
+  const type = key.split('.')[0] as NotificationType;
+  return deliverToUser(
     userId,
     type,
-    title,
-    message,
+    (locale) => {
+      const rendered = renderNotification(key, variables, locale);
+      return {
+        title: rendered.title,
+        message: rendered.inApp,
+        emailText: rendered.email.text,
+        emailHtml: rendered.email.html,
+        smsText: rendered.sms.text,
+      };
+    },
     metadata,
-  });
+    options
+  );
+}
 
-  triggerNotification(userId, {
-    id: notification.id,
-    type,
-    title,
-    message,
-    metadata: metadata as Record<string, unknown> | undefined,
-    createdAt: notification.createdAt.toISOString(),
-  }).catch((err) => console.error('[Pusher]', err));
+async function deliverToUser(
+  userId: string,
+  type: NotificationType | string,
+  content: (locale: string) => NotificationContent,
+  metadata?: Record<string, unknown>,
+  options: NotifyUserOptions = {}
+): Promise<{ notificationId: string | null }> {
+  const channels = await resolveDeliveryChannels(userId, type);
 
   const user = await prisma.user.findUnique({
     where: { id: userId },
-    select: { email: true, phone: true },
+    select: { email: true, phone: true, locale: true },
   });
 
+  const { title, message, emailText, emailHtml, smsText } = content(user?.locale ?? DEFAULT_LOCALE);
+  const deliveries: QueueDeliveryData[] = [];
+  let notificationId: string | null = null;
+
+  if (options.sendInApp !== false && channels.inApp) {
+    const notification = await createNotification({
+      userId,
+      type,
+      title,
+      message,
+      metadata,
+    });
+    notificationId = notification.id;
+
+    if (getRealtimeProvider()) {
+      deliveries.push({
+        notificationId,
+        userId,
+        broadcastId: options.broadcastId,
+        channel: DeliveryChannel.PUSH,
+        recipient: userId,
+        body: message,
+        payload: {
+          id: notification.id,
+          type,
+          title,
+          message,
+          metadata,
+          createdAt: notification.createdAt.toISOString(),
+          // Count at the time of creation; clients re-sync on 'unread-count' events
+          unreadCount: await getUnreadCount(userId),
+        },
+        maxAttempts: PUSH_MAX_ATTEMPTS,
+      });
+    }
+  }
+
   if (!user) {
-    return { notificationId: notification.id };
+    return { notificationId };
   }
 
-  const shouldEmail = options.sendEmail !== false && user.email;
-  const shouldSms = options.sendSms !== false && user.phone;
+  const shouldEmail = options.sendEmail !== false && channels.email && user.email;
+  const shouldSms = options.sendSms !== false && channels.sms && user.phone;
 
-  if (shouldEmail && env.SENDGRID_API_KEY && env.SENDGRID_FROM_EMAIL) {
-    sendEmail(user.email!, title, message, getEmailHtml(title, message)).catch((err) =>
-      console.error('[Notification] Email send failed:', err)
-    );
+  if (shouldEmail && getEmailProvider()) {
+    deliveries.push({
+      notificationId,
+      userId,
+      broadcastId: options.broadcastId,
+      channel: DeliveryChannel.EMAIL,
+      recipient: user.email!,
+      subject: title,
+      body: emailText ?? message,
+      html: emailHtml ?? getEmailHtml(title, emailText ?? message),
+      nextAttemptAt: channels.deferUntil,
+    });
   }
 
-  if (shouldSms && env.TWILIO_ACCOUNT_SID && env.TWILIO_AUTH_TOKEN && env.TWILIO_FROM_NUMBER) {
+  if (shouldSms && getSmsProvider()) {
     const phoneE164 = toE164(user.phone!);
     if (phoneE164) {
-      sendSmsAsync(phoneE164, message).catch((err) =>
-        console.error('[Notification] SMS send failed:', err)
-      );
+      deliveries.push({
+        notificationId,
+        userId,
+        broadcastId: options.broadcastId,
+        channel: DeliveryChannel.SMS,
+        recipient: phoneE164,
+        body: smsText ?? message,
+        nextAttemptAt: channels.deferUntil,
+      });
     }
   }
 
-  return { notificationId: notification.id };
+  await Promise.all(deliveries.map((delivery) => queueDelivery(delivery)));
+
+  return { notificationId };
+}
+
+async function getAdminIds(): Promise<string[]> {
+  const admins = await prisma.user.findMany({
+    where: { role: UserRole.ADMIN },
+    select: { id: true },
+  });
+  return admins.map((admin) => admin.id);
 }
 
 /**
- * Notify all admin users (in-app + email + SMS per admin).
+ * Notify all admin users (in-app + email + SMS per admin, subject to each admin's preferences).
  * Use for order-modification flow when buyer submits changes for admin review.
  */
 export async function notifyAdmins(
@@ -81,87 +221,180 @@ export async function notifyAdmins(
   metadata?: Record<string, unknown>,
   options: NotifyUserOptions = {}
 ): Promise<void> {
-  const admins = await prisma.user.findMany({
-    where: { role: UserRole.ADMIN },
-    select: { id: true },
-  });
+  const adminIds = await getAdminIds();
   await Promise.all(
-    admins.map((admin) =>
-      notifyUser(admin.id, type, title, message, metadata, options).catch((err) =>
-        console.error('[Notification] notifyAdmin failed:', admin.id, err)
+    adminIds.map((adminId) =>
+      notifyUser(adminId, type, title, message, metadata, options).catch((err) =>
+        console.error('[Notification] notifyAdmin failed:', adminId, err)
       )
     )
   );
 }
 
 /**
- * Send email via SendGrid API (fire-and-forget).
- * Sends both plain text and HTML; clients that support HTML will show the branded template.
- * Exported for use by password reset and other transactional emails.
+ * notifyAdmins with content from the notification template catalog.
  */
-export async function sendEmail(
-  to: string,
-  subject: string,
-  text: string,
-  html?: string
+export async function notifyAdminsTemplate(
+  key: TemplateKey,
+  variables: TemplateVariables = {},
+  metadata?: Record<string, unknown>,
+  options: NotifyUserOptions = {}
 ): Promise<void> {
-  const key = env.SENDGRID_API_KEY;
-  const from = env.SENDGRID_FROM_EMAIL;
-  if (!key || !from) return;
+  const adminIds = await getAdminIds();
+  await Promise.all(
+    adminIds.map((adminId) =>
+      notifyUserTemplate(adminId, key, variables, metadata, options).catch((err) =>
+        console.error('[Notification] notifyAdmin failed:', adminId, err)
+      )
+    )
+  );
+}
+
+/**
+ * Store an outbound message in the outbox and make a first attempt straight away, unless it is
+ * held until a later nextAttemptAt (the outbox job sends it then).
+ * The attempt is not awaited: if it is cut off (serverless) or fails, the row stays due and the
+ * notification outbox job retries it.
+ */
+export async function queueDelivery(data: QueueDeliveryData): Promise<NotificationDelivery> {
+  const delivery = await prisma.notificationDelivery.create({
+    data: {
+      notificationId: data.notificationId ?? null,
+      userId: data.userId ?? null,
+      channel: data.channel,
+      recipient: data.recipient,
+      subject: data.subject,
+      body: data.body,
+      html: data.html,
+      payload: data.payload ? (data.payload as Prisma.InputJsonObject) : undefined,
+      ...(data.maxAttempts && { maxAttempts: data.maxAttempts }),
+      broadcastId: data.broadcastId ?? null,
+      ...(data.nextAttemptAt && { nextAttemptAt: data.nextAttemptAt }),
+      sensitive: data.sensitive ?? false,
+    },
+  });
+
+  if (delivery.nextAttemptAt <= new Date()) {
+    processDelivery(delivery.id).catch((err) =>
+      console.error('[Notification] Delivery attempt failed:', delivery.id, err)
+    );
+  }
 
-  const content: { type: string; value: string }[] = [{ type: 'text/plain', value: text }];
-  if (html) {
-    content.push({ type: 'text/html', value: html });
+  return delivery;
+}
+
+/** Stored in place of the content of a sensitive message once it is finished with */
+export const REDACTED_CONTENT = '[redacted]';
+
+function retryDelaySeconds(attempts: number): number {
+  return Math.min(RETRY_MAX_SECONDS, RETRY_BASE_SECONDS * 2 ** Math.max(0, attempts - 1));
+}
+
+async function sendDelivery(delivery: NotificationDelivery): Promise<ProviderResult | null> {
+  switch (delivery.channel) {
+    case DeliveryChannel.EMAIL:
+      return sendEmail(delivery.recipient, delivery.subject ?? '', delivery.body, delivery.html ?? undefined);
+    case DeliveryChannel.SMS:
+      return sendSmsAsync(delivery.recipient, delivery.body);
+    case DeliveryChannel.PUSH: {
+      const sent = await triggerNotification(
+        delivery.recipient,
+        delivery.payload as unknown as RealtimeNotificationPayload
+      );
+      return sent ? { messageId: null, response: 'triggered' } : null;
+    }
   }
+}
 
-  const res = await fetch('https://api.sendgrid.com/v3/mail/send', {
-    method: 'POST',
-    headers: {
-      Authorization: `Bearer ${key}`,
-      'Content-Type': 'application/json',
+/**
+ * Attempt one outbox message if it is due (PENDING and past nextAttemptAt, or abandoned in SENDING).
+ * The claim is a conditional update, so concurrent workers never send the same message twice.
+ * Failures are rescheduled with exponential backoff until maxAttempts, then marked FAILED.
+ * A sensitive message has its content cleared once it is SENT or FAILED.
+ * @returns The updated row, or null if the message was not due or another worker claimed it
+ */
+export async function processDelivery(deliveryId: string): Promise<NotificationDelivery | null> {
+  const now = new Date();
+  const { count } = await prisma.notificationDelivery.updateMany({
+    where: {
+      id: deliveryId,
+      OR: [
+        { status: DeliveryStatus.PENDING, nextAttemptAt: { lte: now } },
+        {
+          status: DeliveryStatus.SENDING,
+          lastAttemptAt: { lt: new Date(now.getTime() - STALE_SENDING_MINUTES * 60 * 1000) },
+        },
+      ],
+    },
+    data: {
+      status: DeliveryStatus.SENDING,
+      attempts: { increment: 1 },
+      lastAttemptAt: now,
     },
-    body: JSON.stringify({
-      personalizations: [{ to: [{ email: to }] }],
-      from: { email: from, name: 'Sourceli' },
-      subject,
-      content,
-    }),
   });
+  if (count === 0) return null;
+
+  const delivery = await prisma.notificationDelivery.findUniqueOrThrow({ where: { id: deliveryId } });
 
-  if (!res.ok) {
-    const body = await res.text();
-    throw new Error(`SendGrid error ${res.status}: ${body}`);
+  let error: string;
+  try {
+    const result = await sendDelivery(delivery);
+    if (result) {
+      return prisma.notificationDelivery.update({
+        where: { id: deliveryId },
+        data: {
+          status: DeliveryStatus.SENT,
+          sentAt: new Date(),
+          providerMessageId: result.messageId,
+          providerResponse: result.response.slice(0, 2000),
+          lastError: null,
+          ...(delivery.sensitive && { body: REDACTED_CONTENT, html: null }),
+        },
+      });
+    }
+    error = `${delivery.channel} provider is not configured`;
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
   }
+
+  const exhausted = delivery.attempts >= delivery.maxAttempts;
+  return prisma.notificationDelivery.update({
+    where: { id: deliveryId },
+    data: {
+      status: exhausted ? DeliveryStatus.FAILED : DeliveryStatus.PENDING,
+      lastError: error.slice(0, 2000),
+      ...(exhausted && delivery.sensitive && { body: REDACTED_CONTENT, html: null }),
+      ...(!exhausted && {
+        nextAttemptAt: new Date(Date.now() + retryDelaySeconds(delivery.attempts) * 1000),
+      }),
+    },
+  });
 }
 
 /**
- * Send SMS via Twilio API (fire-and-forget).
+ * Send email via the configured email provider (SendGrid, SMTP, or file/console in development).
+ * Sends both plain text and HTML; clients that support HTML will show the branded template.
+ * Called by the outbox (processDelivery); queue messages with queueDelivery instead of calling this.
+ * Returns null when email is disabled; throws when the provider rejects the message.
  */
-async function sendSmsAsync(to: string, body: string): Promise<void> {
-  const accountSid = env.TWILIO_ACCOUNT_SID;
-  const authToken = env.TWILIO_AUTH_TOKEN;
-  const from = env.TWILIO_FROM_NUMBER;
-  if (!accountSid || !authToken || !from) return;
-
-  const params = new URLSearchParams();
-  params.set('To', to);
-  params.set('From', from);
-  params.set('Body', body.slice(0, 1600)); // Twilio limit
-
-  const res = await fetch(
-    `https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`,
-    {
-      method: 'POST',
-      headers: {
-        Authorization: 'Basic ' + Buffer.from(`${accountSid}:${authToken}`).toString('base64'),
-        'Content-Type': 'application/x-www-form-urlencoded',
-      },
-      body: params.toString(),
-    }
-  );
+export async function sendEmail(
+  to: string,
+  subject: string,
+  text: string,
+  html?: string
+): Promise<ProviderResult | null> {
+  const provider = getEmailProvider();
+  if (!provider) return null;
+  return provider.send({ to, subject, text, html });
+}
 
-  if (!res.ok) {
-    const data = await res.json().catch(() => ({}));
-    throw new Error(`Twilio error ${res.status}: ${JSON.stringify(data)}`);
-  }
+/**
+ * Send SMS via the configured SMS provider (Twilio, or file/console in development).
+ * Called by the outbox (processDelivery); queue messages with queueDelivery instead of calling this.
+ * Returns null when SMS is disabled; throws when the provider rejects the message.
+ */
+export async function sendSmsAsync(to: string, body: string): Promise<ProviderResult | null> {
+  const provider = getSmsProvider();
+  if (!provider) return null;
+  return provider.send({ to, body });
 }
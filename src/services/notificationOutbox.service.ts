@@ -0,0 +1,181 @@
+import { prisma } from '../config/database.js';
+import { createError } from '../middleware/errorHandler.js';
+import { DeliveryChannel, DeliveryStatus, Prisma } from '@prisma/client';
+import { processDelivery, REDACTED_CONTENT, STALE_SENDING_MINUTES } from './notificationDelivery.service.js';
+
+/** Messages attempted per job run; keeps a run inside the serverless time limit */
+const DRAIN_BATCH_SIZE = 50;
+
+export interface DeliveryFilters {
+  status?: DeliveryStatus;
+  channel?: DeliveryChannel;
+  userId?: string;
+  notificationId?: string;
+  startDate?: Date;
+  endDate?: Date;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Hide the content of a message carrying a one-time code or reset link
+ */
+function redactSensitive<T extends { sensitive: boolean; body: string; html?: string | null }>(delivery: T): T {
+  if (!delivery.sensitive) return delivery;
+  return { ...delivery, body: REDACTED_CONTENT, ...('html' in delivery && { html: null }) };
+}
+
+function buildWhere(filters: DeliveryFilters): Prisma.NotificationDeliveryWhereInput {
+  return {
+    ...(filters.status && { status: filters.status }),
+    ...(filters.channel && { channel: filters.channel }),
+    ...(filters.userId && { userId: filters.userId }),
+    ...(filters.notificationId && { notificationId: filters.notificationId }),
+    ...((filters.startDate || filters.endDate) && {
+      createdAt: {
+        ...(filters.startDate && { gte: filters.startDate }),
+        ...(filters.endDate && { lte: filters.endDate }),
+      },
+    }),
+  };
+}
+
+/**
+ * Attempt every due outbox message: PENDING past nextAttemptAt, or SENDING but abandoned.
+ * Oldest first, at most DRAIN_BATCH_SIZE per run.
+ */
+export async function drainNotificationOutbox(batchSize = DRAIN_BATCH_SIZE) {
+  const now = new Date();
+  const due = await prisma.notificationDelivery.findMany({
+    where: {
+      OR: [
+        { status: DeliveryStatus.PENDING, nextAttemptAt: { lte: now } },
+        {
+          status: DeliveryStatus.SENDING,
+          lastAttemptAt: { lt: new Date(now.getTime() - STALE_SENDING_MINUTES * 60 * 1000) },
+        },
+      ],
+    },
+    orderBy: { nextAttemptAt: 'asc' },
+    take: batchSize,
+    select: { id: true },
+  });
+
+  const summary = { processed: 0, sent: 0, retrying: 0, failed: 0 };
+  for (const { id } of due) {
+    const result = await processDelivery(id).catch((err) => {
+      console.error('[NotificationOutbox] Delivery processing failed:', id, err);
+      return null;
+    });
+    if (!result) continue;
+    summary.processed++;
+    if (result.status === DeliveryStatus.SENT) summary.sent++;
+    else if (result.status === DeliveryStatus.FAILED) summary.failed++;
+    else summary.retrying++;
+  }
+
+  return summary;
+}
+
+/**
+ * Outbox messages for the admin delivery log (newest first), with status counts.
+ * Sensitive messages are listed without their content.
+ */
+export async function listNotificationDeliveries(filters: DeliveryFilters) {
+  const where = buildWhere(filters);
+  const [deliveries, total, byStatus] = await Promise.all([
+    prisma.notificationDelivery.findMany({
+      where,
+      orderBy: { createdAt: 'desc' },
+      take: filters.limit ?? 100,
+      skip: filters.offset ?? 0,
+      select: {
+        id: true,
+        channel: true,
+        recipient: true,
+        subject: true,
+        body: true,
+        sensitive: true,
+        status: true,
+        attempts: true,
+        maxAttempts: true,
+        nextAttemptAt: true,
+        lastAttemptAt: true,
+        sentAt: true,
+        providerMessageId: true,
+        providerResponse: true,
+        lastError: true,
+        createdAt: true,
+        user: { select: { id: true, email: true, phone: true, role: true } },
+        notification: { select: { id: true, type: true, title: true } },
+      },
+    }),
+    prisma.notificationDelivery.count({ where }),
+    prisma.notificationDelivery.groupBy({
+      by: ['status'],
+      where: { ...where, status: undefined },
+      _count: { _all: true },
+    }),
+  ]);
+
+  return {
+    deliveries: deliveries.map(redactSensitive),
+    total,
+    statusCounts: Object.fromEntries(byStatus.map((g) => [g.status, g._count._all])),
+  };
+}
+
+/**
+ * Single outbox message with its full content (hidden for sensitive messages).
+ */
+export async function getNotificationDeliveryById(id: string) {
+  const delivery = await prisma.notificationDelivery.findUnique({
+    where: { id },
+    include: {
+      user: { select: { id: true, email: true, phone: true, role: true } },
+      notification: true,
+    },
+  });
+
+  if (!delivery) {
+    throw createError('Notification delivery not found', 404, 'DELIVERY_NOT_FOUND');
+  }
+
+  return redactSensitive(delivery);
+}
+
+/**
+ * Re-send a FAILED message: reset its attempts and try again immediately.
+ * Sensitive messages cannot be re-sent (their content is cleared).
+ */
+export async function resendNotificationDelivery(id: string) {
+  const delivery = await getNotificationDeliveryById(id);
+
+  if (delivery.status !== DeliveryStatus.FAILED) {
+    throw createError(
+      `Only failed deliveries can be re-sent. Current status: ${delivery.status}`,
+      400,
+      'INVALID_DELIVERY_STATUS'
+    );
+  }
+  if (delivery.sensitive) {
+    // Its content was cleared; the user requests a new code or link instead
+    throw createError('One-time codes and reset links cannot be re-sent', 400, 'DELIVERY_NOT_RESENDABLE');
+  }
+
+  // Conditional update so two admins re-sending at once only queue it once
+  const { count } = await prisma.notificationDelivery.updateMany({
+    where: { id, status: DeliveryStatus.FAILED },
+    data: {
+      status: DeliveryStatus.PENDING,
+      attempts: 0,
+      nextAttemptAt: new Date(),
+    },
+  });
+  if (count === 0) {
+    throw createError('Delivery is already being re-sent', 409, 'DELIVERY_IN_PROGRESS');
+  }
+
+  const result = await processDelivery(id);
+  return result ?? getNotificationDeliveryById(id);
+}
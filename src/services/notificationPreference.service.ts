@@ -0,0 +1,163 @@
+import { prisma } from '../config/database.js';
+import { NOTIFICATION_TYPES, type NotificationType } from './notification.service.js';
+import type { NotificationPreference } from '@prisma/client';
+
+/** Preference row holding a user's fallback settings for types without their own row */
+export const DEFAULT_PREFERENCE_TYPE = 'DEFAULT';
+
+export interface ChannelPreference {
+  inApp: boolean;
+  email: boolean;
+  sms: boolean;
+  quietHoursStart: string | null;
+  quietHoursEnd: string | null;
+}
+
+export interface NotificationPreferenceUpdate {
+  type: NotificationType | typeof DEFAULT_PREFERENCE_TYPE;
+  inApp?: boolean;
+  email?: boolean;
+  sms?: boolean;
+  quietHoursStart?: string | null;
+  quietHoursEnd?: string | null;
+}
+
+/** Channels a notification goes out on after preferences and quiet hours are applied */
+export interface DeliveryChannels {
+  inApp: boolean;
+  email: boolean;
+  sms: boolean;
+  /** During quiet hours: when the quiet window ends, and email and SMS may go out */
+  deferUntil: Date | null;
+}
+
+const ALL_ENABLED: ChannelPreference = {
+  inApp: true,
+  email: true,
+  sms: true,
+  quietHoursStart: null,
+  quietHoursEnd: null,
+};
+
+function toChannelPreference(row: NotificationPreference): ChannelPreference {
+  return {
+    inApp: row.inApp,
+    email: row.email,
+    sms: row.sms,
+    quietHoursStart: row.quietHoursStart,
+    quietHoursEnd: row.quietHoursEnd,
+  };
+}
+
+/**
+ * Settings for one type: its own row if any, else the DEFAULT row, else everything on.
+ * Quiet hours left empty on a type row fall back to the DEFAULT row's.
+ */
+function resolvePreference(
+  own: NotificationPreference | undefined,
+  fallback: ChannelPreference
+): ChannelPreference {
+  if (!own) return fallback;
+  const pref = toChannelPreference(own);
+  if (!pref.quietHoursStart || !pref.quietHoursEnd) {
+    pref.quietHoursStart = fallback.quietHoursStart;
+    pref.quietHoursEnd = fallback.quietHoursEnd;
+  }
+  return pref;
+}
+
+function toMinutes(hhmm: string): number {
+  const [h, m] = hhmm.split(':').map(Number);
+  return h * 60 + m;
+}
+
+/**
+ * Whether `at` falls within quiet hours. Ghana is on UTC all year, so times compare in UTC.
+ * A window like 21:00–06:00 wraps past midnight.
+ */
+export function isWithinQuietHours(pref: ChannelPreference, at: Date = new Date()): boolean {
+  if (!pref.quietHoursStart || !pref.quietHoursEnd) return false;
+  const start = toMinutes(pref.quietHoursStart);
+  const end = toMinutes(pref.quietHoursEnd);
+  if (start === end) return false;
+  const now = at.getUTCHours() * 60 + at.getUTCMinutes();
+  return start < end ? now >= start && now < end : now >= start || now < end;
+}
+
+/**
+ * End of the quiet window `at` falls in (the next quietHoursEnd in UTC), or null outside quiet hours.
+ */
+export function getQuietHoursEnd(pref: ChannelPreference, at: Date = new Date()): Date | null {
+  if (!isWithinQuietHours(pref, at)) return null;
+  const end = toMinutes(pref.quietHoursEnd!);
+  const endsAt = new Date(Date.UTC(at.getUTCFullYear(), at.getUTCMonth(), at.getUTCDate(), 0, end));
+  if (endsAt <= at) endsAt.setUTCDate(endsAt.getUTCDate() + 1);
+  return endsAt;
+}
+
+/**
+ * Preferences for every notification type, plus the user's DEFAULT settings.
+ * `customized` is false for types that follow the DEFAULT settings.
+ */
+export async function getNotificationPreferences(userId: string) {
+  const rows = await prisma.notificationPreference.findMany({ where: { userId } });
+  const byType = new Map(rows.map((row) => [row.type, row]));
+  const defaultRow = byType.get(DEFAULT_PREFERENCE_TYPE);
+  const defaults = defaultRow ? toChannelPreference(defaultRow) : ALL_ENABLED;
+
+  return {
+    default: defaults,
+    types: NOTIFICATION_TYPES.map((type) => ({
+      type,
+      customized: byType.has(type),
+      ...resolvePreference(byType.get(type), defaults),
+    })),
+  };
+}
+
+/**
+ * Create or update preference rows. Fields left out keep their current value.
+ */
+export async function updateNotificationPreferences(
+  userId: string,
+  updates: NotificationPreferenceUpdate[]
+) {
+  await prisma.$transaction(
+    updates.map(({ type, ...fields }) =>
+      prisma.notificationPreference.upsert({
+        where: { userId_type: { userId, type } },
+        create: { userId, type, ...fields },
+        update: fields,
+      })
+    )
+  );
+
+  return getNotificationPreferences(userId);
+}
+
+/**
+ * Channels to use for a notification of `type` to this user right now.
+ * During quiet hours email and SMS are deferred to the end of the window (deferUntil);
+ * in-app notifications are silent and still created straight away.
+ */
+export async function resolveDeliveryChannels(
+  userId: string,
+  type: string,
+  at: Date = new Date()
+): Promise<DeliveryChannels> {
+  const rows = await prisma.notificationPreference.findMany({
+    where: { userId, type: { in: [type, DEFAULT_PREFERENCE_TYPE] } },
+  });
+  const defaultRow = rows.find((row) => row.type === DEFAULT_PREFERENCE_TYPE);
+  const pref = resolvePreference(
+    rows.find((row) => row.type === type),
+    defaultRow ? toChannelPreference(defaultRow) : ALL_ENABLED
+  );
+
+  return {
+    inApp: pref.inApp,
+    email: pref.email,
+    sms: pref.sms,
+    deferUntil: getQuietHoursEnd(pref, at),
+  };
+}
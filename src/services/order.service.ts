@@ -1,11 +1,25 @@
 import { prisma } from '../config/database.js';
 import { createError } from '../middleware/errorHandler.js';
 import { OrderType, OrderStatus, UserStatus, PaymentMethod } from '@prisma/client';
-import { notifyUser, notifyAdmins } from './notificationDelivery.service.js';
+import { notifyUserTemplate, notifyAdminsTemplate } from './notificationDelivery.service.js';
+import { reconcileInvoiceForOrder } from './invoice.service.js';
+import {
+  OrderLineInput,
+  OrderLinesSource,
+  normalizeOrderLines,
+  summarizeOrderLines,
+  describeOrderLines,
+  ensureOrderLines,
+  summarizeLineProgress,
+} from './orderLine.service.js';
+
+const orderLinesInclude = { orderBy: { createdAt: 'asc' } } as const;
 
-export interface CreateOrderData {
-  productType: string;
-  quantity: number;
+/**
+ * Order data shared by buyer and admin creation: either `lines`, or productType + quantity
+ * for a one-line order.
+ */
+export interface CreateOrderData extends OrderLinesSource {
   orderType: OrderType;
   deliveryDate: Date;
   deliveryAddressId: string;
@@ -50,14 +64,7 @@ export async function createOrder(buyerId: string, data: CreateOrderData) {
     );
   }
 
-  // Validate quantity
-  if (data.quantity <= 0) {
-    throw createError(
-      'Quantity must be greater than 0',
-      400,
-      'INVALID_QUANTITY'
-    );
-  }
+  const lines = normalizeOrderLines(data);
 
   // Validate delivery date is in the future
   if (data.deliveryDate <= new Date()) {
@@ -72,15 +79,16 @@ export async function createOrder(buyerId: string, data: CreateOrderData) {
   const order = await prisma.order.create({
     data: {
       buyerId: buyer.id,
-      productType: data.productType.trim(),
-      quantity: data.quantity,
+      ...summarizeOrderLines(lines),
       orderType: data.orderType,
       deliveryDate: data.deliveryDate,
       deliveryAddressId: data.deliveryAddressId,
       status: OrderStatus.PENDING,
       notes: data.notes?.trim(),
+      lines: { create: lines },
     },
     include: {
+      lines: orderLinesInclude,
       deliveryAddress: true,
       buyer: {
         include: {
@@ -124,6 +132,7 @@ export async function getBuyerOrders(buyerId: string, filters?: {
   const orders = await prisma.order.findMany({
     where,
     include: {
+      lines: orderLinesInclude,
       deliveryAddress: true,
       buyerOrderPayments: true,
       assignments: {
@@ -168,10 +177,12 @@ export async function getOrderById(orderId: string, buyerId: string) {
       buyerId: buyer.id,
     },
     include: {
+      lines: orderLinesInclude,
       deliveryAddress: true,
       buyerOrderPayments: true,
       assignments: {
         include: {
+          acknowledgement: true,
           farmer: {
             include: {
               user: {
@@ -201,7 +212,12 @@ export async function getOrderById(orderId: string, buyerId: string) {
     throw createError('Order not found', 404, 'ORDER_NOT_FOUND');
   }
 
-  return order;
+  const lines = order.lines.length > 0 ? order.lines : await ensureOrderLines(order.id);
+  return {
+    ...order,
+    lines,
+    lineProgress: summarizeLineProgress(lines, order.assignments, order.buyerOrderPayments),
+  };
 }
 
 /**
@@ -321,7 +337,7 @@ export async function createBuyerOrderPayment(
     },
     include: {
       order: { include: { deliveryAddress: true } },
-      deliveryAssignment: true,
+      deliveryAssignment: { include: { orderLine: true } },
       farmer: {
         include: {
           user: { select: { email: true, phone: true } },
@@ -330,12 +346,49 @@ export async function createBuyerOrderPayment(
     },
   });
 
+  await reconcileInvoiceForOrder(orderId).catch((err) =>
+    console.error('[Invoice] Reconcile failed:', err)
+  );
+
   return payment;
 }
 
-export interface UpdateOrderByBuyerData {
-  productType?: string;
-  quantity?: number;
+/**
+ * Line changes for an order that is not allocated yet: `lines` replaces all lines, productType /
+ * quantity edit a one-line order. Also refreshes the Order.productType/quantity summary.
+ */
+async function buildOrderLinesUpdate(
+  orderId: string,
+  data: OrderLinesSource
+): Promise<Record<string, unknown>> {
+  let lines: OrderLineInput[];
+  if (data.lines?.length) {
+    lines = normalizeOrderLines(data);
+  } else if (data.productType !== undefined || data.quantity !== undefined) {
+    const current = await ensureOrderLines(orderId);
+    if (current.length > 1) {
+      throw createError(
+        'This order has several product lines; send lines to change products or quantities',
+        400,
+        'ORDER_LINES_REQUIRED'
+      );
+    }
+    lines = normalizeOrderLines({
+      productType: data.productType ?? current[0].productType,
+      quantity: data.quantity ?? current[0].quantity,
+    });
+    lines[0].notes = current[0].notes ?? undefined;
+  } else {
+    return {};
+  }
+
+  return {
+    ...summarizeOrderLines(lines),
+    lines: { deleteMany: {}, create: lines },
+  };
+}
+
+export interface UpdateOrderByBuyerData extends OrderLinesSource {
   deliveryDate?: Date;
   deliveryAddressId?: string;
   notes?: string;
@@ -380,17 +433,8 @@ export async function updateOrderByBuyer(
     );
   }
 
-  const updateData: Record<string, unknown> = {};
+  const updateData: Record<string, unknown> = await buildOrderLinesUpdate(order.id, data);
 
-  if (data.productType !== undefined) {
-    updateData.productType = data.productType.trim();
-  }
-  if (data.quantity !== undefined) {
-    if (data.quantity <= 0) {
-      throw createError('Quantity must be greater than 0', 400, 'INVALID_QUANTITY');
-    }
-    updateData.quantity = data.quantity;
-  }
   if (data.deliveryDate !== undefined) {
     const d = new Date(data.deliveryDate);
     if (isNaN(d.getTime())) {
@@ -433,16 +477,16 @@ export async function updateOrderByBuyer(
     where: { id: orderId },
     data: updateData as any,
     include: {
+      lines: orderLinesInclude,
       deliveryAddress: true,
     },
   });
 
   // Notify all admins that buyer has submitted order changes for review
   if (wasPendingModification) {
-    await notifyAdmins(
+    await notifyAdminsTemplate(
       'BUYER_SUBMITTED_ORDER_CHANGES',
-      'Buyer submitted order changes',
-      `A buyer has submitted changes to an order that was sent back for modification. Order ID: ${orderId.slice(-8)}. Please review and approve or reject.`,
+      { orderRef: orderId.slice(-8) },
       { orderId: updated.id }
     ).catch((err) => console.error('[Notification]', err));
   }
@@ -481,6 +525,7 @@ export async function getPendingOrders() {
           },
         },
       },
+      lines: orderLinesInclude,
       deliveryAddress: true,
     },
     orderBy: {
@@ -517,6 +562,7 @@ export async function getOrdersByBuyerIdForAdmin(buyerId: string) {
           },
         },
       },
+      lines: orderLinesInclude,
       deliveryAddress: true,
     },
     orderBy: {
@@ -552,6 +598,7 @@ export async function getOrderByIdForAdmin(orderId: string) {
           },
         },
       },
+      lines: orderLinesInclude,
       deliveryAddress: true,
     },
   });
@@ -559,11 +606,11 @@ export async function getOrderByIdForAdmin(orderId: string) {
 }
 
 /**
- * Approve an order (admin only)
+ * Approve an order (admin, or the auto-approval policy with a null adminId)
  */
 export async function approveOrder(
   orderId: string,
-  adminId: string,
+  adminId: string | null,
   adminNotes?: string
 ) {
   const order = await prisma.order.findUnique({
@@ -592,6 +639,9 @@ export async function approveOrder(
     );
   }
 
+  // Orders from before order lines become one-line orders here, ahead of allocation
+  const lines = await ensureOrderLines(order.id);
+
   const updated = await prisma.order.update({
     where: { id: orderId },
     data: {
@@ -612,16 +662,16 @@ export async function approveOrder(
           },
         },
       },
+      lines: orderLinesInclude,
       deliveryAddress: true,
     },
   });
 
   const buyerUserId = updated.buyer.userId;
-  await notifyUser(
+  await notifyUserTemplate(
     buyerUserId,
     'ORDER_APPROVED',
-    'Order approved',
-    `Your order (${updated.productType}, ${updated.quantity} units) has been approved and is being allocated for delivery on ${new Date(updated.deliveryDate).toLocaleDateString()}.`,
+    { productType: describeOrderLines(lines), quantity: updated.quantity, deliveryDate: updated.deliveryDate },
     { orderId: updated.id }
   ).catch((err) => console.error('[Notification]', err));
 
@@ -675,11 +725,10 @@ export async function rejectOrder(
     },
   });
 
-  await notifyUser(
+  await notifyUserTemplate(
     order.buyer.userId,
     'ORDER_REJECTED',
-    'Order not approved',
-    `Your order was not approved. Reason: ${rejectionReason.trim()}`,
+    { reason: rejectionReason.trim() },
     { orderId: updated.id }
   ).catch((err) => console.error('[Notification]', err));
 
@@ -747,25 +796,18 @@ export async function requestOrderModification(
     },
   });
 
-  await notifyUser(
+  await notifyUserTemplate(
     order.buyer.userId,
     'ORDER_MODIFICATION_REQUESTED',
-    'Admin requested order changes',
-    `The admin has requested changes to your order. Message: ${trimmedMessage}`,
+    { message: trimmedMessage },
     { orderId: updated.id }
   ).catch((err) => console.error('[Notification]', err));
 
   return updated;
 }
 
-export interface CreateOrderByAdminData {
+export interface CreateOrderByAdminData extends CreateOrderData {
   buyerId: string;
-  productType: string;
-  quantity: number;
-  orderType: OrderType;
-  deliveryDate: Date;
-  deliveryAddressId: string;
-  notes?: string;
 }
 
 /**
@@ -800,9 +842,7 @@ export async function createOrderByAdmin(_adminId: string, data: CreateOrderByAd
     );
   }
 
-  if (data.quantity <= 0) {
-    throw createError('Quantity must be greater than 0', 400, 'INVALID_QUANTITY');
-  }
+  const lines = normalizeOrderLines(data);
 
   const deliveryDate = new Date(data.deliveryDate);
   if (isNaN(deliveryDate.getTime())) {
@@ -812,15 +852,16 @@ export async function createOrderByAdmin(_adminId: string, data: CreateOrderByAd
   const order = await prisma.order.create({
     data: {
       buyerId: data.buyerId,
-      productType: data.productType.trim(),
-      quantity: data.quantity,
+      ...summarizeOrderLines(lines),
       orderType: data.orderType,
       deliveryDate,
       deliveryAddressId: data.deliveryAddressId,
       status: OrderStatus.PENDING,
       notes: data.notes?.trim(),
+      lines: { create: lines },
     },
     include: {
+      lines: orderLinesInclude,
       deliveryAddress: true,
       buyer: {
         include: {
@@ -838,9 +879,7 @@ export async function createOrderByAdmin(_adminId: string, data: CreateOrderByAd
   return order;
 }
 
-export interface UpdateOrderByAdminData {
-  productType?: string;
-  quantity?: number;
+export interface UpdateOrderByAdminData extends OrderLinesSource {
   deliveryDate?: Date;
   deliveryAddressId?: string;
   notes?: string;
@@ -874,17 +913,8 @@ export async function updateOrderByAdmin(
     );
   }
 
-  const updateData: Record<string, unknown> = {};
+  const updateData: Record<string, unknown> = await buildOrderLinesUpdate(order.id, data);
 
-  if (data.productType !== undefined) {
-    updateData.productType = data.productType.trim();
-  }
-  if (data.quantity !== undefined) {
-    if (data.quantity <= 0) {
-      throw createError('Quantity must be greater than 0', 400, 'INVALID_QUANTITY');
-    }
-    updateData.quantity = data.quantity;
-  }
   if (data.deliveryDate !== undefined) {
     const d = new Date(data.deliveryDate);
     if (isNaN(d.getTime())) {
@@ -924,6 +954,7 @@ export async function updateOrderByAdmin(
     where: { id: orderId },
     data: updateData as any,
     include: {
+      lines: orderLinesInclude,
       buyer: {
         include: {
           user: {
@@ -942,11 +973,10 @@ export async function updateOrderByAdmin(
 
   // Notify buyer that admin has updated their order and it is pending approval again
   if (wasPendingModification && updated.buyer?.user) {
-    await notifyUser(
+    await notifyUserTemplate(
       updated.buyer.user.id,
       'ADMIN_UPDATED_ORDER',
-      'Admin updated your order',
-      'The admin has updated your order. It is pending approval again. You can view the changes in your order details.',
+      {},
       { orderId: updated.id }
     ).catch((err) => console.error('[Notification]', err));
   }
@@ -0,0 +1,237 @@
+import { prisma } from '../config/database.js';
+import { createError } from '../middleware/errorHandler.js';
+import { AssignmentStatus, OrderLine, Prisma } from '@prisma/client';
+
+/** Product lines allowed on one order */
+export const MAX_ORDER_LINES = 20;
+
+/** Orders migrated per query by backfillOrderLines */
+const BACKFILL_BATCH_SIZE = 200;
+
+export interface OrderLineInput {
+  productType: string;
+  quantity: number;
+  notes?: string;
+}
+
+/**
+ * Order input either lists its lines or uses the single-product fields (one-line order).
+ */
+export interface OrderLinesSource {
+  lines?: OrderLineInput[];
+  productType?: string;
+  quantity?: number;
+}
+
+/**
+ * Lines for a new or replaced order. Each product may appear once per order.
+ */
+export function normalizeOrderLines(data: OrderLinesSource): OrderLineInput[] {
+  const lines = data.lines?.length
+    ? data.lines
+    : data.productType !== undefined && data.quantity !== undefined
+      ? [{ productType: data.productType, quantity: data.quantity }]
+      : [];
+
+  if (lines.length === 0) {
+    throw createError('An order needs at least one product line', 400, 'ORDER_LINES_REQUIRED');
+  }
+  if (lines.length > MAX_ORDER_LINES) {
+    throw createError(`At most ${MAX_ORDER_LINES} product lines per order`, 400, 'TOO_MANY_ORDER_LINES');
+  }
+
+  const normalized = lines.map((line) => ({
+    productType: line.productType.trim(),
+    quantity: line.quantity,
+    notes: line.notes?.trim() || undefined,
+  }));
+
+  for (const line of normalized) {
+    if (!line.productType) {
+      throw createError('Product type is required on every line', 400, 'INVALID_PRODUCT_TYPE');
+    }
+    if (!Number.isInteger(line.quantity) || line.quantity <= 0) {
+      throw createError(
+        `Quantity for ${line.productType} must be a whole number greater than 0`,
+        400,
+        'INVALID_QUANTITY'
+      );
+    }
+  }
+
+  const products = normalized.map((l) => l.productType.toLowerCase());
+  const duplicates = normalized.filter((_, i) => products.indexOf(products[i]) !== i);
+  if (duplicates.length > 0) {
+    throw createError(
+      `Each product may appear only once per order: ${[...new Set(duplicates.map((l) => l.productType))].join(', ')}`,
+      400,
+      'DUPLICATE_ORDER_LINE'
+    );
+  }
+
+  return normalized;
+}
+
+/**
+ * Order.productType / Order.quantity summary for a set of lines: first line's product, total units.
+ */
+export function summarizeOrderLines(lines: Pick<OrderLineInput, 'productType' | 'quantity'>[]) {
+  return {
+    productType: lines[0].productType,
+    quantity: lines.reduce((sum, l) => sum + l.quantity, 0),
+  };
+}
+
+/**
+ * Short description of an order's products for notifications, e.g. "Eggs (crate), Broilers".
+ */
+export function describeOrderLines(lines: Pick<OrderLineInput, 'productType'>[]): string {
+  return lines.map((l) => l.productType).join(', ');
+}
+
+/**
+ * Product an assignment delivers: its line's product, or the order's for assignments made
+ * before order lines.
+ */
+export function assignmentProductType(assignment: {
+  orderLine?: { productType: string } | null;
+  order: { productType: string };
+}): string {
+  return assignment.orderLine?.productType ?? assignment.order.productType;
+}
+
+/**
+ * An order's lines, oldest first. Orders created before lines existed are migrated on first use:
+ * they get one line from Order.productType/quantity and their assignments are linked to it.
+ */
+export async function ensureOrderLines(orderId: string): Promise<OrderLine[]> {
+  const lines = await prisma.orderLine.findMany({
+    where: { orderId },
+    orderBy: { createdAt: 'asc' },
+  });
+  if (lines.length > 0) return lines;
+
+  const order = await prisma.order.findUnique({
+    where: { id: orderId },
+    select: { id: true, productType: true, quantity: true },
+  });
+  if (!order) {
+    throw createError('Order not found', 404, 'ORDER_NOT_FOUND');
+  }
+
+  try {
+    const line = await prisma.$transaction(async (tx) => {
+      const created = await tx.orderLine.create({
+        data: { orderId: order.id, productType: order.productType, quantity: order.quantity },
+      });
+      await tx.deliveryAssignment.updateMany({
+        where: { orderId: order.id, orderLineId: null },
+        data: { orderLineId: created.id },
+      });
+      return created;
+    });
+    return [line];
+  } catch (error) {
+    // Another request migrated the same order first
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return prisma.orderLine.findMany({ where: { orderId }, orderBy: { createdAt: 'asc' } });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Migrate every order without lines to a one-line order (see scripts/backfillOrderLines.ts).
+ */
+export async function backfillOrderLines() {
+  let migrated = 0;
+  for (;;) {
+    const orders = await prisma.order.findMany({
+      where: { lines: { none: {} } },
+      select: { id: true },
+      take: BACKFILL_BATCH_SIZE,
+    });
+    if (orders.length === 0) break;
+    for (const order of orders) {
+      await ensureOrderLines(order.id);
+      migrated++;
+    }
+  }
+
+  const unlinked = await prisma.deliveryAssignment.count({ where: { orderLineId: null } });
+  return { migratedOrders: migrated, unlinkedAssignments: unlinked };
+}
+
+/**
+ * Pick the order line an assignment is for. orderLineId may be omitted on one-line orders.
+ */
+export function resolveOrderLine(lines: OrderLine[], orderLineId?: string | null): OrderLine {
+  if (orderLineId) {
+    const line = lines.find((l) => l.id === orderLineId);
+    if (!line) {
+      throw createError('Order line not found on this order', 404, 'ORDER_LINE_NOT_FOUND');
+    }
+    return line;
+  }
+  if (lines.length === 1) return lines[0];
+  throw createError(
+    'This order has several product lines; orderLineId is required',
+    400,
+    'ORDER_LINE_REQUIRED'
+  );
+}
+
+/**
+ * Units already assigned on a line, ignoring cancelled assignments (their quantity can be re-assigned).
+ */
+export function assignedOnLine(
+  assignments: { orderLineId: string | null; assignedQuantity: number; status: AssignmentStatus }[],
+  lineId: string
+): number {
+  return assignments
+    .filter((a) => a.orderLineId === lineId && a.status !== AssignmentStatus.CANCELLED)
+    .reduce((sum, a) => sum + a.assignedQuantity, 0);
+}
+
+interface LineSummarySource {
+  id: string;
+  productType: string;
+  quantity: number;
+}
+
+interface AssignmentSummarySource {
+  id: string;
+  orderLineId: string | null;
+  assignedQuantity: number;
+  status: AssignmentStatus;
+  quantityDelivered: number | null;
+}
+
+/**
+ * Per-line progress: units assigned, delivered and still to allocate, and buyer payments recorded
+ * against the line's deliveries.
+ */
+export function summarizeLineProgress(
+  lines: LineSummarySource[],
+  assignments: AssignmentSummarySource[],
+  payments: { deliveryAssignmentId: string | null; amountPaid: number }[] = []
+) {
+  return lines.map((line) => {
+    const onLine = assignments.filter((a) => a.orderLineId === line.id);
+    const assignmentIds = new Set(onLine.map((a) => a.id));
+    const assignedQuantity = assignedOnLine(onLine, line.id);
+    return {
+      orderLineId: line.id,
+      productType: line.productType,
+      quantity: line.quantity,
+      assignedQuantity,
+      unassignedQuantity: Math.max(0, line.quantity - assignedQuantity),
+      deliveredQuantity: onLine
+        .filter((a) => a.status === AssignmentStatus.DELIVERED)
+        .reduce((sum, a) => sum + (a.quantityDelivered ?? 0), 0),
+      amountPaid: payments
+        .filter((p) => p.deliveryAssignmentId != null && assignmentIds.has(p.deliveryAssignmentId))
+        .reduce((sum, p) => sum + p.amountPaid, 0),
+    };
+  });
+}
@@ -0,0 +1,461 @@
+import { prisma } from '../config/database.js';
+import { createError } from '../middleware/errorHandler.js';
+import { OrderDraft, OrderTemplate, OrderType, Prisma } from '@prisma/client';
+import { createOrder } from './order.service.js';
+import { OrderLineInput, normalizeOrderLines, ensureOrderLines } from './orderLine.service.js';
+
+export interface CreateOrderTemplateData {
+  name: string;
+  lines?: OrderLineInput[];
+  fromOrderId?: string; // Copy lines, address and notes from one of the buyer's orders
+  deliveryAddressId?: string;
+  orderType?: OrderType;
+  notes?: string;
+}
+
+export interface UpdateOrderTemplateData {
+  name?: string;
+  lines?: OrderLineInput[];
+  deliveryAddressId?: string | null;
+  orderType?: OrderType;
+  notes?: string | null;
+}
+
+export interface SubmitOrderTemplateData {
+  deliveryDate: Date;
+  deliveryAddressId?: string; // Overrides the template's address for this order
+  notes?: string;
+}
+
+export interface OrderDraftData {
+  lines?: OrderLineInput[];
+  deliveryAddressId?: string | null;
+  deliveryDate?: Date | null;
+  orderType?: OrderType;
+  notes?: string | null;
+}
+
+export interface CreateOrderDraftData extends OrderDraftData {
+  templateId?: string; // Start from a template; other fields override it
+}
+
+/**
+ * Products and address a template or draft refers to that no longer exist
+ */
+export interface OrderReferenceCheck {
+  missingProducts: string[];
+  addressMissing: boolean;
+}
+
+async function getBuyerId(buyerUserId: string): Promise<string> {
+  const buyer = await prisma.buyer.findUnique({
+    where: { userId: buyerUserId },
+    select: { id: true },
+  });
+  if (!buyer) {
+    throw createError('Buyer not found', 404, 'BUYER_NOT_FOUND');
+  }
+  return buyer.id;
+}
+
+function storedLines(record: Pick<OrderTemplate | OrderDraft, 'lines'>): OrderLineInput[] {
+  return (record.lines as unknown as OrderLineInput[] | null) ?? [];
+}
+
+/**
+ * Draft lines may be empty while the buyer is still filling the cart.
+ */
+function normalizeDraftLines(lines: OrderLineInput[]): OrderLineInput[] {
+  if (lines.length === 0) return [];
+  return normalizeOrderLines({ lines });
+}
+
+/**
+ * Check saved lines and address against ProduceCategory and the buyer's DeliveryAddress rows.
+ * Product names match case-insensitively, as order lines do.
+ */
+async function checkOrderReferences(
+  buyerId: string,
+  records: { lines: OrderLineInput[]; deliveryAddressId: string | null }[]
+): Promise<OrderReferenceCheck[]> {
+  const addressIds = [...new Set(records.map((r) => r.deliveryAddressId).filter((id): id is string => !!id))];
+  const [categories, addresses] = await Promise.all([
+    prisma.produceCategory.findMany({ select: { name: true } }),
+    addressIds.length
+      ? prisma.deliveryAddress.findMany({
+          where: { id: { in: addressIds }, buyerId },
+          select: { id: true },
+        })
+      : Promise.resolve([]),
+  ]);
+  const products = new Set(categories.map((c) => c.name.toLowerCase()));
+  const existingAddresses = new Set(addresses.map((a) => a.id));
+
+  return records.map((record) => ({
+    missingProducts: record.lines
+      .map((l) => l.productType)
+      .filter((p) => !products.has(p.toLowerCase())),
+    addressMissing: !!record.deliveryAddressId && !existingAddresses.has(record.deliveryAddressId),
+  }));
+}
+
+async function assertOrderReferences(
+  buyerId: string,
+  lines: OrderLineInput[],
+  deliveryAddressId: string | null
+) {
+  const [check] = await checkOrderReferences(buyerId, [{ lines, deliveryAddressId }]);
+  if (check.missingProducts.length > 0) {
+    throw createError(
+      `These products are no longer available: ${check.missingProducts.join(', ')}`,
+      400,
+      'UNKNOWN_PRODUCT'
+    );
+  }
+  if (check.addressMissing) {
+    throw createError(
+      'Delivery address not found or does not belong to you',
+      404,
+      'ADDRESS_NOT_FOUND'
+    );
+  }
+}
+
+function withReferenceCheck<T extends OrderTemplate | OrderDraft>(record: T, check: OrderReferenceCheck) {
+  return {
+    ...record,
+    ...check,
+    usable: check.missingProducts.length === 0 && !check.addressMissing,
+  };
+}
+
+function isDuplicateName(error: unknown) {
+  return error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+}
+
+// --- Templates ---
+
+/**
+ * Buyer's saved order templates, most recently used first, each with the products/address that
+ * have since been removed.
+ */
+export async function getOrderTemplatesByBuyer(buyerUserId: string) {
+  const buyerId = await getBuyerId(buyerUserId);
+  const templates = await prisma.orderTemplate.findMany({
+    where: { buyerId },
+    orderBy: [{ lastUsedAt: { sort: 'desc', nulls: 'last' } }, { createdAt: 'desc' }],
+  });
+  const checks = await checkOrderReferences(
+    buyerId,
+    templates.map((t) => ({ lines: storedLines(t), deliveryAddressId: t.deliveryAddressId }))
+  );
+  return templates.map((t, i) => withReferenceCheck(t, checks[i]));
+}
+
+async function findTemplate(templateId: string, buyerId: string) {
+  const template = await prisma.orderTemplate.findFirst({
+    where: { id: templateId, buyerId },
+  });
+  if (!template) {
+    throw createError('Order template not found', 404, 'ORDER_TEMPLATE_NOT_FOUND');
+  }
+  return template;
+}
+
+/**
+ * Get one template (must belong to buyer)
+ */
+export async function getOrderTemplateById(templateId: string, buyerUserId: string) {
+  const buyerId = await getBuyerId(buyerUserId);
+  const template = await findTemplate(templateId, buyerId);
+  const [check] = await checkOrderReferences(buyerId, [
+    { lines: storedLines(template), deliveryAddressId: template.deliveryAddressId },
+  ]);
+  return withReferenceCheck(template, check);
+}
+
+/**
+ * Save a named template from explicit lines or from one of the buyer's existing orders.
+ */
+export async function createOrderTemplate(buyerUserId: string, data: CreateOrderTemplateData) {
+  const buyerId = await getBuyerId(buyerUserId);
+
+  let lines = data.lines;
+  let deliveryAddressId = data.deliveryAddressId ?? null;
+  let notes = data.notes?.trim() || null;
+  if (data.fromOrderId) {
+    const order = await prisma.order.findFirst({
+      where: { id: data.fromOrderId, buyerId },
+      select: { id: true, deliveryAddressId: true, notes: true },
+    });
+    if (!order) {
+      throw createError('Order not found', 404, 'ORDER_NOT_FOUND');
+    }
+    lines ??= (await ensureOrderLines(order.id)).map((l) => ({
+      productType: l.productType,
+      quantity: l.quantity,
+      notes: l.notes ?? undefined,
+    }));
+    deliveryAddressId = data.deliveryAddressId ?? order.deliveryAddressId;
+    notes = data.notes?.trim() || order.notes;
+  }
+
+  const normalized = normalizeOrderLines({ lines });
+  await assertOrderReferences(buyerId, normalized, deliveryAddressId);
+
+  try {
+    return await prisma.orderTemplate.create({
+      data: {
+        buyerId,
+        name: data.name.trim(),
+        lines: normalized as unknown as Prisma.InputJsonArray,
+        deliveryAddressId,
+        orderType: data.orderType ?? OrderType.ONE_TIME,
+        notes,
+      },
+    });
+  } catch (error) {
+    if (isDuplicateName(error)) {
+      throw createError('You already have a template with this name', 409, 'DUPLICATE_TEMPLATE_NAME');
+    }
+    throw error;
+  }
+}
+
+/**
+ * Rename or amend a template. Changed lines/address are checked like on creation.
+ */
+export async function updateOrderTemplate(
+  templateId: string,
+  buyerUserId: string,
+  data: UpdateOrderTemplateData
+) {
+  const buyerId = await getBuyerId(buyerUserId);
+  const template = await findTemplate(templateId, buyerId);
+
+  const lines = data.lines !== undefined ? normalizeOrderLines({ lines: data.lines }) : undefined;
+  if (lines !== undefined || data.deliveryAddressId) {
+    await assertOrderReferences(buyerId, lines ?? [], data.deliveryAddressId ?? null);
+  }
+
+  try {
+    return await prisma.orderTemplate.update({
+      where: { id: template.id },
+      data: {
+        ...(data.name !== undefined && { name: data.name.trim() }),
+        ...(lines !== undefined && { lines: lines as unknown as Prisma.InputJsonArray }),
+        ...(data.deliveryAddressId !== undefined && { deliveryAddressId: data.deliveryAddressId }),
+        ...(data.orderType !== undefined && { orderType: data.orderType }),
+        ...(data.notes !== undefined && { notes: data.notes?.trim() || null }),
+      },
+    });
+  } catch (error) {
+    if (isDuplicateName(error)) {
+      throw createError('You already have a template with this name', 409, 'DUPLICATE_TEMPLATE_NAME');
+    }
+    throw error;
+  }
+}
+
+/**
+ * Delete a template. Drafts started from it are kept.
+ */
+export async function deleteOrderTemplate(templateId: string, buyerUserId: string) {
+  const buyerId = await getBuyerId(buyerUserId);
+  const template = await findTemplate(templateId, buyerId);
+  await prisma.orderTemplate.delete({ where: { id: template.id } });
+}
+
+/**
+ * Place an order from a template for the given delivery date. Fails if a product or the address
+ * has been removed since the template was saved; the buyer then edits the template or uses a draft.
+ */
+export async function submitOrderTemplate(
+  templateId: string,
+  buyerUserId: string,
+  data: SubmitOrderTemplateData
+) {
+  const buyerId = await getBuyerId(buyerUserId);
+  const template = await findTemplate(templateId, buyerId);
+
+  const deliveryAddressId = data.deliveryAddressId ?? template.deliveryAddressId;
+  if (!deliveryAddressId) {
+    throw createError(
+      'This template has no delivery address; provide deliveryAddressId',
+      400,
+      'ADDRESS_REQUIRED'
+    );
+  }
+  const lines = storedLines(template);
+  await assertOrderReferences(buyerId, lines, deliveryAddressId);
+
+  const order = await createOrder(buyerUserId, {
+    lines,
+    orderType: template.orderType,
+    deliveryDate: data.deliveryDate,
+    deliveryAddressId,
+    notes: data.notes ?? template.notes ?? undefined,
+  });
+
+  await prisma.orderTemplate.update({
+    where: { id: template.id },
+    data: { lastUsedAt: new Date() },
+  });
+
+  return order;
+}
+
+// --- Drafts ---
+
+/**
+ * Buyer's open drafts, most recently edited first
+ */
+export async function getOrderDraftsByBuyer(buyerUserId: string) {
+  const buyerId = await getBuyerId(buyerUserId);
+  const drafts = await prisma.orderDraft.findMany({
+    where: { buyerId },
+    orderBy: { updatedAt: 'desc' },
+  });
+  const checks = await checkOrderReferences(
+    buyerId,
+    drafts.map((d) => ({ lines: storedLines(d), deliveryAddressId: d.deliveryAddressId }))
+  );
+  return drafts.map((d, i) => withReferenceCheck(d, checks[i]));
+}
+
+async function findDraft(draftId: string, buyerId: string) {
+  const draft = await prisma.orderDraft.findFirst({
+    where: { id: draftId, buyerId },
+  });
+  if (!draft) {
+    throw createError('Order draft not found', 404, 'ORDER_DRAFT_NOT_FOUND');
+  }
+  return draft;
+}
+
+/**
+ * Get one draft (must belong to buyer)
+ */
+export async function getOrderDraftById(draftId: string, buyerUserId: string) {
+  const buyerId = await getBuyerId(buyerUserId);
+  const draft = await findDraft(draftId, buyerId);
+  const [check] = await checkOrderReferences(buyerId, [
+    { lines: storedLines(draft), deliveryAddressId: draft.deliveryAddressId },
+  ]);
+  return withReferenceCheck(draft, check);
+}
+
+function validateDraftDeliveryDate(deliveryDate: Date | null | undefined) {
+  if (deliveryDate && deliveryDate <= new Date()) {
+    throw createError('Delivery date must be in the future', 400, 'INVALID_DELIVERY_DATE');
+  }
+}
+
+/**
+ * Start a draft, empty or from a template. Saved lines and address must exist; the rest may be
+ * filled in later.
+ */
+export async function createOrderDraft(buyerUserId: string, data: CreateOrderDraftData) {
+  const buyerId = await getBuyerId(buyerUserId);
+  const template = data.templateId ? await findTemplate(data.templateId, buyerId) : null;
+
+  const lines = normalizeDraftLines(data.lines ?? (template ? storedLines(template) : []));
+  const deliveryAddressId =
+    data.deliveryAddressId !== undefined ? data.deliveryAddressId : template?.deliveryAddressId ?? null;
+  validateDraftDeliveryDate(data.deliveryDate);
+  await assertOrderReferences(buyerId, lines, deliveryAddressId);
+
+  return prisma.orderDraft.create({
+    data: {
+      buyerId,
+      templateId: template?.id ?? null,
+      lines: lines as unknown as Prisma.InputJsonArray,
+      deliveryAddressId,
+      deliveryDate: data.deliveryDate ?? null,
+      orderType: data.orderType ?? template?.orderType ?? OrderType.ONE_TIME,
+      notes: data.notes !== undefined ? data.notes?.trim() || null : template?.notes ?? null,
+    },
+  });
+}
+
+async function applyDraftChanges(draft: OrderDraft, buyerId: string, data: OrderDraftData) {
+  const lines = data.lines !== undefined ? normalizeDraftLines(data.lines) : undefined;
+  validateDraftDeliveryDate(data.deliveryDate);
+  if (lines !== undefined || data.deliveryAddressId) {
+    await assertOrderReferences(buyerId, lines ?? [], data.deliveryAddressId ?? null);
+  }
+
+  return prisma.orderDraft.update({
+    where: { id: draft.id },
+    data: {
+      ...(lines !== undefined && { lines: lines as unknown as Prisma.InputJsonArray }),
+      ...(data.deliveryAddressId !== undefined && { deliveryAddressId: data.deliveryAddressId }),
+      ...(data.deliveryDate !== undefined && { deliveryDate: data.deliveryDate }),
+      ...(data.orderType !== undefined && { orderType: data.orderType }),
+      ...(data.notes !== undefined && { notes: data.notes?.trim() || null }),
+    },
+  });
+}
+
+/**
+ * Edit a draft (partial; null clears a field). `lines` replaces the whole cart.
+ */
+export async function updateOrderDraft(draftId: string, buyerUserId: string, data: OrderDraftData) {
+  const buyerId = await getBuyerId(buyerUserId);
+  const draft = await findDraft(draftId, buyerId);
+  return applyDraftChanges(draft, buyerId, data);
+}
+
+/**
+ * Discard a draft
+ */
+export async function deleteOrderDraft(draftId: string, buyerUserId: string) {
+  const buyerId = await getBuyerId(buyerUserId);
+  const draft = await findDraft(draftId, buyerId);
+  await prisma.orderDraft.delete({ where: { id: draft.id } });
+}
+
+/**
+ * Apply last edits (if any) and place the order through createOrder. The draft is removed once the
+ * order exists; an incomplete draft is kept with its edits and the missing fields are reported.
+ */
+export async function submitOrderDraft(draftId: string, buyerUserId: string, data: OrderDraftData = {}) {
+  const buyerId = await getBuyerId(buyerUserId);
+  let draft = await findDraft(draftId, buyerId);
+  if (Object.values(data).some((value) => value !== undefined)) {
+    draft = await applyDraftChanges(draft, buyerId, data);
+  }
+
+  const lines = storedLines(draft);
+  const missing = [
+    lines.length === 0 && 'lines',
+    !draft.deliveryAddressId && 'deliveryAddressId',
+    !draft.deliveryDate && 'deliveryDate',
+  ].filter((field): field is string => !!field);
+  if (missing.length > 0 || !draft.deliveryAddressId || !draft.deliveryDate) {
+    throw createError(
+      `Draft is incomplete. Missing: ${missing.join(', ')}`,
+      400,
+      'DRAFT_INCOMPLETE'
+    );
+  }
+  await assertOrderReferences(buyerId, lines, draft.deliveryAddressId);
+
+  const order = await createOrder(buyerUserId, {
+    lines,
+    orderType: draft.orderType,
+    deliveryDate: draft.deliveryDate,
+    deliveryAddressId: draft.deliveryAddressId,
+    notes: draft.notes ?? undefined,
+  });
+
+  await prisma.orderDraft.deleteMany({ where: { id: draft.id } });
+  if (draft.templateId) {
+    await prisma.orderTemplate.updateMany({
+      where: { id: draft.templateId },
+      data: { lastUsedAt: new Date() },
+    });
+  }
+
+  return order;
+}
@@ -0,0 +1,207 @@
+import { prisma } from '../config/database.js';
+import { createError } from '../middleware/errorHandler.js';
+import { toE164 } from '../utils/validation.js';
+import { generatePhoneVerificationToken } from '../utils/jwt.js';
+import { queueDelivery } from './notificationDelivery.service.js';
+import { getSmsProvider } from '../providers/sms.provider.js';
+import { DeliveryChannel, UserRole } from '@prisma/client';
+import * as crypto from 'crypto';
+
+/** SMS codes are valid for 5 minutes */
+const OTP_TTL_MINUTES = 5;
+const OTP_LENGTH = 6;
+/** Wrong guesses allowed before a code is void */
+const MAX_OTP_ATTEMPTS = 5;
+/** Send attempts for the SMS; retries after 1 and 2 minutes still land before the code expires */
+const MAX_SEND_ATTEMPTS = 3;
+
+/**
+ * Request limits. Counted from stored codes (not in memory) so they hold across
+ * serverless instances.
+ */
+const PHONE_LIMIT = { max: 3, windowMinutes: 15 };
+const IP_LIMIT = { max: 10, windowMinutes: 60 };
+
+export type OtpPurpose = 'LOGIN' | 'VERIFY_PHONE';
+
+/** OTPs are short, so they are hashed together with the phone number */
+function hashOtp(phone: string, code: string): string {
+  return crypto.createHash('sha256').update(`${phone}:${code}`).digest('hex');
+}
+
+function generateOtp(): string {
+  return crypto.randomInt(0, 10 ** OTP_LENGTH).toString().padStart(OTP_LENGTH, '0');
+}
+
+function normalizePhone(phone: string): string {
+  const phoneE164 = toE164(phone);
+  if (!phoneE164) {
+    throw createError('Invalid phone number format', 400, 'INVALID_PHONE');
+  }
+  return phoneE164;
+}
+
+function minutesAgo(minutes: number): Date {
+  return new Date(Date.now() - minutes * 60 * 1000);
+}
+
+async function assertWithinRateLimits(phone: string, ipAddress?: string | null) {
+  const perPhone = await prisma.phoneOtp.count({
+    where: { phone, createdAt: { gte: minutesAgo(PHONE_LIMIT.windowMinutes) } },
+  });
+  if (perPhone >= PHONE_LIMIT.max) {
+    throw createError(
+      `Too many codes requested for this phone number. Try again in ${PHONE_LIMIT.windowMinutes} minutes.`,
+      429,
+      'RATE_LIMITED'
+    );
+  }
+
+  if (ipAddress) {
+    const perIp = await prisma.phoneOtp.count({
+      where: { ipAddress, createdAt: { gte: minutesAgo(IP_LIMIT.windowMinutes) } },
+    });
+    if (perIp >= IP_LIMIT.max) {
+      throw createError('Too many codes requested. Please try again later.', 429, 'RATE_LIMITED');
+    }
+  }
+}
+
+/**
+ * Send a one-time code by SMS.
+ * LOGIN codes are only sent to registered farmers; for any other number the request is still
+ * recorded (so it counts towards the limits) and the response is the same, so callers cannot
+ * probe which numbers have accounts.
+ * @returns The code (for development responses) or null when nothing was sent
+ */
+export async function requestPhoneOtp(
+  phone: string,
+  purpose: OtpPurpose,
+  ipAddress?: string | null
+): Promise<{ code: string | null; expiresAt: Date }> {
+  const phoneE164 = normalizePhone(phone);
+  await assertWithinRateLimits(phoneE164, ipAddress);
+
+  let deliver = true;
+  if (purpose === 'LOGIN') {
+    const farmer = await prisma.user.findFirst({
+      where: { phone: phoneE164, role: UserRole.FARMER },
+      select: { id: true },
+    });
+    deliver = !!farmer;
+  }
+
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + OTP_TTL_MINUTES * 60 * 1000);
+  const code = generateOtp();
+
+  // Void earlier unused codes and purge ones that expired over a day ago
+  await prisma.phoneOtp.updateMany({
+    where: { phone: phoneE164, purpose, consumedAt: null, expiresAt: { gt: now } },
+    data: { expiresAt: now },
+  });
+  await prisma.phoneOtp.deleteMany({
+    where: { expiresAt: { lt: new Date(now.getTime() - 24 * 60 * 60 * 1000) } },
+  });
+
+  await prisma.phoneOtp.create({
+    data: {
+      phone: phoneE164,
+      purpose,
+      codeHash: hashOtp(phoneE164, code),
+      expiresAt,
+      ipAddress: ipAddress ?? null,
+    },
+  });
+
+  if (!deliver || !getSmsProvider()) {
+    return { code: deliver ? code : null, expiresAt };
+  }
+
+  // Sent through the outbox so a cut-off request is retried
+  const action = purpose === 'LOGIN' ? 'login' : 'verification';
+  await queueDelivery({
+    channel: DeliveryChannel.SMS,
+    recipient: phoneE164,
+    body: `Your Sourceli ${action} code is ${code}. It expires in ${OTP_TTL_MINUTES} minutes. Never share this code with anyone.`,
+    maxAttempts: MAX_SEND_ATTEMPTS,
+    sensitive: true,
+  });
+
+  return { code, expiresAt };
+}
+
+/**
+ * Check and consume a one-time code. Every wrong guess counts against the active code;
+ * after MAX_OTP_ATTEMPTS the code is void and a new one must be requested.
+ * @returns The verified phone number in E.164 format
+ */
+export async function verifyPhoneOtp(phone: string, code: string, purpose: OtpPurpose): Promise<string> {
+  const phoneE164 = normalizePhone(phone);
+
+  const record = await prisma.phoneOtp.findFirst({
+    where: {
+      phone: phoneE164,
+      purpose,
+      consumedAt: null,
+      expiresAt: { gt: new Date() },
+    },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  if (!record || record.attempts >= MAX_OTP_ATTEMPTS) {
+    throw createError('Invalid or expired code', 400, 'INVALID_CODE');
+  }
+
+  if (record.codeHash !== hashOtp(phoneE164, code)) {
+    const updated = await prisma.phoneOtp.update({
+      where: { id: record.id },
+      data: { attempts: { increment: 1 } },
+    });
+    const remaining = MAX_OTP_ATTEMPTS - updated.attempts;
+    throw createError(
+      remaining > 0
+        ? `Incorrect code. ${remaining} attempt${remaining === 1 ? '' : 's'} remaining.`
+        : 'Too many incorrect attempts. Please request a new code.',
+      400,
+      remaining > 0 ? 'INVALID_CODE' : 'TOO_MANY_ATTEMPTS'
+    );
+  }
+
+  // Conditional update keeps the code single-use if two requests race
+  const { count } = await prisma.phoneOtp.updateMany({
+    where: { id: record.id, consumedAt: null },
+    data: { consumedAt: new Date() },
+  });
+  if (count === 0) {
+    throw createError('Invalid or expired code', 400, 'INVALID_CODE');
+  }
+
+  return phoneE164;
+}
+
+/**
+ * Verify phone ownership. An existing account with the number is marked verified;
+ * otherwise a short-lived token is returned to submit with the registration form.
+ */
+export async function confirmPhoneVerification(
+  phone: string,
+  code: string
+): Promise<{ phone: string; phoneVerified: true; phoneVerificationToken?: string }> {
+  const phoneE164 = await verifyPhoneOtp(phone, code, 'VERIFY_PHONE');
+
+  const { count } = await prisma.user.updateMany({
+    where: { phone: phoneE164 },
+    data: { phoneVerifiedAt: new Date() },
+  });
+
+  if (count > 0) {
+    return { phone: phoneE164, phoneVerified: true };
+  }
+
+  return {
+    phone: phoneE164,
+    phoneVerified: true,
+    phoneVerificationToken: generatePhoneVerificationToken(phoneE164),
+  };
+}
@@ -3,51 +3,103 @@ import { env } from '../config/env.js';
 import { hashPassword, verifyPassword } from '../utils/password.js';
 import { createError } from '../middleware/errorHandler.js';
 import { toE164, isValidPhone } from '../utils/validation.js';
-import { sendEmail } from './notificationDelivery.service.js';
+import { queueDelivery } from './notificationDelivery.service.js';
 import { getEmailHtml } from '../templates/emailTemplate.js';
+import { getEmailProvider } from '../providers/email.provider.js';
+import { getSmsProvider } from '../providers/sms.provider.js';
+import { DeliveryChannel } from '@prisma/client';
+import { revokeAllSessions } from './session.service.js';
 import * as crypto from 'crypto';
 
-// Password reset token storage (in production, use Redis or database)
-// For MVP, we'll store in memory with expiration
-interface ResetToken {
-  userId: string;
-  token: string;
-  expiresAt: Date;
+/** Emailed reset links are valid for 1 hour */
+const LINK_TOKEN_TTL_MINUTES = 60;
+/** SMS codes are valid for 15 minutes */
+const OTP_TTL_MINUTES = 15;
+const OTP_LENGTH = 6;
+/** Wrong guesses allowed before an SMS code is void */
+const MAX_OTP_ATTEMPTS = 5;
+/** Send attempts for the SMS; retries after 1, 2 and 4 minutes still land before the code expires */
+const MAX_SEND_ATTEMPTS = 4;
+
+/**
+ * SMS code request limits. Counted from stored tokens (not in memory) so they hold across
+ * serverless instances.
+ */
+const USER_LIMIT = { max: 3, windowMinutes: 15 };
+const IP_LIMIT = { max: 10, windowMinutes: 60 };
+
+export type ResetChannel = 'EMAIL' | 'SMS';
+
+function hashToken(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('hex');
 }
 
-const resetTokens = new Map<string, ResetToken>();
+/** OTPs are short, so they are hashed together with the user ID */
+function hashOtp(userId: string, code: string): string {
+  return hashToken(`${userId}:${code}`);
+}
 
-// Clean up expired tokens every hour
-setInterval(() => {
-  const now = new Date();
-  const tokensToDelete: string[] = [];
-  resetTokens.forEach((data, token) => {
-    if (data.expiresAt < now) {
-      tokensToDelete.push(token);
-    }
+function generateOtp(): string {
+  return crypto.randomInt(0, 10 ** OTP_LENGTH).toString().padStart(OTP_LENGTH, '0');
+}
+
+function minutesAgo(minutes: number): Date {
+  return new Date(Date.now() - minutes * 60 * 1000);
+}
+
+async function assertWithinSmsRateLimits(userId: string, ipAddress?: string | null) {
+  const perUser = await prisma.passwordResetToken.count({
+    where: { userId, channel: 'SMS', createdAt: { gte: minutesAgo(USER_LIMIT.windowMinutes) } },
   });
-  tokensToDelete.forEach((token) => resetTokens.delete(token));
-}, 60 * 60 * 1000); // 1 hour
+  if (perUser >= USER_LIMIT.max) {
+    throw createError(
+      `Too many reset codes requested. Try again in ${USER_LIMIT.windowMinutes} minutes.`,
+      429,
+      'RATE_LIMITED'
+    );
+  }
 
-/**
- * Generate password reset token
- * @param emailOrPhone - User's email or phone
- * @returns Reset token (to be sent via email/SMS)
- */
-export async function generatePasswordResetToken(
-  emailOrPhone: string
-): Promise<string> {
-  // Find user by email or phone (normalize phone for E.164 match)
+  if (ipAddress) {
+    const perIp = await prisma.passwordResetToken.count({
+      where: { ipAddress, channel: 'SMS', createdAt: { gte: minutesAgo(IP_LIMIT.windowMinutes) } },
+    });
+    if (perIp >= IP_LIMIT.max) {
+      throw createError('Too many reset codes requested. Please try again later.', 429, 'RATE_LIMITED');
+    }
+  }
+}
+
+async function findUserByEmailOrPhone(emailOrPhone: string) {
+  // Normalize phone for E.164 match
   const phoneLookups: { phone: string }[] = [{ phone: emailOrPhone.trim() }];
   if (isValidPhone(emailOrPhone)) {
     const e164 = toE164(emailOrPhone);
     if (e164) phoneLookups.push({ phone: e164 });
   }
-  const user = await prisma.user.findFirst({
+  return prisma.user.findFirst({
     where: {
       OR: [{ email: emailOrPhone.trim() }, ...phoneLookups],
     },
   });
+}
+
+/**
+ * Generate password reset token
+ * EMAIL channel: a random link token sent by email. SMS channel: a 6-digit code sent by SMS
+ * (for farmers who only use a phone). Defaults to SMS when a phone number was entered.
+ * Requesting a new token voids any earlier unused ones for the user. SMS codes are limited to
+ * 3 per user per 15 minutes and 10 per IP address per hour.
+ * @param emailOrPhone - User's email or phone
+ * @param channel - Delivery channel (optional)
+ * @param ipAddress - Requesting IP address, for the SMS rate limit (optional)
+ * @returns Reset token or code (to be sent via email/SMS)
+ */
+export async function generatePasswordResetToken(
+  emailOrPhone: string,
+  channel?: ResetChannel,
+  ipAddress?: string | null
+): Promise<string> {
+  const user = await findUserByEmailOrPhone(emailOrPhone);
 
   if (!user) {
     // Don't reveal if user exists (security best practice)
@@ -55,65 +107,192 @@ export async function generatePasswordResetToken(
     return 'token_generated'; // Dummy token to prevent user enumeration
   }
 
+  const resolvedChannel: ResetChannel =
+    channel ?? (isValidPhone(emailOrPhone) && !emailOrPhone.includes('@') ? 'SMS' : 'EMAIL');
+  if (resolvedChannel === 'SMS') {
+    await assertWithinSmsRateLimits(user.id, ipAddress);
+  }
+  const now = new Date();
+
+  // Void earlier unused tokens and purge ones that expired over a day ago
+  await prisma.passwordResetToken.updateMany({
+    where: { userId: user.id, usedAt: null, expiresAt: { gt: now } },
+    data: { expiresAt: now },
+  });
+  await prisma.passwordResetToken.deleteMany({
+    where: { expiresAt: { lt: new Date(now.getTime() - 24 * 60 * 60 * 1000) } },
+  });
+
+  if (resolvedChannel === 'SMS') {
+    const code = generateOtp();
+    await prisma.passwordResetToken.create({
+      data: {
+        userId: user.id,
+        tokenHash: hashOtp(user.id, code),
+        channel: 'SMS',
+        expiresAt: new Date(now.getTime() + OTP_TTL_MINUTES * 60 * 1000),
+        ipAddress: ipAddress ?? null,
+      },
+    });
+
+    // Sent through the outbox so a cut-off request is retried; quiet hours do not apply
+    const phoneE164 = toE164(user.phone);
+    if (phoneE164 && getSmsProvider()) {
+      await queueDelivery({
+        userId: user.id,
+        channel: DeliveryChannel.SMS,
+        recipient: phoneE164,
+        body: `Your Sourceli password reset code is ${code}. It expires in ${OTP_TTL_MINUTES} minutes. If you didn't request this, ignore this message.`,
+        maxAttempts: MAX_SEND_ATTEMPTS,
+        sensitive: true,
+      });
+    }
+
+    return code;
+  }
+
   // Generate secure random token
   const token = crypto.randomBytes(32).toString('hex');
-  const expiresAt = new Date();
-  expiresAt.setHours(expiresAt.getHours() + 1); // Token expires in 1 hour
-
-  // Store token
-  resetTokens.set(token, {
-    userId: user.id,
-    token,
-    expiresAt,
+  await prisma.passwordResetToken.create({
+    data: {
+      userId: user.id,
+      tokenHash: hashToken(token),
+      channel: 'EMAIL',
+      expiresAt: new Date(now.getTime() + LINK_TOKEN_TTL_MINUTES * 60 * 1000),
+    },
   });
 
-  // Send reset link via email when user has email and SendGrid is configured
-  if (user.email && env.SENDGRID_API_KEY && env.SENDGRID_FROM_EMAIL) {
+  // Send reset link via email when user has email and an email provider is configured
+  if (user.email && getEmailProvider()) {
     const resetLink = `${env.CORS_ORIGIN}/reset-password?token=${token}`;
     const subject = 'Reset your Sourceli password';
     const text = `You requested a password reset. Click the link below to set a new password (link expires in 1 hour):\n\n${resetLink}\n\nIf you didn't request this, you can ignore this email.`;
     const html = getEmailHtml(subject, text.replace(/\n/g, '\n\n'));
-    sendEmail(user.email, subject, text, html).catch((err) =>
-      console.error('[Password reset] Email send failed:', err)
-    );
+    await queueDelivery({
+      userId: user.id,
+      channel: DeliveryChannel.EMAIL,
+      recipient: user.email,
+      subject,
+      body: text,
+      html,
+      sensitive: true,
+    });
   }
 
   return token;
 }
 
 /**
- * Reset password using token
- * @param token - Password reset token
- * @param newPassword - New password
+ * Look up a usable link token (unused, not expired).
  */
-export async function resetPassword(
-  token: string,
-  newPassword: string
-): Promise<void> {
-  // Find token
-  const tokenData = resetTokens.get(token);
+async function findValidLinkToken(token: string) {
+  const record = await prisma.passwordResetToken.findFirst({
+    where: { tokenHash: hashToken(token), channel: 'EMAIL' },
+  });
 
-  if (!tokenData) {
+  if (!record || record.usedAt) {
     throw createError('Invalid or expired reset token', 400, 'INVALID_TOKEN');
   }
 
-  // Check if token is expired
-  if (tokenData.expiresAt < new Date()) {
-    resetTokens.delete(token);
+  if (record.expiresAt < new Date()) {
     throw createError('Reset token has expired', 400, 'TOKEN_EXPIRED');
   }
 
+  return record;
+}
+
+/**
+ * Check an SMS code for a user. Every wrong guess counts against the active code;
+ * after MAX_OTP_ATTEMPTS the code is void and a new one must be requested.
+ */
+async function findValidOtp(emailOrPhone: string, code: string) {
+  const user = await findUserByEmailOrPhone(emailOrPhone);
+  const record = user
+    ? await prisma.passwordResetToken.findFirst({
+        where: {
+          userId: user.id,
+          channel: 'SMS',
+          usedAt: null,
+          expiresAt: { gt: new Date() },
+        },
+        orderBy: { createdAt: 'desc' },
+      })
+    : null;
+
+  if (!user || !record || record.attempts >= MAX_OTP_ATTEMPTS) {
+    throw createError('Invalid or expired reset code', 400, 'INVALID_TOKEN');
+  }
+
+  if (record.tokenHash !== hashOtp(user.id, code)) {
+    const updated = await prisma.passwordResetToken.update({
+      where: { id: record.id },
+      data: { attempts: { increment: 1 } },
+    });
+    const remaining = MAX_OTP_ATTEMPTS - updated.attempts;
+    throw createError(
+      remaining > 0
+        ? `Incorrect reset code. ${remaining} attempt${remaining === 1 ? '' : 's'} remaining.`
+        : 'Too many incorrect attempts. Please request a new code.',
+      400,
+      remaining > 0 ? 'INVALID_TOKEN' : 'TOO_MANY_ATTEMPTS'
+    );
+  }
+
+  return record;
+}
+
+/**
+ * Mark a reset token used and set the new password. The conditional update makes the token
+ * single-use even if two requests race.
+ */
+async function consumeTokenAndSetPassword(tokenId: string, userId: string, newPassword: string) {
+  const { count } = await prisma.passwordResetToken.updateMany({
+    where: { id: tokenId, usedAt: null },
+    data: { usedAt: new Date() },
+  });
+  if (count === 0) {
+    throw createError('Invalid or expired reset token', 400, 'INVALID_TOKEN');
+  }
+
   // Hash new password
   const passwordHash = await hashPassword(newPassword);
 
   // Update user password
   await prisma.user.update({
-    where: { id: tokenData.userId },
+    where: { id: userId },
     data: { passwordHash },
   });
 
-  // Delete used token
-  resetTokens.delete(token);
+  // Sign out every device; whoever requested the reset logs in with the new password
+  await revokeAllSessions(userId, 'PASSWORD_RESET');
+}
+
+/**
+ * Reset password using an emailed link token
+ * @param token - Password reset token
+ * @param newPassword - New password
+ */
+export async function resetPassword(
+  token: string,
+  newPassword: string
+): Promise<void> {
+  const record = await findValidLinkToken(token);
+  await consumeTokenAndSetPassword(record.id, record.userId, newPassword);
+}
+
+/**
+ * Reset password using an SMS code
+ * @param emailOrPhone - User's email or phone
+ * @param code - Numeric code received by SMS
+ * @param newPassword - New password
+ */
+export async function resetPasswordWithCode(
+  emailOrPhone: string,
+  code: string,
+  newPassword: string
+): Promise<void> {
+  const record = await findValidOtp(emailOrPhone, code);
+  await consumeTokenAndSetPassword(record.id, record.userId, newPassword);
 }
 
 /**
@@ -121,11 +300,13 @@ export async function resetPassword(
  * @param userId - User ID
  * @param currentPassword - Current password
  * @param newPassword - New password
+ * @param currentSessionId - Session making the change; stays signed in while all others are revoked
  */
 export async function changePassword(
   userId: string,
   currentPassword: string,
-  newPassword: string
+  newPassword: string,
+  currentSessionId?: string
 ): Promise<void> {
   // Get user
   const user = await prisma.user.findUnique({
@@ -150,25 +331,26 @@ export async function changePassword(
     where: { id: userId },
     data: { passwordHash },
   });
+
+  await revokeAllSessions(userId, 'PASSWORD_CHANGE', currentSessionId);
 }
 
 /**
  * Verify password reset token (without resetting)
  * Useful for checking if token is valid before showing reset form
  */
-export function verifyResetToken(token: string): boolean {
-  const tokenData = resetTokens.get(token);
-
-  if (!tokenData) {
-    return false;
-  }
-
-  // Check if expired
-  if (tokenData.expiresAt < new Date()) {
-    resetTokens.delete(token);
+export async function verifyResetToken(token: string): Promise<boolean> {
+  try {
+    await findValidLinkToken(token);
+    return true;
+  } catch {
     return false;
   }
-
-  return true;
 }
 
+/**
+ * Verify an SMS reset code (without resetting). Wrong codes count as attempts.
+ */
+export async function verifyResetCode(emailOrPhone: string, code: string): Promise<void> {
+  await findValidOtp(emailOrPhone, code);
+}
@@ -1,6 +1,7 @@
 import { prisma } from '../config/database.js';
 import { createError } from '../middleware/errorHandler.js';
-import { PaymentStatus, PaymentMethod, AssignmentStatus } from '@prisma/client';
+import { PaymentStatus, PaymentMethod } from '@prisma/client';
+import { calculateDeliveredValue } from './pricing.service.js';
 
 export interface RecordPaymentData {
   farmerId: string;
@@ -13,29 +14,13 @@ export interface RecordPaymentData {
 
 /**
  * Calculate amount owed to a farmer from confirmed deliveries
+ * Each delivered assignment is charged as quantity delivered × agreed unit price (see pricing.service)
  */
 export async function calculateAmountOwed(farmerId: string) {
-  // Get all delivered assignments for the farmer
-  const deliveredAssignments = await prisma.deliveryAssignment.findMany({
-    where: {
-      farmerId,
-      status: AssignmentStatus.DELIVERED,
-    },
-    include: {
-      order: true,
-    },
+  const { totalValue: totalOwed, deliveredAssignments, unpricedAssignmentIds } = await calculateDeliveredValue({
+    farmerId,
   });
 
-  // Calculate total owed (this would typically use pricing, but for MVP we'll use a simple calculation)
-  // In a real system, you'd calculate: quantity * price per unit
-  // For now, we'll just sum up the assigned quantities as a placeholder
-  const totalOwed = deliveredAssignments.reduce((sum, assignment) => {
-    // TODO: Replace with actual pricing calculation
-    // For MVP, we'll use a simple calculation based on quantity
-    const pricePerUnit = 100; // Placeholder price
-    return sum + (assignment.assignedQuantity * pricePerUnit);
-  }, 0);
-
   // Get total paid
   const payments = await prisma.payment.findMany({
     where: {
@@ -49,7 +34,9 @@ export async function calculateAmountOwed(farmerId: string) {
     totalOwed,
     totalPaid,
     outstandingBalance: totalOwed - totalPaid,
-    deliveredAssignments: deliveredAssignments.length,
+    deliveredAssignments,
+    // Delivered but without an agreed price: not included in totalOwed
+    unpricedAssignmentIds,
   };
 }
 
@@ -167,6 +154,7 @@ export async function getFarmerPayments(farmerId: string) {
     include: {
       assignment: {
         include: {
+          orderLine: { select: { id: true, productType: true, quantity: true } },
           order: {
             select: {
               id: true,
@@ -234,6 +222,7 @@ export async function getPaymentReports(filters?: {
       },
       assignment: {
         include: {
+          orderLine: { select: { id: true, productType: true, quantity: true } },
           order: {
             select: {
               id: true,
@@ -281,6 +270,7 @@ export async function confirmPaymentReceiptByFarmer(paymentId: string, farmerId:
     include: {
       assignment: {
         include: {
+          orderLine: { select: { id: true, productType: true, quantity: true } },
           order: {
             select: {
               id: true,
@@ -308,6 +298,7 @@ export async function confirmPaymentReceiptByFarmer(paymentId: string, farmerId:
     include: {
       assignment: {
         include: {
+          orderLine: { select: { id: true, productType: true, quantity: true } },
           order: {
             select: {
               id: true,
@@ -348,6 +339,7 @@ export async function getPaymentById(paymentId: string) {
       },
       assignment: {
         include: {
+          orderLine: { select: { id: true, productType: true, quantity: true } },
           order: {
             select: {
               id: true,
@@ -406,6 +398,7 @@ export async function updatePayment(
       },
       assignment: {
         include: {
+          orderLine: { select: { id: true, productType: true, quantity: true } },
           order: {
             select: {
               id: true,
@@ -39,6 +39,9 @@ export async function calculatePerformanceScore(farmerId: string): Promise<Perfo
     orderBy: {
       confirmedAt: 'desc',
     },
+    include: {
+      acknowledgement: { select: { qualityRating: true } },
+    },
   });
 
   const availabilityHistory = await prisma.weeklyAvailability.findMany({
@@ -155,39 +158,46 @@ function calculateQuantityAccuracyScore(deliveries: any[]): number {
 
 /**
  * Calculate quality score (0-100)
- * Based on quality results: PASS = 100, PARTIAL = 50, FAIL = 0
+ * Per delivered assignment, the average of the admin quality result (PASS = 100, PARTIAL = 50,
+ * FAIL = 0) and the buyer's acknowledgement rating (1 = 0 ... 5 = 100), whichever are present.
  */
 function calculateQualityScore(deliveries: any[]): number {
   if (deliveries.length === 0) {
     return 0;
   }
 
-  const deliveredAssignments = deliveries.filter(
-    (d) => d.status === AssignmentStatus.DELIVERED && d.qualityResult !== null
-  );
-
-  if (deliveredAssignments.length === 0) {
-    return 0;
-  }
-
   let totalQualityScore = 0;
-  for (const delivery of deliveredAssignments) {
+  let ratedCount = 0;
+  for (const delivery of deliveries) {
+    if (delivery.status !== AssignmentStatus.DELIVERED) continue;
+
+    const signals: number[] = [];
     switch (delivery.qualityResult) {
       case QualityResult.PASS:
-        totalQualityScore += 100;
+        signals.push(100);
         break;
       case QualityResult.PARTIAL:
-        totalQualityScore += 50;
+        signals.push(50);
         break;
       case QualityResult.FAIL:
-        totalQualityScore += 0;
+        signals.push(0);
         break;
-      default:
-        totalQualityScore += 0;
     }
+    const buyerRating = delivery.acknowledgement?.qualityRating;
+    if (buyerRating != null) {
+      signals.push(((buyerRating - 1) / 4) * 100);
+    }
+
+    if (signals.length === 0) continue;
+    totalQualityScore += signals.reduce((sum, value) => sum + value, 0) / signals.length;
+    ratedCount += 1;
+  }
+
+  if (ratedCount === 0) {
+    return 0;
   }
 
-  return Math.round(totalQualityScore / deliveredAssignments.length);
+  return Math.round(totalQualityScore / ratedCount);
 }
 
 /**
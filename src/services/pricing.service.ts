@@ -0,0 +1,212 @@
+import { prisma } from '../config/database.js';
+import { AssignmentStatus, Prisma } from '@prisma/client';
+import { getWeekStartDate } from '../utils/weekCalculation.js';
+import { getMonthStartDate } from '../utils/monthCalculation.js';
+import { assignmentProductType } from './orderLine.service.js';
+
+export type PriceSource = 'WEEKLY_AVAILABILITY' | 'MONTHLY_AVAILABILITY' | 'CATEGORY_BAND';
+
+export interface ResolvedUnitPrice {
+  unitPrice: number | null;
+  priceSource: PriceSource | null;
+}
+
+/**
+ * Price for a category band: midpoint when both bounds are set, otherwise whichever bound exists.
+ */
+export function getCategoryBandPrice(
+  category: { minPrice: number | null; maxPrice: number | null } | null
+): number | null {
+  if (!category) return null;
+  if (category.minPrice != null && category.maxPrice != null) {
+    return (category.minPrice + category.maxPrice) / 2;
+  }
+  return category.minPrice ?? category.maxPrice ?? null;
+}
+
+/**
+ * Resolve the agreed unit price for a farmer's product on a delivery date.
+ * Order of precedence: weekly availability price for that week, monthly availability
+ * price for that month, then the admin pricing band for the produce category.
+ */
+export async function resolveUnitPrice(
+  farmerId: string,
+  productType: string,
+  deliveryDate: Date
+): Promise<ResolvedUnitPrice> {
+  const weekly = await prisma.weeklyAvailability.findUnique({
+    where: {
+      farmerId_weekStartDate_productType: {
+        farmerId,
+        weekStartDate: getWeekStartDate(deliveryDate),
+        productType,
+      },
+    },
+    select: { pricePerUnit: true },
+  });
+  if (weekly?.pricePerUnit != null) {
+    return { unitPrice: weekly.pricePerUnit, priceSource: 'WEEKLY_AVAILABILITY' };
+  }
+
+  const monthly = await prisma.monthlyAvailability.findUnique({
+    where: {
+      farmerId_monthStartDate_productType: {
+        farmerId,
+        monthStartDate: getMonthStartDate(deliveryDate),
+        productType,
+      },
+    },
+    select: { pricePerUnit: true },
+  });
+  if (monthly?.pricePerUnit != null) {
+    return { unitPrice: monthly.pricePerUnit, priceSource: 'MONTHLY_AVAILABILITY' };
+  }
+
+  const category = await prisma.produceCategory.findUnique({
+    where: { name: productType },
+    select: { minPrice: true, maxPrice: true },
+  });
+  const bandPrice = getCategoryBandPrice(category);
+  if (bandPrice != null) {
+    return { unitPrice: bandPrice, priceSource: 'CATEGORY_BAND' };
+  }
+
+  return { unitPrice: null, priceSource: null };
+}
+
+interface PricedAssignment {
+  farmerId: string;
+  deliveryDate: Date;
+  quantityDelivered: number | null;
+  unitPrice: number | null;
+  order: { productType: string };
+  orderLine?: { productType: string } | null;
+}
+
+/**
+ * Unit price for an assignment: the frozen allocation-time price, or a fresh
+ * resolution for assignments created before prices were frozen.
+ * Null when no price can be resolved; callers must flag this rather than value the delivery at 0.
+ */
+export async function getAssignmentUnitPrice(assignment: PricedAssignment): Promise<number | null> {
+  if (assignment.unitPrice != null) return assignment.unitPrice;
+  const { unitPrice } = await resolveUnitPrice(
+    assignment.farmerId,
+    assignmentProductType(assignment),
+    assignment.deliveryDate
+  );
+  return unitPrice;
+}
+
+/**
+ * Money value of an assignment: quantity delivered × unit price (amount null when unpriced).
+ */
+export async function calculateAssignmentAmount(assignment: PricedAssignment) {
+  const unitPrice = await getAssignmentUnitPrice(assignment);
+  const quantity = assignment.quantityDelivered ?? 0;
+  return {
+    unitPrice,
+    quantity,
+    amount: unitPrice != null ? quantity * unitPrice : null,
+  };
+}
+
+function uniqueDates(dates: Date[]): Date[] {
+  return [...new Map(dates.map((d) => [d.getTime(), d])).values()];
+}
+
+/**
+ * Resolve unit prices for many (farmer, product, delivery date) keys with three queries instead of
+ * three per key. Same precedence as resolveUnitPrice.
+ */
+async function loadUnitPriceLookup(
+  keys: { farmerId: string; productType: string; deliveryDate: Date }[]
+): Promise<(farmerId: string, productType: string, deliveryDate: Date) => number | null> {
+  const farmerIds = [...new Set(keys.map((k) => k.farmerId))];
+  const productTypes = [...new Set(keys.map((k) => k.productType))];
+  const weekStarts = uniqueDates(keys.map((k) => getWeekStartDate(k.deliveryDate)));
+  const monthStarts = uniqueDates(keys.map((k) => getMonthStartDate(k.deliveryDate)));
+
+  const [weekly, monthly, categories] = keys.length === 0
+    ? [[], [], []]
+    : await Promise.all([
+        prisma.weeklyAvailability.findMany({
+          where: {
+            farmerId: { in: farmerIds },
+            productType: { in: productTypes },
+            weekStartDate: { in: weekStarts },
+            pricePerUnit: { not: null },
+          },
+          select: { farmerId: true, productType: true, weekStartDate: true, pricePerUnit: true },
+        }),
+        prisma.monthlyAvailability.findMany({
+          where: {
+            farmerId: { in: farmerIds },
+            productType: { in: productTypes },
+            monthStartDate: { in: monthStarts },
+            pricePerUnit: { not: null },
+          },
+          select: { farmerId: true, productType: true, monthStartDate: true, pricePerUnit: true },
+        }),
+        prisma.produceCategory.findMany({
+          where: { name: { in: productTypes } },
+          select: { name: true, minPrice: true, maxPrice: true },
+        }),
+      ]);
+
+  const key = (farmerId: string, productType: string, start: Date) =>
+    `${farmerId}|${productType}|${start.getTime()}`;
+  const weeklyPrices = new Map(weekly.map((w) => [key(w.farmerId, w.productType, w.weekStartDate), w.pricePerUnit]));
+  const monthlyPrices = new Map(monthly.map((m) => [key(m.farmerId, m.productType, m.monthStartDate), m.pricePerUnit]));
+  const bandPrices = new Map(categories.map((c) => [c.name, getCategoryBandPrice(c)]));
+
+  return (farmerId, productType, deliveryDate) =>
+    weeklyPrices.get(key(farmerId, productType, getWeekStartDate(deliveryDate))) ??
+    monthlyPrices.get(key(farmerId, productType, getMonthStartDate(deliveryDate))) ??
+    bandPrices.get(productType) ??
+    null;
+}
+
+/**
+ * Total value of delivered assignments matching the filter. Assignments without a resolvable
+ * price are left out of the total and listed in unpricedAssignmentIds. Prices not frozen on the
+ * assignment are loaded in one batch.
+ */
+export async function calculateDeliveredValue(
+  where: Prisma.DeliveryAssignmentWhereInput = {}
+) {
+  const assignments = await prisma.deliveryAssignment.findMany({
+    where: {
+      ...where,
+      status: AssignmentStatus.DELIVERED,
+    },
+    include: {
+      order: { select: { productType: true } },
+      orderLine: { select: { productType: true } },
+    },
+  });
+
+  const unfrozen = assignments
+    .filter((a) => a.unitPrice == null)
+    .map((a) => ({ farmerId: a.farmerId, productType: assignmentProductType(a), deliveryDate: a.deliveryDate }));
+  const lookupPrice = await loadUnitPriceLookup(unfrozen);
+
+  let totalValue = 0;
+  const unpricedAssignmentIds: string[] = [];
+  for (const assignment of assignments) {
+    const unitPrice =
+      assignment.unitPrice ??
+      lookupPrice(assignment.farmerId, assignmentProductType(assignment), assignment.deliveryDate);
+    if (unitPrice == null) {
+      unpricedAssignmentIds.push(assignment.id);
+    } else {
+      totalValue += (assignment.quantityDelivered ?? 0) * unitPrice;
+    }
+  }
+
+  return {
+    totalValue,
+    deliveredAssignments: assignments.length,
+    unpricedAssignmentIds,
+  };
+}
@@ -0,0 +1,273 @@
+import { prisma } from '../config/database.js';
+import { createError } from '../middleware/errorHandler.js';
+import { User, UserStatus } from '@prisma/client';
+import {
+  generateAccessToken,
+  generateRefreshToken,
+  verifyRefreshToken,
+  decodeToken,
+  TokenPayload,
+} from '../utils/jwt.js';
+import * as crypto from 'crypto';
+
+export type SessionRevokeReason =
+  | 'LOGOUT'
+  | 'PASSWORD_CHANGE'
+  | 'PASSWORD_RESET'
+  | 'TOKEN_REUSE'
+  | 'USER_REVOKED';
+
+/** Device details recorded when a session is created or refreshed */
+export interface SessionClientInfo {
+  userAgent?: string | null;
+  ipAddress?: string | null;
+}
+
+export interface SessionTokens {
+  accessToken: string;
+  refreshToken: string;
+  sessionId: string;
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+function buildTokenPayload(user: Pick<User, 'id' | 'role' | 'status' | 'email'>, sessionId: string): TokenPayload {
+  return {
+    userId: user.id,
+    role: user.role,
+    status: user.status,
+    email: user.email,
+    sessionId,
+  };
+}
+
+/**
+ * Issue a refresh token for a session and store its hash. Returns the token and its expiry.
+ */
+async function issueRefreshToken(payload: TokenPayload, sessionId: string) {
+  const tokenId = crypto.randomUUID();
+  const refreshToken = generateRefreshToken(payload, tokenId);
+  const decoded = decodeToken(refreshToken) as (TokenPayload & { exp?: number }) | null;
+  const expiresAt = decoded?.exp ? new Date(decoded.exp * 1000) : new Date();
+
+  await prisma.refreshToken.create({
+    data: {
+      sessionId,
+      tokenHash: hashToken(refreshToken),
+      expiresAt,
+    },
+  });
+
+  return { refreshToken, expiresAt };
+}
+
+/**
+ * Start a new session (login) and issue its first access/refresh token pair.
+ */
+export async function createSession(
+  user: Pick<User, 'id' | 'role' | 'status' | 'email'>,
+  client: SessionClientInfo = {}
+): Promise<SessionTokens> {
+  const session = await prisma.authSession.create({
+    data: {
+      userId: user.id,
+      userAgent: client.userAgent?.slice(0, 500) ?? null,
+      ipAddress: client.ipAddress ?? null,
+      expiresAt: new Date(),
+    },
+  });
+
+  const payload = buildTokenPayload(user, session.id);
+  const { refreshToken, expiresAt } = await issueRefreshToken(payload, session.id);
+  await prisma.authSession.update({
+    where: { id: session.id },
+    data: { expiresAt },
+  });
+
+  return {
+    accessToken: generateAccessToken(payload),
+    refreshToken,
+    sessionId: session.id,
+  };
+}
+
+/**
+ * Exchange a refresh token for a new pair (rotation).
+ * Each refresh token can be used once; presenting an already-rotated token means it was
+ * copied, so the whole session (token family) is revoked.
+ */
+export async function rotateRefreshToken(
+  refreshToken: string,
+  client: SessionClientInfo = {}
+): Promise<SessionTokens> {
+  const decoded = verifyRefreshToken(refreshToken);
+  if (!decoded) {
+    throw createError('Invalid or expired refresh token', 401, 'INVALID_TOKEN');
+  }
+
+  const stored = await prisma.refreshToken.findUnique({
+    where: { tokenHash: hashToken(refreshToken) },
+    include: { session: { include: { user: true } } },
+  });
+
+  if (!stored) {
+    throw createError('Invalid or expired refresh token', 401, 'INVALID_TOKEN');
+  }
+
+  const { session } = stored;
+
+  if (session.revokedAt) {
+    throw createError('Session has been revoked. Please log in again.', 401, 'SESSION_REVOKED');
+  }
+
+  if (stored.rotatedAt) {
+    await revokeSession(session.id, 'TOKEN_REUSE');
+    console.warn(`[Auth] Refresh token reuse detected for session ${session.id}; session revoked`);
+    throw createError('Refresh token has already been used. Please log in again.', 401, 'TOKEN_REUSE');
+  }
+
+  if (stored.expiresAt < new Date()) {
+    throw createError('Invalid or expired refresh token', 401, 'INVALID_TOKEN');
+  }
+
+  const user = session.user;
+  if (user.status !== UserStatus.ACTIVE && user.status !== UserStatus.PROBATIONARY) {
+    throw createError('Account is not active', 403, 'ACCOUNT_NOT_ACTIVE');
+  }
+
+  // Mark the presented token as used; the conditional update guards against two concurrent refreshes
+  const { count } = await prisma.refreshToken.updateMany({
+    where: { id: stored.id, rotatedAt: null },
+    data: { rotatedAt: new Date() },
+  });
+  if (count === 0) {
+    await revokeSession(session.id, 'TOKEN_REUSE');
+    throw createError('Refresh token has already been used. Please log in again.', 401, 'TOKEN_REUSE');
+  }
+
+  const payload = buildTokenPayload(user, session.id);
+  const { refreshToken: newRefreshToken, expiresAt } = await issueRefreshToken(payload, session.id);
+  await prisma.authSession.update({
+    where: { id: session.id },
+    data: {
+      expiresAt,
+      lastUsedAt: new Date(),
+      ...(client.userAgent && { userAgent: client.userAgent.slice(0, 500) }),
+      ...(client.ipAddress && { ipAddress: client.ipAddress }),
+    },
+  });
+
+  return {
+    accessToken: generateAccessToken(payload),
+    refreshToken: newRefreshToken,
+    sessionId: session.id,
+  };
+}
+
+/**
+ * Whether an access token's session is still live. Checked on every authenticated request, so
+ * logout, password changes and session revocation also stop access tokens already issued.
+ */
+export async function isSessionActive(sessionId: string, userId: string): Promise<boolean> {
+  const session = await prisma.authSession.findUnique({
+    where: { id: sessionId },
+    select: { userId: true, revokedAt: true },
+  });
+  return !!session && session.userId === userId && session.revokedAt === null;
+}
+
+/**
+ * Revoke a session; all of its refresh tokens stop working.
+ */
+export async function revokeSession(sessionId: string, reason: SessionRevokeReason) {
+  await prisma.authSession.updateMany({
+    where: { id: sessionId, revokedAt: null },
+    data: { revokedAt: new Date(), revokedReason: reason },
+  });
+}
+
+/**
+ * Revoke every active session of a user, optionally keeping one (e.g. the device that changed the password).
+ */
+export async function revokeAllSessions(
+  userId: string,
+  reason: SessionRevokeReason,
+  exceptSessionId?: string
+) {
+  const { count } = await prisma.authSession.updateMany({
+    where: {
+      userId,
+      revokedAt: null,
+      ...(exceptSessionId && { id: { not: exceptSessionId } }),
+    },
+    data: { revokedAt: new Date(), revokedReason: reason },
+  });
+  return { revoked: count };
+}
+
+/**
+ * Log out: revoke the current session (from the access token) and/or the session of a presented refresh token.
+ */
+export async function logoutSession(userId: string, sessionId?: string, refreshToken?: string) {
+  if (sessionId) {
+    await prisma.authSession.updateMany({
+      where: { id: sessionId, userId, revokedAt: null },
+      data: { revokedAt: new Date(), revokedReason: 'LOGOUT' },
+    });
+  }
+
+  if (refreshToken) {
+    const stored = await prisma.refreshToken.findUnique({
+      where: { tokenHash: hashToken(refreshToken) },
+      include: { session: { select: { userId: true } } },
+    });
+    if (stored && stored.session.userId === userId) {
+      await revokeSession(stored.sessionId, 'LOGOUT');
+    }
+  }
+}
+
+/**
+ * Active (not revoked, not expired) sessions for a user, most recently used first.
+ */
+export async function getActiveSessions(userId: string, currentSessionId?: string) {
+  const sessions = await prisma.authSession.findMany({
+    where: {
+      userId,
+      revokedAt: null,
+      expiresAt: { gt: new Date() },
+    },
+    select: {
+      id: true,
+      userAgent: true,
+      ipAddress: true,
+      createdAt: true,
+      lastUsedAt: true,
+      expiresAt: true,
+    },
+    orderBy: { lastUsedAt: 'desc' },
+  });
+
+  return sessions.map((session) => ({
+    ...session,
+    current: session.id === currentSessionId,
+  }));
+}
+
+/**
+ * Revoke one of the user's own sessions (sign out a device).
+ */
+export async function revokeUserSession(userId: string, sessionId: string) {
+  const session = await prisma.authSession.findFirst({
+    where: { id: sessionId, userId },
+  });
+
+  if (!session) {
+    throw createError('Session not found', 404, 'SESSION_NOT_FOUND');
+  }
+
+  await revokeSession(session.id, 'USER_REVOKED');
+  return { revoked: true, id: session.id };
+}
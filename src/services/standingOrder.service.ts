@@ -1,21 +1,75 @@
 import { prisma } from '../config/database.js';
 import { createError } from '../middleware/errorHandler.js';
-import { OrderStatus, UserStatus } from '@prisma/client';
-import { notifyUser } from './notificationDelivery.service.js';
-export interface CreateStandingOrderData {
+import {
+  HolidayHandling,
+  OrderStatus,
+  Prisma,
+  StandingOrder,
+  StandingOrderPause,
+  StandingOrderRecurrence,
+  UserStatus,
+} from '@prisma/client';
+import { notifyUserTemplate } from './notificationDelivery.service.js';
+import { HolidayCalendar, loadHolidayCalendar } from './holiday.service.js';
+import {
+  RecurrenceRule,
+  recurrenceProblem,
+  occursOn,
+  nextOccurrence,
+  occurrencesBetween,
+  quantityForOccurrence,
+  toUtcDay,
+  addUtcDays,
+  formatUtcDay,
+} from '../utils/recurrence.js';
+
+/** Each generation run creates the orders for occurrences in the coming week */
+const GENERATION_HORIZON_DAYS = 7;
+
+/** A delivery moved off a holiday must land within this many days, before the next delivery day */
+const MAX_HOLIDAY_SHIFT_DAYS = 6;
+
+/** Longest single pause (e.g. Ramadan plus Eid) */
+const MAX_PAUSE_DAYS = 90;
+
+/** Dates returned by the schedule preview at most */
+export const MAX_PREVIEW_DATES = 26;
+
+/**
+ * Schedule fields shared by create and update. WEEKLY (default) delivers every `interval` weeks
+ * on daysOfWeek (or preferredDeliveryDayOfWeek); MONTHLY_NTH_WEEKDAY on the weekOfMonth-th
+ * preferredDeliveryDayOfWeek; MONTHLY_DAY on dayOfMonth.
+ */
+export interface StandingOrderRecurrenceData {
+  recurrenceType?: StandingOrderRecurrence;
+  interval?: number;
+  preferredDeliveryDayOfWeek?: number; // 0 = Sunday, 1 = Monday, ... 6 = Saturday
+  daysOfWeek?: number[];
+  weekOfMonth?: number | null;
+  dayOfMonth?: number | null;
+  quantityOverrides?: Record<string, number> | null; // { "YYYY-MM-DD": quantity }
+  skipDates?: string[] | null; // YYYY-MM-DD delivery days to skip; replaces the list
+  holidayHandling?: HolidayHandling;
+}
+
+export interface AddStandingOrderPauseData {
+  startDate: Date;
+  endDate: Date;
+  reason?: string;
+}
+
+export interface CreateStandingOrderData extends StandingOrderRecurrenceData {
   productType: string;
   quantity: number;
-  preferredDeliveryDayOfWeek: number; // 0 = Sunday, 1 = Monday, ... 6 = Saturday
   deliveryAddressId: string;
   startDate: Date;
   endDate?: Date | null;
   notes?: string;
 }
 
-export interface UpdateStandingOrderData {
+export interface UpdateStandingOrderData extends StandingOrderRecurrenceData {
   isActive?: boolean;
   quantity?: number;
-  preferredDeliveryDayOfWeek?: number;
   deliveryAddressId?: string;
   startDate?: Date;
   endDate?: Date | null;
@@ -43,6 +97,92 @@ async function getActiveBuyer(buyerUserId: string) {
   return buyer;
 }
 
+/**
+ * Recurrence columns for a new or amended standing order, merged over the current ones and checked
+ * for a rule that can be generated. Quantity overrides and skip dates must fall on delivery days of
+ * the rule.
+ */
+function buildRecurrence(
+  data: StandingOrderRecurrenceData & { startDate: Date; endDate: Date | null },
+  current?: StandingOrder
+) {
+  const recurrenceType = data.recurrenceType ?? current?.recurrenceType ?? StandingOrderRecurrence.WEEKLY;
+  const daysOfWeek = [...new Set(data.daysOfWeek ?? current?.daysOfWeek ?? [])].sort((a, b) => a - b);
+  // Kept filled for every rule type: it is the first delivery day for WEEKLY and unused by MONTHLY_DAY
+  const preferredDeliveryDayOfWeek =
+    data.preferredDeliveryDayOfWeek ??
+    (data.daysOfWeek ? daysOfWeek[0] : current?.preferredDeliveryDayOfWeek) ??
+    (recurrenceType === StandingOrderRecurrence.MONTHLY_DAY ? data.startDate.getUTCDay() : undefined);
+  if (preferredDeliveryDayOfWeek === undefined) {
+    throw createError(
+      'Preferred delivery day or days of week are required',
+      400,
+      'INVALID_DAY'
+    );
+  }
+
+  const rule: RecurrenceRule = {
+    recurrenceType,
+    interval: data.interval ?? current?.interval ?? 1,
+    preferredDeliveryDayOfWeek,
+    daysOfWeek: recurrenceType === StandingOrderRecurrence.WEEKLY ? daysOfWeek : [],
+    weekOfMonth:
+      recurrenceType === StandingOrderRecurrence.MONTHLY_NTH_WEEKDAY
+        ? (data.weekOfMonth !== undefined ? data.weekOfMonth : current?.weekOfMonth ?? null)
+        : null,
+    dayOfMonth:
+      recurrenceType === StandingOrderRecurrence.MONTHLY_DAY
+        ? (data.dayOfMonth !== undefined ? data.dayOfMonth : current?.dayOfMonth ?? null)
+        : null,
+    startDate: data.startDate,
+    endDate: data.endDate,
+  };
+  const problem = recurrenceProblem(rule);
+  if (problem) {
+    throw createError(problem, 400, 'INVALID_RECURRENCE');
+  }
+
+  const assertDeliveryDay = (day: string, code: string) => {
+    const date = new Date(`${day}T00:00:00.000Z`);
+    if (Number.isNaN(date.getTime()) || !occursOn(rule, date)) {
+      throw createError(`${day} is not a delivery day of this standing order`, 400, code);
+    }
+  };
+
+  const overrides =
+    data.quantityOverrides !== undefined
+      ? data.quantityOverrides
+      : (current?.quantityOverrides as Record<string, number> | null) ?? null;
+  if (data.quantityOverrides) {
+    for (const [day, quantity] of Object.entries(data.quantityOverrides)) {
+      assertDeliveryDay(day, 'INVALID_QUANTITY_OVERRIDE');
+      if (!Number.isInteger(quantity) || quantity <= 0) {
+        throw createError(
+          `Quantity for ${day} must be a whole number greater than 0`,
+          400,
+          'INVALID_QUANTITY'
+        );
+      }
+    }
+  }
+
+  const skipDates = [
+    ...new Set(data.skipDates !== undefined ? data.skipDates ?? [] : current?.skipDates ?? []),
+  ].sort();
+  data.skipDates?.forEach((day) => assertDeliveryDay(day, 'INVALID_SKIP_DATE'));
+
+  const { startDate: _startDate, endDate: _endDate, ...fields } = rule;
+  return {
+    ...fields,
+    quantityOverrides:
+      overrides && Object.keys(overrides).length > 0
+        ? (overrides as Prisma.InputJsonObject)
+        : Prisma.JsonNull,
+    skipDates,
+    holidayHandling: data.holidayHandling ?? current?.holidayHandling ?? HolidayHandling.NEXT_DAY,
+  };
+}
+
 /**
  * Create a standing (recurring) order.
  * Prevents duplicate: one active standing order per (buyer, productType, deliveryAddress).
@@ -76,14 +216,6 @@ export async function createStandingOrder(
     );
   }
 
-  if (data.preferredDeliveryDayOfWeek < 0 || data.preferredDeliveryDayOfWeek > 6) {
-    throw createError(
-      'Preferred delivery day must be 0 (Sunday) through 6 (Saturday)',
-      400,
-      'INVALID_DAY'
-    );
-  }
-
   if (data.startDate <= new Date()) {
     throw createError(
       'Start date must be in the future',
@@ -100,6 +232,8 @@ export async function createStandingOrder(
     );
   }
 
+  const recurrence = buildRecurrence({ ...data, endDate: data.endDate ?? null });
+
   // Check for duplicate: existing standing order with same buyer, product, address
   const existing = await prisma.standingOrder.findUnique({
     where: {
@@ -124,7 +258,7 @@ export async function createStandingOrder(
       where: { id: existing.id },
       data: {
         quantity: data.quantity,
-        preferredDeliveryDayOfWeek: data.preferredDeliveryDayOfWeek,
+        ...recurrence,
         startDate: data.startDate,
         endDate: data.endDate ?? null,
         isActive: true,
@@ -142,7 +276,7 @@ export async function createStandingOrder(
       buyerId: buyer.id,
       productType: data.productType.trim(),
       quantity: data.quantity,
-      preferredDeliveryDayOfWeek: data.preferredDeliveryDayOfWeek,
+      ...recurrence,
       deliveryAddressId: data.deliveryAddressId,
       startDate: data.startDate,
       endDate: data.endDate ?? null,
@@ -165,6 +299,7 @@ export async function getStandingOrdersByBuyer(buyerUserId: string) {
     where: { buyerId: buyer.id },
     include: {
       deliveryAddress: true,
+      pauses: { orderBy: { startDate: 'asc' } },
     },
     orderBy: { createdAt: 'desc' },
   });
@@ -185,6 +320,7 @@ export async function getStandingOrderById(
     },
     include: {
       deliveryAddress: true,
+      pauses: { orderBy: { startDate: 'asc' } },
       generatedOrders: {
         orderBy: { deliveryDate: 'desc' },
         take: 10,
@@ -219,17 +355,6 @@ export async function updateStandingOrder(
   if (data.quantity !== undefined && data.quantity <= 0) {
     throw createError('Quantity must be greater than 0', 400, 'INVALID_QUANTITY');
   }
-  if (
-    data.preferredDeliveryDayOfWeek !== undefined &&
-    (data.preferredDeliveryDayOfWeek < 0 || data.preferredDeliveryDayOfWeek > 6)
-  ) {
-    throw createError(
-      'Preferred delivery day must be 0 (Sunday) through 6 (Saturday)',
-      400,
-      'INVALID_DAY'
-    );
-  }
-
   const newAddressId = data.deliveryAddressId ?? so.deliveryAddressId;
   if (data.deliveryAddressId) {
     const address = await prisma.deliveryAddress.findFirst({
@@ -265,130 +390,309 @@ export async function updateStandingOrder(
   if (newEndDate != null && newEndDate <= newStartDate) {
     throw createError('End date must be after start date', 400, 'INVALID_END_DATE');
   }
+  const recurrence = buildRecurrence({ ...data, startDate: newStartDate, endDate: newEndDate }, so);
 
   const updatePayload: Record<string, unknown> = {
     isActive: data.isActive ?? so.isActive,
+    ...recurrence,
   };
   if (data.quantity !== undefined) updatePayload.quantity = data.quantity;
-  if (data.preferredDeliveryDayOfWeek !== undefined)
-    updatePayload.preferredDeliveryDayOfWeek = data.preferredDeliveryDayOfWeek;
   if (data.deliveryAddressId !== undefined) updatePayload.deliveryAddressId = data.deliveryAddressId;
   if (data.startDate !== undefined) updatePayload.startDate = data.startDate;
   if (data.endDate !== undefined) updatePayload.endDate = data.endDate;
   if (data.notes !== undefined) updatePayload.notes = data.notes?.trim() ?? null;
 
-  return prisma.standingOrder.update({
+  const updated = await prisma.standingOrder.update({
     where: { id: standingOrderId },
     data: updatePayload,
     include: {
       deliveryAddress: true,
+      pauses: { orderBy: { startDate: 'asc' } },
     },
   });
+
+  const newSkipDates = recurrence.skipDates.filter((day) => !so.skipDates.includes(day));
+  const cancelledOrders = await cancelGeneratedOrders(
+    so.id,
+    newSkipDates.map((day) => {
+      const date = new Date(`${day}T00:00:00.000Z`);
+      return { gte: date, lt: addUtcDays(date, 1) };
+    })
+  );
+
+  return { ...updated, cancelledOrders };
 }
 
-// --- Weekly order generation ---
+/**
+ * Cancel orders already generated for skipped or paused days, while the admin has not acted on them
+ * yet. Returns how many were cancelled.
+ */
+async function cancelGeneratedOrders(standingOrderId: string, ranges: { gte: Date; lt: Date }[]) {
+  if (ranges.length === 0) return 0;
+  const { count } = await prisma.order.updateMany({
+    where: {
+      standingOrderId,
+      status: { in: [OrderStatus.PENDING, OrderStatus.PENDING_MODIFICATION] },
+      OR: ranges.map((range) => ({ deliveryDate: range })),
+    },
+    data: { status: OrderStatus.CANCELLED },
+  });
+  return count;
+}
+
+async function findBuyerStandingOrder(standingOrderId: string, buyerUserId: string) {
+  const buyer = await getActiveBuyer(buyerUserId);
+  const so = await prisma.standingOrder.findFirst({
+    where: { id: standingOrderId, buyerId: buyer.id },
+    include: { pauses: true },
+  });
+  if (!so) {
+    throw createError('Standing order not found', 404, 'STANDING_ORDER_NOT_FOUND');
+  }
+  return so;
+}
 
 /**
- * Get the next delivery date for a standing order (preferred day of week, on or after fromDate, within endDate if set).
+ * Pause a standing order for a date range (UTC days, inclusive) without deactivating it. Pending
+ * orders already generated in the range are cancelled.
  */
-function getNextDeliveryDate(
-  so: { startDate: Date; endDate: Date | null; preferredDeliveryDayOfWeek: number },
-  fromDate: Date
-): Date | null {
-  const from = new Date(fromDate);
-  from.setHours(0, 0, 0, 0);
-
-  let candidate = new Date(so.startDate);
-  candidate.setHours(0, 0, 0, 0);
-
-  if (candidate < from) {
-    candidate = new Date(from);
+export async function addStandingOrderPause(
+  standingOrderId: string,
+  buyerUserId: string,
+  data: AddStandingOrderPauseData
+) {
+  const so = await findBuyerStandingOrder(standingOrderId, buyerUserId);
+  const startDate = toUtcDay(data.startDate);
+  const endDate = toUtcDay(data.endDate);
+
+  if (endDate < startDate) {
+    throw createError('Pause end date must be on or after its start date', 400, 'INVALID_END_DATE');
+  }
+  if (endDate < toUtcDay(new Date())) {
+    throw createError('Pause must not end in the past', 400, 'INVALID_END_DATE');
   }
+  if (addUtcDays(startDate, MAX_PAUSE_DAYS) <= endDate) {
+    throw createError(
+      `A pause can last at most ${MAX_PAUSE_DAYS} days. Deactivate the standing order for longer breaks.`,
+      400,
+      'PAUSE_TOO_LONG'
+    );
+  }
+  const overlapping = so.pauses.find((p) => p.startDate <= endDate && p.endDate >= startDate);
+  if (overlapping) {
+    throw createError(
+      `Overlaps an existing pause (${formatUtcDay(overlapping.startDate)} to ${formatUtcDay(overlapping.endDate)})`,
+      409,
+      'PAUSE_OVERLAP'
+    );
+  }
+
+  const pause = await prisma.standingOrderPause.create({
+    data: {
+      standingOrderId: so.id,
+      startDate,
+      endDate,
+      reason: data.reason?.trim() || null,
+    },
+  });
+  const cancelledOrders = await cancelGeneratedOrders(so.id, [{ gte: startDate, lt: addUtcDays(endDate, 1) }]);
 
-  const candidateDay = candidate.getDay(); // 0 = Sun, 6 = Sat
-  let daysToAdd =
-    (so.preferredDeliveryDayOfWeek - candidateDay + 7) % 7;
-  if (daysToAdd === 0 && candidate < from) {
-    daysToAdd = 7;
+  return { ...pause, cancelledOrders };
+}
+
+/**
+ * End a pause early or remove a planned one. Orders the pause cancelled stay cancelled; days without
+ * an order are generated again.
+ */
+export async function removeStandingOrderPause(
+  standingOrderId: string,
+  pauseId: string,
+  buyerUserId: string
+) {
+  const so = await findBuyerStandingOrder(standingOrderId, buyerUserId);
+  const pause = so.pauses.find((p) => p.id === pauseId);
+  if (!pause) {
+    throw createError('Pause not found', 404, 'PAUSE_NOT_FOUND');
   }
-  candidate.setDate(candidate.getDate() + daysToAdd);
+  await prisma.standingOrderPause.delete({ where: { id: pause.id } });
+  return pause;
+}
 
-  if (so.endDate) {
-    const end = new Date(so.endDate);
-    end.setHours(23, 59, 59, 999);
-    if (candidate > end) return null;
+// --- Order generation ---
+
+type ScheduledStandingOrder = StandingOrder & { pauses: StandingOrderPause[] };
+
+/**
+ * One delivery day of the rule after skip dates, pauses and holidays: the day the order is
+ * generated for (moved off a holiday if needed), or why it is dropped.
+ */
+export type PlannedDelivery =
+  | { occurrenceDate: Date; deliveryDate: Date; quantity: number; holiday?: string }
+  | { occurrenceDate: Date; skipped: 'SKIP_DATE' | 'PAUSED' | 'HOLIDAY'; holiday?: string };
+
+function blockedReason(so: ScheduledStandingOrder, day: Date, calendar: HolidayCalendar) {
+  if (so.skipDates.includes(formatUtcDay(day))) return 'SKIP_DATE' as const;
+  if (so.pauses.some((p) => day >= toUtcDay(p.startDate) && day <= toUtcDay(p.endDate))) {
+    return 'PAUSED' as const;
+  }
+  if (calendar.holidayOn(day)) return 'HOLIDAY' as const;
+  return null;
+}
+
+/**
+ * Skip dates and pauses drop the delivery. A holiday moves it to the next free day with
+ * holidayHandling NEXT_DAY (never onto another delivery day of the same standing order), else drops it.
+ */
+function planDelivery(
+  so: ScheduledStandingOrder,
+  occurrenceDate: Date,
+  calendar: HolidayCalendar
+): PlannedDelivery {
+  const quantity = quantityForOccurrence(so, occurrenceDate);
+  const reason = blockedReason(so, occurrenceDate, calendar);
+  if (!reason) return { occurrenceDate, deliveryDate: occurrenceDate, quantity };
+
+  const holiday = calendar.holidayOn(occurrenceDate) ?? undefined;
+  if (reason === 'HOLIDAY' && so.holidayHandling === HolidayHandling.NEXT_DAY) {
+    for (let i = 1; i <= MAX_HOLIDAY_SHIFT_DAYS; i++) {
+      const day = addUtcDays(occurrenceDate, i);
+      if (occursOn(so, day)) break;
+      if (!blockedReason(so, day, calendar)) {
+        return { occurrenceDate, deliveryDate: day, quantity, holiday };
+      }
+    }
   }
+  return { occurrenceDate, skipped: reason, holiday };
+}
 
-  return candidate >= from ? candidate : null;
+/**
+ * Next delivery day of a standing order on or after fromDate (UTC midnight), or null once it has ended.
+ * This is the rule's day, before skip dates, pauses and holidays (see planDelivery).
+ */
+export function getNextDeliveryDate(so: RecurrenceRule, fromDate: Date): Date | null {
+  return nextOccurrence(so, fromDate);
 }
 
 /**
- * Generate orders from active standing orders for the next occurrence (weekly job).
- * Creates one order per standing order for the next delivery date if not already created.
+ * Last day the schedule preview looks at: past the latest pause, then enough rule days for the
+ * wanted deliveries twice over (for holidays) plus every skip date. Bounds the search so a rule
+ * whose days are all dropped cannot loop for ever.
+ */
+function previewHorizon(so: ScheduledStandingOrder, wanted: number): Date {
+  const today = toUtcDay(new Date());
+  let day = so.pauses.reduce((latest, p) => {
+    const end = toUtcDay(p.endDate);
+    return end > latest ? end : latest;
+  }, today);
+  for (let i = 0; i < wanted * 2 + so.skipDates.length; i++) {
+    const next = getNextDeliveryDate(so, addUtcDays(day, 1));
+    if (!next) break;
+    day = next;
+  }
+  return day;
+}
+
+/**
+ * Next `count` dates orders will be generated for, from today, with the delivery days dropped on the
+ * way (skip dates, pauses, holidays) so the buyer can see why.
+ */
+export async function previewStandingOrderDates(
+  standingOrderId: string,
+  buyerUserId: string,
+  count: number
+) {
+  const so = await findBuyerStandingOrder(standingOrderId, buyerUserId);
+  const calendar = await loadHolidayCalendar();
+  const wanted = Math.min(Math.max(1, count), MAX_PREVIEW_DATES);
+
+  const horizon = previewHorizon(so, wanted);
+  const planned: PlannedDelivery[] = [];
+  let deliveries = 0;
+  let next = so.isActive ? getNextDeliveryDate(so, new Date()) : null;
+  while (next && deliveries < wanted && next <= horizon) {
+    const delivery = planDelivery(so, next, calendar);
+    planned.push(delivery);
+    if ('deliveryDate' in delivery) deliveries++;
+    next = getNextDeliveryDate(so, addUtcDays(next, 1));
+  }
+
+  return {
+    standingOrderId: so.id,
+    isActive: so.isActive,
+    dates: planned.filter((p) => 'deliveryDate' in p),
+    skipped: planned.filter((p) => 'skipped' in p),
+  };
+}
+
+/**
+ * Generate orders from active standing orders (weekly job): one order per delivery day in the
+ * coming week, with that day's quantity override if any. Skip dates, pauses and holidays are applied
+ * (see planDelivery). Days that already have an order are skipped, so the job can be re-run safely.
  */
 export async function generateOrdersFromStandingOrders(): Promise<{
   created: number;
   orderIds: string[];
 }> {
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
+  const today = toUtcDay(new Date());
+  const horizon = addUtcDays(today, GENERATION_HORIZON_DAYS);
 
-  const active = await prisma.standingOrder.findMany({
-    where: { isActive: true },
-    include: {
-      buyer: { include: { user: true } },
-      deliveryAddress: true,
-    },
-  });
+  const [active, calendar] = await Promise.all([
+    prisma.standingOrder.findMany({
+      where: { isActive: true },
+      include: {
+        buyer: { include: { user: true } },
+        deliveryAddress: true,
+        pauses: true,
+      },
+    }),
+    loadHolidayCalendar(),
+  ]);
 
   const orderIds: string[] = [];
 
   for (const so of active) {
     if (so.buyer.user.status !== UserStatus.ACTIVE) continue;
 
-    const nextDate = getNextDeliveryDate(so, today);
-    if (!nextDate) continue;
-
-    const dayStart = new Date(nextDate);
-    dayStart.setUTCHours(0, 0, 0, 0);
-    const dayEnd = new Date(nextDate);
-    dayEnd.setUTCDate(dayEnd.getUTCDate() + 1);
-    dayEnd.setUTCHours(0, 0, 0, 0);
-
-    const existing = await prisma.order.findFirst({
-      where: {
-        standingOrderId: so.id,
-        deliveryDate: {
-          gte: dayStart,
-          lt: dayEnd,
+    for (const occurrence of occurrencesBetween(so, today, horizon)) {
+      const planned = planDelivery(so, occurrence, calendar);
+      if (!('deliveryDate' in planned)) continue;
+      const { deliveryDate, quantity } = planned;
+
+      const existing = await prisma.order.findFirst({
+        where: {
+          standingOrderId: so.id,
+          deliveryDate: {
+            gte: deliveryDate,
+            lt: addUtcDays(deliveryDate, 1),
+          },
         },
-      },
-    });
-
-    if (existing) continue;
-
-    const order = await prisma.order.create({
-      data: {
-        buyerId: so.buyerId,
-        productType: so.productType,
-        quantity: so.quantity,
-        orderType: 'STANDING',
-        deliveryDate: nextDate,
-        deliveryAddressId: so.deliveryAddressId,
-        status: OrderStatus.PENDING,
-        standingOrderId: so.id,
-        notes: so.notes ?? undefined,
-      },
-    });
-    orderIds.push(order.id);
-
-    await notifyUser(
-      so.buyer.userId,
-      'STANDING_ORDER_GENERATED',
-      'New order from standing order',
-      `A new order has been created from your standing order: ${so.quantity} units of ${so.productType} for delivery on ${nextDate.toLocaleDateString()}. It is pending admin approval.`,
-      { orderId: order.id, standingOrderId: so.id }
-    ).catch((err) => console.error('[Notification]', err));
+      });
+
+      if (existing) continue;
+
+      const order = await prisma.order.create({
+        data: {
+          buyerId: so.buyerId,
+          productType: so.productType,
+          quantity,
+          orderType: 'STANDING',
+          deliveryDate,
+          deliveryAddressId: so.deliveryAddressId,
+          status: OrderStatus.PENDING,
+          standingOrderId: so.id,
+          notes: so.notes ?? undefined,
+          lines: { create: [{ productType: so.productType, quantity }] },
+        },
+      });
+      orderIds.push(order.id);
+
+      await notifyUserTemplate(
+        so.buyer.userId,
+        'STANDING_ORDER_GENERATED',
+        { quantity, productType: so.productType, deliveryDate },
+        { orderId: order.id, standingOrderId: so.id }
+      ).catch((err) => console.error('[Notification]', err));
+    }
   }
 
   return { created: orderIds.length, orderIds };
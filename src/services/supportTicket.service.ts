@@ -1,10 +1,134 @@
 import { prisma } from '../config/database.js';
 import { createError } from '../middleware/errorHandler.js';
-import { TicketStatus } from '@prisma/client';
+import { Prisma, SupportTicket, TicketCategory, TicketPriority, TicketStatus, UserRole } from '@prisma/client';
+import { uploadImageOrPdfToCloudinary, validateImageOrPdfFile } from '../utils/fileUpload.js';
+import { notifyAdminsTemplate, notifyUserTemplate } from './notificationDelivery.service.js';
+
+/** Files accepted per reply */
+export const MAX_TICKET_ATTACHMENTS = 5;
+
+/**
+ * SLA targets in hours from ticket creation, by priority. Clocks run in wall time, including
+ * while a ticket waits on the user.
+ */
+export const TICKET_SLA_HOURS: Record<TicketPriority, { firstResponse: number; resolution: number }> = {
+  URGENT: { firstResponse: 2, resolution: 24 },
+  HIGH: { firstResponse: 4, resolution: 48 },
+  NORMAL: { firstResponse: 24, resolution: 120 },
+  LOW: { firstResponse: 72, resolution: 240 },
+};
+
+/** Priority given to owner-created tickets; admins can change it afterwards */
+const CATEGORY_PRIORITY: Record<TicketCategory, TicketPriority> = {
+  PAYMENT_DISPUTE: TicketPriority.HIGH,
+  DELIVERY_ISSUE: TicketPriority.HIGH,
+  QUALITY: TicketPriority.NORMAL,
+  ACCOUNT: TicketPriority.NORMAL,
+  PERFORMANCE_REVIEW: TicketPriority.NORMAL,
+  OTHER: TicketPriority.NORMAL,
+};
+
+/** Statuses where SLA clocks have stopped */
+const DONE_STATUSES: TicketStatus[] = [TicketStatus.RESOLVED, TicketStatus.CLOSED];
+
+/** Open tickets scanned when sorting the admin queue by breach risk */
+const QUEUE_SCAN_LIMIT = 1000;
+
+const messageAuthorSelect = { id: true, email: true, role: true } as const;
+
+const ticketUserSelect = { id: true, email: true, phone: true, role: true } as const;
+
+const assigneeSelect = { id: true, email: true } as const;
+
+export interface TicketSla {
+  firstResponseDueAt: Date;
+  resolutionDueAt: Date;
+  firstResponseBreached: boolean;
+  resolutionBreached: boolean;
+  /**
+   * Share of the tightest running target already used: 0 just opened, 1 or more breached.
+   * Null once the ticket is resolved or closed.
+   */
+  breachRisk: number | null;
+}
+
+type SlaFields = Pick<
+  SupportTicket,
+  'status' | 'priority' | 'createdAt' | 'firstResponseAt' | 'resolvedAt' | 'closedAt'
+>;
+
+function addHours(date: Date, hours: number): Date {
+  return new Date(date.getTime() + hours * 60 * 60 * 1000);
+}
+
+/**
+ * SLA targets and breach state for a ticket, computed from createdAt and the current priority
+ * (so a priority change moves the targets).
+ */
+export function getTicketSla(ticket: SlaFields, now: Date = new Date()): TicketSla {
+  const targets = TICKET_SLA_HOURS[ticket.priority];
+  const firstResponseDueAt = addHours(ticket.createdAt, targets.firstResponse);
+  const resolutionDueAt = addHours(ticket.createdAt, targets.resolution);
+  const done = DONE_STATUSES.includes(ticket.status);
+  const resolutionEnd = done ? (ticket.resolvedAt ?? ticket.closedAt ?? now) : now;
+
+  const used = (dueAt: Date) =>
+    (now.getTime() - ticket.createdAt.getTime()) / Math.max(1, dueAt.getTime() - ticket.createdAt.getTime());
+
+  let breachRisk: number | null = null;
+  if (!done) {
+    breachRisk = used(resolutionDueAt);
+    if (!ticket.firstResponseAt) breachRisk = Math.max(breachRisk, used(firstResponseDueAt));
+    breachRisk = Math.round(breachRisk * 100) / 100;
+  }
+
+  return {
+    firstResponseDueAt,
+    resolutionDueAt,
+    firstResponseBreached: (ticket.firstResponseAt ?? (done ? resolutionEnd : now)) > firstResponseDueAt,
+    resolutionBreached: resolutionEnd > resolutionDueAt,
+    breachRisk,
+  };
+}
+
+/** resolvedAt/closedAt for a status change: set when a ticket is finished, cleared when it reopens */
+function statusTimestamps(ticket: Pick<SupportTicket, 'resolvedAt' | 'closedAt'>, status: TicketStatus, now: Date) {
+  if (status === TicketStatus.RESOLVED) {
+    return { resolvedAt: ticket.resolvedAt ?? now, closedAt: null };
+  }
+  if (status === TicketStatus.CLOSED) {
+    return { resolvedAt: ticket.resolvedAt ?? now, closedAt: ticket.closedAt ?? now };
+  }
+  return { resolvedAt: null, closedAt: null };
+}
+
+async function assertAdminAssignee(assignedToId: string) {
+  const admin = await prisma.user.findFirst({
+    where: { id: assignedToId, role: UserRole.ADMIN },
+    select: { id: true },
+  });
+  if (!admin) {
+    throw createError('Tickets can only be assigned to an admin', 400, 'INVALID_ASSIGNEE');
+  }
+}
+
+function notifyAssignee(
+  ticket: Pick<SupportTicket, 'id' | 'subject' | 'category' | 'priority'>,
+  assignedToId: string
+) {
+  return notifyUserTemplate(
+    assignedToId,
+    'SUPPORT_TICKET_ASSIGNED',
+    { subject: ticket.subject, category: ticket.category, priority: ticket.priority },
+    { ticketId: ticket.id },
+    { sendSms: false }
+  ).catch((err) => console.error('[Support ticket] Notify failed:', err));
+}
 
 export interface CreateSupportTicketData {
   subject: string;
   message: string;
+  category?: TicketCategory;
 }
 
 export interface RespondToTicketData {
@@ -13,24 +137,27 @@ export interface RespondToTicketData {
 }
 
 /**
- * Create a support ticket (buyer only - enforced at route level).
+ * Create a support ticket (farmer or buyer). Priority follows the category.
  */
 export async function createSupportTicket(
   userId: string,
   data: CreateSupportTicketData
 ) {
+  const category = data.category ?? TicketCategory.OTHER;
   return prisma.supportTicket.create({
     data: {
       userId,
       subject: data.subject.trim(),
       message: data.message.trim(),
       status: TicketStatus.OPEN,
+      category,
+      priority: CATEGORY_PRIORITY[category],
     },
   });
 }
 
 /**
- * List support tickets for a buyer (own tickets only).
+ * List support tickets for their owner, farmer or buyer (own tickets only).
  */
 export async function listSupportTicketsByBuyer(userId: string, options?: { status?: TicketStatus; limit?: number }) {
   const limit = Math.min(options?.limit ?? 50, 100);
@@ -45,11 +172,18 @@ export async function listSupportTicketsByBuyer(userId: string, options?: { stat
 }
 
 /**
- * Get a single support ticket by ID (buyer: must own it).
+ * Get a single support ticket by ID with its conversation (owner: must own it; internal notes excluded).
  */
 export async function getSupportTicketByIdForBuyer(ticketId: string, userId: string) {
   const ticket = await prisma.supportTicket.findFirst({
     where: { id: ticketId, userId },
+    include: {
+      messages: {
+        where: { isInternal: false },
+        orderBy: { createdAt: 'asc' },
+        include: { author: { select: { id: true, role: true } } },
+      },
+    },
   });
   if (!ticket) {
     throw createError('Support ticket not found', 404, 'TICKET_NOT_FOUND');
@@ -113,91 +247,102 @@ export async function deleteSupportTicketByBuyer(ticketId: string, userId: strin
   return { deleted: true };
 }
 
+export interface SupportTicketQueueOptions {
+  status?: TicketStatus;
+  category?: TicketCategory;
+  priority?: TicketPriority;
+  /** Admin user ID, or null for unassigned tickets */
+  assignedToId?: string | null;
+  /** breachRisk: most at-risk first; without a status filter only unfinished tickets are listed */
+  sort?: 'createdAt' | 'breachRisk';
+  limit?: number;
+}
+
 /**
- * List all support tickets (admin). Optional filter by status.
+ * Admin ticket queue with SLA state per ticket. Filters by status, category, priority and assignee;
+ * sorted newest first or by breach risk.
  */
-export async function listAllSupportTickets(options?: { status?: TicketStatus; limit?: number }) {
-  const limit = Math.min(options?.limit ?? 100, 200);
-  const where: { status?: TicketStatus } = {};
-  if (options?.status) where.status = options.status;
+export async function listAllSupportTickets(options: SupportTicketQueueOptions = {}) {
+  const limit = Math.min(options.limit ?? 100, 200);
+  const where: Prisma.SupportTicketWhereInput = {};
+  if (options.status) where.status = options.status;
+  else if (options.sort === 'breachRisk') where.status = { notIn: DONE_STATUSES };
+  if (options.category) where.category = options.category;
+  if (options.priority) where.priority = options.priority;
+  if (options.assignedToId !== undefined) where.assignedToId = options.assignedToId;
 
-  return prisma.supportTicket.findMany({
+  const byRisk = options.sort === 'breachRisk';
+  const tickets = await prisma.supportTicket.findMany({
     where,
     include: {
-      user: {
-        select: {
-          id: true,
-          email: true,
-          phone: true,
-          role: true,
-        },
-      },
+      user: { select: ticketUserSelect },
+      assignedTo: { select: assigneeSelect },
     },
-    orderBy: { createdAt: 'desc' },
-    take: limit,
+    orderBy: byRisk ? { createdAt: 'asc' } : { createdAt: 'desc' },
+    take: byRisk ? QUEUE_SCAN_LIMIT : limit,
   });
+
+  const now = new Date();
+  const queue = tickets.map((ticket) => ({ ...ticket, sla: getTicketSla(ticket, now) }));
+  if (byRisk) {
+    queue.sort((a, b) => (b.sla.breachRisk ?? -1) - (a.sla.breachRisk ?? -1));
+  }
+  return queue.slice(0, limit);
 }
 
 /**
- * Get a support ticket by ID (admin - any ticket).
+ * Get a support ticket by ID with the full conversation, internal notes included (admin - any ticket).
  */
 export async function getSupportTicketByIdForAdmin(ticketId: string) {
   const ticket = await prisma.supportTicket.findUnique({
     where: { id: ticketId },
     include: {
-      user: {
-        select: {
-          id: true,
-          email: true,
-          phone: true,
-          role: true,
-        },
+      user: { select: ticketUserSelect },
+      assignedTo: { select: assigneeSelect },
+      messages: {
+        orderBy: { createdAt: 'asc' },
+        include: { author: { select: messageAuthorSelect } },
       },
     },
   });
   if (!ticket) {
     throw createError('Support ticket not found', 404, 'TICKET_NOT_FOUND');
   }
-  return ticket;
+  return { ...ticket, sla: getTicketSla(ticket) };
 }
 
 /**
- * Admin respond to a support ticket (set response, status, resolvedAt when RESOLVED).
+ * Admin respond to a support ticket. Adds the response to the conversation (earlier responses are
+ * kept) and sets status (WAITING_ON_USER unless given); the ticket owner is notified.
  */
 export async function respondToSupportTicket(
   ticketId: string,
   adminId: string,
   data: RespondToTicketData
 ) {
-  const ticket = await prisma.supportTicket.findUnique({
-    where: { id: ticketId },
+  await addTicketMessageByAdmin(ticketId, adminId, {
+    body: data.adminResponse,
+    status: data.status,
   });
 
-  if (!ticket) {
-    throw createError('Support ticket not found', 404, 'TICKET_NOT_FOUND');
-  }
-
-  const updated = await prisma.supportTicket.update({
+  return prisma.supportTicket.findUniqueOrThrow({
     where: { id: ticketId },
-    data: {
-      adminResponse: data.adminResponse.trim(),
-      adminRespondedBy: adminId,
-      adminRespondedAt: new Date(),
-      status: data.status ?? ticket.status,
-    },
   });
-
-  return updated;
 }
 
 export interface UpdateSupportTicketData {
   status?: TicketStatus;
   adminResponse?: string;
+  category?: TicketCategory;
+  priority?: TicketPriority;
+  /** Admin user ID; null unassigns */
+  assignedToId?: string | null;
 }
 
 /**
- * Admin update a support ticket (status and/or response). At least one field required.
- * Used for edit response, close/cancel, escalate.
+ * Admin update a support ticket (status, response, category, priority, assignee). At least one field
+ * required. Used for edit response, close/cancel, escalate and triage; a new assignee is notified
+ * unless they assigned themselves.
  */
 export async function updateSupportTicket(
   ticketId: string,
@@ -212,57 +357,255 @@ export async function updateSupportTicket(
     throw createError('Support ticket not found', 404, 'TICKET_NOT_FOUND');
   }
 
-  const updateData: Record<string, unknown> = {};
-  if (data.status !== undefined) updateData.status = data.status;
+  const now = new Date();
+  const updateData: Prisma.SupportTicketUncheckedUpdateInput = {};
+  if (data.status !== undefined) {
+    updateData.status = data.status;
+    Object.assign(updateData, statusTimestamps(ticket, data.status, now));
+  }
   if (data.adminResponse !== undefined) {
     updateData.adminResponse = data.adminResponse.trim();
     updateData.adminRespondedBy = adminId;
-    updateData.adminRespondedAt = new Date();
+    updateData.adminRespondedAt = now;
+    if (!ticket.firstResponseAt) updateData.firstResponseAt = now;
+  }
+  if (data.category !== undefined) updateData.category = data.category;
+  if (data.priority !== undefined) updateData.priority = data.priority;
+  const reassigned = data.assignedToId !== undefined && data.assignedToId !== ticket.assignedToId;
+  if (reassigned) {
+    if (data.assignedToId) await assertAdminAssignee(data.assignedToId);
+    updateData.assignedToId = data.assignedToId;
+    updateData.assignedAt = data.assignedToId ? now : null;
   }
 
-  if (Object.keys(updateData).length === 0) {
-    throw createError('At least one of status or adminResponse is required', 400, 'VALIDATION_ERROR');
+  if (Object.keys(updateData).length === 0 && data.assignedToId === undefined) {
+    throw createError(
+      'At least one of status, adminResponse, category, priority or assignedToId is required',
+      400,
+      'VALIDATION_ERROR'
+    );
   }
 
-  return prisma.supportTicket.update({
+  const updated = await prisma.supportTicket.update({
     where: { id: ticketId },
     data: updateData,
     include: {
-      user: {
-        select: {
-          id: true,
-          email: true,
-          phone: true,
-          role: true,
-        },
-      },
+      user: { select: ticketUserSelect },
+      assignedTo: { select: assigneeSelect },
     },
   });
+
+  if (reassigned && updated.assignedToId && updated.assignedToId !== adminId) {
+    await notifyAssignee(updated, updated.assignedToId);
+  }
+
+  return { ...updated, sla: getTicketSla(updated) };
+}
+
+export interface CreateSupportTicketByAdminData extends CreateSupportTicketData {
+  priority?: TicketPriority;
+  assignedToId?: string;
 }
 
 /**
- * Admin create a support ticket on behalf of a user.
+ * Admin create a support ticket on behalf of a user. Priority follows the category unless given.
  */
 export async function createSupportTicketByAdmin(
   userId: string,
-  data: CreateSupportTicketData
+  adminId: string,
+  data: CreateSupportTicketByAdminData
 ) {
-  return prisma.supportTicket.create({
+  if (data.assignedToId) await assertAdminAssignee(data.assignedToId);
+
+  const category = data.category ?? TicketCategory.OTHER;
+  const ticket = await prisma.supportTicket.create({
     data: {
       userId,
       subject: data.subject.trim(),
       message: data.message.trim(),
       status: TicketStatus.OPEN,
+      category,
+      priority: data.priority ?? CATEGORY_PRIORITY[category],
+      assignedToId: data.assignedToId,
+      assignedAt: data.assignedToId ? new Date() : undefined,
     },
     include: {
-      user: {
-        select: {
-          id: true,
-          email: true,
-          phone: true,
-          role: true,
-        },
+      user: { select: ticketUserSelect },
+      assignedTo: { select: assigneeSelect },
+    },
+  });
+
+  if (ticket.assignedToId && ticket.assignedToId !== adminId) {
+    await notifyAssignee(ticket, ticket.assignedToId);
+  }
+
+  return ticket;
+}
+
+export interface TicketAttachment {
+  url: string;
+  publicId: string;
+  format: string;
+  bytes: number;
+  fileName: string;
+}
+
+export interface AddTicketMessageData {
+  body: string;
+  /** Admin only: note visible to admins, no status change or notification */
+  isInternal?: boolean;
+  /** Admin only: status to set instead of the automatic one */
+  status?: TicketStatus;
+}
+
+async function uploadTicketAttachments(
+  ticketId: string,
+  files: Express.Multer.File[]
+): Promise<TicketAttachment[]> {
+  if (files.length > MAX_TICKET_ATTACHMENTS) {
+    throw createError(
+      `At most ${MAX_TICKET_ATTACHMENTS} attachments per reply`,
+      400,
+      'TOO_MANY_ATTACHMENTS'
+    );
+  }
+  files.forEach(validateImageOrPdfFile);
+
+  return Promise.all(
+    files.map(async (file) => {
+      const fileName = `ticket-${Date.now()}-${Math.random().toString(36).substring(7)}`;
+      const result = await uploadImageOrPdfToCloudinary(
+        file.buffer,
+        `support-tickets/${ticketId}`,
+        fileName,
+        file.mimetype
+      );
+      return {
+        url: result.secureUrl,
+        publicId: result.publicId,
+        format: result.format,
+        bytes: result.bytes,
+        fileName: file.originalname,
+      };
+    })
+  );
+}
+
+/**
+ * Ticket owner (farmer or buyer) replies. The ticket goes back to OPEN so it shows up for admins
+ * again; the assignee is notified, or all admins when unassigned. Closed tickets take no replies.
+ */
+export async function addTicketMessageByOwner(
+  ticketId: string,
+  userId: string,
+  data: { body: string },
+  files: Express.Multer.File[] = []
+) {
+  const ticket = await prisma.supportTicket.findFirst({
+    where: { id: ticketId, userId },
+    include: { user: { select: { role: true } } },
+  });
+  if (!ticket) {
+    throw createError('Support ticket not found', 404, 'TICKET_NOT_FOUND');
+  }
+  if (ticket.status === TicketStatus.CLOSED) {
+    throw createError('This ticket is closed. Please open a new ticket.', 400, 'TICKET_CLOSED');
+  }
+
+  const attachments = await uploadTicketAttachments(ticketId, files);
+  const now = new Date();
+  const [message] = await prisma.$transaction([
+    prisma.ticketMessage.create({
+      data: {
+        ticketId,
+        authorId: userId,
+        authorRole: ticket.user.role,
+        body: data.body.trim(),
+        attachments: attachments.length ? (attachments as unknown as Prisma.InputJsonArray) : undefined,
       },
+      include: { author: { select: { id: true, role: true } } },
+    }),
+    prisma.supportTicket.update({
+      where: { id: ticketId },
+      data: {
+        status: TicketStatus.OPEN,
+        ...statusTimestamps(ticket, TicketStatus.OPEN, now),
+        lastMessageAt: now,
+      },
+    }),
+  ]);
+
+  const variables = { subject: ticket.subject, authorRole: ticket.user.role.toLowerCase() };
+  const metadata = { ticketId, messageId: message.id };
+  await (ticket.assignedToId
+    ? notifyUserTemplate(ticket.assignedToId, 'SUPPORT_TICKET_REPLY', variables, metadata, { sendSms: false })
+    : notifyAdminsTemplate('SUPPORT_TICKET_REPLY', variables, metadata, { sendSms: false })
+  ).catch((err) => console.error('[Support ticket] Notify failed:', err));
+
+  return message;
+}
+
+/**
+ * Admin replies or adds an internal note. A reply moves the ticket to WAITING_ON_USER (or
+ * data.status), stops the first-response clock, mirrors into adminResponse, and notifies the owner.
+ * Notes change nothing else.
+ */
+export async function addTicketMessageByAdmin(
+  ticketId: string,
+  adminId: string,
+  data: AddTicketMessageData,
+  files: Express.Multer.File[] = []
+) {
+  const ticket = await prisma.supportTicket.findUnique({
+    where: { id: ticketId },
+  });
+  if (!ticket) {
+    throw createError('Support ticket not found', 404, 'TICKET_NOT_FOUND');
+  }
+
+  const attachments = await uploadTicketAttachments(ticketId, files);
+  const body = data.body.trim();
+  const now = new Date();
+  const createMessage = prisma.ticketMessage.create({
+    data: {
+      ticketId,
+      authorId: adminId,
+      authorRole: UserRole.ADMIN,
+      body,
+      attachments: attachments.length ? (attachments as unknown as Prisma.InputJsonArray) : undefined,
+      isInternal: data.isInternal ?? false,
     },
+    include: { author: { select: messageAuthorSelect } },
   });
+
+  if (data.isInternal) {
+    return createMessage;
+  }
+
+  const status = data.status ?? TicketStatus.WAITING_ON_USER;
+  const [message] = await prisma.$transaction([
+    createMessage,
+    prisma.supportTicket.update({
+      where: { id: ticketId },
+      data: {
+        status,
+        ...statusTimestamps(ticket, status, now),
+        firstResponseAt: ticket.firstResponseAt ?? now,
+        adminResponse: body,
+        adminRespondedBy: adminId,
+        adminRespondedAt: now,
+        lastMessageAt: now,
+      },
+    }),
+  ]);
+
+  await notifyUserTemplate(
+    ticket.userId,
+    'SUPPORT_TICKET_RESPONSE',
+    { subject: ticket.subject },
+    { ticketId, messageId: message.id },
+    { sendEmail: true, sendSms: false }
+  ).catch((err) => console.error('[Support ticket] Notify failed:', err));
+
+  return message;
 }
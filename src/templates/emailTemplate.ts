@@ -5,7 +5,7 @@
  * Colors from landing: primary #293E31, accent #FE8340, background #F5F5F0,
  * text light #FCF9F4, text gray #4A4A4A, footer #27372b, secondary #DACEC2
  */
-const BRAND = {
+export const BRAND = {
   primary: '#293E31',
   primaryDark: '#27372b',
   accent: '#FE8340',
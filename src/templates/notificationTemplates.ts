@@ -0,0 +1,519 @@
+/**
+ * Notification content catalog: one entry per NotificationType (plus `TYPE.variant` keys where a
+ * type has more than one wording), with in-app / email / SMS text in each supported locale.
+ *
+ * Placeholders are written {name}. List variables (e.g. {deliveries}) render each item with the
+ * locale's `item` template and join them with "; ".
+ * Variants fall back: sms -> inApp, email -> inApp; locales fall back to English.
+ * SMS text is kept to one GSM-7 SMS (160 characters) where possible. Twi and Ga copy exists for
+ * farmer-facing types (farmers can pick their language); it should be checked by native speakers
+ * whenever the wording changes, and Twi/Ga letters (ɛ, ɔ, ŋ) make SMS parts 70 characters long.
+ */
+import { NOTIFICATION_TYPES, type NotificationType } from '../services/notification.service.js';
+import { getEmailHtml } from './emailTemplate.js';
+import { fitSms, getSmsInfo, type SmsInfo } from '../utils/smsSegments.js';
+
+export const SUPPORTED_LOCALES = ['en', 'tw', 'gaa'] as const;
+export type Locale = (typeof SUPPORTED_LOCALES)[number];
+export const DEFAULT_LOCALE: Locale = 'en';
+
+/** SMS messages are cut to this many parts to keep costs predictable */
+const SMS_MAX_SEGMENTS = 2;
+
+export type TemplateKey = NotificationType | `${NotificationType}.${string}`;
+
+type ScalarValue = string | number | Date;
+export type TemplateValue = ScalarValue | Record<string, ScalarValue>[] | null | undefined;
+export type TemplateVariables = Record<string, TemplateValue>;
+
+interface LocalizedTemplate {
+  title: string; // In-app title and email subject
+  inApp: string;
+  email?: string;
+  sms?: string;
+  item?: string; // How one entry of a list variable reads
+}
+
+interface TemplateDefinition {
+  description: string;
+  /** Example values; used by the admin preview when variables are not supplied */
+  sample: TemplateVariables;
+  en: LocalizedTemplate;
+  tw?: LocalizedTemplate;
+  gaa?: LocalizedTemplate;
+}
+
+const NOTIFICATION_TEMPLATES: Record<TemplateKey, TemplateDefinition> = {
+  APPLICATION_REVIEWED: {
+    description: 'Farmer application approved',
+    sample: {},
+    en: {
+      title: 'Application approved',
+      inApp: 'Your farmer application has been approved. You can now access your dashboard and submit weekly availability.',
+      sms: 'Sourceli: Your farmer application is approved. Log in to submit your weekly availability.',
+    },
+    tw: {
+      title: 'Wɔapene wo abisadeɛ so',
+      inApp: 'Wɔapene wo okuafoɔ abisadeɛ no so. Afei wobɛtumi akɔ wo dashboard so na woakyerɛ nneɛma a wowɔ dapɛn biara.',
+      sms: 'Sourceli: Wɔapene wo abisadeɛ so. Kɔ wo dashboard so kyerɛ nneɛma a wowɔ.',
+    },
+    gaa: {
+      title: 'Akpɛlɛ o-sanebimɔ lɛ nɔ',
+      inApp: 'Akpɛlɛ o-okwaafonyo sanebimɔ lɛ nɔ. Agbɛnɛ obaanyɛ oya o-dashboard lɛ nɔ ni ojie nii ni yɔɔ odɛŋ otsi fɛɛ otsi lɛ kpo.',
+      sms: 'Sourceli: Akpɛlɛ o-sanebimɔ lɛ nɔ. Ya o-dashboard lɛ nɔ ni ojie o-nii lɛ kpo.',
+    },
+  },
+  APPLICATION_REJECTED: {
+    description: 'Farmer application rejected with a reason',
+    sample: { reason: 'Farm photos were unclear.' },
+    en: {
+      title: 'Application not approved',
+      inApp: 'Your farmer application was not approved. Reason: {reason}',
+    },
+    tw: {
+      title: 'Wɔampene wo abisadeɛ so',
+      inApp: 'Wɔampene wo okuafoɔ abisadeɛ no so. Deɛ enti: {reason}',
+    },
+    gaa: {
+      title: 'Akpɛlɛɛɛ o-sanebimɔ lɛ nɔ',
+      inApp: 'Akpɛlɛɛɛ o-okwaafonyo sanebimɔ lɛ nɔ. Nɔ hewɔ: {reason}',
+    },
+  },
+  'APPLICATION_REJECTED.noReason': {
+    description: 'Farmer application rejected without a reason',
+    sample: {},
+    en: {
+      title: 'Application not approved',
+      inApp: 'Your farmer application was not approved. Please contact support for more information.',
+    },
+    tw: {
+      title: 'Wɔampene wo abisadeɛ so',
+      inApp: 'Wɔampene wo okuafoɔ abisadeɛ no so. Yɛsrɛ wo, frɛ support na wohunu nsɛm pii.',
+    },
+    gaa: {
+      title: 'Akpɛlɛɛɛ o-sanebimɔ lɛ nɔ',
+      inApp: 'Akpɛlɛɛɛ o-okwaafonyo sanebimɔ lɛ nɔ. Ofainɛ, tsɛ support koni ole sane lɛ he babaoo.',
+    },
+  },
+  REGISTRATION_APPROVED: {
+    description: 'Buyer registration approved',
+    sample: {},
+    en: {
+      title: 'Registration approved',
+      inApp: 'Your buyer registration has been approved. You can now place orders.',
+    },
+  },
+  REGISTRATION_REJECTED: {
+    description: 'Buyer registration rejected with a reason',
+    sample: { reason: 'Business registration document has expired.' },
+    en: {
+      title: 'Registration not approved',
+      inApp: 'Your buyer registration was not approved. Reason: {reason}',
+    },
+  },
+  'REGISTRATION_REJECTED.noReason': {
+    description: 'Buyer registration rejected without a reason',
+    sample: {},
+    en: {
+      title: 'Registration not approved',
+      inApp: 'Your buyer registration was not approved. Please contact support.',
+    },
+  },
+  NEW_ASSIGNMENT: {
+    description: 'Farmer received one delivery assignment',
+    sample: { quantity: 120, productType: 'Eggs (crate)', deliveryDate: new Date('2026-11-02') },
+    en: {
+      title: 'New delivery assignment',
+      inApp: 'You have a new delivery: {quantity} units of {productType} for {deliveryDate}.',
+      email: 'You have a new delivery: {quantity} units of {productType} for {deliveryDate}.\n\nLog in to your Sourceli dashboard to see the delivery details.',
+      sms: 'Sourceli: New delivery - {quantity} units of {productType} for {deliveryDate}.',
+    },
+    tw: {
+      title: 'Adwuma foforɔ',
+      inApp: 'Wowɔ nneɛma foforɔ a ɛsɛ sɛ wode ba: {productType} {quantity} ma {deliveryDate}.',
+      sms: 'Sourceli: Fa {productType} {quantity} bra {deliveryDate}.',
+    },
+    gaa: {
+      title: 'Nitsumɔ hee',
+      inApp: 'Oná nitsumɔ hee: okɛ {productType} {quantity} aba {deliveryDate}.',
+      sms: 'Sourceli: Kɛ {productType} {quantity} ba {deliveryDate}.',
+    },
+  },
+  'NEW_ASSIGNMENT.batch': {
+    description: 'Farmer received several delivery assignments at once (batch allocation)',
+    sample: {
+      count: 2,
+      deliveries: [
+        { quantity: 60, productType: 'Eggs (crate)', deliveryDate: new Date('2026-11-02') },
+        { quantity: 40, productType: 'Broilers', deliveryDate: new Date('2026-11-04') },
+      ],
+    },
+    en: {
+      title: '{count} new delivery assignments',
+      inApp: 'You have {count} new deliveries: {deliveries}.',
+      sms: 'Sourceli: {count} new deliveries: {deliveries}.',
+      item: '{quantity} units of {productType} for {deliveryDate}',
+    },
+    tw: {
+      title: 'Nnwuma foforɔ {count}',
+      inApp: 'Wowɔ nneɛma foforɔ {count} a ɛsɛ sɛ wode ba: {deliveries}.',
+      item: '{productType} {quantity} ma {deliveryDate}',
+    },
+    gaa: {
+      title: 'Nitsumɔi hee {count}',
+      inApp: 'Oná nitsumɔi hee {count}: {deliveries}.',
+      item: '{productType} {quantity} yɛ {deliveryDate}',
+    },
+  },
+  ORDER_APPROVED: {
+    description: 'Buyer order approved and moving to allocation',
+    sample: { productType: 'Eggs (crate)', quantity: 200, deliveryDate: new Date('2026-11-02') },
+    en: {
+      title: 'Order approved',
+      inApp: 'Your order ({productType}, {quantity} units) has been approved and is being allocated for delivery on {deliveryDate}.',
+      sms: 'Sourceli: Your order of {quantity} {productType} is approved for delivery on {deliveryDate}.',
+    },
+  },
+  ORDER_REJECTED: {
+    description: 'Buyer order rejected',
+    sample: { reason: 'Requested quantity is not available for that week.' },
+    en: {
+      title: 'Order not approved',
+      inApp: 'Your order was not approved. Reason: {reason}',
+    },
+  },
+  ORDER_MODIFICATION_REQUESTED: {
+    description: 'Admin sent an order back to the buyer for changes',
+    sample: { message: 'Please move the delivery date to Wednesday.' },
+    en: {
+      title: 'Admin requested order changes',
+      inApp: 'The admin has requested changes to your order. Message: {message}',
+    },
+  },
+  BUYER_SUBMITTED_ORDER_CHANGES: {
+    description: 'Admins: a buyer resubmitted an order after a modification request',
+    sample: { orderRef: 'a1b2c3d4' },
+    en: {
+      title: 'Buyer submitted order changes',
+      inApp: 'A buyer has submitted changes to an order that was sent back for modification. Order ID: {orderRef}. Please review and approve or reject.',
+      sms: 'Sourceli: Buyer resubmitted order {orderRef} for review.',
+    },
+  },
+  ADMIN_UPDATED_ORDER: {
+    description: 'Admin edited a buyer order',
+    sample: {},
+    en: {
+      title: 'Admin updated your order',
+      inApp: 'The admin has updated your order. It is pending approval again. You can view the changes in your order details.',
+    },
+  },
+  ORDER_STATUS_CHANGE: {
+    description: 'Buyer order moved to a new status',
+    sample: { status: 'ALLOCATION' },
+    en: {
+      title: 'Order update',
+      inApp: 'Your order status is now {status}.',
+    },
+  },
+  'ORDER_STATUS_CHANGE.delivered': {
+    description: 'Buyer order fully delivered',
+    sample: {},
+    en: {
+      title: 'Order delivered',
+      inApp: 'Your order has been delivered. Thank you for your business!',
+    },
+  },
+  TIER_CHANGED: {
+    description: 'Farmer performance tier recalculated',
+    sample: {},
+    en: {
+      title: 'Performance tier updated',
+      inApp: 'Your performance tier has been updated based on recent delivery outcomes. Check your dashboard for details.',
+    },
+    tw: {
+      title: 'Wo gyinabea asesa',
+      inApp: 'Wɔasesa wo adwumayɛ gyinabea esiane sɛdeɛ wode nneɛma baeɛ nnansa yi. Hwɛ wo dashboard so.',
+    },
+    gaa: {
+      title: 'O-gbɛhe lɛ etsake',
+      inApp: 'Atsake o-nitsumɔ gbɛhe lɛ yɛ bɔ ni okɛ nii ba nyɛɛ lɛ naa. Kwɛmɔ o-dashboard lɛ nɔ.',
+    },
+  },
+  LATE_AVAILABILITY_WARNING: {
+    description: 'Farmer submitted weekly availability after the Monday-Tuesday window',
+    sample: {},
+    en: {
+      title: 'Late availability submission',
+      inApp: 'Your availability was submitted after the Monday–Tuesday window. Late submissions may affect your performance score.',
+      sms: 'Sourceli: Your availability was submitted after the Monday-Tuesday window. Late submissions may affect your score.',
+    },
+    tw: {
+      title: 'Woatwa berɛ',
+      inApp: 'Wode nneɛma a wowɔ no baeɛ Dwoada–Benada berɛ no akyi. Ɛbɛtumi aka wo adwumayɛ akontaa.',
+    },
+    gaa: {
+      title: 'Osɛɛ',
+      inApp: 'Ojie nii ni yɔɔ odɛŋ lɛ kpo yɛ Ju–Jufɔ be lɛ sɛɛ. Ebaanyɛ ena o-nitsumɔ akɔntaa lɛ nɔ hewalɛ.',
+    },
+  },
+  'LATE_AVAILABILITY_WARNING.monthly': {
+    description: 'Farmer submitted monthly availability after the submission window',
+    sample: {},
+    en: {
+      title: 'Late monthly availability submission',
+      inApp: 'Your monthly availability was submitted after the submission window. Late submissions may affect your performance score.',
+      sms: 'Sourceli: Your monthly availability was submitted late. Late submissions may affect your score.',
+    },
+    tw: {
+      title: 'Woatwa berɛ',
+      inApp: 'Wode bosome yi nneɛma a wowɔ no baeɛ berɛ no akyi. Ɛbɛtumi aka wo adwumayɛ akontaa.',
+    },
+    gaa: {
+      title: 'Osɛɛ',
+      inApp: 'Ojie nyɔŋ nɛɛ nii ni yɔɔ odɛŋ lɛ kpo yɛ be lɛ sɛɛ. Ebaanyɛ ena o-nitsumɔ akɔntaa lɛ nɔ hewalɛ.',
+    },
+  },
+  MISSED_DELIVERY_WARNING: {
+    description: 'Farmer delivery marked as failed',
+    sample: {},
+    en: {
+      title: 'Delivery marked as failed',
+      inApp: 'A delivery assignment was marked as failed. This may affect your performance score.',
+    },
+    tw: {
+      title: 'Nneɛma no amma',
+      inApp: 'Wɔakyerɛw sɛ nneɛma a ɛsɛ sɛ wode ba no amma. Ɛbɛtumi aka wo adwumayɛ akontaa.',
+    },
+    gaa: {
+      title: 'Nii lɛ ebaaa',
+      inApp: 'Aŋma akɛ nii ni esa akɛ okɛba lɛ ebaaa. Ebaanyɛ ena o-nitsumɔ akɔntaa lɛ nɔ hewalɛ.',
+    },
+  },
+  DELIVERY_REMINDER: {
+    description: 'Farmer delivery due in about 24 hours',
+    sample: { quantity: 120, productType: 'Eggs (crate)' },
+    en: {
+      title: 'Delivery tomorrow',
+      inApp: 'Reminder: You have a delivery of {quantity} units of {productType} scheduled for tomorrow.',
+      sms: 'Sourceli reminder: deliver {quantity} units of {productType} tomorrow.',
+    },
+    tw: {
+      title: 'Ɔkyena na wode nneɛma ba',
+      inApp: 'Kae: ɔkyena ɛsɛ sɛ wode {productType} {quantity} ba.',
+    },
+    gaa: {
+      title: 'Wɔɔ lɛ okɛ nii aba',
+      inApp: 'Kaimɔ: wɔɔ lɛ esa akɛ okɛ {productType} {quantity} aba.',
+    },
+  },
+  STANDING_ORDER_GENERATED: {
+    description: 'Buyer standing order produced a new order',
+    sample: { quantity: 100, productType: 'Eggs (crate)', deliveryDate: new Date('2026-11-09') },
+    en: {
+      title: 'New order from standing order',
+      inApp: 'A new order has been created from your standing order: {quantity} units of {productType} for delivery on {deliveryDate}. It is pending admin approval.',
+      sms: 'Sourceli: Standing order created a new order of {quantity} {productType} for {deliveryDate}, pending approval.',
+    },
+  },
+  INVOICE_ISSUED: {
+    description: 'Invoice issued to a buyer',
+    sample: { invoiceNumber: 'INV-2026-0042', productType: 'Eggs (crate)', amount: '2400.00', dueDate: new Date('2026-11-16') },
+    en: {
+      title: 'Invoice issued',
+      inApp: 'Invoice {invoiceNumber} for your {productType} order has been issued. Amount due: {amount} by {dueDate}.',
+      sms: 'Sourceli: Invoice {invoiceNumber} issued. Amount due GHS {amount} by {dueDate}.',
+    },
+  },
+  INVOICE_PRICE_MISSING: {
+    description: 'Admins: an invoice was not issued because a delivery has no agreed unit price',
+    sample: { orderReference: 'ORD-4F2A9C', count: 1 },
+    en: {
+      title: 'Invoice not issued: price missing',
+      inApp: 'The invoice for order {orderReference} was not issued: {count} delivered assignment(s) have no agreed unit price. Set the price in availability or the pricing band, then issue the invoice from the order.',
+    },
+  },
+  SUPPORT_TICKET_RESPONSE: {
+    description: 'Admin responded to a support ticket',
+    sample: { subject: 'Late payment' },
+    en: {
+      title: 'Support request updated',
+      inApp: 'An admin has responded to your support request. Check "My support requests" on your Performance page (or Support page) for details.',
+    },
+  },
+  SUPPORT_TICKET_REPLY: {
+    description: 'Admins: the ticket owner replied on a support ticket',
+    sample: { subject: 'Late payment', authorRole: 'farmer' },
+    en: {
+      title: 'New reply on support ticket',
+      inApp: 'The {authorRole} who opened "{subject}" has replied. Open the ticket in Support to respond.',
+    },
+  },
+  SUPPORT_TICKET_ASSIGNED: {
+    description: 'Admins: a support ticket was assigned to you',
+    sample: { subject: 'Late payment', priority: 'HIGH', category: 'PAYMENT_DISPUTE' },
+    en: {
+      title: 'Support ticket assigned to you',
+      inApp: '"{subject}" ({category}, {priority} priority) is now assigned to you.',
+    },
+  },
+  DISPUTE_OPENED: {
+    description: 'Admins and the other party: a dispute was opened on a delivery',
+    sample: { raisedByRole: 'buyer', reason: 'QUANTITY_SHORT', productType: 'Eggs (crate)', deliveryDate: new Date('2026-11-02') },
+    en: {
+      title: 'Delivery disputed',
+      inApp: 'A {raisedByRole} has disputed the {productType} delivery for {deliveryDate} ({reason}). Open Disputes to see the details and add evidence.',
+      email: 'A {raisedByRole} has disputed the {productType} delivery for {deliveryDate} ({reason}).\n\nLog in to your Sourceli dashboard to see the details and add evidence. An admin will review the dispute.',
+    },
+  },
+  'DISPUTE_OPENED.payment': {
+    description: 'Admins and the other party: a dispute was opened on a buyer-to-supplier payment',
+    sample: { raisedByRole: 'farmer', reason: 'PAYMENT', amount: '450.00', paymentDate: new Date('2026-11-05') },
+    en: {
+      title: 'Payment disputed',
+      inApp: 'A {raisedByRole} has disputed the GHS {amount} payment of {paymentDate} ({reason}). Open Disputes to see the details and add evidence.',
+      email: 'A {raisedByRole} has disputed the GHS {amount} payment of {paymentDate} ({reason}).\n\nLog in to your Sourceli dashboard to see the details and add evidence. An admin will review the dispute.',
+    },
+  },
+  DISPUTE_RESOLVED: {
+    description: 'Both parties: an admin resolved a dispute',
+    sample: { outcome: 'in favour of the buyer', notes: 'Delivery note shows 100 crates received, not 120.' },
+    en: {
+      title: 'Dispute resolved',
+      inApp: 'A dispute you are part of has been resolved {outcome}. {notes}',
+      email: 'A dispute you are part of has been resolved {outcome}.\n\n{notes}\n\nLog in to your Sourceli dashboard to see any changes made to the delivery.',
+      sms: 'Sourceli: A dispute has been resolved {outcome}. See your dashboard for details.',
+    },
+  },
+  DELIVERY_DISCREPANCY: {
+    description: "Admins: a buyer's delivery acknowledgement disagrees with the farmer or admin confirmation",
+    sample: {
+      productType: 'Eggs (crate)',
+      deliveryDate: new Date('2026-11-02'),
+      discrepancies: 'QUANTITY_VS_FARMER, QUALITY_VS_ADMIN',
+    },
+    en: {
+      title: 'Delivery discrepancy to review',
+      inApp: "The buyer's acknowledgement of the {productType} delivery for {deliveryDate} does not match ({discrepancies}). Review it under Deliveries.",
+    },
+  },
+  BROADCAST: {
+    description: 'Admin broadcast to a segment of users (title and message written by the admin)',
+    sample: {
+      title: 'Holiday delivery schedule',
+      message: 'There will be no deliveries on Monday 7 December (Farmers Day). Orders for that day move to Tuesday.',
+    },
+    en: {
+      title: '{title}',
+      inApp: '{message}',
+      sms: 'Sourceli: {message}',
+    },
+  },
+};
+
+export interface RenderedNotification {
+  key: TemplateKey;
+  type: NotificationType;
+  locale: Locale;
+  title: string;
+  inApp: string;
+  email: { subject: string; text: string; html: string };
+  sms: { text: string } & SmsInfo;
+}
+
+export function isTemplateKey(key: string): key is TemplateKey {
+  return key in NOTIFICATION_TEMPLATES;
+}
+
+export function isSupportedLocale(locale: string | null | undefined): locale is Locale {
+  return !!locale && (SUPPORTED_LOCALES as readonly string[]).includes(locale);
+}
+
+function formatValue(value: ScalarValue): string {
+  if (value instanceof Date) {
+    return value.toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric', timeZone: 'UTC' });
+  }
+  return String(value);
+}
+
+function interpolate(text: string, variables: TemplateVariables, item?: string): string {
+  return text.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = variables[name];
+    if (value == null) return placeholder;
+    if (Array.isArray(value)) {
+      return value
+        .map((entry) =>
+          item
+            ? interpolate(item, entry)
+            : Object.values(entry).map(formatValue).join(' ')
+        )
+        .join('; ');
+    }
+    return formatValue(value);
+  });
+}
+
+/**
+ * Render a catalog entry for a locale. Missing translations fall back to English
+ * and missing variants to the in-app text; unknown placeholders are left as written.
+ */
+export function renderNotification(
+  key: TemplateKey,
+  variables: TemplateVariables = {},
+  locale: string = DEFAULT_LOCALE
+): RenderedNotification {
+  const definition = NOTIFICATION_TEMPLATES[key];
+  const resolvedLocale: Locale = isSupportedLocale(locale) && definition[locale] ? locale : DEFAULT_LOCALE;
+  const template = definition[resolvedLocale]!;
+  const render = (text: string) => interpolate(text, variables, template.item ?? definition.en.item);
+
+  const title = render(template.title);
+  const inApp = render(template.inApp);
+  const emailText = render(template.email ?? template.inApp);
+  const smsText = fitSms(render(template.sms ?? template.inApp), SMS_MAX_SEGMENTS);
+
+  return {
+    key,
+    type: key.split('.')[0] as NotificationType,
+    locale: resolvedLocale,
+    title,
+    inApp,
+    email: { subject: title, text: emailText, html: getEmailHtml(title, emailText) },
+    sms: { text: smsText, ...getSmsInfo(smsText) },
+  };
+}
+
+/**
+ * Catalog summary for admins: keys, the variables each uses and the locales it is written in.
+ */
+export function listNotificationTemplates() {
+  return (Object.entries(NOTIFICATION_TEMPLATES) as [TemplateKey, TemplateDefinition][]).map(
+    ([key, definition]) => {
+      const texts = SUPPORTED_LOCALES.flatMap((locale) => {
+        const t = definition[locale];
+        return t ? [t.title, t.inApp, t.email ?? '', t.sms ?? ''] : [];
+      });
+      const variables = [...new Set(texts.join(' ').match(/\{(\w+)\}/g) ?? [])].map((p) => p.slice(1, -1));
+      return {
+        key,
+        type: key.split('.')[0] as NotificationType,
+        description: definition.description,
+        variables,
+        locales: SUPPORTED_LOCALES.filter((locale) => definition[locale]),
+      };
+    }
+  );
+}
+
+/**
+ * Example values for a template (used by the admin preview).
+ */
+export function getTemplateSample(key: TemplateKey): TemplateVariables {
+  return NOTIFICATION_TEMPLATES[key].sample;
+}
+
+// Every NotificationType has a base entry
+for (const type of NOTIFICATION_TYPES) {
+  if (!isTemplateKey(type)) {
+    throw new Error(`Missing notification template for ${type}`);
+  }
+}
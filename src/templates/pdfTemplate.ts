@@ -0,0 +1,194 @@
+import PDFDocument from 'pdfkit';
+import { BRAND } from './emailTemplate.js';
+
+/**
+ * Printable PDF template matching the Sourceli email branding (see emailTemplate.ts).
+ * Header band in primary green with accent rule, detail sections, optional line-item table and totals.
+ */
+
+export interface PdfDetailSection {
+  heading: string;
+  rows: Array<[label: string, value: string]>;
+}
+
+export interface PdfTableColumn {
+  header: string;
+  width: number; // Fraction of the content width (columns should sum to 1)
+  align?: 'left' | 'right';
+}
+
+export interface PdfTable {
+  columns: PdfTableColumn[];
+  rows: string[][];
+}
+
+export interface PdfDocumentContent {
+  title: string; // e.g. "Invoice", "Delivery note"
+  reference: string; // e.g. invoice number or record ID
+  issuedAt: Date;
+  sections: PdfDetailSection[];
+  table?: PdfTable;
+  totals?: Array<[label: string, value: string]>;
+  note?: string;
+}
+
+const PAGE_MARGIN = 50;
+
+/**
+ * Format an amount for documents (Ghana cedi).
+ */
+export function formatMoney(amount: number): string {
+  return `GHS ${amount.toFixed(2)}`;
+}
+
+/**
+ * Format a date for documents (e.g. "12 Mar 2025").
+ */
+export function formatDate(date: Date): string {
+  return date.toLocaleDateString('en-GB', { day: 'numeric', month: 'short', year: 'numeric' });
+}
+
+function drawHeader(doc: PDFKit.PDFDocument, content: PdfDocumentContent): void {
+  const width = doc.page.width;
+  doc.rect(0, 0, width, 90).fill(BRAND.primary);
+  doc.fillColor(BRAND.textLight).font('Helvetica-Bold').fontSize(22).text('Sourceli', PAGE_MARGIN, 30);
+  doc.rect(PAGE_MARGIN, 60, 48, 4).fill(BRAND.accent);
+  doc
+    .fillColor(BRAND.textLight)
+    .font('Helvetica-Bold')
+    .fontSize(16)
+    .text(content.title, PAGE_MARGIN, 30, { width: width - PAGE_MARGIN * 2, align: 'right' });
+  doc
+    .font('Helvetica')
+    .fontSize(10)
+    .text(content.reference, PAGE_MARGIN, 52, { width: width - PAGE_MARGIN * 2, align: 'right' })
+    .text(`Issued ${formatDate(content.issuedAt)}`, { width: width - PAGE_MARGIN * 2, align: 'right' });
+  doc.y = 115;
+}
+
+function drawSection(doc: PDFKit.PDFDocument, section: PdfDetailSection): void {
+  const contentWidth = doc.page.width - PAGE_MARGIN * 2;
+  doc.fillColor(BRAND.primary).font('Helvetica-Bold').fontSize(12).text(section.heading, PAGE_MARGIN);
+  doc
+    .moveTo(PAGE_MARGIN, doc.y + 2)
+    .lineTo(PAGE_MARGIN + contentWidth, doc.y + 2)
+    .strokeColor(BRAND.border)
+    .stroke();
+  doc.moveDown(0.5);
+  for (const [label, value] of section.rows) {
+    const y = doc.y;
+    doc.fillColor(BRAND.textGray).font('Helvetica').fontSize(10).text(label, PAGE_MARGIN, y, { width: 150 });
+    doc
+      .fillColor(BRAND.textDark)
+      .font('Helvetica')
+      .text(value || '-', PAGE_MARGIN + 160, y, { width: contentWidth - 160 });
+    doc.moveDown(0.3);
+  }
+  doc.moveDown(0.8);
+}
+
+function drawTable(doc: PDFKit.PDFDocument, table: PdfTable): void {
+  const contentWidth = doc.page.width - PAGE_MARGIN * 2;
+  const widths = table.columns.map((c) => c.width * contentWidth);
+
+  const drawRow = (cells: string[], header: boolean) => {
+    const y = doc.y;
+    let x = PAGE_MARGIN;
+    let rowHeight = 0;
+    doc.font(header ? 'Helvetica-Bold' : 'Helvetica').fontSize(10);
+    cells.forEach((cell, i) => {
+      const options = { width: widths[i] - 8, align: table.columns[i].align ?? 'left' } as const;
+      rowHeight = Math.max(rowHeight, doc.heightOfString(cell, options));
+    });
+    if (header) {
+      doc.rect(PAGE_MARGIN, y - 4, contentWidth, rowHeight + 8).fill(BRAND.background);
+    }
+    cells.forEach((cell, i) => {
+      doc
+        .fillColor(header ? BRAND.primary : BRAND.textDark)
+        .text(cell, x + 4, y, { width: widths[i] - 8, align: table.columns[i].align ?? 'left' });
+      x += widths[i];
+    });
+    doc.y = y + rowHeight + 8;
+  };
+
+  drawRow(
+    table.columns.map((c) => c.header),
+    true
+  );
+  for (const row of table.rows) {
+    if (doc.y > doc.page.height - PAGE_MARGIN * 2) doc.addPage();
+    drawRow(row, false);
+  }
+  doc.moveDown(0.5);
+}
+
+function drawTotals(doc: PDFKit.PDFDocument, totals: Array<[string, string]>): void {
+  const contentWidth = doc.page.width - PAGE_MARGIN * 2;
+  totals.forEach(([label, value], i) => {
+    const isLast = i === totals.length - 1;
+    const y = doc.y;
+    doc
+      .font(isLast ? 'Helvetica-Bold' : 'Helvetica')
+      .fontSize(isLast ? 12 : 10)
+      .fillColor(isLast ? BRAND.primary : BRAND.textGray)
+      .text(label, PAGE_MARGIN + contentWidth / 2, y, { width: contentWidth / 4 });
+    doc.text(value, PAGE_MARGIN + (contentWidth * 3) / 4, y, { width: contentWidth / 4, align: 'right' });
+    doc.moveDown(0.3);
+  });
+  doc.moveDown(0.8);
+}
+
+function drawFooter(doc: PDFKit.PDFDocument): void {
+  const width = doc.page.width;
+  const top = doc.page.height - 50;
+  // The footer sits inside the bottom margin; without lifting it pdfkit starts a new page for the text
+  const bottomMargin = doc.page.margins.bottom;
+  doc.page.margins.bottom = 0;
+  doc.rect(0, top, width, 50).fill(BRAND.primaryDark);
+  doc
+    .fillColor(BRAND.secondary)
+    .font('Helvetica')
+    .fontSize(9)
+    .text('© Sourceli · Fresh produce marketplace', PAGE_MARGIN, top + 20, {
+      width: width - PAGE_MARGIN * 2,
+      align: 'center',
+      lineBreak: false,
+    });
+  doc.page.margins.bottom = bottomMargin;
+}
+
+/**
+ * Render a branded PDF document into a Buffer.
+ */
+export function renderPdf(content: PdfDocumentContent): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ size: 'A4', margin: PAGE_MARGIN, bufferPages: true });
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    drawHeader(doc, content);
+    for (const section of content.sections) {
+      drawSection(doc, section);
+    }
+    if (content.table) {
+      drawTable(doc, content.table);
+    }
+    if (content.totals && content.totals.length > 0) {
+      drawTotals(doc, content.totals);
+    }
+    if (content.note) {
+      doc.fillColor(BRAND.textGray).font('Helvetica-Oblique').fontSize(9).text(content.note, PAGE_MARGIN);
+    }
+
+    const range = doc.bufferedPageRange();
+    for (let i = range.start; i < range.start + range.count; i++) {
+      doc.switchToPage(i);
+      drawFooter(doc);
+    }
+
+    doc.end();
+  });
+}
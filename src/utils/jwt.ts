@@ -6,6 +6,7 @@ export interface TokenPayload {
   role: 'ADMIN' | 'FARMER' | 'BUYER';
   status: string;
   email: string;
+  sessionId?: string; // AuthSession the token was issued for (see session.service)
 }
 
 /**
@@ -33,9 +34,10 @@ export function generateAccessToken(payload: TokenPayload): string {
 /**
  * Generate a long-lived refresh token (7 days)
  * @param payload - Token payload containing user information
+ * @param tokenId - Unique token ID (jti) so every issued refresh token is distinct
  * @returns JWT refresh token
  */
-export function generateRefreshToken(payload: TokenPayload): string {
+export function generateRefreshToken(payload: TokenPayload, tokenId?: string): string {
   try {
     if (!env.JWT_REFRESH_SECRET || env.JWT_REFRESH_SECRET.length < 32) {
       throw new Error('JWT_REFRESH_SECRET is not configured or too short (minimum 32 characters)');
@@ -43,6 +45,7 @@ export function generateRefreshToken(payload: TokenPayload): string {
     
     const token = jwt.sign(payload, env.JWT_REFRESH_SECRET, {
       expiresIn: env.JWT_REFRESH_EXPIRES_IN, // 7 days
+      ...(tokenId && { jwtid: tokenId }),
     } as jwt.SignOptions);
     return token;
   } catch (error) {
@@ -59,8 +62,10 @@ export function generateRefreshToken(payload: TokenPayload): string {
  */
 export function verifyAccessToken(token: string): TokenPayload | null {
   try {
-    const decoded = jwt.verify(token, env.JWT_SECRET) as TokenPayload;
-    return decoded;
+    const decoded = jwt.verify(token, env.JWT_SECRET) as Partial<TokenPayload> & { aud?: unknown };
+    // Other tokens signed with JWT_SECRET (e.g. phone verification) carry an audience and no user
+    if (decoded.aud !== undefined || !decoded.userId || !decoded.role) return null;
+    return decoded as TokenPayload;
   } catch (error) {
     return null;
   }
@@ -94,3 +99,41 @@ export function decodeToken(token: string): TokenPayload | null {
   }
 }
 
+
+/** Audience of phone verification tokens, so they are never accepted as access tokens */
+const PHONE_VERIFICATION_AUDIENCE = 'phone-verification';
+
+/** Proof that a phone number passed SMS OTP verification before registration */
+interface PhoneVerificationPayload {
+  phone: string;
+  purpose: 'PHONE_VERIFIED';
+}
+
+/**
+ * Generate a short-lived token (30 minutes) proving the holder verified a phone number
+ * @param phone - E.164 phone number that was verified
+ * @returns JWT phone verification token
+ */
+export function generatePhoneVerificationToken(phone: string): string {
+  const payload: PhoneVerificationPayload = { phone, purpose: 'PHONE_VERIFIED' };
+  return jwt.sign(payload, env.JWT_SECRET, {
+    expiresIn: '30m',
+    audience: PHONE_VERIFICATION_AUDIENCE,
+  } as jwt.SignOptions);
+}
+
+/**
+ * Verify a phone verification token
+ * @param token - JWT phone verification token
+ * @returns Verified E.164 phone number or null if invalid
+ */
+export function verifyPhoneVerificationToken(token: string): string | null {
+  try {
+    const decoded = jwt.verify(token, env.JWT_SECRET, {
+      audience: PHONE_VERIFICATION_AUDIENCE,
+    }) as Partial<PhoneVerificationPayload>;
+    return decoded.purpose === 'PHONE_VERIFIED' && decoded.phone ? decoded.phone : null;
+  } catch (error) {
+    return null;
+  }
+}
@@ -41,32 +41,6 @@ export function isUserChannel(channelName: string, userId: string): boolean {
   return channelName === userChannel(userId);
 }
 
-/**
- * Trigger a real-time notification event to a user's private channel.
- * No-op if Pusher is not configured.
- */
-export async function triggerNotification(
-  userId: string,
-  payload: {
-    id: string;
-    type: string;
-    title: string;
-    message: string;
-    metadata?: Record<string, unknown>;
-    createdAt: string;
-  }
-): Promise<void> {
-  const pusher = getPusher();
-  if (!pusher) return;
-
-  const channel = userChannel(userId);
-  try {
-    await pusher.trigger(channel, 'notification', payload);
-  } catch (err) {
-    console.error('[Pusher] trigger failed:', err);
-  }
-}
-
 /**
  * Authorize a private channel subscription (for Pusher auth endpoint).
  * Returns auth object to send to client, or null if not authorized.
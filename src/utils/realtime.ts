@@ -0,0 +1,38 @@
+import { getRealtimeProvider } from '../providers/realtime.provider.js';
+
+export interface RealtimeNotificationPayload {
+  id: string;
+  type: string;
+  title: string;
+  message: string;
+  metadata?: Record<string, unknown>;
+  createdAt: string;
+  unreadCount?: number;
+}
+
+/**
+ * Send a new notification to the user's open dashboards (Pusher or SSE, see getRealtimeProvider).
+ * Returns false (no-op) if real-time push is disabled; throws if the transport fails.
+ */
+export async function triggerNotification(
+  userId: string,
+  payload: RealtimeNotificationPayload
+): Promise<boolean> {
+  const provider = getRealtimeProvider();
+  if (!provider) return false;
+
+  await provider.publish(userId, 'notification', { ...payload });
+  return true;
+}
+
+/**
+ * Tell a user's open dashboards their unread count changed (read, archived or deleted elsewhere).
+ * Returns false (no-op) if real-time push is disabled; throws if the transport fails.
+ */
+export async function triggerUnreadCount(userId: string, unreadCount: number): Promise<boolean> {
+  const provider = getRealtimeProvider();
+  if (!provider) return false;
+
+  await provider.publish(userId, 'unread-count', { unreadCount });
+  return true;
+}
@@ -0,0 +1,172 @@
+/**
+ * Standing order recurrence utilities
+ * Works on UTC calendar days (Ghana is UTC+0 with no DST); the time of day is ignored.
+ */
+import { StandingOrderRecurrence } from '@prisma/client';
+
+export interface RecurrenceRule {
+  recurrenceType: StandingOrderRecurrence;
+  interval: number;
+  preferredDeliveryDayOfWeek: number; // 0 = Sunday ... 6 = Saturday
+  daysOfWeek: number[];
+  weekOfMonth: number | null; // 1-4, or -1 for the last
+  dayOfMonth: number | null;
+  startDate: Date;
+  endDate: Date | null;
+}
+
+/** Largest interval: every 52 weeks, or every 12 months */
+export const MAX_WEEK_INTERVAL = 52;
+export const MAX_MONTH_INTERVAL = 12;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Longest possible gap between two occurrences (12 months) plus a month */
+const SEARCH_LIMIT_DAYS = (MAX_MONTH_INTERVAL + 1) * 31;
+
+/**
+ * Midnight UTC of the date's UTC calendar day
+ */
+export function toUtcDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+export function addUtcDays(date: Date, days: number): Date {
+  return new Date(toUtcDay(date).getTime() + days * DAY_MS);
+}
+
+/**
+ * YYYY-MM-DD of the UTC calendar day (key format of StandingOrder.quantityOverrides)
+ */
+export function formatUtcDay(date: Date): string {
+  return toUtcDay(date).toISOString().slice(0, 10);
+}
+
+function daysInUtcMonth(date: Date): number {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+}
+
+function monthsBetween(from: Date, to: Date): number {
+  return (to.getUTCFullYear() - from.getUTCFullYear()) * 12 + (to.getUTCMonth() - from.getUTCMonth());
+}
+
+/**
+ * Sunday of the date's week (weeks run Sunday-Saturday, like preferredDeliveryDayOfWeek)
+ */
+function weekStart(day: Date): number {
+  return day.getTime() - day.getUTCDay() * DAY_MS;
+}
+
+/**
+ * Weekdays a WEEKLY rule delivers on
+ */
+export function weekdaysOf(rule: Pick<RecurrenceRule, 'daysOfWeek' | 'preferredDeliveryDayOfWeek'>): number[] {
+  return rule.daysOfWeek.length > 0 ? rule.daysOfWeek : [rule.preferredDeliveryDayOfWeek];
+}
+
+/**
+ * Why a rule can never be generated correctly, or null if it is valid
+ */
+export function recurrenceProblem(rule: RecurrenceRule): string | null {
+  const monthly = rule.recurrenceType !== StandingOrderRecurrence.WEEKLY;
+  const maxInterval = monthly ? MAX_MONTH_INTERVAL : MAX_WEEK_INTERVAL;
+  if (!Number.isInteger(rule.interval) || rule.interval < 1 || rule.interval > maxInterval) {
+    return `Interval must be 1 to ${maxInterval} ${monthly ? 'months' : 'weeks'}`;
+  }
+  const days =
+    rule.recurrenceType === StandingOrderRecurrence.WEEKLY
+      ? weekdaysOf(rule)
+      : [rule.preferredDeliveryDayOfWeek];
+  if (days.some((d) => !Number.isInteger(d) || d < 0 || d > 6)) {
+    return 'Delivery days must be 0 (Sunday) through 6 (Saturday)';
+  }
+  if (
+    rule.recurrenceType === StandingOrderRecurrence.MONTHLY_NTH_WEEKDAY &&
+    (rule.weekOfMonth == null || ![1, 2, 3, 4, -1].includes(rule.weekOfMonth))
+  ) {
+    return 'Week of month must be 1 to 4, or -1 for the last week';
+  }
+  if (
+    rule.recurrenceType === StandingOrderRecurrence.MONTHLY_DAY &&
+    (rule.dayOfMonth == null || !Number.isInteger(rule.dayOfMonth) || rule.dayOfMonth < 1 || rule.dayOfMonth > 31)
+  ) {
+    return 'Day of month must be 1 to 31';
+  }
+  if (!nextOccurrence(rule, rule.startDate)) {
+    return 'No delivery date falls between the start and end date';
+  }
+  return null;
+}
+
+/**
+ * Whether the rule delivers on the date's UTC day
+ */
+export function occursOn(rule: RecurrenceRule, date: Date): boolean {
+  const day = toUtcDay(date);
+  const start = toUtcDay(rule.startDate);
+  if (day < start) return false;
+  if (rule.endDate && day > toUtcDay(rule.endDate)) return false;
+
+  const interval = Math.max(1, rule.interval);
+  switch (rule.recurrenceType) {
+    case StandingOrderRecurrence.WEEKLY: {
+      if (!weekdaysOf(rule).includes(day.getUTCDay())) return false;
+      const weeks = Math.round((weekStart(day) - weekStart(start)) / (7 * DAY_MS));
+      return weeks % interval === 0;
+    }
+    case StandingOrderRecurrence.MONTHLY_DAY: {
+      if (monthsBetween(start, day) % interval !== 0) return false;
+      const target = Math.min(rule.dayOfMonth ?? start.getUTCDate(), daysInUtcMonth(day));
+      return day.getUTCDate() === target;
+    }
+    case StandingOrderRecurrence.MONTHLY_NTH_WEEKDAY: {
+      if (monthsBetween(start, day) % interval !== 0) return false;
+      if (day.getUTCDay() !== rule.preferredDeliveryDayOfWeek) return false;
+      if (rule.weekOfMonth === -1) return day.getUTCDate() + 7 > daysInUtcMonth(day);
+      return Math.ceil(day.getUTCDate() / 7) === (rule.weekOfMonth ?? 1);
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * First delivery day on or after fromDate (UTC midnight), or null if the rule has ended
+ */
+export function nextOccurrence(rule: RecurrenceRule, fromDate: Date): Date | null {
+  const start = toUtcDay(rule.startDate);
+  let day = toUtcDay(fromDate) < start ? start : toUtcDay(fromDate);
+  const end = rule.endDate ? toUtcDay(rule.endDate) : null;
+
+  for (let i = 0; i <= SEARCH_LIMIT_DAYS; i++) {
+    if (end && day > end) return null;
+    if (occursOn(rule, day)) return day;
+    day = addUtcDays(day, 1);
+  }
+  return null;
+}
+
+/**
+ * Delivery days from fromDate (inclusive) up to untilDate (exclusive)
+ */
+export function occurrencesBetween(rule: RecurrenceRule, fromDate: Date, untilDate: Date): Date[] {
+  const until = toUtcDay(untilDate);
+  const dates: Date[] = [];
+  let next = nextOccurrence(rule, fromDate);
+  while (next && next < until) {
+    dates.push(next);
+    next = nextOccurrence(rule, addUtcDays(next, 1));
+  }
+  return dates;
+}
+
+/**
+ * Quantity for one occurrence: its override if set, else the standing order quantity
+ */
+export function quantityForOccurrence(
+  so: { quantity: number; quantityOverrides: unknown },
+  date: Date
+): number {
+  const overrides = (so.quantityOverrides as Record<string, number> | null) ?? {};
+  return overrides[formatUtcDay(date)] ?? so.quantity;
+}
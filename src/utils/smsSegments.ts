@@ -0,0 +1,74 @@
+/**
+ * SMS length rules. Messages using only the GSM 03.38 alphabet fit 160 characters per SMS
+ * (153 per part when split); any other character (e.g. Twi/Ga ɛ ɔ ŋ, "–", "₵") switches the
+ * whole message to UCS-2 at 70 characters (67 per part).
+ */
+
+const GSM_BASIC =
+  '@£$¥èéùìòÇ\nØø\rÅåΔ_ΦΓΛΩΠΨΣΘΞÆæßÉ !"#¤%&\'()*+,-./0123456789:;<=>?' +
+  '¡ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÑÜ§¿abcdefghijklmnopqrstuvwxyzäöñüà';
+/** Extension characters take two septets */
+const GSM_EXTENDED = '^{}\\[~]|€\f';
+
+const GSM_BASIC_SET = new Set(GSM_BASIC);
+const GSM_EXTENDED_SET = new Set(GSM_EXTENDED);
+
+export type SmsEncoding = 'GSM-7' | 'UCS-2';
+
+export interface SmsInfo {
+  encoding: SmsEncoding;
+  length: number; // In septets (GSM-7) or UTF-16 code units (UCS-2)
+  segments: number;
+}
+
+function isGsm(text: string): boolean {
+  for (const char of text) {
+    if (!GSM_BASIC_SET.has(char) && !GSM_EXTENDED_SET.has(char)) return false;
+  }
+  return true;
+}
+
+function limits(encoding: SmsEncoding) {
+  return encoding === 'GSM-7' ? { single: 160, multi: 153 } : { single: 70, multi: 67 };
+}
+
+function measure(text: string, encoding: SmsEncoding): number {
+  if (encoding === 'UCS-2') return text.length;
+  let length = 0;
+  for (const char of text) length += GSM_EXTENDED_SET.has(char) ? 2 : 1;
+  return length;
+}
+
+/**
+ * Encoding, length and number of billed SMS parts for a message.
+ */
+export function getSmsInfo(text: string): SmsInfo {
+  const encoding: SmsEncoding = isGsm(text) ? 'GSM-7' : 'UCS-2';
+  const length = measure(text, encoding);
+  const { single, multi } = limits(encoding);
+  return {
+    encoding,
+    length,
+    segments: length === 0 ? 0 : length <= single ? 1 : Math.ceil(length / multi),
+  };
+}
+
+/**
+ * Cut a message down to at most `maxSegments` SMS parts, ending it with "..." when shortened.
+ */
+export function fitSms(text: string, maxSegments: number): string {
+  const info = getSmsInfo(text);
+  if (info.segments <= maxSegments) return text;
+
+  const { single, multi } = limits(info.encoding);
+  const capacity = (maxSegments === 1 ? single : multi * maxSegments) - 3;
+  let result = '';
+  let length = 0;
+  for (const char of text) {
+    const size = info.encoding === 'GSM-7' && GSM_EXTENDED_SET.has(char) ? 2 : char.length;
+    if (length + size > capacity) break;
+    result += char;
+    length += size;
+  }
+  return result.trimEnd() + '...';
+}
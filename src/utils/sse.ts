@@ -0,0 +1,69 @@
+import type { Response } from 'express';
+
+/** Comment line sent periodically so proxies do not close an idle stream */
+const HEARTBEAT_MS = 25 * 1000;
+/** Reconnect delay suggested to EventSource clients */
+const RETRY_MS = 5 * 1000;
+/** Oldest stream is closed when a user opens more than this (e.g. many tabs) */
+const MAX_STREAMS_PER_USER = 5;
+
+// Open streams per user. In process memory: with several server instances a user only gets
+// events published by the instance they are connected to (use Pusher when scaling out).
+const streams = new Map<string, Set<Response>>();
+
+/**
+ * Write one SSE event. `id` becomes the client's Last-Event-ID for replay on reconnect.
+ */
+export function writeSseEvent(res: Response, event: string, data: unknown, id?: string): void {
+  let chunk = '';
+  if (id) chunk += `id: ${id}\n`;
+  chunk += `event: ${event}\n`;
+  chunk += `data: ${JSON.stringify(data)}\n\n`;
+  res.write(chunk);
+}
+
+/**
+ * Turn the response into an event stream for the user and keep it registered until the client
+ * disconnects.
+ */
+export function openSseStream(userId: string, res: Response): void {
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no'); // nginx: do not buffer the stream
+  res.flushHeaders();
+  res.write(`retry: ${RETRY_MS}\n\n`);
+
+  const userStreams = streams.get(userId) ?? new Set<Response>();
+  if (userStreams.size >= MAX_STREAMS_PER_USER) {
+    const oldest = userStreams.values().next().value;
+    if (oldest) {
+      userStreams.delete(oldest);
+      oldest.end();
+    }
+  }
+  userStreams.add(res);
+  streams.set(userId, userStreams);
+
+  const heartbeat = setInterval(() => res.write(': ping\n\n'), HEARTBEAT_MS);
+
+  res.on('close', () => {
+    clearInterval(heartbeat);
+    const current = streams.get(userId);
+    current?.delete(res);
+    if (current?.size === 0) streams.delete(userId);
+  });
+}
+
+/**
+ * Send an event to every open stream of a user. Returns how many streams received it.
+ */
+export function publishSseEvent(userId: string, event: string, data: unknown, id?: string): number {
+  const userStreams = streams.get(userId);
+  if (!userStreams) return 0;
+  for (const res of userStreams) {
+    writeSseEvent(res, event, data, id);
+  }
+  return userStreams.size;
+}
@@ -2,6 +2,7 @@ import { z } from 'zod';
 import { UserStatus, PerformanceTier } from '@prisma/client';
 import { isValidEmail, isValidPhone, validatePassword } from '../utils/validation.js';
 import { GHANA_CARD_FIELD_KEYS } from '../utils/ghanaCardFields.js';
+import { orderLinesSchema } from './buyer.validator.js';
 
 const ghanaTrimmedRequired = (fieldLabel: string, maxLen: number) =>
   z
@@ -316,20 +317,27 @@ export const requestOrderModificationSchema = z.object({
 /**
  * Schema for admin creating an order on behalf of a buyer
  */
-export const createOrderByAdminSchema = z.object({
-  buyerId: z.string().min(1, 'Buyer is required'),
-  productType: z.string().min(1, 'Product type is required').max(100).transform((s) => s.trim()),
-  quantity: z.number().int().min(1, 'Quantity must be at least 1').max(1000000),
-  orderType: z.enum(['ONE_TIME', 'STANDING'], { required_error: 'Order type is required' }),
-  deliveryDate: z.string().min(1, 'Delivery date is required').transform((s) => new Date(s)),
-  deliveryAddressId: z.string().min(1, 'Delivery address is required'),
-  notes: z.string().max(1000).optional().transform((s) => (s == null || s === '' ? undefined : s.trim())),
-});
+export const createOrderByAdminSchema = z
+  .object({
+    buyerId: z.string().min(1, 'Buyer is required'),
+    lines: orderLinesSchema.optional(),
+    productType: z.string().min(1, 'Product type is required').max(100).transform((s) => s.trim()).optional(),
+    quantity: z.number().int().min(1, 'Quantity must be at least 1').max(1000000).optional(),
+    orderType: z.enum(['ONE_TIME', 'STANDING'], { required_error: 'Order type is required' }),
+    deliveryDate: z.string().min(1, 'Delivery date is required').transform((s) => new Date(s)),
+    deliveryAddressId: z.string().min(1, 'Delivery address is required'),
+    notes: z.string().max(1000).optional().transform((s) => (s == null || s === '' ? undefined : s.trim())),
+  })
+  .refine((data) => !!data.lines || (data.productType !== undefined && data.quantity !== undefined), {
+    message: 'Provide lines, or productType and quantity',
+    path: ['lines'],
+  });
 
 /**
- * Schema for admin updating an order (partial)
+ * Schema for admin updating an order (partial). `lines` replaces all product lines.
  */
 export const updateOrderByAdminSchema = z.object({
+  lines: orderLinesSchema.optional(),
   productType: z.string().min(1).max(100).transform((s) => s.trim()).optional(),
   quantity: z.number().int().min(1).max(1000000).optional(),
   deliveryDate: z.string().min(1).transform((s) => new Date(s)).optional(),
@@ -359,3 +367,39 @@ export const createProduceCategorySchema = z.object({
   name: z.string().min(1, 'Name is required').max(50, 'Name is too long').transform((s) => s.trim()),
   unitType: z.string().min(1, 'Unit type is required').max(20, 'Unit type is too long').transform((s) => s.trim()),
 });
+
+/**
+ * Public holiday (admin calendar). recurring: same month and day every year.
+ */
+export const createHolidaySchema = z.object({
+  date: z
+    .string()
+    .datetime('Date must be a valid date')
+    .or(z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD'))
+    .transform((val) => new Date(val.length === 10 ? `${val}T00:00:00.000Z` : val)),
+  name: z.string().min(1, 'Name is required').max(100, 'Name is too long').transform((s) => s.trim()),
+  recurring: z.boolean().optional(),
+});
+
+export const updateHolidaySchema = createHolidaySchema.partial();
+
+export const holidayFiltersSchema = z.object({
+  year: z.coerce.number().int().min(2000).max(2100).optional(),
+});
+
+/**
+ * Auto-approval policy (admin). Omitted fields keep their current value; null clears a limit.
+ */
+export const updateAutoApprovalPolicySchema = z
+  .object({
+    enabled: z.boolean(),
+    applyToOneTimeOrders: z.boolean(),
+    applyToStandingOrders: z.boolean(),
+    minVerifiedDays: z.number().int().min(0).max(3650).nullable(),
+    blockOnOverduePayments: z.boolean(),
+    maxOrderQuantity: z.number().int().positive().nullable(),
+    requireAvailability: z.boolean(),
+    autoAllocate: z.boolean(),
+  })
+  .partial()
+  .refine((d) => Object.keys(d).length > 0, { message: 'At least one setting must be provided' });
@@ -1,10 +1,11 @@
 import { z } from 'zod';
 
 /**
- * Allocation assignment schema
+ * Allocation assignment schema (orderLineId may be omitted on one-line orders)
  */
 export const allocationAssignmentSchema = z.object({
   farmerId: z.string().min(1, 'Farmer ID is required'),
+  orderLineId: z.string().min(1).optional(),
   assignedQuantity: z
     .number()
     .int('Assigned quantity must be a whole number')
@@ -21,6 +22,16 @@ export const createAllocationSchema = z.object({
     .min(1, 'At least one assignment is required'),
 });
 
+/**
+ * Batch allocation schema (many orders in one atomic call)
+ */
+export const batchAllocationSchema = z.object({
+  orders: z
+    .array(createAllocationSchema)
+    .min(1, 'At least one order is required')
+    .max(200, 'At most 200 orders per batch'),
+});
+
 /**
  * Update assignment schema
  */
@@ -36,6 +47,7 @@ export const updateAssignmentSchema = z.object({
  */
 export const createDeliveryByAdminSchema = z.object({
   orderId: z.string().min(1, 'Order ID is required'),
+  orderLineId: z.string().min(1).optional(),
   farmerId: z.string().min(1, 'Farmer ID is required'),
   assignedQuantity: z
     .number()
@@ -46,9 +58,40 @@ export const createDeliveryByAdminSchema = z.object({
 
 export type CreateDeliveryByAdminInput = z.infer<typeof createDeliveryByAdminSchema>;
 
+/**
+ * Auto-allocation suggestion (accept: create the suggested assignments immediately)
+ */
+export const suggestAllocationSchema = z.object({
+  accept: z.boolean().optional().default(false),
+});
+
+/**
+ * Buyer delivery acknowledgements (admin): ?needsReview=true for the discrepancy queue
+ */
+export const deliveryAcknowledgementFiltersSchema = z.object({
+  needsReview: z.enum(['true', 'false']).transform((value) => value === 'true').optional(),
+  buyerId: z.string().min(1).optional(),
+  farmerId: z.string().min(1).optional(),
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .default(50)
+    .transform((value) => Math.min(value, 200)),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export const reviewDeliveryAcknowledgementSchema = z.object({
+  notes: z.string().max(1000, 'Notes are too long').trim().optional(),
+});
+
 export type AllocationAssignmentInput = z.infer<typeof allocationAssignmentSchema>;
 export type CreateAllocationInput = z.infer<typeof createAllocationSchema>;
+export type BatchAllocationInput = z.infer<typeof batchAllocationSchema>;
 export type UpdateAssignmentInput = z.infer<typeof updateAssignmentSchema>;
+export type SuggestAllocationInput = z.infer<typeof suggestAllocationSchema>;
+export type DeliveryAcknowledgementFiltersInput = z.infer<typeof deliveryAcknowledgementFiltersSchema>;
+export type ReviewDeliveryAcknowledgementInput = z.infer<typeof reviewDeliveryAcknowledgementSchema>;
 
 
 
@@ -1,6 +1,7 @@
 import { z } from 'zod';
 import { isValidEmail, isValidPhone, validatePassword } from '../utils/validation.js';
 import { GHANA_CARD_FIELD_KEYS } from '../utils/ghanaCardFields.js';
+import { SUPPORTED_LOCALES } from '../templates/notificationTemplates.js';
 
 // Buyer type enum
 const BuyerTypeEnum = z.enum(['RESTAURANT', 'HOTEL', 'CATERER', 'INDIVIDUAL']);
@@ -89,6 +90,8 @@ export const farmerRegistrationSchema = z
     // Certificates: optional, 0–10 URLs
     certificateUrls: z.array(z.string().url()).max(10).optional(),
     avatarUrl: z.string().url().optional(),
+    // From POST /auth/otp/verify (purpose VERIFY_PHONE); marks the phone as verified on signup
+    phoneVerificationToken: z.string().min(1).optional(),
     ...ghanaCardRegistrationFields,
   })
   .refine((data) => data.weeklyCapacityMax >= data.weeklyCapacityMin, {
@@ -159,6 +162,7 @@ export const buyerRegistrationSchema = z.object({
     .min(1, 'At least one delivery address is required')
     .max(10, 'Maximum 10 delivery addresses allowed'),
   avatarUrl: z.string().url().optional(),
+  phoneVerificationToken: z.string().min(1).optional(),
   ...ghanaCardRegistrationFields,
 });
 
@@ -188,6 +192,13 @@ export const refreshTokenSchema = z.object({
   refreshToken: z.string().min(1, 'Refresh token is required'),
 });
 
+/**
+ * Logout validation schema (refresh token optional; the current session is always revoked)
+ */
+export const logoutSchema = z.object({
+  refreshToken: z.string().min(1).optional(),
+});
+
 /**
  * Forgot password validation schema
  */
@@ -203,14 +214,29 @@ export const forgotPasswordSchema = z.object({
         message: 'Must be a valid email address or phone number',
       }
     ),
+  // EMAIL sends a reset link, SMS a numeric code; defaults to SMS when a phone number is entered
+  channel: z.enum(['EMAIL', 'SMS']).optional(),
+});
+
+const resetCodeSchema = z.string().regex(/^\d{6}$/, 'Reset code must be 6 digits');
+
+/**
+ * Verify SMS reset code validation schema
+ */
+export const verifyResetCodeSchema = z.object({
+  emailOrPhone: z.string().min(1, 'Email or phone number is required'),
+  code: resetCodeSchema,
 });
 
 /**
  * Reset password validation schema
+ * Either `token` (emailed link) or `emailOrPhone` + `code` (SMS) is required.
  */
 export const resetPasswordSchema = z
   .object({
-    token: z.string().min(1, 'Reset token is required'),
+    token: z.string().min(1, 'Reset token is required').optional(),
+    emailOrPhone: z.string().min(1).optional(),
+    code: resetCodeSchema.optional(),
     newPassword: z
       .string()
       .min(1, 'New password is required')
@@ -226,8 +252,39 @@ export const resetPasswordSchema = z
   .refine((data) => data.newPassword === data.confirmPassword, {
     message: 'Passwords do not match',
     path: ['confirmPassword'],
+  })
+  .refine((data) => !!data.token || (!!data.emailOrPhone && !!data.code), {
+    message: 'Provide a reset token, or your email/phone and the code sent by SMS',
+    path: ['token'],
   });
 
+const otpPhoneSchema = z
+  .string()
+  .min(1, 'Phone number is required')
+  .refine((val) => isValidPhone(val), {
+    message: 'Invalid phone number format',
+  });
+
+// LOGIN signs a farmer in without a password; VERIFY_PHONE proves ownership of a phone number
+const otpPurposeSchema = z.enum(['LOGIN', 'VERIFY_PHONE']).default('LOGIN');
+
+/**
+ * Request SMS one-time code validation schema
+ */
+export const otpRequestSchema = z.object({
+  phone: otpPhoneSchema,
+  purpose: otpPurposeSchema,
+});
+
+/**
+ * Verify SMS one-time code validation schema
+ */
+export const otpVerifySchema = z.object({
+  phone: otpPhoneSchema,
+  code: z.string().regex(/^\d{6}$/, 'Code must be 6 digits'),
+  purpose: otpPurposeSchema,
+});
+
 /**
  * Change password validation schema (for authenticated users)
  */
@@ -266,6 +323,7 @@ export const updateProfileSchema = z
       .string()
       .refine((val) => isValidPhone(val), { message: 'Invalid phone number format' })
       .optional(),
+    locale: z.enum(SUPPORTED_LOCALES).optional(),
     fullName: z.string().min(1).max(100).optional(),
     farmName: z.string().max(100).optional().nullable(),
     region: z.string().min(1).max(100).optional(),
@@ -331,7 +389,11 @@ export type FarmerRegistrationInput = z.infer<typeof farmerRegistrationSchema>;
 export type BuyerRegistrationInput = z.infer<typeof buyerRegistrationSchema>;
 export type LoginInput = z.infer<typeof loginSchema>;
 export type RefreshTokenInput = z.infer<typeof refreshTokenSchema>;
+export type LogoutInput = z.infer<typeof logoutSchema>;
 export type ForgotPasswordInput = z.infer<typeof forgotPasswordSchema>;
 export type ResetPasswordInput = z.infer<typeof resetPasswordSchema>;
+export type VerifyResetCodeInput = z.infer<typeof verifyResetCodeSchema>;
+export type OtpRequestInput = z.infer<typeof otpRequestSchema>;
+export type OtpVerifyInput = z.infer<typeof otpVerifySchema>;
 export type ChangePasswordInput = z.infer<typeof changePasswordSchema>;
 
@@ -0,0 +1,54 @@
+import { z } from 'zod';
+import { BroadcastStatus, BuyerType, PerformanceTier, UserRole, UserStatus } from '@prisma/client';
+
+const nameListSchema = z.array(z.string().trim().min(1).max(100)).max(50);
+
+/**
+ * Broadcast audience. Empty or missing filters match everyone (farmers and buyers).
+ */
+export const broadcastSegmentSchema = z.object({
+  roles: z.array(z.nativeEnum(UserRole)).max(3).optional(),
+  statuses: z.array(z.nativeEnum(UserStatus)).max(10).optional(),
+  regions: nameListSchema.optional(),
+  produceCategories: nameListSchema.optional(),
+  tiers: z.array(z.nativeEnum(PerformanceTier)).max(3).optional(),
+  buyerTypes: z.array(z.nativeEnum(BuyerType)).max(10).optional(),
+});
+
+/**
+ * Create broadcast validation schema. Omit scheduledAt to send now.
+ */
+export const createBroadcastSchema = z.object({
+  title: z.string().trim().min(1, 'Title is required').max(120),
+  message: z.string().trim().min(1, 'Message is required').max(2000),
+  segment: broadcastSegmentSchema.default({}),
+  channels: z
+    .object({
+      inApp: z.boolean().default(true),
+      email: z.boolean().default(false),
+      sms: z.boolean().default(false),
+    })
+    .default({})
+    .refine((channels) => channels.inApp || channels.email || channels.sms, {
+      message: 'Choose at least one channel',
+    }),
+  scheduledAt: z.coerce
+    .date()
+    .refine((date) => date.getTime() < Date.now() + 90 * 24 * 60 * 60 * 1000, {
+      message: 'scheduledAt must be within 90 days',
+    })
+    .optional(),
+});
+
+/**
+ * Broadcast history filters
+ */
+export const broadcastFiltersSchema = z.object({
+  status: z.nativeEnum(BroadcastStatus).optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export type BroadcastSegmentInput = z.infer<typeof broadcastSegmentSchema>;
+export type CreateBroadcastInput = z.infer<typeof createBroadcastSchema>;
+export type BroadcastFiltersInput = z.infer<typeof broadcastFiltersSchema>;
@@ -1,5 +1,5 @@
 import { z } from 'zod';
-import { OrderType, PaymentMethod } from '@prisma/client';
+import { HolidayHandling, OrderType, PaymentMethod, StandingOrderRecurrence } from '@prisma/client';
 
 /**
  * Create delivery address schema
@@ -51,43 +51,85 @@ export const updateDeliveryAddressSchema = z.object({
 });
 
 /**
- * Create order schema
+ * One product line of an order
  */
-export const createOrderSchema = z.object({
+export const orderLineSchema = z.object({
   productType: z
     .string()
     .min(1, 'Product type is required')
+    .max(100, 'Product type is too long')
     .trim(),
   quantity: z
     .number()
     .int('Quantity must be a whole number')
-    .positive('Quantity must be greater than 0'),
-  orderType: z
-    .nativeEnum(OrderType, {
-      errorMap: () => ({ message: 'Order type must be ONE_TIME or STANDING' }),
-    }),
-  deliveryDate: z
-    .string()
-    .datetime('Delivery date must be a valid date')
-    .or(z.date())
-    .transform((val) => (typeof val === 'string' ? new Date(val) : val))
-    .refine((date) => date > new Date(), {
-      message: 'Delivery date must be in the future',
-    }),
-  deliveryAddressId: z
-    .string()
-    .min(1, 'Delivery address is required'),
-  notes: z
-    .string()
-    .max(500, 'Notes are too long')
-    .trim()
-    .optional(),
+    .positive('Quantity must be greater than 0')
+    .max(1000000),
+  notes: z.string().max(500, 'Line notes are too long').trim().optional(),
 });
 
+/**
+ * Product lines of an order (each product at most once)
+ */
+export const orderLinesSchema = z
+  .array(orderLineSchema)
+  .min(1, 'At least one product line is required')
+  .max(20, 'At most 20 product lines per order')
+  .refine(
+    (lines) => new Set(lines.map((l) => l.productType.toLowerCase())).size === lines.length,
+    { message: 'Each product may appear only once per order' }
+  );
+
+/**
+ * Create order schema: `lines` for several products, or productType + quantity for one
+ */
+export const createOrderSchema = z
+  .object({
+    lines: orderLinesSchema.optional(),
+    productType: z
+      .string()
+      .min(1, 'Product type is required')
+      .trim()
+      .optional(),
+    quantity: z
+      .number()
+      .int('Quantity must be a whole number')
+      .positive('Quantity must be greater than 0')
+      .optional(),
+    orderType: z
+      .nativeEnum(OrderType, {
+        errorMap: () => ({ message: 'Order type must be ONE_TIME or STANDING' }),
+      }),
+    deliveryDate: z
+      .string()
+      .datetime('Delivery date must be a valid date')
+      .or(z.date())
+      .transform((val) => (typeof val === 'string' ? new Date(val) : val))
+      .refine((date) => date > new Date(), {
+        message: 'Delivery date must be in the future',
+      }),
+    deliveryAddressId: z
+      .string()
+      .min(1, 'Delivery address is required'),
+    notes: z
+      .string()
+      .max(500, 'Notes are too long')
+      .trim()
+      .optional(),
+  })
+  .refine((data) => !!data.lines !== (data.productType !== undefined || data.quantity !== undefined), {
+    message: 'Provide either lines or productType and quantity',
+    path: ['lines'],
+  })
+  .refine((data) => !!data.lines || (data.productType !== undefined && data.quantity !== undefined), {
+    message: 'Product type and quantity are required',
+    path: ['productType'],
+  });
+
 /**
  * Update order by buyer (partial). Only PENDING or PENDING_MODIFICATION.
  */
 export const updateOrderSchema = z.object({
+  lines: orderLinesSchema.optional(),
   productType: z.string().min(1).max(100).transform((s) => s.trim()).optional(),
   quantity: z.number().int().min(1).max(1000000).optional(),
   deliveryDate: z
@@ -118,6 +160,68 @@ export const recordBuyerOrderPaymentSchema = z.object({
   notes: z.string().max(500).trim().optional(),
 });
 
+/**
+ * Buyer acknowledges a delivery (multipart/form-data: numbers arrive as strings; photos up to 5)
+ */
+export const acknowledgeDeliverySchema = z.object({
+  quantityReceived: z.coerce
+    .number({ invalid_type_error: 'Quantity received is required' })
+    .int('Quantity must be a whole number')
+    .min(0, 'Quantity received cannot be negative'),
+  qualityRating: z.coerce
+    .number({ invalid_type_error: 'Quality rating is required' })
+    .int('Rating must be a whole number')
+    .min(1, 'Rating must be between 1 and 5')
+    .max(5, 'Rating must be between 1 and 5'),
+  comments: z.string().max(1000, 'Comments are too long').trim().optional(),
+});
+
+const dayOfWeekSchema = z
+  .number()
+  .int()
+  .min(0, 'Day must be 0 (Sunday) to 6 (Saturday)')
+  .max(6, 'Day must be 0 (Sunday) to 6 (Saturday)');
+
+const calendarDaySchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Dates must be YYYY-MM-DD');
+
+/**
+ * Standing order recurrence (rule completeness is checked by the service).
+ * WEEKLY: every `interval` weeks on daysOfWeek (or preferredDeliveryDayOfWeek).
+ * MONTHLY_NTH_WEEKDAY: weekOfMonth (1-4, -1 = last) + preferredDeliveryDayOfWeek. MONTHLY_DAY: dayOfMonth.
+ */
+const standingOrderRecurrenceFields = {
+  recurrenceType: z
+    .nativeEnum(StandingOrderRecurrence, {
+      errorMap: () => ({ message: 'Recurrence must be WEEKLY, MONTHLY_NTH_WEEKDAY or MONTHLY_DAY' }),
+    })
+    .optional(),
+  interval: z.number().int().min(1, 'Interval must be at least 1').max(52).optional(),
+  preferredDeliveryDayOfWeek: dayOfWeekSchema.optional(),
+  daysOfWeek: z.array(dayOfWeekSchema).min(1, 'Pick at least one day').max(7).optional(),
+  weekOfMonth: z
+    .number()
+    .int()
+    .min(-1)
+    .max(4)
+    .refine((n) => n !== 0, { message: 'Week of month must be 1 to 4, or -1 for the last week' })
+    .nullable()
+    .optional(),
+  dayOfMonth: z.number().int().min(1).max(31).nullable().optional(),
+  quantityOverrides: z
+    .record(
+      calendarDaySchema,
+      z.number().int('Quantity must be a whole number').positive('Quantity must be greater than 0')
+    )
+    .nullable()
+    .optional(),
+  skipDates: z.array(calendarDaySchema).max(100, 'At most 100 skip dates').nullable().optional(),
+  holidayHandling: z
+    .nativeEnum(HolidayHandling, {
+      errorMap: () => ({ message: 'Holiday handling must be NEXT_DAY or SKIP' }),
+    })
+    .optional(),
+};
+
 /**
  * Create standing order schema
  * preferredDeliveryDayOfWeek: 0 = Sunday, 1 = Monday, ... 6 = Saturday
@@ -131,11 +235,7 @@ export const createStandingOrderSchema = z.object({
     .number()
     .int('Quantity must be a whole number')
     .positive('Quantity must be greater than 0'),
-  preferredDeliveryDayOfWeek: z
-    .number()
-    .int()
-    .min(0, 'Day must be 0 (Sunday) to 6 (Saturday)')
-    .max(6, 'Day must be 0 (Sunday) to 6 (Saturday)'),
+  ...standingOrderRecurrenceFields,
   deliveryAddressId: z
     .string()
     .min(1, 'Delivery address is required'),
@@ -170,12 +270,7 @@ export const updateStandingOrderSchema = z.object({
     .int('Quantity must be a whole number')
     .positive('Quantity must be greater than 0')
     .optional(),
-  preferredDeliveryDayOfWeek: z
-    .number()
-    .int()
-    .min(0, 'Day must be 0 (Sunday) to 6 (Saturday)')
-    .max(6, 'Day must be 0 (Sunday) to 6 (Saturday)')
-    .optional(),
+  ...standingOrderRecurrenceFields,
   deliveryAddressId: z.string().min(1, 'Delivery address is required').optional(),
   startDate: z
     .string()
@@ -192,11 +287,123 @@ export const updateStandingOrderSchema = z.object({
   notes: z.string().max(500, 'Notes are too long').trim().optional(),
 });
 
+/**
+ * Order template name, unique per buyer (e.g. "Friday kitchen restock")
+ */
+const templateNameSchema = z
+  .string()
+  .min(1, 'Template name is required')
+  .max(100, 'Template name is too long')
+  .trim();
+
+const futureDateSchema = z
+  .string()
+  .datetime('Delivery date must be a valid date')
+  .or(z.date())
+  .transform((val) => (typeof val === 'string' ? new Date(val) : val))
+  .refine((date) => date > new Date(), {
+    message: 'Delivery date must be in the future',
+  });
+
+/**
+ * Save an order template: explicit lines, or copied from one of the buyer's orders
+ */
+export const createOrderTemplateSchema = z
+  .object({
+    name: templateNameSchema,
+    lines: orderLinesSchema.optional(),
+    fromOrderId: z.string().min(1).optional(),
+    deliveryAddressId: z.string().min(1).optional(),
+    orderType: z.nativeEnum(OrderType).optional(),
+    notes: z.string().max(500, 'Notes are too long').trim().optional(),
+  })
+  .refine((data) => !!data.lines || !!data.fromOrderId, {
+    message: 'Provide lines or fromOrderId',
+    path: ['lines'],
+  });
+
+/**
+ * Update order template (partial; null clears the address or notes)
+ */
+export const updateOrderTemplateSchema = z.object({
+  name: templateNameSchema.optional(),
+  lines: orderLinesSchema.optional(),
+  deliveryAddressId: z.string().min(1).nullable().optional(),
+  orderType: z.nativeEnum(OrderType).optional(),
+  notes: z.string().max(500, 'Notes are too long').trim().nullable().optional(),
+});
+
+/**
+ * Place an order from a template
+ */
+export const submitOrderTemplateSchema = z.object({
+  deliveryDate: futureDateSchema,
+  deliveryAddressId: z.string().min(1).optional(),
+  notes: z.string().max(500, 'Notes are too long').trim().optional(),
+});
+
+/**
+ * Order draft fields (all optional until submit; null clears a field). Lines may be empty.
+ */
+export const updateOrderDraftSchema = z.object({
+  lines: z
+    .array(orderLineSchema)
+    .max(20, 'At most 20 product lines per order')
+    .refine(
+      (lines) => new Set(lines.map((l) => l.productType.toLowerCase())).size === lines.length,
+      { message: 'Each product may appear only once per order' }
+    )
+    .optional(),
+  deliveryAddressId: z.string().min(1).nullable().optional(),
+  deliveryDate: futureDateSchema.nullable().optional(),
+  orderType: z.nativeEnum(OrderType).optional(),
+  notes: z.string().max(500, 'Notes are too long').trim().nullable().optional(),
+});
+
+/**
+ * Create order draft, optionally from a template
+ */
+export const createOrderDraftSchema = updateOrderDraftSchema.extend({
+  templateId: z.string().min(1).optional(),
+});
+
+/**
+ * Pause a standing order (UTC days, inclusive)
+ */
+export const addStandingOrderPauseSchema = z
+  .object({
+    startDate: z
+      .string()
+      .datetime('Start date must be a valid date')
+      .or(z.date())
+      .transform((val) => (typeof val === 'string' ? new Date(val) : val)),
+    endDate: z
+      .string()
+      .datetime('End date must be a valid date')
+      .or(z.date())
+      .transform((val) => (typeof val === 'string' ? new Date(val) : val)),
+    reason: z.string().max(200, 'Reason is too long').trim().optional(),
+  })
+  .refine((data) => data.endDate >= data.startDate, {
+    message: 'End date must be on or after start date',
+    path: ['endDate'],
+  });
+
+/**
+ * Standing order schedule preview (query)
+ */
+export const standingOrderPreviewQuerySchema = z.object({
+  count: z.coerce.number().int().min(1).max(26).default(8),
+});
+
 export type CreateDeliveryAddressInput = z.infer<typeof createDeliveryAddressSchema>;
 export type UpdateDeliveryAddressInput = z.infer<typeof updateDeliveryAddressSchema>;
 export type CreateOrderInput = z.infer<typeof createOrderSchema>;
+export type AcknowledgeDeliveryInput = z.infer<typeof acknowledgeDeliverySchema>;
 export type CreateStandingOrderInput = z.infer<typeof createStandingOrderSchema>;
 export type UpdateStandingOrderInput = z.infer<typeof updateStandingOrderSchema>;
+export type CreateOrderTemplateInput = z.infer<typeof createOrderTemplateSchema>;
+export type UpdateOrderDraftInput = z.infer<typeof updateOrderDraftSchema>;
 
 
 
@@ -0,0 +1,95 @@
+import { z } from 'zod';
+import { DisputeReason, DisputeStatus, QualityResult } from '@prisma/client';
+
+const disputeStatusSchema = z.nativeEnum(DisputeStatus, {
+  errorMap: () => ({ message: 'Status must be OPEN, UNDER_REVIEW, RESOLVED_FOR_BUYER or RESOLVED_FOR_FARMER' }),
+});
+
+const qualityResultSchema = z.nativeEnum(QualityResult, {
+  errorMap: () => ({ message: 'Quality result must be PASS, PARTIAL or FAIL' }),
+});
+
+/** Multipart forms send numbers as strings; empty fields count as not given */
+const optionalFormInt = z.preprocess(
+  (v) => (v === '' || v === undefined ? undefined : Number(v)),
+  z.number().int('Quantity must be a whole number').min(0, 'Quantity cannot be negative').optional()
+);
+
+const optionalFormString = z.preprocess((v) => (v === '' ? undefined : v), z.string().min(1).optional());
+
+/**
+ * Open a dispute (buyer or farmer). multipart/form-data with up to 5 evidence files.
+ * Exactly one of deliveryAssignmentId and buyerOrderPaymentId.
+ */
+export const openDisputeSchema = z
+  .object({
+    deliveryAssignmentId: optionalFormString,
+    buyerOrderPaymentId: optionalFormString,
+    reason: z.nativeEnum(DisputeReason, {
+      errorMap: () => ({ message: 'Reason must be QUANTITY_SHORT, QUALITY, DELIVERY_STATUS, PAYMENT or OTHER' }),
+    }),
+    description: z
+      .string()
+      .trim()
+      .min(1, 'Description is required')
+      .max(2000, 'Description is too long'),
+    claimedQuantity: optionalFormInt,
+    claimedQualityResult: z.preprocess((v) => (v === '' ? undefined : v), qualityResultSchema.optional()),
+  })
+  .refine((data) => !!data.deliveryAssignmentId !== !!data.buyerOrderPaymentId, {
+    message: 'Provide either deliveryAssignmentId or buyerOrderPaymentId',
+    path: ['deliveryAssignmentId'],
+  })
+  .refine(
+    (data) => !data.buyerOrderPaymentId || (data.claimedQuantity === undefined && data.claimedQualityResult === undefined),
+    {
+      message: 'Claimed quantity and quality only apply to delivery disputes',
+      path: ['claimedQuantity'],
+    }
+  );
+
+/** Extra evidence on an open dispute (multipart: evidence files, optional note) */
+export const disputeEvidenceSchema = z.object({
+  note: z.string().trim().max(500, 'Note is too long').optional(),
+});
+
+/**
+ * Admin resolution. Delivery disputes may correct the delivery: delivered (flips DELIVERED/FAILED),
+ * quantityDelivered and qualityResult (null clears it).
+ */
+export const resolveDisputeSchema = z.object({
+  outcome: z.enum(['BUYER', 'FARMER'], {
+    errorMap: () => ({ message: 'Outcome must be BUYER or FARMER' }),
+  }),
+  notes: z
+    .string()
+    .trim()
+    .min(1, 'Resolution notes are required')
+    .max(2000, 'Notes are too long'),
+  delivered: z.boolean().optional(),
+  quantityDelivered: z.number().int().min(0, 'Quantity cannot be negative').optional(),
+  qualityResult: qualityResultSchema.nullable().optional(),
+});
+
+/**
+ * Dispute list filters. Buyers and farmers only see their own; buyerId/farmerId are admin filters.
+ */
+export const disputeFiltersSchema = z.object({
+  status: disputeStatusSchema.optional(),
+  reason: z.nativeEnum(DisputeReason).optional(),
+  farmerId: z.string().min(1).optional(),
+  buyerId: z.string().min(1).optional(),
+  orderId: z.string().min(1).optional(),
+  limit: z.coerce
+    .number()
+    .int()
+    .min(1)
+    .default(50)
+    .transform((value) => Math.min(value, 200)),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export type OpenDisputeInput = z.infer<typeof openDisputeSchema>;
+export type DisputeEvidenceInput = z.infer<typeof disputeEvidenceSchema>;
+export type ResolveDisputeInput = z.infer<typeof resolveDisputeSchema>;
+export type DisputeFiltersInput = z.infer<typeof disputeFiltersSchema>;
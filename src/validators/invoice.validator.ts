@@ -0,0 +1,16 @@
+import { z } from 'zod';
+import { InvoiceStatus } from '@prisma/client';
+
+/**
+ * Invoice list filters (buyer and admin)
+ */
+export const invoiceFiltersSchema = z.object({
+  status: z
+    .nativeEnum(InvoiceStatus, {
+      errorMap: () => ({ message: 'Status must be UNPAID, PARTIALLY_PAID, PAID or OVERDUE' }),
+    })
+    .optional(),
+  buyerId: z.string().min(1).optional(),
+});
+
+export type InvoiceFiltersInput = z.infer<typeof invoiceFiltersSchema>;
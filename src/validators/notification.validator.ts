@@ -0,0 +1,102 @@
+import { z } from 'zod';
+import { NOTIFICATION_TYPES } from '../services/notification.service.js';
+import { DEFAULT_PREFERENCE_TYPE } from '../services/notificationPreference.service.js';
+import { SUPPORTED_LOCALES, isTemplateKey, type TemplateKey } from '../templates/notificationTemplates.js';
+
+const timeOfDaySchema = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Time must be in HH:mm format (24-hour, Ghana time)');
+
+/**
+ * One preference row: a notification type (or DEFAULT for all types without their own settings)
+ */
+export const notificationPreferenceSchema = z
+  .object({
+    type: z.enum([DEFAULT_PREFERENCE_TYPE, ...NOTIFICATION_TYPES]),
+    inApp: z.boolean().optional(),
+    email: z.boolean().optional(),
+    sms: z.boolean().optional(),
+    quietHoursStart: timeOfDaySchema.nullable().optional(),
+    quietHoursEnd: timeOfDaySchema.nullable().optional(),
+  })
+  .refine(
+    (data) => (data.quietHoursStart == null) === (data.quietHoursEnd == null),
+    {
+      message: 'Quiet hours need both a start and an end time',
+      path: ['quietHoursEnd'],
+    }
+  );
+
+/**
+ * Update notification preferences validation schema
+ */
+export const updateNotificationPreferencesSchema = z.object({
+  preferences: z
+    .array(notificationPreferenceSchema)
+    .min(1, 'At least one preference is required')
+    .max(NOTIFICATION_TYPES.length + 1),
+});
+
+const booleanQuerySchema = z.enum(['true', 'false']).transform((value) => value === 'true');
+
+/**
+ * Notification inbox query: ?limit=&cursor=&type=A,B&isRead=&archived=&startDate=&endDate=
+ * `unreadOnly=true` is still accepted as an alias for `isRead=false`.
+ */
+export const listNotificationsQuerySchema = z
+  .object({
+    limit: z.coerce
+      .number()
+      .int()
+      .min(1)
+      .default(50)
+      .transform((value) => Math.min(value, 100)),
+    cursor: z.string().min(1).optional(),
+    type: z
+      .string()
+      .transform((value) => value.split(',').map((type) => type.trim()).filter(Boolean))
+      .pipe(z.array(z.enum(NOTIFICATION_TYPES)))
+      .optional(),
+    isRead: booleanQuerySchema.optional(),
+    unreadOnly: booleanQuerySchema.optional(),
+    archived: booleanQuerySchema.optional(),
+    startDate: z.coerce.date().optional(),
+    endDate: z.coerce.date().optional(),
+  })
+  .refine((data) => !data.startDate || !data.endDate || data.startDate <= data.endDate, {
+    message: 'startDate must be before endDate',
+    path: ['endDate'],
+  })
+  .transform(({ type, unreadOnly, isRead, ...rest }) => ({
+    ...rest,
+    types: type,
+    isRead: unreadOnly ? false : isRead,
+  }));
+
+/**
+ * Body for bulk inbox actions (archive, unarchive, delete)
+ */
+export const notificationIdsSchema = z.object({
+  notificationIds: z.array(z.string().min(1)).min(1, 'At least one notification is required').max(100),
+});
+
+const templateScalarSchema = z.union([z.string().max(1000), z.number()]);
+
+/**
+ * Admin template preview. Variables default to the template's sample values.
+ */
+export const notificationTemplatePreviewSchema = z.object({
+  key: z
+    .string()
+    .refine((key): key is TemplateKey => isTemplateKey(key), { message: 'Unknown notification template' }),
+  locale: z.enum(SUPPORTED_LOCALES).optional(),
+  variables: z
+    .record(z.union([templateScalarSchema, z.array(z.record(templateScalarSchema)).max(50)]))
+    .optional(),
+});
+
+export type NotificationPreferenceInput = z.infer<typeof notificationPreferenceSchema>;
+export type UpdateNotificationPreferencesInput = z.infer<typeof updateNotificationPreferencesSchema>;
+export type ListNotificationsQueryInput = z.infer<typeof listNotificationsQuerySchema>;
+export type NotificationIdsInput = z.infer<typeof notificationIdsSchema>;
+export type NotificationTemplatePreviewInput = z.infer<typeof notificationTemplatePreviewSchema>;
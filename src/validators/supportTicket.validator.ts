@@ -1,5 +1,19 @@
 import { z } from 'zod';
-import { TicketStatus } from '@prisma/client';
+import { TicketCategory, TicketPriority, TicketStatus } from '@prisma/client';
+
+const ticketStatusSchema = z.nativeEnum(TicketStatus, {
+  errorMap: () => ({ message: 'Status must be OPEN, IN_PROGRESS, WAITING_ON_USER, RESOLVED, or CLOSED' }),
+});
+
+const ticketCategorySchema = z.nativeEnum(TicketCategory, {
+  errorMap: () => ({
+    message: 'Category must be PAYMENT_DISPUTE, DELIVERY_ISSUE, ACCOUNT, QUALITY, PERFORMANCE_REVIEW, or OTHER',
+  }),
+});
+
+const ticketPrioritySchema = z.nativeEnum(TicketPriority, {
+  errorMap: () => ({ message: 'Priority must be LOW, NORMAL, HIGH, or URGENT' }),
+});
 
 export const createSupportTicketSchema = z.object({
   subject: z
@@ -12,6 +26,7 @@ export const createSupportTicketSchema = z.object({
     .min(1, 'Message is required')
     .max(2000, 'Message is too long')
     .trim(),
+  category: ticketCategorySchema.optional(),
 });
 
 export const respondToSupportTicketSchema = z.object({
@@ -20,29 +35,33 @@ export const respondToSupportTicketSchema = z.object({
     .min(1, 'Response is required')
     .max(2000, 'Response is too long')
     .trim(),
-  status: z
-    .nativeEnum(TicketStatus, {
-      errorMap: () => ({ message: 'Status must be OPEN, IN_PROGRESS, or RESOLVED' }),
-    })
-    .optional(),
+  status: ticketStatusSchema.optional(),
 });
 
 export const updateSupportTicketSchema = z
   .object({
-    status: z
-      .nativeEnum(TicketStatus, {
-        errorMap: () => ({ message: 'Status must be OPEN, IN_PROGRESS, or RESOLVED' }),
-      })
-      .optional(),
+    status: ticketStatusSchema.optional(),
     adminResponse: z
       .string()
       .max(2000, 'Response is too long')
       .trim()
       .optional(),
+    category: ticketCategorySchema.optional(),
+    priority: ticketPrioritySchema.optional(),
+    /** Admin user ID; null unassigns */
+    assignedToId: z.string().min(1).nullable().optional(),
   })
-  .refine((data) => data.status !== undefined || (data.adminResponse !== undefined && data.adminResponse !== ''), {
-    message: 'At least one of status or adminResponse is required',
-  });
+  .refine(
+    (data) =>
+      data.status !== undefined ||
+      (data.adminResponse !== undefined && data.adminResponse !== '') ||
+      data.category !== undefined ||
+      data.priority !== undefined ||
+      data.assignedToId !== undefined,
+    {
+      message: 'At least one of status, adminResponse, category, priority or assignedToId is required',
+    }
+  );
 
 export const createSupportTicketByAdminSchema = z.object({
   userId: z.string().min(1, 'User ID is required'),
@@ -56,6 +75,21 @@ export const createSupportTicketByAdminSchema = z.object({
     .min(1, 'Message is required')
     .max(2000, 'Message is too long')
     .trim(),
+  category: ticketCategorySchema.optional(),
+  priority: ticketPrioritySchema.optional(),
+  assignedToId: z.string().min(1).optional(),
+});
+
+/**
+ * Admin ticket queue: ?status=&category=&priority=&assignedTo=me|unassigned|<adminId>&sort=createdAt|breachRisk&limit=
+ */
+export const supportTicketQueueQuerySchema = z.object({
+  status: ticketStatusSchema.optional(),
+  category: ticketCategorySchema.optional(),
+  priority: ticketPrioritySchema.optional(),
+  assignedTo: z.string().min(1).optional(),
+  sort: z.enum(['createdAt', 'breachRisk']).default('createdAt'),
+  limit: z.coerce.number().int().min(1).optional(),
 });
 
 /** Buyer update own ticket (subject and/or message). At least one required. */
@@ -78,8 +112,28 @@ export const updateSupportTicketByBuyerSchema = z
     message: 'At least one of subject or message is required',
   });
 
+/** Reply from the ticket owner (multipart form field "body") */
+export const ticketMessageSchema = z.object({
+  body: z
+    .string()
+    .trim()
+    .min(1, 'Message is required')
+    .max(2000, 'Message is too long'),
+});
+
+/** Admin reply or internal note (multipart form: isInternal arrives as "true"/"false") */
+export const adminTicketMessageSchema = ticketMessageSchema.extend({
+  isInternal: z
+    .preprocess((v) => (v === 'true' ? true : v === 'false' ? false : v), z.boolean())
+    .optional(),
+  status: ticketStatusSchema.optional(),
+});
+
 export type CreateSupportTicketInput = z.infer<typeof createSupportTicketSchema>;
 export type RespondToSupportTicketInput = z.infer<typeof respondToSupportTicketSchema>;
 export type UpdateSupportTicketInput = z.infer<typeof updateSupportTicketSchema>;
 export type CreateSupportTicketByAdminInput = z.infer<typeof createSupportTicketByAdminSchema>;
+export type SupportTicketQueueQueryInput = z.infer<typeof supportTicketQueueQuerySchema>;
 export type UpdateSupportTicketByBuyerInput = z.infer<typeof updateSupportTicketByBuyerSchema>;
+export type TicketMessageInput = z.infer<typeof ticketMessageSchema>;
+export type AdminTicketMessageInput = z.infer<typeof adminTicketMessageSchema>;
@@ -0,0 +1,113 @@
+/**
+ * In-memory stand-in for the Prisma client models a test touches. Supports the subset of
+ * where filters and update operators the services use (equality, null, gt/gte/lt/lte, not, in,
+ * OR, { increment }). Relations are not resolved: `include` is ignored, so rows carry any nested
+ * records a test needs. Not a general Prisma emulator.
+ */
+type Row = Record<string, unknown>;
+type Where = Record<string, unknown>;
+
+function isOperatorObject(value: unknown): value is Record<string, unknown> {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !(value instanceof Date) &&
+    Object.keys(value).some((k) => ['gt', 'gte', 'lt', 'lte', 'not', 'in'].includes(k))
+  );
+}
+
+function compare(a: unknown, b: unknown): number {
+  const x = a instanceof Date ? a.getTime() : (a as number);
+  const y = b instanceof Date ? b.getTime() : (b as number);
+  return x - y;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime();
+  return (a ?? null) === (b ?? null);
+}
+
+function matches(row: Row, where: Where = {}): boolean {
+  return Object.entries(where).every(([key, condition]) => {
+    if (key === 'OR') return (condition as Where[]).some((w) => matches(row, w));
+    const value = row[key];
+    if (isOperatorObject(condition)) {
+      const c = condition;
+      if ('gt' in c && !(value != null && compare(value, c.gt) > 0)) return false;
+      if ('gte' in c && !(value != null && compare(value, c.gte) >= 0)) return false;
+      if ('lt' in c && !(value != null && compare(value, c.lt) < 0)) return false;
+      if ('lte' in c && !(value != null && compare(value, c.lte) <= 0)) return false;
+      if ('not' in c && sameValue(value, c.not)) return false;
+      if ('in' in c && !(c.in as unknown[]).some((v) => sameValue(value, v))) return false;
+      return true;
+    }
+    return sameValue(value, condition);
+  });
+}
+
+function applyData(row: Row, data: Row): Row {
+  for (const [key, value] of Object.entries(data)) {
+    if (typeof value === 'object' && value !== null && 'increment' in value) {
+      row[key] = ((row[key] as number) ?? 0) + (value as { increment: number }).increment;
+    } else if (value !== undefined) {
+      row[key] = value;
+    }
+  }
+  return row;
+}
+
+let nextId = 1;
+
+export function createFakeModel(defaults: () => Row = () => ({})) {
+  const rows: Row[] = [];
+  const sortRows = (list: Row[], orderBy?: Record<string, 'asc' | 'desc'>) => {
+    if (!orderBy) return list;
+    const [[field, direction]] = Object.entries(orderBy);
+    return [...list].sort((a, b) => compare(a[field], b[field]) * (direction === 'desc' ? -1 : 1));
+  };
+
+  return {
+    rows,
+    async create({ data }: { data: Row }) {
+      const now = new Date();
+      const row = applyData({ id: `id_${nextId++}`, createdAt: now, updatedAt: now, ...defaults() }, data);
+      rows.push(row);
+      return { ...row };
+    },
+    async count({ where }: { where?: Where } = {}) {
+      return rows.filter((r) => matches(r, where)).length;
+    },
+    async findFirst({ where, orderBy }: { where?: Where; orderBy?: Record<string, 'asc' | 'desc'> } = {}) {
+      const found = sortRows(rows.filter((r) => matches(r, where)), orderBy)[0];
+      return found ? { ...found } : null;
+    },
+    async findMany({ where, orderBy }: { where?: Where; orderBy?: Record<string, 'asc' | 'desc'> } = {}) {
+      return sortRows(rows.filter((r) => matches(r, where)), orderBy).map((r) => ({ ...r }));
+    },
+    async findUnique({ where }: { where: Where }) {
+      const found = rows.find((r) => matches(r, where));
+      return found ? { ...found } : null;
+    },
+    async findUniqueOrThrow({ where }: { where: Where }) {
+      const found = rows.find((r) => matches(r, where));
+      if (!found) throw new Error('Record not found');
+      return { ...found };
+    },
+    async update({ where, data }: { where: Where; data: Row }) {
+      const found = rows.find((r) => matches(r, where));
+      if (!found) throw new Error('Record to update not found');
+      return { ...applyData(found, { ...data, updatedAt: new Date() }) };
+    },
+    async updateMany({ where, data }: { where?: Where; data: Row }) {
+      const found = rows.filter((r) => matches(r, where));
+      found.forEach((r) => applyData(r, { ...data, updatedAt: new Date() }));
+      return { count: found.length };
+    },
+    async deleteMany({ where }: { where?: Where } = {}) {
+      const keep = rows.filter((r) => !matches(r, where));
+      const count = rows.length - keep.length;
+      rows.splice(0, rows.length, ...keep);
+      return { count };
+    },
+  };
+}
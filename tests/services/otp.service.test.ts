@@ -0,0 +1,218 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { SmsMessage } from '../../src/providers/types.js';
+import { createFakeModel } from '../helpers/fakePrisma.js';
+
+const { db, sentSms } = vi.hoisted(() => ({
+  db: {} as Record<string, ReturnType<typeof createFakeModel>>,
+  sentSms: [] as SmsMessage[],
+}));
+
+vi.mock('../../src/config/database.js', () => ({ prisma: db }));
+
+// Stubbed SMS sender: records messages instead of calling Twilio
+vi.mock('../../src/providers/sms.provider.js', () => ({
+  getSmsProvider: () => ({
+    name: 'stub',
+    async send(message: SmsMessage) {
+      sentSms.push(message);
+      return { messageId: `sms_${sentSms.length}`, response: 'queued' };
+    },
+  }),
+}));
+
+const { requestPhoneOtp, verifyPhoneOtp } = await import('../../src/services/otp.service.js');
+
+const PHONE = '+233241234567';
+const IP = '10.0.0.1';
+
+/** Code from the last SMS sent to a number (the outbox sends it without being awaited) */
+async function lastCodeSentTo(phone: string): Promise<string> {
+  await vi.waitFor(() => expect(sentSms.some((m) => m.to === phone)).toBe(true));
+  const message = sentSms.filter((m) => m.to === phone).at(-1)!;
+  return message.body.match(/\b(\d{6})\b/)![1];
+}
+
+function advanceMinutes(minutes: number) {
+  vi.setSystemTime(new Date(Date.now() + minutes * 60 * 1000));
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(new Date('2026-10-19T09:00:00Z'));
+  db.phoneOtp = createFakeModel(() => ({ attempts: 0, consumedAt: null, ipAddress: null }));
+  db.user = createFakeModel();
+  db.notificationDelivery = createFakeModel(() => ({
+    status: 'PENDING',
+    attempts: 0,
+    maxAttempts: 5,
+    nextAttemptAt: new Date(),
+    lastAttemptAt: null,
+  }));
+  sentSms.length = 0;
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('requestPhoneOtp', () => {
+  it('sends the code by SMS through the outbox and stores only its hash', async () => {
+    const { code, expiresAt } = await requestPhoneOtp(PHONE, 'VERIFY_PHONE', IP);
+
+    expect(expiresAt.getTime() - Date.now()).toBe(5 * 60 * 1000);
+    expect(await lastCodeSentTo(PHONE)).toBe(code);
+    expect(db.phoneOtp.rows).toHaveLength(1);
+    expect(db.phoneOtp.rows[0].codeHash).not.toBe(code);
+    expect(db.notificationDelivery.rows[0]).toMatchObject({ channel: 'SMS', recipient: PHONE, sensitive: true });
+  });
+
+  it('clears the code from the outbox once the SMS is sent', async () => {
+    const { code } = await requestPhoneOtp(PHONE, 'VERIFY_PHONE', IP);
+
+    await lastCodeSentTo(PHONE);
+    await vi.waitFor(() => expect(db.notificationDelivery.rows[0].status).toBe('SENT'));
+    expect(db.notificationDelivery.rows[0].body).toBe('[redacted]');
+    expect(JSON.stringify(db.notificationDelivery.rows)).not.toContain(code);
+  });
+
+  it('normalizes the phone number', async () => {
+    await requestPhoneOtp('+233 24 123 4567', 'VERIFY_PHONE', IP);
+    await lastCodeSentTo(PHONE);
+  });
+
+  it('rejects an invalid phone number', async () => {
+    await expect(requestPhoneOtp('12345', 'VERIFY_PHONE', IP)).rejects.toMatchObject({
+      statusCode: 400,
+      code: 'INVALID_PHONE',
+    });
+  });
+
+  it('records but does not send LOGIN codes for numbers without a farmer account', async () => {
+    const { code } = await requestPhoneOtp(PHONE, 'LOGIN', IP);
+
+    expect(code).toBeNull();
+    expect(db.phoneOtp.rows).toHaveLength(1);
+    expect(db.notificationDelivery.rows).toHaveLength(0);
+    expect(sentSms).toHaveLength(0);
+  });
+
+  it('sends LOGIN codes to registered farmers', async () => {
+    await db.user.create({ data: { phone: PHONE, role: 'FARMER' } });
+
+    const { code } = await requestPhoneOtp(PHONE, 'LOGIN', IP);
+
+    expect(await lastCodeSentTo(PHONE)).toBe(code);
+  });
+
+  it('voids the previous code when a new one is requested', async () => {
+    const first = await requestPhoneOtp(PHONE, 'VERIFY_PHONE', IP);
+    const second = await requestPhoneOtp(PHONE, 'VERIFY_PHONE', IP);
+
+    await expect(verifyPhoneOtp(PHONE, first.code!, 'VERIFY_PHONE')).rejects.toMatchObject({
+      code: 'INVALID_CODE',
+    });
+    await expect(verifyPhoneOtp(PHONE, second.code!, 'VERIFY_PHONE')).resolves.toBe(PHONE);
+  });
+});
+
+describe('verifyPhoneOtp', () => {
+  it('accepts the code once and returns the E.164 number', async () => {
+    const { code } = await requestPhoneOtp(PHONE, 'VERIFY_PHONE', IP);
+
+    await expect(verifyPhoneOtp('+233 24 123 4567', code!, 'VERIFY_PHONE')).resolves.toBe(PHONE);
+    await expect(verifyPhoneOtp(PHONE, code!, 'VERIFY_PHONE')).rejects.toMatchObject({
+      code: 'INVALID_CODE',
+    });
+  });
+
+  it('does not accept a code issued for another purpose', async () => {
+    const { code } = await requestPhoneOtp(PHONE, 'VERIFY_PHONE', IP);
+
+    await expect(verifyPhoneOtp(PHONE, code!, 'LOGIN')).rejects.toMatchObject({ code: 'INVALID_CODE' });
+  });
+
+  it('counts wrong guesses and voids the code after five', async () => {
+    const { code } = await requestPhoneOtp(PHONE, 'VERIFY_PHONE', IP);
+    const wrong = code === '000000' ? '111111' : '000000';
+
+    for (let remaining = 4; remaining > 0; remaining--) {
+      await expect(verifyPhoneOtp(PHONE, wrong, 'VERIFY_PHONE')).rejects.toMatchObject({
+        code: 'INVALID_CODE',
+        message: `Incorrect code. ${remaining} attempt${remaining === 1 ? '' : 's'} remaining.`,
+      });
+    }
+    await expect(verifyPhoneOtp(PHONE, wrong, 'VERIFY_PHONE')).rejects.toMatchObject({
+      code: 'TOO_MANY_ATTEMPTS',
+    });
+    await expect(verifyPhoneOtp(PHONE, code!, 'VERIFY_PHONE')).rejects.toMatchObject({
+      code: 'INVALID_CODE',
+    });
+  });
+
+  describe('expiry', () => {
+    it('accepts a code just before it expires', async () => {
+      const { code } = await requestPhoneOtp(PHONE, 'VERIFY_PHONE', IP);
+      advanceMinutes(4.9);
+
+      await expect(verifyPhoneOtp(PHONE, code!, 'VERIFY_PHONE')).resolves.toBe(PHONE);
+    });
+
+    it('rejects a code after five minutes', async () => {
+      const { code } = await requestPhoneOtp(PHONE, 'VERIFY_PHONE', IP);
+      advanceMinutes(5);
+
+      await expect(verifyPhoneOtp(PHONE, code!, 'VERIFY_PHONE')).rejects.toMatchObject({
+        statusCode: 400,
+        code: 'INVALID_CODE',
+      });
+    });
+  });
+});
+
+describe('rate limits', () => {
+  it('allows three codes per phone number in 15 minutes', async () => {
+    for (let i = 0; i < 3; i++) {
+      await requestPhoneOtp(PHONE, 'VERIFY_PHONE', `10.0.1.${i}`);
+    }
+
+    await expect(requestPhoneOtp(PHONE, 'VERIFY_PHONE', '10.0.1.9')).rejects.toMatchObject({
+      statusCode: 429,
+      code: 'RATE_LIMITED',
+    });
+
+    advanceMinutes(15.1);
+    await expect(requestPhoneOtp(PHONE, 'VERIFY_PHONE', '10.0.1.9')).resolves.toHaveProperty('code');
+  });
+
+  it('counts requests that were recorded but not sent', async () => {
+    for (let i = 0; i < 3; i++) {
+      await requestPhoneOtp(PHONE, 'LOGIN', IP);
+    }
+
+    await expect(requestPhoneOtp(PHONE, 'LOGIN', IP)).rejects.toMatchObject({ code: 'RATE_LIMITED' });
+    expect(sentSms).toHaveLength(0);
+  });
+
+  it('allows ten codes per IP address in an hour, across phone numbers', async () => {
+    for (let i = 0; i < 10; i++) {
+      await requestPhoneOtp(`+2332412345${String(i).padStart(2, '0')}`, 'VERIFY_PHONE', IP);
+    }
+
+    await expect(requestPhoneOtp('+233241234599', 'VERIFY_PHONE', IP)).rejects.toMatchObject({
+      statusCode: 429,
+      code: 'RATE_LIMITED',
+    });
+    // Other addresses are not affected
+    await expect(requestPhoneOtp('+233241234599', 'VERIFY_PHONE', '10.0.0.2')).resolves.toHaveProperty('code');
+
+    advanceMinutes(60.1);
+    await expect(requestPhoneOtp('+233241234598', 'VERIFY_PHONE', IP)).resolves.toHaveProperty('code');
+  });
+
+  it('does not apply the IP limit when the address is unknown', async () => {
+    for (let i = 0; i < 11; i++) {
+      await requestPhoneOtp(`+2332412345${String(i).padStart(2, '0')}`, 'VERIFY_PHONE');
+    }
+    expect(db.phoneOtp.rows).toHaveLength(11);
+  });
+});
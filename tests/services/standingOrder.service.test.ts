@@ -0,0 +1,204 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { StandingOrderRecurrence } from '@prisma/client';
+import { createFakeModel } from '../helpers/fakePrisma.js';
+
+const { db, notified } = vi.hoisted(() => ({
+  db: {} as Record<string, ReturnType<typeof createFakeModel>>,
+  notified: [] as { userId: string; key: string }[],
+}));
+
+vi.mock('../../src/config/database.js', () => ({ prisma: db }));
+
+vi.mock('../../src/services/notificationDelivery.service.js', () => ({
+  notifyUserTemplate: async (userId: string, key: string) => {
+    notified.push({ userId, key });
+  },
+}));
+
+const { generateOrdersFromStandingOrders, getNextDeliveryDate } = await import(
+  '../../src/services/standingOrder.service.js'
+);
+
+function day(iso: string): Date {
+  return new Date(`${iso}T00:00:00Z`);
+}
+
+function days(dates: Date[]): string[] {
+  return dates.map((d) => d.toISOString().slice(0, 10));
+}
+
+let nextStandingOrder = 1;
+
+/** Active standing order of an active buyer; the rule defaults to every Monday */
+async function addStandingOrder(overrides: Record<string, unknown> = {}) {
+  const n = nextStandingOrder++;
+  return db.standingOrder.create({
+    data: {
+      buyerId: `buyer_${n}`,
+      buyer: { userId: `user_${n}`, user: { status: 'ACTIVE' } },
+      productType: 'Tomatoes',
+      quantity: 20,
+      deliveryAddressId: null,
+      notes: null,
+      isActive: true,
+      recurrenceType: StandingOrderRecurrence.WEEKLY,
+      interval: 1,
+      preferredDeliveryDayOfWeek: 1,
+      daysOfWeek: [],
+      weekOfMonth: null,
+      dayOfMonth: null,
+      startDate: day('2026-01-01'),
+      endDate: null,
+      skipDates: [],
+      quantityOverrides: null,
+      holidayHandling: 'SKIP',
+      pauses: [],
+      ...overrides,
+    },
+  });
+}
+
+function generatedFor(standingOrderId: string) {
+  const orders = db.order.rows.filter((o) => o.standingOrderId === standingOrderId);
+  return orders.map((o) => ({
+    date: (o.deliveryDate as Date).toISOString().slice(0, 10),
+    quantity: o.quantity,
+  }));
+}
+
+beforeEach(() => {
+  vi.useFakeTimers({ toFake: ['Date'] });
+  vi.setSystemTime(new Date('2026-10-19T06:00:00Z')); // Monday
+  db.standingOrder = createFakeModel();
+  db.order = createFakeModel();
+  db.publicHoliday = createFakeModel();
+  notified.length = 0;
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('getNextDeliveryDate', () => {
+  it('finds the next day of each rule type', async () => {
+    const weekly = await addStandingOrder({ daysOfWeek: [2, 5] });
+    const nthWeekday = await addStandingOrder({
+      recurrenceType: StandingOrderRecurrence.MONTHLY_NTH_WEEKDAY,
+      preferredDeliveryDayOfWeek: 1,
+      weekOfMonth: 1,
+    });
+    const monthDay = await addStandingOrder({
+      recurrenceType: StandingOrderRecurrence.MONTHLY_DAY,
+      dayOfMonth: 31,
+    });
+
+    const from = day('2026-10-24');
+    expect(getNextDeliveryDate(weekly as never, from)).toEqual(day('2026-10-27'));
+    expect(getNextDeliveryDate(nthWeekday as never, from)).toEqual(day('2026-11-02'));
+    expect(getNextDeliveryDate(monthDay as never, from)).toEqual(day('2026-10-31'));
+    expect(getNextDeliveryDate(monthDay as never, day('2026-11-01'))).toEqual(day('2026-11-30'));
+  });
+});
+
+describe('generateOrdersFromStandingOrders', () => {
+  it('creates one order per delivery day in the coming week, with quantity overrides', async () => {
+    const so = await addStandingOrder({
+      daysOfWeek: [1, 4],
+      quantityOverrides: { '2026-10-22': 35 },
+    });
+
+    const { created } = await generateOrdersFromStandingOrders();
+
+    expect(created).toBe(2);
+    expect(generatedFor(so.id as string)).toEqual([
+      { date: '2026-10-19', quantity: 20 },
+      { date: '2026-10-22', quantity: 35 },
+    ]);
+    expect(db.order.rows[1]).toMatchObject({
+      orderType: 'STANDING',
+      status: 'PENDING',
+      lines: { create: [{ productType: 'Tomatoes', quantity: 35 }] },
+    });
+    const { userId } = so.buyer as { userId: string };
+    expect(notified).toEqual([
+      { userId, key: 'STANDING_ORDER_GENERATED' },
+      { userId, key: 'STANDING_ORDER_GENERATED' },
+    ]);
+  });
+
+  it('does not reach the same weekday a week ahead', async () => {
+    const so = await addStandingOrder();
+
+    await generateOrdersFromStandingOrders();
+
+    expect(generatedFor(so.id as string)).toEqual([{ date: '2026-10-19', quantity: 20 }]);
+  });
+
+  it('creates at most one order per day when re-run', async () => {
+    const so = await addStandingOrder({ daysOfWeek: [1, 4] });
+    await db.order.create({ data: { standingOrderId: so.id, deliveryDate: day('2026-10-22'), quantity: 20 } });
+
+    const first = await generateOrdersFromStandingOrders();
+    const second = await generateOrdersFromStandingOrders();
+
+    expect(first.created).toBe(1);
+    expect(second.created).toBe(0);
+    expect(days(db.order.rows.map((o) => o.deliveryDate as Date)).sort()).toEqual(['2026-10-19', '2026-10-22']);
+  });
+
+  it('generates each rule type across a month boundary', async () => {
+    vi.setSystemTime(new Date('2026-10-28T06:00:00Z')); // Wednesday; the week runs to Nov 3
+    const weekly = await addStandingOrder({ daysOfWeek: [2] });
+    const lastFriday = await addStandingOrder({
+      recurrenceType: StandingOrderRecurrence.MONTHLY_NTH_WEEKDAY,
+      preferredDeliveryDayOfWeek: 5,
+      weekOfMonth: -1,
+    });
+    const firstMonday = await addStandingOrder({
+      recurrenceType: StandingOrderRecurrence.MONTHLY_NTH_WEEKDAY,
+      preferredDeliveryDayOfWeek: 1,
+      weekOfMonth: 1,
+    });
+    const monthEnd = await addStandingOrder({
+      recurrenceType: StandingOrderRecurrence.MONTHLY_DAY,
+      dayOfMonth: 31,
+    });
+
+    await generateOrdersFromStandingOrders();
+
+    expect(generatedFor(weekly.id as string).map((o) => o.date)).toEqual(['2026-11-03']);
+    expect(generatedFor(lastFriday.id as string).map((o) => o.date)).toEqual(['2026-10-30']);
+    expect(generatedFor(firstMonday.id as string).map((o) => o.date)).toEqual(['2026-11-02']);
+    expect(generatedFor(monthEnd.id as string).map((o) => o.date)).toEqual(['2026-10-31']);
+  });
+
+  it('skips off-weeks of a fortnightly rule', async () => {
+    const onWeek = await addStandingOrder({ interval: 2, startDate: day('2026-10-05') });
+    const offWeek = await addStandingOrder({ interval: 2, startDate: day('2026-10-12') });
+
+    await generateOrdersFromStandingOrders();
+
+    expect(generatedFor(onWeek.id as string).map((o) => o.date)).toEqual(['2026-10-19']);
+    expect(generatedFor(offWeek.id as string)).toEqual([]);
+  });
+
+  it('drops skip dates and paused days', async () => {
+    const so = await addStandingOrder({
+      daysOfWeek: [1, 3, 5],
+      skipDates: ['2026-10-19'],
+      pauses: [{ startDate: day('2026-10-23'), endDate: day('2026-10-30') }],
+    });
+
+    await generateOrdersFromStandingOrders();
+
+    expect(generatedFor(so.id as string).map((o) => o.date)).toEqual(['2026-10-21']);
+  });
+
+  it('ignores standing orders of buyers who are not active', async () => {
+    await addStandingOrder({ buyer: { userId: 'user_x', user: { status: 'SUSPENDED' } } });
+
+    const { created } = await generateOrdersFromStandingOrders();
+
+    expect(created).toBe(0);
+  });
+});
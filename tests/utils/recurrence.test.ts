@@ -0,0 +1,159 @@
+import { describe, expect, it } from 'vitest';
+import { StandingOrderRecurrence } from '@prisma/client';
+import {
+  nextOccurrence,
+  occurrencesBetween,
+  occursOn,
+  type RecurrenceRule,
+} from '../../src/utils/recurrence.js';
+
+function day(iso: string): Date {
+  return new Date(`${iso}T00:00:00Z`);
+}
+
+function days(dates: Date[]): string[] {
+  return dates.map((d) => d.toISOString().slice(0, 10));
+}
+
+function rule(overrides: Partial<RecurrenceRule>): RecurrenceRule {
+  return {
+    recurrenceType: StandingOrderRecurrence.WEEKLY,
+    interval: 1,
+    preferredDeliveryDayOfWeek: 1,
+    daysOfWeek: [],
+    weekOfMonth: null,
+    dayOfMonth: null,
+    startDate: day('2026-01-01'),
+    endDate: null,
+    ...overrides,
+  };
+}
+
+describe('MONTHLY_DAY on the 31st', () => {
+  const monthEnd = rule({
+    recurrenceType: StandingOrderRecurrence.MONTHLY_DAY,
+    dayOfMonth: 31,
+    startDate: day('2026-01-31'),
+  });
+
+  it('falls on the last day of February', () => {
+    expect(occursOn(monthEnd, day('2026-02-28'))).toBe(true);
+    expect(nextOccurrence(monthEnd, day('2026-02-01'))).toEqual(day('2026-02-28'));
+  });
+
+  it('falls on February 29 in a leap year', () => {
+    const leap = { ...monthEnd, startDate: day('2028-01-31') };
+    expect(occursOn(leap, day('2028-02-28'))).toBe(false);
+    expect(occursOn(leap, day('2028-02-29'))).toBe(true);
+  });
+
+  it('falls on the 30th in 30-day months', () => {
+    expect(occursOn(monthEnd, day('2026-04-30'))).toBe(true);
+    expect(occursOn(monthEnd, day('2026-05-01'))).toBe(false);
+    expect(days(occurrencesBetween(monthEnd, day('2026-01-01'), day('2026-07-01')))).toEqual([
+      '2026-01-31',
+      '2026-02-28',
+      '2026-03-31',
+      '2026-04-30',
+      '2026-05-31',
+      '2026-06-30',
+    ]);
+  });
+});
+
+describe('MONTHLY_NTH_WEEKDAY in the last week (weekOfMonth -1)', () => {
+  const lastFriday = rule({
+    recurrenceType: StandingOrderRecurrence.MONTHLY_NTH_WEEKDAY,
+    preferredDeliveryDayOfWeek: 5,
+    weekOfMonth: -1,
+    startDate: day('2026-10-01'),
+  });
+
+  it('picks the fifth weekday when the month has five', () => {
+    expect(occursOn(lastFriday, day('2026-10-23'))).toBe(false);
+    expect(occursOn(lastFriday, day('2026-10-30'))).toBe(true);
+  });
+
+  it('picks the fourth weekday when the month has four', () => {
+    expect(nextOccurrence(lastFriday, day('2026-10-31'))).toEqual(day('2026-11-27'));
+  });
+
+  it('lists the last Friday of each month', () => {
+    expect(days(occurrencesBetween(lastFriday, day('2026-10-01'), day('2027-02-01')))).toEqual([
+      '2026-10-30',
+      '2026-11-27',
+      '2026-12-25',
+      '2027-01-29',
+    ]);
+  });
+});
+
+describe('interval across a year boundary', () => {
+  it('counts months from the start date for MONTHLY_DAY', () => {
+    const quarterly = rule({
+      recurrenceType: StandingOrderRecurrence.MONTHLY_DAY,
+      interval: 3,
+      dayOfMonth: 15,
+      startDate: day('2026-11-15'),
+    });
+
+    expect(occursOn(quarterly, day('2026-12-15'))).toBe(false);
+    expect(occursOn(quarterly, day('2027-01-15'))).toBe(false);
+    expect(nextOccurrence(quarterly, day('2026-11-16'))).toEqual(day('2027-02-15'));
+    expect(days(occurrencesBetween(quarterly, day('2026-11-01'), day('2027-06-01')))).toEqual([
+      '2026-11-15',
+      '2027-02-15',
+      '2027-05-15',
+    ]);
+  });
+
+  it('counts weeks from the start date for WEEKLY', () => {
+    const fortnightly = rule({ interval: 2, daysOfWeek: [1, 4], startDate: day('2026-12-21') });
+
+    expect(days(occurrencesBetween(fortnightly, day('2026-12-01'), day('2027-01-15')))).toEqual([
+      '2026-12-21',
+      '2026-12-24',
+      '2027-01-04',
+      '2027-01-07',
+    ]);
+  });
+});
+
+describe('WEEKLY on several days every other week', () => {
+  const mondayThursday = rule({ interval: 2, daysOfWeek: [1, 4], startDate: day('2026-10-19') });
+
+  it('delivers on each listed day in on-weeks only', () => {
+    expect(occursOn(mondayThursday, day('2026-10-19'))).toBe(true);
+    expect(occursOn(mondayThursday, day('2026-10-21'))).toBe(false);
+    expect(occursOn(mondayThursday, day('2026-10-22'))).toBe(true);
+    expect(occursOn(mondayThursday, day('2026-10-26'))).toBe(false);
+    expect(occursOn(mondayThursday, day('2026-10-29'))).toBe(false);
+    expect(occursOn(mondayThursday, day('2026-11-02'))).toBe(true);
+  });
+
+  it('skips the off-week when finding the next delivery', () => {
+    expect(nextOccurrence(mondayThursday, day('2026-10-23'))).toEqual(day('2026-11-02'));
+  });
+
+  it('counts weeks from the week of the start date, not the start day', () => {
+    const midWeek = { ...mondayThursday, startDate: day('2026-10-21') };
+
+    expect(occursOn(midWeek, day('2026-10-19'))).toBe(false);
+    expect(days(occurrencesBetween(midWeek, day('2026-10-01'), day('2026-11-10')))).toEqual([
+      '2026-10-22',
+      '2026-11-02',
+      '2026-11-05',
+    ]);
+  });
+
+  it('stops at the end date', () => {
+    const ending = { ...mondayThursday, endDate: day('2026-11-02') };
+
+    expect(days(occurrencesBetween(ending, day('2026-10-01'), day('2026-12-01')))).toEqual([
+      '2026-10-19',
+      '2026-10-22',
+      '2026-11-02',
+    ]);
+    expect(nextOccurrence(ending, day('2026-11-03'))).toBeNull();
+  });
+});